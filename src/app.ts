@@ -14,21 +14,76 @@
  * @see {@link server.ts} for application startup
  */
 
-import Fastify from "fastify";
+import Fastify, { FastifyInstance } from "fastify";
 import cors from "@fastify/cors";
+import cookie from "@fastify/cookie";
+import fastifyEnv from "@fastify/env";
 import { healthRoutes } from "./routes/health.routes";
+import { jwksRoutes } from "./routes/jwks.routes";
+import auditPlugin from "./plugins/audit.plugin";
+import errorHandlerPlugin from "./plugins/error-handler.plugin";
 import jwtPlugin from "./plugins/jwt.plugin";
+import authGuardPlugin from "./plugins/auth-guard.plugin";
+import openapiPlugin from "./plugins/openapi.plugin";
+import storesPlugin from "./plugins/stores.plugin";
+import mailerPlugin from "./plugins/mailer.plugin";
+import authPlugin from "./plugins/auth.plugin";
+import oauthPlugin from "./plugins/oauth.plugin";
 import { authRoutes } from "./modules/auth/auth.routes";
+import { adminRoutes } from "./modules/admin/admin.routes";
+import { oauthRoutes } from "./modules/oauth/oauth.routes";
+import { ITokenStore } from "./modules/auth/token.store";
+import { ILoginAttemptStore } from "./modules/auth/login-attempt.store";
+import { IRevokedTokenStore } from "./modules/auth/revoked-token.store";
+import { Mailer } from "./modules/mail/mailer";
+import { AuditLog } from "./modules/audit/audit-log";
 import { API_PREFIX } from './config/api.constants';
+import { DEV_JWT_SECRET, envSchema, parseCorsOrigin, validateConfig } from "./config/env";
+
+/**
+ * Options for buildApp
+ *
+ * Every option is optional; omitted dependencies are created from
+ * configuration (app.config). Passing them explicitly is useful in tests
+ * (e.g. sharing one store between two app instances).
+ *
+ * @interface BuildAppOptions
+ * @property {ITokenStore} [tokenStore] - Refresh token backend (default: from TOKEN_STORE)
+ * @property {ILoginAttemptStore} [loginAttemptStore] - Failed-login counters (default: from LOGIN_ATTEMPT_STORE)
+ * @property {IRevokedTokenStore} [revokedTokenStore] - Access token denylist (default: from REVOKED_TOKEN_STORE)
+ * @property {Mailer} [mailer] - Outgoing mail transport (default: from MAIL_TRANSPORT)
+ * @property {AuditLog} [auditLog] - Security audit log (default: sinks from AUDIT_SINKS)
+ */
+export interface BuildAppOptions {
+  tokenStore?: ITokenStore;
+  loginAttemptStore?: ILoginAttemptStore;
+  revokedTokenStore?: IRevokedTokenStore;
+  mailer?: Mailer;
+  auditLog?: AuditLog;
+}
 
 /**
  * Factory function to build and configure the Fastify application
  *
  * This function creates a new Fastify instance and configures it with:
- * 1. Logging - for debugging and monitoring
- * 2. CORS - for handling cross-origin requests
- * 3. JWT Plugin - for secure token-based authentication
- * 4. Routes - health check and authentication endpoints
+ * 1. Configuration - validated environment variables (app.config)
+ * 2. Logging - for debugging and monitoring (level from LOG_LEVEL)
+ * 3. CORS - for handling cross-origin requests
+ * 4. Cookies - request cookie parsing and Set-Cookie (refresh token cookie transport)
+ * 5. Error handling - RFC 7807 problem+json with stable error codes
+ * 6. Audit log - security audit events (sinks from AUDIT_SINKS)
+ * 7. JWT Plugin - for secure token-based authentication
+ * 8. Auth Guard - authenticates every non-public route
+ * 9. OpenAPI - API description and Swagger UI built from the routes below
+ * 10. Stores - refresh token and login attempt backends
+ * 11. Mailer - outgoing mail transport (password reset emails)
+ * 12. Auth services - user repository and AuthService shared by route modules
+ * 13. OAuth clients - registered OAuth 2.0 clients and authorization codes
+ * 14. Routes - health check, authentication, OAuth and admin endpoints
+ *
+ * Plugins load asynchronously: app.config (and everything built from it)
+ * is available once `await app.ready()` resolves. Invalid configuration
+ * makes ready() reject.
  *
  * Architecture Pattern:
  * - Creates a fresh app instance each time (useful for testing)
@@ -36,41 +91,125 @@ import { API_PREFIX } from './config/api.constants';
  * - Registers routes after plugins are loaded
  *
  * @function buildApp
+ * @param {BuildAppOptions} [options] - Optional injected dependencies
  * @returns {FastifyInstance} Configured Fastify application instance
  *
  * @example
  * // Server startup
  * const app = buildApp();
- * await app.listen({ port: 3000, host: "0.0.0.0" });
+ * await app.ready();
+ * await app.listen({ port: app.config.PORT, host: app.config.HOST });
  *
  * @example
  * // Testing
- * const testApp = buildApp();
+ * const testApp = buildApp({ tokenStore: new InMemoryTokenStore() });
  * const response = await testApp.inject({ method: 'GET', url: '/health' });
  */
-export function buildApp() {
+export function buildApp(options: BuildAppOptions = {}) {
   // Initialize Fastify with logging enabled
   // Logger helps track requests and errors in development and production
+  // The level is adjusted from LOG_LEVEL once configuration is loaded
   const app = Fastify({
     logger: true,
   });
 
+  /**
+   * Load and Validate Configuration
+   *
+   * @fastify/env validates process.env (plus an optional .env file)
+   * against envSchema and decorates the result as app.config.
+   *
+   * Then, before anything else loads:
+   * - Apply LOG_LEVEL
+   * - Fail fast on unsafe settings (e.g. weak JWT_SECRET in production)
+   * - Warn when the development JWT secret is in use
+   * - Warn when production mail isn't actually sent (MAIL_TRANSPORT)
+   *
+   * @see {@link ./config/env.ts}
+   */
+  app.register(fastifyEnv, { confKey: "config", schema: envSchema, dotenv: { quiet: true } });
+  app.after(async (err) => {
+    if (err) {
+      throw err;
+    }
+
+    app.log.level = app.config.LOG_LEVEL;
+
+    const problems = validateConfig(app.config);
+    if (problems.length > 0) {
+      throw new Error(`Invalid configuration:\n- ${problems.join("\n- ")}`);
+    }
+
+    if (app.config.JWT_ALGORITHM === "HS256" && app.config.JWT_SECRET === DEV_JWT_SECRET) {
+      app.log.warn("JWT_SECRET is not set - using the development default (never do this in production)");
+    }
+
+    if (app.config.NODE_ENV === "production" && app.config.MAIL_TRANSPORT !== "smtp") {
+      app.log.warn(`MAIL_TRANSPORT is ${app.config.MAIL_TRANSPORT} - password reset links are written locally, not emailed`);
+    }
+  });
+
   /**
    * Register CORS Plugin
    *
    * Enables Cross-Origin Resource Sharing
    * Allows browser-based clients from different domains to make requests
    *
-   * Configuration:
-   * - origin: true accepts all origins (configure per environment in production)
-   * - For production, restrict to specific domains like: origin: ['https://yourdomain.com']
+   * Configuration (CORS_ORIGIN):
+   * - "*" (default) reflects any origin
+   * - A comma-separated list restricts to those origins,
+   *   e.g. CORS_ORIGIN=https://yourdomain.com,https://www.yourdomain.com
+   *
+   * Credentials (cookies) are only allowed for an explicit list: a browser
+   * SPA on another origin using the refresh token cookie must be listed.
+   * With "*", cross-origin requests never carry cookies.
+   *
+   * Options are computed from app.config when the plugin loads.
    *
    * @see https://github.com/fastify/fastify-cors
    */
-  app.register(cors, {
-    origin: true,
+  app.register(cors, (instance: FastifyInstance) => {
+    const origin = parseCorsOrigin(instance.config.CORS_ORIGIN);
+    return { origin, credentials: origin !== true };
   });
 
+  /**
+   * Register Cookie Plugin
+   *
+   * Parses the Cookie header into request.cookies and adds
+   * reply.setCookie() / reply.clearCookie(). Used only by the refresh
+   * token cookie transport (X-Token-Transport: cookie); cookie names and
+   * attributes come from REFRESH_COOKIE_* and CSRF_COOKIE_NAME.
+   *
+   * @see https://github.com/fastify/fastify-cookie
+   * @see {@link ./modules/auth/refresh-cookie.ts}
+   */
+  app.register(cookie);
+
+  /**
+   * Register Error Handler
+   *
+   * Every error - typed AppErrors from the services, schema validation
+   * failures, unknown routes and unexpected failures - is answered with
+   * an application/problem+json body carrying a stable `code`.
+   * Registered before every route so they all inherit it.
+   *
+   * @see {@link ./plugins/error-handler.plugin.ts}
+   */
+  app.register(errorHandlerPlugin);
+
+  /**
+   * Register Audit Log
+   *
+   * Decorates app.auditLog: the injected audit log if given, otherwise
+   * one writing to the sinks selected by AUDIT_SINKS, plus an in-memory
+   * buffer of recent events for GET /admin/audit. Registered before the
+   * JWT plugin, whose authenticate decorator records rejected tokens.
+   *
+   * @see {@link ./plugins/audit.plugin.ts}
+   */
+  app.register(auditPlugin, { auditLog: options.auditLog });
+
   /**
    * Register JWT Authentication Plugin
    *
@@ -78,13 +217,42 @@ export function buildApp() {
    * - app.jwt.sign() - Create JWT tokens
    * - app.jwt.verify() - Verify JWT tokens
    * - app.authenticate - Decorator for protected routes
+   * - app.jwtKeys - Signing/verification keys (JWT_ALGORITHM)
+   * - app.revokedTokens - Access token denylist (the injected store if
+   *   given, otherwise the backend selected by REVOKED_TOKEN_STORE)
    *
-   * Uses JWT_SECRET from environment variables
-   * Throws error if JWT_SECRET is not configured in production
+   * Uses JWT_SECRET (HS256) or the PEM key files from app.config
+   * (startup fails if they are missing, unreadable or weak in production)
    *
    * @see {@link ./plugins/jwt.plugin.ts} for implementation details
    */
-  app.register(jwtPlugin);
+  app.register(jwtPlugin, { revokedTokenStore: options.revokedTokenStore });
+
+  /**
+   * Register Global Authentication Guard
+   *
+   * Every route registered below requires a valid access token unless
+   * it is listed in PUBLIC_ROUTES or declares config: { public: true }.
+   * Public routes are logged once the app is ready.
+   *
+   * @see {@link ./plugins/auth-guard.plugin.ts}
+   * @see {@link ./config/public-routes.ts}
+   */
+  app.register(authGuardPlugin);
+
+  /**
+   * Register OpenAPI Document and Docs UI
+   *
+   * Endpoints (public, unless API_DOCS_ENABLED=false):
+   * - GET /api/v1/openapi.json - OpenAPI 3.1 document of every route below
+   * - GET /api/v1/docs - Swagger UI
+   *
+   * Routes not marked public are documented as requiring a bearer token.
+   * Registered after the auth guard and before every documented route.
+   *
+   * @see {@link ./plugins/openapi.plugin.ts}
+   */
+  app.register(openapiPlugin);
 
   /**
    * Register Health Check Route
@@ -102,14 +270,86 @@ export function buildApp() {
    */
   app.register(healthRoutes, { prefix: `${API_PREFIX}` });
 
+  /**
+   * Register JWKS Route
+   *
+   * Endpoint: GET /.well-known/jwks.json (no API prefix)
+   *
+   * Publishes the public verification keys (empty for HS256) so other
+   * services can verify access tokens. Public route.
+   *
+   * @see {@link ./routes/jwks.routes.ts}
+   */
+  app.register(jwksRoutes);
+
+  /**
+   * Register Storage Backends
+   *
+   * Decorates app.tokenStore and app.loginAttemptStore: the injected
+   * stores if given, otherwise the backends selected by TOKEN_STORE and
+   * LOGIN_ATTEMPT_STORE. Stores created here are closed with the app;
+   * injected stores belong to the caller.
+   *
+   * @see {@link ./plugins/stores.plugin.ts}
+   */
+  app.register(storesPlugin, {
+    tokenStore: options.tokenStore,
+    loginAttemptStore: options.loginAttemptStore,
+  });
+
+  /**
+   * Register Mail Transport
+   *
+   * Decorates app.mailer: the injected mailer if given, otherwise the
+   * transport selected by MAIL_TRANSPORT (console, file or smtp).
+   * A mailer created here is closed with the app.
+   *
+   * @see {@link ./plugins/mailer.plugin.ts}
+   */
+  app.register(mailerPlugin, { mailer: options.mailer });
+
+  /**
+   * Register Authentication Services
+   *
+   * Decorates app.userRepository (USERS_FILE, or in memory with the demo
+   * admin outside production) and app.authService, shared by the auth
+   * and admin route modules.
+   *
+   * @see {@link ./plugins/auth.plugin.ts}
+   */
+  app.register(authPlugin);
+
+  /**
+   * Register OAuth Clients
+   *
+   * Decorates app.oauthClients: clients allowed to use the OAuth endpoints
+   * (OAUTH_CLIENTS_FILE, or in memory with the demo client outside
+   * production), and app.oauthCodes: authorization codes issued by
+   * /oauth/authorize.
+   *
+   * @see {@link ./plugins/oauth.plugin.ts}
+   */
+  app.register(oauthPlugin);
+
   /**
    * Register Authentication Routes
    *
    * Endpoints:
+   * - POST /api/v1/auth/register - User registration
    * - POST /api/v1/auth/login - User login
+   * - POST /api/v1/auth/login/mfa - Second login step for TOTP users
    * - POST /api/v1/auth/refresh - Token refresh
    * - GET /api/v1/auth/me - Get current user (protected)
    * - POST /api/v1/auth/logout - User logout (protected)
+   * - POST /api/v1/auth/users/:username/unlock - Lift a login lockout (admin)
+   * - GET /api/v1/auth/sessions - List signed-in devices (protected)
+   * - DELETE /api/v1/auth/sessions/:id - Sign out one device (protected)
+   * - POST /api/v1/auth/logout-all - Sign out everywhere (protected)
+   * - POST /api/v1/auth/mfa/totp/enroll - Start TOTP enrollment (protected)
+   * - POST /api/v1/auth/mfa/totp/confirm - Enable TOTP, get recovery codes (protected)
+   * - POST /api/v1/auth/password/change - Change password, sign out other devices (protected)
+   * - POST /api/v1/auth/password/forgot - Email a password reset link
+   * - POST /api/v1/auth/password/reset - Set a new password with the emailed token
    *
    * These routes are mounted under /auth namespace
    * Combined with API_PREFIX to create full paths
@@ -118,6 +358,37 @@ export function buildApp() {
    */
   app.register(authRoutes, { prefix: `${API_PREFIX}/auth` });
 
+  /**
+   * Register OAuth Routes
+   *
+   * Endpoints (public, no access token):
+   * - POST /api/v1/oauth/token - OAuth 2.0 token endpoint (RFC 6749):
+   *   password, refresh_token, client_credentials and authorization_code
+   *   grants; client authentication instead of an access token
+   * - GET/POST /api/v1/oauth/authorize - Login/consent page of the
+   *   authorization code flow (PKCE)
+   *
+   * Form-encoded requests, RFC 6749 error bodies and HTML error pages,
+   * scoped to these routes.
+   *
+   * @see {@link ./modules/oauth/oauth.routes.ts}
+   */
+  app.register(oauthRoutes, { prefix: `${API_PREFIX}/oauth` });
+
+  /**
+   * Register Admin Routes
+   *
+   * Endpoints (admin role plus the matching permission, every call audited):
+   * - GET /api/v1/admin/users - Users and their sessions (paginated)
+   * - POST /api/v1/admin/users/:username/revoke-tokens - Revoke all of a user's tokens
+   * - POST /api/v1/admin/users/:username/disable - Disable an account
+   * - POST /api/v1/admin/users/:username/enable - Re-enable an account
+   * - GET /api/v1/admin/stats - Token store statistics
+   *
+   * @see {@link ./modules/admin/admin.routes.ts}
+   */
+  app.register(adminRoutes, { prefix: `${API_PREFIX}/admin` });
+
   // Return the configured application instance
   // The caller (server.ts) will call app.listen() to start the server
   return app;
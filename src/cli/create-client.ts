@@ -0,0 +1,157 @@
+/**
+ * Create OAuth Client CLI
+ *
+ * Registers a client for the OAuth endpoints in the JSON clients file
+ * used by FileOAuthClientRepository.
+ *
+ * The client secret is generated (256 random bits) and printed once;
+ * only its hash is stored. Hand it to the client's operator over a
+ * secure channel - it can't be shown again.
+ *
+ * Options:
+ * - --redirect-uri=<uri>: Redirect URI for /oauth/authorize (repeatable;
+ *   required for authorization_code). Absolute, no fragment; http only
+ *   for localhost / loopback addresses
+ * - --public: No secret (browser and mobile apps); only
+ *   authorization_code and refresh_token
+ * - --first-party: An app of this service; /oauth/authorize skips the
+ *   consent question
+ *
+ * Usage:
+ * ```
+ * pnpm build
+ * # Machine-to-machine service (comma-separated grants and scopes)
+ * OAUTH_CLIENTS_FILE=./data/oauth-clients.json pnpm client:create billing-service client_credentials users:read
+ *
+ * # First-party app using the password grant
+ * OAUTH_CLIENTS_FILE=./data/oauth-clients.json pnpm client:create mobile-app password,refresh_token
+ *
+ * # Single-page app (public client, authorization code flow with PKCE)
+ * OAUTH_CLIENTS_FILE=./data/oauth-clients.json pnpm client:create web-app authorization_code,refresh_token \
+ *   --public --first-party --redirect-uri=https://app.example.com/callback
+ * ```
+ *
+ * @module create-client
+ */
+
+import { randomBytes } from 'crypto'
+import { FileOAuthClientRepository } from '../modules/oauth/oauth-client.repository'
+import { GRANT_TYPES, GrantType, PUBLIC_CLIENT_GRANT_TYPES } from '../modules/oauth/oauth.types'
+import { PasswordHasher } from '../modules/users/password.hasher'
+
+/**
+ * Client ids: letters, digits, ".", "_" and "-" (safe in Basic credentials and logs)
+ */
+const CLIENT_ID_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]{2,63}$/
+
+/**
+ * Hosts allowed in http:// redirect URIs (native apps listening locally, RFC 8252 section 7.3)
+ */
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '[::1]']
+
+/**
+ * Check a redirect URI can be registered
+ *
+ * @returns A problem description, or null if the URI is acceptable
+ */
+function redirectUriProblem(uri: string): string | null {
+    let url: URL
+    try {
+        url = new URL(uri)
+    } catch {
+        return 'not an absolute URI'
+    }
+    if (url.hash || uri.includes('#')) {
+        return 'must not contain a fragment'
+    }
+    if (url.protocol === 'http:' && !LOOPBACK_HOSTS.includes(url.hostname)) {
+        return 'http is only allowed for localhost; use https'
+    }
+    if (url.protocol === 'javascript:' || url.protocol === 'data:') {
+        return `${url.protocol} URIs are not allowed`
+    }
+    return null
+}
+
+/**
+ * Split a comma-separated argument
+ */
+function splitList(value: string | undefined): string[] {
+    return (value ?? '').split(',').map(item => item.trim()).filter(Boolean)
+}
+
+async function main() {
+    const args = process.argv.slice(2)
+    const options = args.filter(arg => arg.startsWith('--'))
+    const [clientId, grants, scopeList] = args.filter(arg => !arg.startsWith('--'))
+    const grantTypes = splitList(grants)
+    const scopes = splitList(scopeList)
+    const filePath = process.env.OAUTH_CLIENTS_FILE
+
+    const isPublic = options.includes('--public')
+    const firstParty = options.includes('--first-party')
+    const redirectUris = options
+        .filter(option => option.startsWith('--redirect-uri='))
+        .map(option => option.slice('--redirect-uri='.length))
+    const unknownOptions = options.filter(option =>
+        option !== '--public' && option !== '--first-party' && !option.startsWith('--redirect-uri='))
+
+    if (!clientId || grantTypes.length === 0 || !filePath || unknownOptions.length > 0) {
+        console.error('Usage: OAUTH_CLIENTS_FILE=<path> create-client <clientId> <grant,grant...> [scope,scope...] ' +
+            '[--redirect-uri=<uri>]... [--public] [--first-party]')
+        process.exit(1)
+    }
+    if (!CLIENT_ID_PATTERN.test(clientId)) {
+        console.error('Client id must be 3-64 characters: letters, digits, ".", "_" or "-"')
+        process.exit(1)
+    }
+    const unknown = grantTypes.filter(grant => !(GRANT_TYPES as readonly string[]).includes(grant))
+    if (unknown.length > 0) {
+        console.error(`Unknown grant type(s): ${unknown.join(', ')} (supported: ${GRANT_TYPES.join(', ')})`)
+        process.exit(1)
+    }
+    const notPublic = grantTypes.filter(grant => !(PUBLIC_CLIENT_GRANT_TYPES as readonly string[]).includes(grant))
+    if (isPublic && notPublic.length > 0) {
+        console.error(`Public clients can't use: ${notPublic.join(', ')} (allowed: ${PUBLIC_CLIENT_GRANT_TYPES.join(', ')})`)
+        process.exit(1)
+    }
+    if (grantTypes.includes('authorization_code') && redirectUris.length === 0) {
+        console.error('authorization_code needs at least one --redirect-uri')
+        process.exit(1)
+    }
+    for (const uri of redirectUris) {
+        const problem = redirectUriProblem(uri)
+        if (problem) {
+            console.error(`Invalid redirect URI "${uri}": ${problem}`)
+            process.exit(1)
+        }
+    }
+
+    const repository = new FileOAuthClientRepository(filePath)
+    const clientSecret = isPublic ? null : randomBytes(32).toString('base64url')
+
+    await repository.create({
+        clientId,
+        secretHash: clientSecret ? await new PasswordHasher().hash(clientSecret) : undefined,
+        grantTypes: grantTypes as GrantType[],
+        scopes,
+        redirectUris,
+        firstParty: firstParty || undefined,
+        createdAt: Date.now()
+    })
+
+    console.log(`Created ${isPublic ? 'public' : 'confidential'} client "${clientId}" ` +
+        `(grants: ${grantTypes.join(', ')}; scopes: ${scopes.join(' ') || 'none'}) in ${filePath}`)
+    if (redirectUris.length > 0) {
+        console.log(`redirect URIs: ${redirectUris.join(' ')}`)
+    }
+    if (clientSecret) {
+        console.log(`client_secret: ${clientSecret}`)
+        console.log('Store the secret now: it is not saved and can\'t be shown again.')
+    }
+}
+
+main().catch(err => {
+    console.error(err)
+    process.exit(1)
+})
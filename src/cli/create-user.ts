@@ -0,0 +1,69 @@
+/**
+ * Create User CLI
+ *
+ * Adds (or resets the password and roles of) a user in the JSON users file
+ * used by FileUserRepository.
+ *
+ * The password is read from stdin so it never appears in shell history
+ * or the process list.
+ *
+ * Usage:
+ * ```
+ * pnpm build
+ * printf '%s' 'S3cure-Passw0rd' | USERS_FILE=./data/users.json pnpm user:create alice
+ *
+ * # With roles (comma-separated, default: user)
+ * printf '%s' 'S3cure-Passw0rd' | USERS_FILE=./data/users.json pnpm user:create bob admin,user
+ * ```
+ *
+ * @module create-user
+ */
+
+import { FileUserRepository } from '../modules/users/user.repository'
+import { PasswordHasher } from '../modules/users/password.hasher'
+import { DEFAULT_ROLE } from '../config/roles'
+
+/**
+ * Read all of stdin as a UTF-8 string, without a trailing newline
+ */
+async function readStdin(): Promise<string> {
+    const chunks: Buffer[] = []
+    for await (const chunk of process.stdin) {
+        chunks.push(chunk as Buffer)
+    }
+    return Buffer.concat(chunks).toString('utf8').replace(/\r?\n$/, '')
+}
+
+async function main() {
+    const username = process.argv[2]
+    const roles = (process.argv[3] ?? DEFAULT_ROLE).split(',').map(role => role.trim()).filter(Boolean)
+    const filePath = process.env.USERS_FILE
+
+    if (!username || !filePath) {
+        console.error('Usage: printf "%s" <password> | USERS_FILE=<path> create-user <username> [role,role...]')
+        process.exit(1)
+    }
+
+    const password = await readStdin()
+    if (!password) {
+        console.error('Password must be provided on stdin')
+        process.exit(1)
+    }
+
+    const repository = new FileUserRepository(filePath)
+    const passwordHash = await new PasswordHasher().hash(password)
+
+    // Existing user: reset password and roles; otherwise create
+    const updated = await repository.update(username, { passwordHash, roles })
+    if (!updated) {
+        const now = Date.now()
+        await repository.create({ username, passwordHash, roles, permissions: [], createdAt: now, updatedAt: now })
+    }
+
+    console.log(`${updated ? 'Updated' : 'Created'} user "${username}" (roles: ${roles.join(', ')}) in ${filePath}`)
+}
+
+main().catch(err => {
+    console.error(err)
+    process.exit(1)
+})
@@ -31,6 +31,7 @@
  *
  * Endpoints Created:
  * - GET /api/v1/health - Health check
+ * - POST /api/v1/auth/register - Registration endpoint
  * - POST /api/v1/auth/login - Login endpoint
  * - POST /api/v1/auth/refresh - Token refresh
  * - GET /api/v1/auth/me - Current user
@@ -0,0 +1,301 @@
+/**
+ * Environment Configuration
+ *
+ * This module defines every environment variable the application reads,
+ * as a JSON schema validated at startup by @fastify/env.
+ *
+ * Why a Schema?
+ * - Typos and invalid values fail at boot, not at the first request
+ * - Numbers and booleans are coerced once (PORT="3000" → 3000)
+ * - Defaults live in one place instead of scattered `|| 'fallback'`s
+ * - The validated result is exposed as a typed app.config
+ *
+ * Loading Order:
+ * 1. Variables already set in the process environment
+ * 2. A .env file in the working directory (never overrides 1.)
+ * 3. Defaults from the schema below
+ *
+ * Production Safety:
+ * - With NODE_ENV=production and JWT_ALGORITHM=HS256, startup FAILS if
+ *   JWT_SECRET is missing, still the development default, or shorter
+ *   than 32 characters
+ * - Outside production the development default is accepted (with a warning)
+ * - Asymmetric algorithms (RS256/ES256/EdDSA) require JWT_PRIVATE_KEY_FILE
+ * - SMTP_USER requires SMTP_PASSWORD; PASSWORD_RESET_URL must be an absolute URL
+ * - AUDIT_SINKS may only name known sinks
+ * - REFRESH_COOKIE_SAME_SITE=none requires REFRESH_COOKIE_SECURE (browsers
+ *   drop SameSite=None cookies without Secure)
+ *
+ * @module env
+ * @see https://github.com/fastify/fastify-env
+ */
+
+import { ASYMMETRIC_JWT_ALGORITHMS, JwtAlgorithm } from '../modules/auth/jwt-keys'
+import { AUDIT_SINK_NAMES, parseAuditSinks } from '../modules/audit/audit-log.factory'
+
+/**
+ * JWT secret used when none is configured (development only)
+ *
+ * @type {string}
+ * @const
+ */
+export const DEV_JWT_SECRET = 'dev-secret-change-me'
+
+/**
+ * Minimum JWT_SECRET length accepted in production
+ * 32 characters ≈ 256 bits for a random ASCII secret, matching HS256's key size
+ *
+ * @type {number}
+ * @const
+ */
+export const MIN_JWT_SECRET_LENGTH = 32
+
+/**
+ * Validated application configuration (app.config)
+ *
+ * @interface AppConfig
+ */
+export interface AppConfig {
+    /** Runtime environment: development, production, test, ... */
+    NODE_ENV: string
+    /** HTTP port to listen on */
+    PORT: number
+    /** Network interface to bind (0.0.0.0 = all interfaces) */
+    HOST: string
+    /** Pino log level: fatal, error, warn, info, debug, trace or silent */
+    LOG_LEVEL: string
+    /** JWT signing algorithm: HS256 (shared secret) or RS256/ES256/EdDSA (key pair) */
+    JWT_ALGORITHM: JwtAlgorithm
+    /** HMAC secret for signing/verifying JWTs (HS256 only) */
+    JWT_SECRET: string
+    /** PEM private key used to sign JWTs (asymmetric algorithms) */
+    JWT_PRIVATE_KEY_FILE?: string
+    /** kid header of the signing key; unset = JWK thumbprint (asymmetric) or none (HS256) */
+    JWT_KEY_ID?: string
+    /** Extra verification keys for rotation: comma-separated "path" or "kid=path" PEM public keys */
+    JWT_PUBLIC_KEY_FILES?: string
+    /** iss claim written into every token and required when verifying */
+    JWT_ISSUER: string
+    /** aud claim written into every token and required when verifying */
+    JWT_AUDIENCE: string
+    /** Access token lifetime in seconds */
+    ACCESS_TOKEN_TTL_SECONDS: number
+    /** Refresh token lifetime in seconds */
+    REFRESH_TOKEN_TTL_SECONDS: number
+    /** Lifetime of the mfa_pending challenge token returned by login for TOTP users */
+    MFA_TOKEN_TTL_SECONDS: number
+    /** Service name shown in authenticator apps (otpauth:// issuer) */
+    MFA_ISSUER: string
+    /** Allowed CORS origins: "*" for any, or a comma-separated list */
+    CORS_ORIGIN: string
+    /** Name of the HttpOnly cookie carrying the refresh token (cookie transport) */
+    REFRESH_COOKIE_NAME: string
+    /** Name of the JS-readable cookie carrying the CSRF token (cookie transport) */
+    CSRF_COOKIE_NAME: string
+    /** SameSite attribute of both cookies: strict, lax or none */
+    REFRESH_COOKIE_SAME_SITE: 'strict' | 'lax' | 'none'
+    /** Secure attribute of both cookies (sent over HTTPS only); disable for plain-HTTP local development */
+    REFRESH_COOKIE_SECURE: boolean
+    /** Refresh token backend: memory, file or redis */
+    TOKEN_STORE: 'memory' | 'file' | 'redis'
+    /** Log file for the file token store */
+    TOKEN_STORE_FILE: string
+    /** Failed-login counter backend: memory or redis */
+    LOGIN_ATTEMPT_STORE: 'memory' | 'redis'
+    /** Access token denylist backend: memory or redis */
+    REVOKED_TOKEN_STORE: 'memory' | 'redis'
+    /** Redis connection URL (redis backends) */
+    REDIS_URL: string
+    /** Prefix for every Redis key */
+    REDIS_KEY_PREFIX: string
+    /** JSON users file; unset = in-memory users */
+    USERS_FILE?: string
+    /** JSON file of registered OAuth clients; unset = in-memory clients */
+    OAUTH_CLIENTS_FILE?: string
+    /** Lifetime of an OAuth authorization code in seconds (single use) */
+    OAUTH_CODE_TTL_SECONDS: number
+    /** Lifetime of a password reset token in seconds */
+    PASSWORD_RESET_TTL_SECONDS: number
+    /** Page that handles reset links; the token is appended as ?token=...; unset = token only */
+    PASSWORD_RESET_URL?: string
+    /** Outgoing mail transport: console, file or smtp */
+    MAIL_TRANSPORT: 'console' | 'file' | 'smtp'
+    /** Output file for the file mail transport */
+    MAIL_FILE: string
+    /** Sender address of outgoing mail */
+    MAIL_FROM: string
+    /** SMTP server hostname (smtp transport) */
+    SMTP_HOST: string
+    /** SMTP server port: 587 submission (STARTTLS), 465 implicit TLS, 1025 local sink */
+    SMTP_PORT: number
+    /** Connect with TLS from the start (port 465) instead of upgrading with STARTTLS */
+    SMTP_SECURE: boolean
+    /** SMTP AUTH username; unset = no authentication */
+    SMTP_USER?: string
+    /** SMTP AUTH password */
+    SMTP_PASSWORD?: string
+    /** Audit event destinations besides memory: comma-separated stdout and/or file; empty = none */
+    AUDIT_SINKS: string
+    /** File for the file audit sink */
+    AUDIT_FILE: string
+    /** Rotate the audit file before it grows beyond this many bytes */
+    AUDIT_FILE_MAX_BYTES: number
+    /** Rotated audit files kept (audit.jsonl.1 ... .N) */
+    AUDIT_FILE_MAX_FILES: number
+    /** Recent audit events kept in memory for GET /admin/audit */
+    AUDIT_BUFFER_SIZE: number
+    /** Serve the OpenAPI document (/api/v1/openapi.json) and Swagger UI (/api/v1/docs) */
+    API_DOCS_ENABLED: boolean
+}
+
+/**
+ * JSON Schema for AppConfig
+ *
+ * Passed to @fastify/env; keep in sync with the AppConfig interface above.
+ *
+ * @type {object}
+ * @const
+ */
+export const envSchema = {
+    type: 'object',
+    required: [],
+    properties: {
+        NODE_ENV: { type: 'string', default: 'development' },
+        PORT: { type: 'integer', minimum: 0, maximum: 65535, default: 3000 },
+        HOST: { type: 'string', default: '0.0.0.0' },
+        LOG_LEVEL: {
+            type: 'string',
+            enum: ['fatal', 'error', 'warn', 'info', 'debug', 'trace', 'silent'],
+            default: 'info'
+        },
+        JWT_ALGORITHM: { type: 'string', enum: ['HS256', ...ASYMMETRIC_JWT_ALGORITHMS], default: 'HS256' },
+        JWT_SECRET: { type: 'string', default: DEV_JWT_SECRET },
+        JWT_PRIVATE_KEY_FILE: { type: 'string' },
+        JWT_KEY_ID: { type: 'string' },
+        JWT_PUBLIC_KEY_FILES: { type: 'string' },
+        JWT_ISSUER: { type: 'string', minLength: 1, default: 'secure-auth-api' },
+        JWT_AUDIENCE: { type: 'string', minLength: 1, default: 'secure-auth-api' },
+        ACCESS_TOKEN_TTL_SECONDS: { type: 'integer', minimum: 1, default: 15 * 60 },
+        REFRESH_TOKEN_TTL_SECONDS: { type: 'integer', minimum: 1, default: 7 * 24 * 60 * 60 },
+        MFA_TOKEN_TTL_SECONDS: { type: 'integer', minimum: 30, maximum: 15 * 60, default: 5 * 60 },
+        MFA_ISSUER: { type: 'string', minLength: 1, default: 'Secure Auth API' },
+        CORS_ORIGIN: { type: 'string', default: '*' },
+        REFRESH_COOKIE_NAME: { type: 'string', pattern: '^[A-Za-z0-9_-]+$', default: 'refresh_token' },
+        CSRF_COOKIE_NAME: { type: 'string', pattern: '^[A-Za-z0-9_-]+$', default: 'csrf_token' },
+        REFRESH_COOKIE_SAME_SITE: { type: 'string', enum: ['strict', 'lax', 'none'], default: 'strict' },
+        REFRESH_COOKIE_SECURE: { type: 'boolean', default: true },
+        TOKEN_STORE: { type: 'string', enum: ['memory', 'file', 'redis'], default: 'memory' },
+        TOKEN_STORE_FILE: { type: 'string', default: 'data/tokens.jsonl' },
+        LOGIN_ATTEMPT_STORE: { type: 'string', enum: ['memory', 'redis'], default: 'memory' },
+        REVOKED_TOKEN_STORE: { type: 'string', enum: ['memory', 'redis'], default: 'memory' },
+        REDIS_URL: { type: 'string', default: 'redis://127.0.0.1:6379' },
+        REDIS_KEY_PREFIX: { type: 'string', default: 'auth:' },
+        USERS_FILE: { type: 'string' },
+        OAUTH_CLIENTS_FILE: { type: 'string' },
+        OAUTH_CODE_TTL_SECONDS: { type: 'integer', minimum: 10, maximum: 10 * 60, default: 60 },
+        PASSWORD_RESET_TTL_SECONDS: { type: 'integer', minimum: 60, maximum: 24 * 60 * 60, default: 30 * 60 },
+        PASSWORD_RESET_URL: { type: 'string' },
+        MAIL_TRANSPORT: { type: 'string', enum: ['console', 'file', 'smtp'], default: 'console' },
+        MAIL_FILE: { type: 'string', default: 'data/mail.jsonl' },
+        MAIL_FROM: { type: 'string', minLength: 3, default: 'no-reply@localhost' },
+        SMTP_HOST: { type: 'string', default: 'localhost' },
+        SMTP_PORT: { type: 'integer', minimum: 1, maximum: 65535, default: 587 },
+        SMTP_SECURE: { type: 'boolean', default: false },
+        SMTP_USER: { type: 'string' },
+        SMTP_PASSWORD: { type: 'string' },
+        AUDIT_SINKS: { type: 'string', default: 'stdout' },
+        AUDIT_FILE: { type: 'string', default: 'data/audit.jsonl' },
+        AUDIT_FILE_MAX_BYTES: { type: 'integer', minimum: 1024, default: 10 * 1024 * 1024 },
+        AUDIT_FILE_MAX_FILES: { type: 'integer', minimum: 0, maximum: 100, default: 5 },
+        AUDIT_BUFFER_SIZE: { type: 'integer', minimum: 1, maximum: 100000, default: 1000 },
+        API_DOCS_ENABLED: { type: 'boolean', default: true }
+    }
+}
+
+/**
+ * TypeScript Module Declaration
+ *
+ * Tells TypeScript that app.config exists (decorated by @fastify/env)
+ */
+declare module 'fastify' {
+    interface FastifyInstance {
+        config: AppConfig
+    }
+}
+
+/**
+ * Check the configuration for problems that must stop a production deployment
+ *
+ * @function validateConfig
+ * @param {AppConfig} config - Loaded configuration
+ * @returns {string[]} Problems found (empty if none)
+ *
+ * @example
+ * validateConfig({ ...config, NODE_ENV: 'production', JWT_SECRET: 'short' });
+ * // ['JWT_SECRET must be at least 32 characters long']
+ */
+export function validateConfig(config: AppConfig): string[] {
+    const problems: string[] = []
+
+    if (config.JWT_ALGORITHM === 'HS256') {
+        if (config.JWT_PUBLIC_KEY_FILES) {
+            problems.push('JWT_PUBLIC_KEY_FILES requires an asymmetric JWT_ALGORITHM (RS256, ES256 or EdDSA)')
+        }
+    } else if (!config.JWT_PRIVATE_KEY_FILE) {
+        problems.push(`JWT_PRIVATE_KEY_FILE is required when JWT_ALGORITHM is ${config.JWT_ALGORITHM}`)
+    }
+
+    if (config.NODE_ENV === 'production' && config.JWT_ALGORITHM === 'HS256') {
+        if (config.JWT_SECRET === DEV_JWT_SECRET) {
+            problems.push('JWT_SECRET must be set (the development default is not allowed in production)')
+        } else if (config.JWT_SECRET.length < MIN_JWT_SECRET_LENGTH) {
+            problems.push(`JWT_SECRET must be at least ${MIN_JWT_SECRET_LENGTH} characters long`)
+        }
+    }
+
+    if (config.PASSWORD_RESET_URL && !URL.canParse(config.PASSWORD_RESET_URL)) {
+        problems.push('PASSWORD_RESET_URL must be an absolute URL, e.g. https://app.example.com/reset-password')
+    }
+
+    if (config.MAIL_TRANSPORT === 'smtp' && config.SMTP_USER && !config.SMTP_PASSWORD) {
+        problems.push('SMTP_PASSWORD is required when SMTP_USER is set')
+    }
+
+    for (const sink of parseAuditSinks(config.AUDIT_SINKS)) {
+        if (!(AUDIT_SINK_NAMES as readonly string[]).includes(sink)) {
+            problems.push(`AUDIT_SINKS contains unknown sink "${sink}" (expected ${AUDIT_SINK_NAMES.join(' or ')})`)
+        }
+    }
+
+    if (config.REFRESH_COOKIE_SAME_SITE === 'none' && !config.REFRESH_COOKIE_SECURE) {
+        problems.push('REFRESH_COOKIE_SAME_SITE=none requires REFRESH_COOKIE_SECURE=true')
+    }
+
+    if (config.REFRESH_COOKIE_NAME === config.CSRF_COOKIE_NAME) {
+        problems.push('REFRESH_COOKIE_NAME and CSRF_COOKIE_NAME must differ')
+    }
+
+    if (config.ACCESS_TOKEN_TTL_SECONDS >= config.REFRESH_TOKEN_TTL_SECONDS) {
+        problems.push('ACCESS_TOKEN_TTL_SECONDS must be shorter than REFRESH_TOKEN_TTL_SECONDS')
+    }
+
+    return problems
+}
+
+/**
+ * Convert CORS_ORIGIN into the @fastify/cors origin option
+ *
+ * @function parseCorsOrigin
+ * @param {string} value - "*" or a comma-separated list of origins
+ * @returns {true | string[]} true reflects any origin; otherwise the allow-list
+ *
+ * @example
+ * parseCorsOrigin('*');                                      // true
+ * parseCorsOrigin('https://a.example, https://b.example');   // ['https://a.example', 'https://b.example']
+ */
+export function parseCorsOrigin(value: string): true | string[] {
+    if (value.trim() === '*') {
+        return true
+    }
+    return value.split(',').map(origin => origin.trim()).filter(Boolean)
+}
@@ -12,23 +12,36 @@
  * Public vs Protected:
  *
  * PUBLIC ROUTES (no authentication required):
- * - POST /health - Health checks from load balancers
+ * - GET /health - Health checks from load balancers
+ * - POST /auth/register - Users need an account before they can login
  * - POST /auth/login - Users need to login to get token
+ * - POST /auth/login/mfa - Second login step (prefix match on /auth/login)
  * - POST /auth/refresh - Only requires refresh token, not access token
+ * - POST /auth/password/forgot, /auth/password/reset - The user can't log in
+ * - POST /oauth/token - OAuth clients authenticate with client credentials
+ * - GET/POST /oauth/authorize - Login/consent page of the authorization code flow
+ * - GET /openapi.json, /docs - API description and Swagger UI
  *
  * PROTECTED ROUTES (require valid access token):
  * - GET /auth/me - Returns current user info
  * - POST /auth/logout - User must be authenticated to logout
+ * - GET/DELETE /auth/sessions, POST /auth/logout-all - The caller's own sessions
+ * - POST /auth/mfa/totp/* - The caller's own two-factor enrollment
+ * - POST /auth/password/change - The caller's own password
  *
  * Usage:
- * - Can be used by global authentication middleware
- * - Can be used for logging/monitoring
- * - Can be used for route documentation
- * - Can be used for CORS preflight handling
+ * - The global authentication hook (plugins/auth-guard.plugin.ts) skips
+ *   authentication for every route matched here
+ * - Individual routes can also opt out with config: { public: true }
+ * - The list of public routes is logged at startup
+ *
+ * Paths are written WITHOUT the API_PREFIX (/api/v1); isPublicRoute strips it.
  *
  * @module public-routes
  */
 
+import { API_PREFIX } from './api.constants';
+
 /**
  * List of public routes that don't require JWT authentication
  *
@@ -42,17 +55,47 @@
  *    - Called by load balancers, not users
  *    - Should always be accessible for uptime tracking
  *
- * 2. /auth/login
+ * 2. /auth/register
+ *    - Self-service account creation
+ *    - Users can't have a token before they have an account
+ *    - Protected by username/password policy validation instead
+ *
+ * 3. /auth/login
  *    - User entry point for authentication
  *    - Users can't have token before logging in
  *    - No token means user hasn't authenticated yet
+ *    - Also covers /auth/login/mfa: the user holds only an mfa_pending
+ *      challenge token, which is not an access token
  *
- * 3. /auth/refresh
+ * 4. /auth/refresh
  *    - Special case: requires refresh token, not access token
  *    - Refresh token in request body, not Authorization header
  *    - Allows access token renewal without re-login
  *    - Access token can be expired when calling this
  *
+ * 5. /auth/password/forgot and /auth/password/reset
+ *    - For users who forgot their password, so can't get a token
+ *    - Protected by the single-use, short-lived emailed reset token instead
+ *    - Listed individually: other /auth/password routes may need a token
+ *
+ * 6. /oauth/token
+ *    - OAuth 2.0 token endpoint (modules/oauth)
+ *    - Callers have no access token yet: they authenticate as a client
+ *      (client_id and client_secret) plus the grant's own credentials
+ *
+ *    /oauth/authorize
+ *    - OAuth 2.0 authorization endpoint: a browser page where the user
+ *      signs in (and approves a third-party app)
+ *    - The user has no access token in the browser; the page asks for
+ *      the password (and TOTP code) itself
+ *
+ * 7. /openapi.json and /docs
+ *    - The OpenAPI document and its Swagger UI (plugins/openapi.plugin.ts)
+ *    - Describe the API, expose no data; SDK generators fetch the
+ *      document without credentials
+ *    - /docs is a prefix match: it covers the UI's static assets
+ *    - Not registered at all when API_DOCS_ENABLED=false
+ *
  * Performance Consideration:
  * - Each request checks if path is public
  * - O(n) lookup where n = number of public routes
@@ -70,12 +113,13 @@
  * @example
  * console.log(PUBLIC_ROUTES);
  * // Output:
- * // ['/health', '/auth/login', '/auth/refresh']
+ * // ['/health', '/auth/register', '/auth/login', '/auth/refresh',
+ * //  '/auth/password/forgot', '/auth/password/reset', '/oauth/token',
+ * //  '/oauth/authorize', '/openapi.json', '/docs']
  *
  * @example
  * // Usage in middleware
- * const path = request.url;
- * if (!isPublicRoute(path)) {
+ * if (!isPublicRoute(request.routeOptions.url)) {
  *   // Require authentication
  *   await request.jwtVerify();
  * }
@@ -84,8 +128,15 @@
  */
 export const PUBLIC_ROUTES = [
     '/health',
+    '/auth/register',
     '/auth/login',
-    '/auth/refresh'
+    '/auth/refresh',
+    '/auth/password/forgot',
+    '/auth/password/reset',
+    '/oauth/token',
+    '/oauth/authorize',
+    '/openapi.json',
+    '/docs'
 ]
 
 /**
@@ -95,15 +146,21 @@ export const PUBLIC_ROUTES = [
  * without providing a valid JWT authentication token.
  *
  * Matching Strategy:
+ * - Query string ignored: /health?verbose=1 → /health
+ * - API prefix stripped: /api/v1/health → /health
  * - Exact match: /health === /health ✓
  * - Prefix match: /auth/login/* matches /auth/login ✓
  * - Case sensitive: /HEALTH !== /health ✗
  *
  * How it works:
- * 1. Loop through each route in PUBLIC_ROUTES
- * 2. Check for exact match: pathname === route
- * 3. Check for prefix match: pathname starts with route + '/'
- * 4. Return true if either match succeeds
+ * 1. Normalize the pathname (drop query string, strip API_PREFIX)
+ * 2. Loop through each route in PUBLIC_ROUTES
+ * 3. Check for exact match: pathname === route
+ * 4. Check for prefix match: pathname starts with route + '/'
+ * 5. Return true if either match succeeds
+ *
+ * Only a whole API_PREFIX segment is stripped: /api/v10/health is NOT
+ * treated as /health under /api/v1.
  *
  * Prefix Match Examples:
  * - Route: /auth/login
@@ -118,14 +175,16 @@ export const PUBLIC_ROUTES = [
  * - Flexible for route expansion
  *
  * @function isPublicRoute
- * @param {string} pathname - URL path to check (e.g., "/auth/login")
+ * @param {string} pathname - URL path to check (e.g., "/auth/login" or "/api/v1/auth/login")
  * @returns {boolean} True if route is public, false if protected
  *
  * @example
  * // Exact match
  * isPublicRoute('/health');           // true
+ * isPublicRoute('/auth/register');    // true
  * isPublicRoute('/auth/login');       // true
  * isPublicRoute('/auth/refresh');     // true
+ * isPublicRoute('/api/v1/auth/login'); // true (prefix stripped)
  *
  * @example
  * // Prefix match
@@ -139,21 +198,18 @@ export const PUBLIC_ROUTES = [
  * isPublicRoute('/invalid');          // false (doesn't exist)
  *
  * @example
- * // Usage in middleware
- * if (isPublicRoute(request.url)) {
- *   // Allow request without authentication
- *   return handler(request, reply);
- * } else {
- *   // Require valid JWT token
- *   await request.jwtVerify();
- *   return handler(request, reply);
+ * // Usage in an onRequest hook (match the route pattern, not the raw URL)
+ * if (!isPublicRoute(request.routeOptions.url)) {
+ *   await app.authenticate(request, reply);
  * }
  */
 export function isPublicRoute(pathname: string): boolean {
+    const path = stripApiPrefix(pathname.split('?')[0]);
+
     return PUBLIC_ROUTES.some(route => {
         // Strategy 1: Exact match
         // e.g., /health === /health
-        if (pathname === route) {
+        if (path === route) {
             return true;
         }
 
@@ -161,7 +217,7 @@ export function isPublicRoute(pathname: string): boolean {
         // e.g., /auth/login/ or /auth/login/callback
         // Uses startsWith with '/' to avoid false matches
         // This prevents /auth/loginbar from matching /auth/login
-        if (pathname.startsWith(route + '/')) {
+        if (path.startsWith(route + '/')) {
             return true;
         }
 
@@ -169,3 +225,24 @@ export function isPublicRoute(pathname: string): boolean {
         return false;
     })
 }
+
+/**
+ * Remove a leading API_PREFIX segment from a path
+ *
+ * @param {string} path - Path without query string
+ * @returns {string} Path relative to the API prefix (unchanged if not prefixed)
+ *
+ * @example
+ * stripApiPrefix('/api/v1/auth/login'); // '/auth/login'
+ * stripApiPrefix('/api/v1');            // '/'
+ * stripApiPrefix('/api/v10/health');    // '/api/v10/health'
+ */
+function stripApiPrefix(path: string): string {
+    if (path === API_PREFIX) {
+        return '/';
+    }
+    if (path.startsWith(API_PREFIX + '/')) {
+        return path.slice(API_PREFIX.length);
+    }
+    return path;
+}
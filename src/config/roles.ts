@@ -0,0 +1,111 @@
+/**
+ * Roles and Permissions Configuration
+ *
+ * This module defines the built-in roles and the permissions each role grants
+ *
+ * Model:
+ * - A user has a list of roles and a list of directly granted permissions
+ * - Effective permissions = permissions of every role + direct permissions
+ * - Both roles and effective permissions are embedded in the access token,
+ *   so authorization checks need no lookup per request
+ *
+ * Permission Naming:
+ * - <resource>:<action>, e.g. "users:read", "users:write"
+ * - Resource first keeps related permissions grouped when sorted
+ *
+ * OAuth Scopes:
+ * - Tokens issued to an OAuth client for a user carry only the granted
+ *   scopes' share of the user's permissions (see restrictToScopes)
+ *
+ * Changing Permissions:
+ * - Edit ROLE_PERMISSIONS below
+ * - Takes effect for each user at their next login or token refresh
+ *   (existing access tokens keep their claims until they expire)
+ *
+ * @module roles
+ */
+
+/**
+ * Role given to every self-registered account
+ *
+ * @type {string}
+ * @const
+ */
+export const DEFAULT_ROLE = 'user'
+
+/**
+ * Permissions granted by each built-in role
+ *
+ * Roles not listed here grant no permissions on their own, but can still be
+ * checked directly with app.authorize('<role>').
+ *
+ * @type {Record<string, readonly string[]>}
+ * @const
+ *
+ * @example
+ * ROLE_PERMISSIONS.admin.includes('users:write'); // true
+ */
+export const ROLE_PERMISSIONS: Record<string, readonly string[]> = {
+    admin: [
+        'users:read',
+        'users:write',
+        'sessions:read',
+        'sessions:revoke',
+        'audit:read'
+    ],
+    user: []
+}
+
+/**
+ * Compute a user's effective permissions
+ *
+ * @function resolvePermissions
+ * @param {string[]} roles - The user's roles
+ * @param {string[]} [permissions] - Permissions granted directly to the user
+ * @returns {string[]} Sorted, de-duplicated permission list
+ *
+ * @example
+ * resolvePermissions(['admin'], ['reports:read']);
+ * // ['reports:read', 'sessions:read', 'sessions:revoke', 'users:read', 'users:write']
+ */
+export function resolvePermissions(roles: string[], permissions: string[] = []): string[] {
+    const resolved = new Set(permissions)
+
+    for (const role of roles) {
+        for (const permission of ROLE_PERMISSIONS[role] ?? []) {
+            resolved.add(permission)
+        }
+    }
+
+    return Array.from(resolved).sort()
+}
+
+/**
+ * Narrow a user's roles and permissions to the scopes granted to an
+ * OAuth client
+ *
+ * - Permissions: only those among the scopes
+ * - Roles: only built-in roles whose permissions all lie within the
+ *   scopes; other roles are dropped, so a role check (config.roles) can't
+ *   let a client do more than its scopes allow
+ *
+ * @function restrictToScopes
+ * @param {string[]} roles - The user's roles
+ * @param {string[]} permissions - The user's effective permissions (resolvePermissions)
+ * @param {string[]} scopes - Scopes granted to the client
+ * @returns {{ roles: string[], permissions: string[] }} What the client's access tokens may carry
+ *
+ * @example
+ * restrictToScopes(['admin'], resolvePermissions(['admin']), ['users:read']);
+ * // { roles: [], permissions: ['users:read'] }
+ */
+export function restrictToScopes(
+    roles: string[],
+    permissions: string[],
+    scopes: string[]
+): { roles: string[], permissions: string[] } {
+    return {
+        roles: roles.filter(role => ROLE_PERMISSIONS[role]?.every(permission => scopes.includes(permission))),
+        permissions: permissions.filter(permission => scopes.includes(permission))
+    }
+}
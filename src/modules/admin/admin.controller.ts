@@ -0,0 +1,318 @@
+/**
+ * Admin Controller Module
+ *
+ * Controller Layer - HTTP handling for the /admin endpoints
+ *
+ * 1. Parses and validates query and path parameters
+ * 2. Identifies the calling admin (for the audit log)
+ * 3. Calls AdminService
+ * 4. Reports invalid query parameters as ValidationError; service errors
+ *    (user_not_found, cannot_disable_self) propagate to the error handler
+ *
+ * Authorization happens before any handler runs (route config roles and
+ * permissions, see admin.routes.ts).
+ *
+ * @module admin.controller
+ * @see admin.service.ts for business logic
+ * @see admin.routes.ts for route mapping
+ */
+
+import { FastifyReply, FastifyRequest } from 'fastify'
+import { AdminService } from './admin.service'
+import { AdminActor } from './admin.types'
+import { ValidationError, Violation } from '../errors/app-error'
+
+/**
+ * Page size used when the client doesn't ask for one
+ */
+const DEFAULT_PAGE_SIZE = 20
+
+/**
+ * Largest page size a client may request
+ * Each listed user costs a session lookup in the token store
+ */
+const MAX_PAGE_SIZE = 100
+
+/**
+ * Number of audit events returned when the client doesn't ask for a limit
+ */
+const DEFAULT_AUDIT_LIMIT = 100
+
+/**
+ * Largest number of audit events a client may request at once
+ */
+const MAX_AUDIT_LIMIT = 1000
+
+/**
+ * Admin Controller Class
+ *
+ * Handles the administrative HTTP endpoints:
+ * - GET /admin/users - List users and their active sessions (paginated)
+ * - POST /admin/users/:username/revoke-tokens - Revoke all of a user's tokens
+ * - POST /admin/users/:username/disable - Disable an account
+ * - POST /admin/users/:username/enable - Re-enable an account
+ * - GET /admin/stats - Token store statistics
+ * - GET /admin/audit - Search the security audit log
+ *
+ * @class AdminController
+ */
+export class AdminController {
+    /**
+     * Constructor
+     *
+     * @param {AdminService} service - Injected admin service
+     */
+    constructor(private service: AdminService) {}
+
+    /**
+     * Handle GET /admin/users
+     *
+     * Query Parameters:
+     * - page: Page number, 1-based (default 1)
+     * - pageSize: Users per page, 1-100 (default 20)
+     *
+     * Success Response (200 OK):
+     * ```json
+     * {
+     *   "users": [
+     *     {
+     *       "username": "alice",
+     *       "email": "alice@example.com",
+     *       "roles": ["user"],
+     *       "permissions": [],
+     *       "disabled": false,
+     *       "mfaEnabled": true,
+     *       "createdAt": "2024-01-15T16:00:00.000Z",
+     *       "updatedAt": "2024-01-15T16:00:00.000Z",
+     *       "sessions": [{ "id": "3f0c...", "deviceName": "Alice's iPhone", ... }]
+     *     }
+     *   ],
+     *   "page": 1,
+     *   "pageSize": 20,
+     *   "total": 1,
+     *   "totalPages": 1
+     * }
+     * ```
+     *
+     * Error Response (application/problem+json):
+     * - 400 validation_failed: page or pageSize out of range (violations, rule "range")
+     *
+     * @async
+     * @param {FastifyRequest} request - Fastify request object
+     * @param {FastifyReply} reply - Fastify reply object
+     * @returns {Promise<void>}
+     */
+    listUsers = async (request: FastifyRequest, reply: FastifyReply) => {
+        const query = request.query as { page?: string, pageSize?: string }
+        const page = parseInteger(query.page, 1)
+        const pageSize = parseInteger(query.pageSize, DEFAULT_PAGE_SIZE)
+
+        const violations: Violation[] = []
+        if (page === null || page < 1) {
+            violations.push({ field: 'page', rule: 'range', message: 'page must be a positive integer' })
+        }
+        if (pageSize === null || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+            violations.push({ field: 'pageSize', rule: 'range', message: `pageSize must be an integer between 1 and ${MAX_PAGE_SIZE}` })
+        }
+        if (page === null || pageSize === null || violations.length > 0) {
+            throw new ValidationError(violations)
+        }
+
+        reply.send(await this.service.listUsers(adminActor(request), page, pageSize))
+    }
+
+    /**
+     * Handle POST /admin/users/:username/revoke-tokens
+     *
+     * Every refresh token of the user is deleted and every access token
+     * issued so far is rejected. The user may log in again.
+     *
+     * Success Response (200 OK):
+     * ```json
+     * { "message": "Tokens revoked", "username": "alice" }
+     * ```
+     *
+     * Error Response (application/problem+json):
+     * - 404 user_not_found: No such user
+     *
+     * @async
+     * @param {FastifyRequest} request - Fastify request object
+     * @param {string} request.params.username - Target user
+     * @param {FastifyReply} reply - Fastify reply object
+     * @returns {Promise<void>}
+     */
+    revokeTokens = async (request: FastifyRequest, reply: FastifyReply) => {
+        const { username } = request.params as { username: string }
+
+        await this.service.revokeUserTokens(adminActor(request), username)
+        reply.send({ message: 'Tokens revoked', username })
+    }
+
+    /**
+     * Handle POST /admin/users/:username/disable
+     *
+     * The account can no longer log in (403) or refresh, and all of its
+     * tokens are revoked immediately.
+     *
+     * Success Response (200 OK):
+     * ```json
+     * { "user": { "username": "alice", "disabled": true, "sessions": [], ... } }
+     * ```
+     *
+     * Error Responses (application/problem+json, by code):
+     * - 400 cannot_disable_self: The caller's own account
+     * - 404 user_not_found: No such user
+     *
+     * @async
+     * @param {FastifyRequest} request - Fastify request object
+     * @param {string} request.params.username - Target user
+     * @param {FastifyReply} reply - Fastify reply object
+     * @returns {Promise<void>}
+     */
+    disableUser = async (request: FastifyRequest, reply: FastifyReply) => {
+        const { username } = request.params as { username: string }
+
+        const user = await this.service.disableUser(adminActor(request), username)
+        reply.send({ user })
+    }
+
+    /**
+     * Handle POST /admin/users/:username/enable
+     *
+     * Success Response (200 OK):
+     * ```json
+     * { "user": { "username": "alice", "disabled": false, ... } }
+     * ```
+     *
+     * Error Response (application/problem+json):
+     * - 404 user_not_found: No such user
+     *
+     * @async
+     * @param {FastifyRequest} request - Fastify request object
+     * @param {string} request.params.username - Target user
+     * @param {FastifyReply} reply - Fastify reply object
+     * @returns {Promise<void>}
+     */
+    enableUser = async (request: FastifyRequest, reply: FastifyReply) => {
+        const { username } = request.params as { username: string }
+
+        const user = await this.service.enableUser(adminActor(request), username)
+        reply.send({ user })
+    }
+
+    /**
+     * Handle GET /admin/stats
+     *
+     * Success Response (200 OK):
+     * ```json
+     * {
+     *   "users": { "total": 42, "disabled": 1 },
+     *   "refreshTokens": { "total": 57, "active": 30, "rotated": 25, "expired": 2 },
+     *   "activeSessions": 30,
+     *   "revokedAccessTokens": { "revokedTokens": 3, "revokedSubjects": 1, "revokedSessions": 0 }
+     * }
+     * ```
+     *
+     * @async
+     * @param {FastifyRequest} request - Fastify request object
+     * @param {FastifyReply} reply - Fastify reply object
+     * @returns {Promise<void>}
+     */
+    getStats = async (request: FastifyRequest, reply: FastifyReply) => {
+        reply.send(await this.service.getStats(adminActor(request)))
+    }
+
+    /**
+     * Handle GET /admin/audit
+     *
+     * Query Parameters (all optional, combined with AND):
+     * - user: Events about (subject) or performed by (actor) this username
+     * - type: Event type, e.g. "login.mfa", or an area prefix, e.g. "password"
+     * - since: Only events at or after this time (ISO 8601 or epoch milliseconds)
+     * - limit: Maximum events returned, 1-1000 (default 100)
+     *
+     * Success Response (200 OK), newest first:
+     * ```json
+     * {
+     *   "events": [
+     *     {
+     *       "id": "6f1c...",
+     *       "timestamp": "2024-01-15T16:00:00.000Z",
+     *       "type": "login",
+     *       "outcome": "failure",
+     *       "subject": "alice",
+     *       "actor": null,
+     *       "ip": "203.0.113.7",
+     *       "userAgent": "MyApp/2.1 (iOS 17)",
+     *       "requestId": "req-1f",
+     *       "reason": "invalid_password"
+     *     }
+     *   ]
+     * }
+     * ```
+     *
+     * Error Response (application/problem+json):
+     * - 400 validation_failed: since or limit invalid (violations)
+     *
+     * @async
+     * @param {FastifyRequest} request - Fastify request object
+     * @param {FastifyReply} reply - Fastify reply object
+     * @returns {Promise<void>}
+     */
+    queryAudit = async (request: FastifyRequest, reply: FastifyReply) => {
+        const query = request.query as { user?: string, type?: string, since?: string, limit?: string }
+        const limit = parseInteger(query.limit, DEFAULT_AUDIT_LIMIT)
+
+        const violations: Violation[] = []
+        let since: number | undefined
+        if (query.since) {
+            since = /^\d+$/.test(query.since) ? Number(query.since) : Date.parse(query.since)
+            if (Number.isNaN(since)) {
+                violations.push({ field: 'since', rule: 'format', message: 'since must be an ISO 8601 date or epoch milliseconds' })
+            }
+        }
+        if (limit === null || limit < 1 || limit > MAX_AUDIT_LIMIT) {
+            violations.push({ field: 'limit', rule: 'range', message: `limit must be an integer between 1 and ${MAX_AUDIT_LIMIT}` })
+        }
+        if (limit === null || violations.length > 0) {
+            throw new ValidationError(violations)
+        }
+
+        const events = await this.service.queryAudit(adminActor(request), {
+            user: query.user || undefined,
+            type: query.type || undefined,
+            since,
+            limit
+        })
+        reply.send({ events })
+    }
+}
+
+/**
+ * Identify the calling admin for the audit log
+ *
+ * @param {FastifyRequest} request - Authenticated request
+ * @returns {AdminActor} Username from the access token, client IP, user-agent and request id
+ */
+function adminActor(request: FastifyRequest): AdminActor {
+    return {
+        username: request.user.sub,
+        ip: request.ip,
+        userAgent: request.headers['user-agent'],
+        requestId: request.id
+    }
+}
+
+/**
+ * Parse an optional integer query parameter
+ *
+ * @param {string | undefined} value - Raw query value
+ * @param {number} fallback - Used when the parameter is absent
+ * @returns {number | null} The integer, or null if the value isn't one
+ */
+function parseInteger(value: string | undefined, fallback: number): number | null {
+    if (value === undefined || value === '') {
+        return fallback
+    }
+    return /^\d+$/.test(value) ? Number(value) : null
+}
@@ -0,0 +1,154 @@
+/**
+ * Admin Routes Module
+ *
+ * Administrative endpoints for user and token management, mounted under
+ * /api/v1/admin. Every route requires the admin role plus the permission
+ * matching the action (route config, enforced by jwt.plugin):
+ *
+ * | Route                               | Permissions               |
+ * |-------------------------------------|---------------------------|
+ * | GET /users                          | users:read, sessions:read |
+ * | POST /users/:username/revoke-tokens | sessions:revoke           |
+ * | POST /users/:username/disable       | users:write               |
+ * | POST /users/:username/enable        | users:write               |
+ * | GET /stats                          | sessions:read             |
+ *
+ * Every call, successful or not, is recorded in the audit log
+ * (event type "admin.<action>", see admin.service.ts).
+ *
+ * Dependency Injection Flow:
+ * 1. Take app.userRepository and app.authService (decorated by auth.plugin)
+ *    and the stores (stores.plugin, jwt.plugin)
+ * 2. Create AdminService (business layer)
+ * 3. Create AdminController (HTTP layer) - inject AdminService
+ * 4. Register routes with controller methods
+ *
+ * @module admin.routes
+ * @see {@link admin.controller.ts} for endpoint handlers
+ * @see {@link admin.service.ts} for business logic
+ */
+
+import { FastifyInstance } from 'fastify'
+import { AdminService } from './admin.service'
+import { AdminController } from './admin.controller'
+
+/**
+ * Register admin routes
+ *
+ * @async
+ * @param {FastifyInstance} app - Fastify application instance
+ * @returns {Promise<void>}
+ *
+ * @example
+ * // Usage in app.ts
+ * app.register(adminRoutes, { prefix: '/api/v1/admin' });
+ *
+ * // Results in these endpoints:
+ * // GET http://localhost:3000/api/v1/admin/users
+ * // POST http://localhost:3000/api/v1/admin/users/:username/revoke-tokens
+ * // POST http://localhost:3000/api/v1/admin/users/:username/disable
+ * // POST http://localhost:3000/api/v1/admin/users/:username/enable
+ * // GET http://localhost:3000/api/v1/admin/stats
+ * // GET http://localhost:3000/api/v1/admin/audit
+ */
+export async function adminRoutes(app: FastifyInstance) {
+    const service = new AdminService(
+        app.userRepository,
+        app.tokenStore,
+        app.revokedTokens,
+        app.authService,
+        app.auditLog
+    )
+    const controller = new AdminController(service)
+
+    /**
+     * Route: GET /admin/users?page=1&pageSize=20
+     *
+     * Lists users ordered by username, each with their active sessions
+     *
+     * Status Codes:
+     * - 200 OK: Page returned
+     * - 400 Bad Request: Invalid page or pageSize
+     * - 401 Unauthorized: Missing or invalid token
+     * - 403 Forbidden: Not an admin, or missing permissions
+     */
+    app.get('/users', {
+        config: { roles: ['admin'], permissions: ['users:read', 'sessions:read'] },
+        schema: { tags: ['admin'], operationId: 'listUsers', summary: 'List users and their sessions' }
+    }, controller.listUsers)
+
+    /**
+     * Route: POST /admin/users/:username/revoke-tokens
+     *
+     * Revokes every refresh and access token of the user (forces a new login)
+     *
+     * Status Codes:
+     * - 200 OK: Tokens revoked
+     * - 401 Unauthorized / 403 Forbidden
+     * - 404 Not Found: No such user
+     */
+    app.post('/users/:username/revoke-tokens', {
+        config: { roles: ['admin'], permissions: ['sessions:revoke'] },
+        schema: { tags: ['admin'], operationId: 'revokeUserTokens', summary: "Revoke all of a user's tokens" }
+    }, controller.revokeTokens)
+
+    /**
+     * Route: POST /admin/users/:username/disable
+     *
+     * Blocks login and refresh for the account and revokes all its tokens
+     *
+     * Status Codes:
+     * - 200 OK: Account disabled (returns the user)
+     * - 400 Bad Request: Admin tried to disable their own account
+     * - 401 Unauthorized / 403 Forbidden
+     * - 404 Not Found: No such user
+     */
+    app.post('/users/:username/disable', {
+        config: { roles: ['admin'], permissions: ['users:write'] },
+        schema: { tags: ['admin'], operationId: 'disableUser', summary: 'Disable an account' }
+    }, controller.disableUser)
+
+    /**
+     * Route: POST /admin/users/:username/enable
+     *
+     * Lets a disabled account log in again
+     *
+     * Status Codes:
+     * - 200 OK: Account enabled (returns the user)
+     * - 401 Unauthorized / 403 Forbidden
+     * - 404 Not Found: No such user
+     */
+    app.post('/users/:username/enable', {
+        config: { roles: ['admin'], permissions: ['users:write'] },
+        schema: { tags: ['admin'], operationId: 'enableUser', summary: 'Re-enable an account' }
+    }, controller.enableUser)
+
+    /**
+     * Route: GET /admin/stats
+     *
+     * User totals, refresh token counts by state and denylist sizes
+     *
+     * Status Codes:
+     * - 200 OK: Statistics returned
+     * - 401 Unauthorized / 403 Forbidden
+     */
+    app.get('/stats', {
+        config: { roles: ['admin'], permissions: ['sessions:read'] },
+        schema: { tags: ['admin'], operationId: 'getTokenStats', summary: 'Token store statistics' }
+    }, controller.getStats)
+
+    /**
+     * Route: GET /admin/audit?user=alice&type=login&since=2024-01-15T00:00:00Z&limit=100
+     *
+     * Recent security audit events (in-memory buffer), newest first
+     *
+     * Status Codes:
+     * - 200 OK: Events returned
+     * - 400 Bad Request: Invalid since or limit
+     * - 401 Unauthorized / 403 Forbidden
+     */
+    app.get('/audit', {
+        config: { roles: ['admin'], permissions: ['audit:read'] },
+        schema: { tags: ['admin'], operationId: 'queryAudit', summary: 'Query the security audit log' }
+    }, controller.queryAudit)
+}
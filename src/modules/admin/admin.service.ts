@@ -0,0 +1,283 @@
+/**
+ * Admin Service Module
+ *
+ * Service Layer - Administrative Business Logic
+ *
+ * Gives administrators control over accounts and their tokens:
+ * - List users with their active sessions (paginated)
+ * - Force-revoke every token of a user
+ * - Disable / enable accounts
+ * - Token store and denylist statistics
+ * - Query the security audit log
+ *
+ * Audit:
+ * - Every action is recorded as an "admin.<action>" audit event with the
+ *   acting admin, their IP and user-agent, the target user and the
+ *   outcome, whether it succeeded or failed
+ * - Reading the audit log is itself audited (admin.audit.read)
+ *
+ * Dependencies:
+ * - UserRepository: account lookup and updates
+ * - ITokenStore: refresh token statistics
+ * - IRevokedTokenStore: access token denylist statistics
+ * - AuthService: session listing and revocation (same rules as /auth)
+ * - AuditLog: audit events and queries
+ *
+ * @module admin.service
+ * @see {@link admin.controller.ts} for HTTP layer
+ * @see {@link ../auth/auth.service.ts} for session handling
+ */
+
+import { AdminAction, AdminActor, AdminStats, AdminUser, UserPage } from './admin.types'
+import { AuditLog } from '../audit/audit-log'
+import { AuditEvent, AuditQuery } from '../audit/audit.types'
+import { AuthService } from '../auth/auth.service'
+import { UserNotFoundError } from '../auth/auth.errors'
+import { AppError } from '../errors/app-error'
+import { ITokenStore } from '../auth/token.store'
+import { IRevokedTokenStore } from '../auth/revoked-token.store'
+import { UserRepository } from '../users/user.repository'
+import { UserRecord } from '../users/user.types'
+
+/**
+ * Thrown when an administrator tries to disable their own account
+ *
+ * Prevents the last admin from locking everyone out by accident.
+ *
+ * @class SelfDisableError
+ */
+export class SelfDisableError extends AppError {
+    constructor() {
+        super(400, 'cannot_disable_self', 'Administrators cannot disable their own account')
+        this.name = 'SelfDisableError'
+    }
+}
+
+/**
+ * Admin Service Class
+ *
+ * Design: Dependency Injection (same as AuthService)
+ *
+ * @class AdminService
+ */
+export class AdminService {
+    /**
+     * @param {UserRepository} users - User accounts
+     * @param {ITokenStore} tokenStore - Refresh token backend
+     * @param {IRevokedTokenStore} revokedTokens - Access token denylist
+     * @param {AuthService} authService - Session listing and revocation
+     * @param {AuditLog} auditLog - Audit event recorder and query source
+     */
+    constructor(
+        private users: UserRepository,
+        private tokenStore: ITokenStore,
+        private revokedTokens: IRevokedTokenStore,
+        private authService: AuthService,
+        private auditLog: AuditLog
+    ) {}
+
+    /**
+     * List users, ordered by username, with their active sessions
+     *
+     * @async
+     * @param {AdminActor} actor - Calling administrator
+     * @param {number} page - Page number (1-based)
+     * @param {number} pageSize - Users per page
+     * @returns {Promise<UserPage>}
+     *
+     * @example
+     * const { users, totalPages } = await adminService.listUsers(actor, 1, 20);
+     */
+    async listUsers(actor: AdminActor, page: number, pageSize: number): Promise<UserPage> {
+        return this.audited('users.list', actor, undefined, async () => {
+            const all = (await this.users.list()).sort((a, b) => a.username.localeCompare(b.username))
+            const slice = all.slice((page - 1) * pageSize, page * pageSize)
+
+            return {
+                users: await Promise.all(slice.map(user => this.toAdminUser(user))),
+                page,
+                pageSize,
+                total: all.length,
+                totalPages: Math.ceil(all.length / pageSize)
+            }
+        })
+    }
+
+    /**
+     * Revoke every refresh and access token of a user
+     *
+     * The user can log in again right away; use disableUser() to keep
+     * them out.
+     *
+     * @async
+     * @param {AdminActor} actor - Calling administrator
+     * @param {string} username - Target user
+     * @returns {Promise<void>}
+     * @throws {UserNotFoundError} If no such user exists
+     */
+    async revokeUserTokens(actor: AdminActor, username: string): Promise<void> {
+        await this.audited('users.revoke_tokens', actor, username, async () => {
+            await this.requireUser(username)
+            await this.authService.revokeAllSessions(username, actor, actor.username)
+        })
+    }
+
+    /**
+     * Disable an account: it can no longer log in or refresh, and every
+     * token issued so far is revoked
+     *
+     * Idempotent: disabling a disabled account succeeds.
+     *
+     * @async
+     * @param {AdminActor} actor - Calling administrator
+     * @param {string} username - Target user
+     * @returns {Promise<AdminUser>} The updated user
+     * @throws {SelfDisableError} If the admin targets their own account
+     * @throws {UserNotFoundError} If no such user exists
+     */
+    async disableUser(actor: AdminActor, username: string): Promise<AdminUser> {
+        return this.audited('users.disable', actor, username, async () => {
+            if (username === actor.username) {
+                throw new SelfDisableError()
+            }
+
+            const updated = await this.users.update(username, { disabled: true })
+            if (!updated) {
+                throw new UserNotFoundError()
+            }
+            await this.authService.revokeAllSessions(username, actor, actor.username)
+            return this.toAdminUser(updated)
+        })
+    }
+
+    /**
+     * Re-enable a disabled account (the user logs in again as usual)
+     *
+     * Idempotent: enabling an enabled account succeeds.
+     *
+     * @async
+     * @param {AdminActor} actor - Calling administrator
+     * @param {string} username - Target user
+     * @returns {Promise<AdminUser>} The updated user
+     * @throws {UserNotFoundError} If no such user exists
+     */
+    async enableUser(actor: AdminActor, username: string): Promise<AdminUser> {
+        return this.audited('users.enable', actor, username, async () => {
+            const updated = await this.users.update(username, { disabled: false })
+            if (!updated) {
+                throw new UserNotFoundError()
+            }
+            return this.toAdminUser(updated)
+        })
+    }
+
+    /**
+     * Summarize users, stored refresh tokens and the access token denylist
+     *
+     * Built on ITokenStore.getStats(); only counts are returned.
+     *
+     * @async
+     * @param {AdminActor} actor - Calling administrator
+     * @returns {Promise<AdminStats>}
+     */
+    async getStats(actor: AdminActor): Promise<AdminStats> {
+        return this.audited('stats.read', actor, undefined, async () => {
+            const [users, { tokens }, revokedAccessTokens] = await Promise.all([
+                this.users.list(),
+                this.tokenStore.getStats(),
+                this.revokedTokens.getStats()
+            ])
+            const active = tokens.filter(token => !token.isExpired && !token.isRotated)
+
+            return {
+                users: {
+                    total: users.length,
+                    disabled: users.filter(user => user.disabled).length
+                },
+                refreshTokens: {
+                    total: tokens.length,
+                    active: active.length,
+                    rotated: tokens.filter(token => !token.isExpired && token.isRotated).length,
+                    expired: tokens.filter(token => token.isExpired).length
+                },
+                activeSessions: new Set(active.map(token => token.familyId)).size,
+                revokedAccessTokens
+            }
+        })
+    }
+
+    /**
+     * Search the security audit log, newest events first
+     *
+     * Only events still held in memory (AUDIT_BUFFER_SIZE) are searched;
+     * older events live in the stdout/file sinks.
+     *
+     * @async
+     * @param {AdminActor} actor - Calling administrator
+     * @param {AuditQuery} query - Filters (user, type, since) and limit
+     * @returns {Promise<AuditEvent[]>}
+     *
+     * @example
+     * const events = await adminService.queryAudit(actor, { user: 'alice', type: 'login', limit: 50 });
+     */
+    async queryAudit(actor: AdminActor, query: AuditQuery): Promise<AuditEvent[]> {
+        return this.audited('audit.read', actor, query.user, async () => this.auditLog.query(query))
+    }
+
+    /**
+     * Run an admin action and record its outcome in the audit log
+     *
+     * @private
+     * @param {AdminAction} action - What is being done
+     * @param {AdminActor} actor - Who is doing it
+     * @param {string} [target] - Affected username, if any
+     * @param {() => Promise<T>} run - The action itself
+     * @returns {Promise<T>} The action's result (errors are re-thrown)
+     */
+    private async audited<T>(action: AdminAction, actor: AdminActor, target: string | undefined, run: () => Promise<T>): Promise<T> {
+        const event = { type: `admin.${action}` as const, subject: target, actor: actor.username, client: actor }
+
+        try {
+            const result = await run()
+            this.auditLog.record({ ...event, outcome: 'success' })
+            return result
+        } catch (err) {
+            this.auditLog.record({ ...event, outcome: 'failure', reason: (err as Error).message })
+            throw err
+        }
+    }
+
+    /**
+     * @private
+     * @throws {UserNotFoundError} If no such user exists
+     */
+    private async requireUser(username: string): Promise<UserRecord> {
+        const user = await this.users.findByUsername(username)
+        if (!user) {
+            throw new UserNotFoundError()
+        }
+        return user
+    }
+
+    /**
+     * Public view of a user record, with active sessions
+     *
+     * @private
+     */
+    private async toAdminUser(user: UserRecord): Promise<AdminUser> {
+        const sessions = await this.authService.listSessions(user.username)
+
+        return {
+            username: user.username,
+            email: user.email ?? null,
+            roles: user.roles,
+            permissions: user.permissions,
+            disabled: Boolean(user.disabled),
+            mfaEnabled: Boolean(user.totp?.confirmedAt),
+            createdAt: new Date(user.createdAt).toISOString(),
+            updatedAt: new Date(user.updatedAt).toISOString(),
+            sessions: sessions.map(({ id, deviceName, userAgent, ip, createdAt, lastUsedAt, expiresAt }) =>
+                ({ id, deviceName, userAgent, ip, createdAt, lastUsedAt, expiresAt }))
+        }
+    }
+}
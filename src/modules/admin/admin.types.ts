@@ -0,0 +1,140 @@
+/**
+ * Admin Module Types
+ *
+ * Response shapes of the /admin endpoints and the facts about the calling
+ * administrator that are recorded with every admin action.
+ *
+ * @module admin.types
+ */
+
+import { ClientContext, Session } from '../auth/auth.types'
+
+/**
+ * Admin Actor
+ *
+ * The administrator performing an action, taken from the verified access
+ * token and the HTTP request by the controller. The client facts
+ * (IP, user-agent, request id) are recorded with the audit event.
+ *
+ * @interface AdminActor
+ * @extends ClientContext
+ * @property {string} username - The admin's username (access token sub)
+ */
+export interface AdminActor extends ClientContext {
+    username: string;
+}
+
+/**
+ * Admin Action
+ *
+ * Stable identifiers written to the audit log, one per admin endpoint
+ *
+ * @typedef {string} AdminAction
+ */
+export type AdminAction =
+    | 'users.list'
+    | 'users.revoke_tokens'
+    | 'users.disable'
+    | 'users.enable'
+    | 'stats.read'
+    | 'audit.read'
+
+/**
+ * A user's session as seen by an administrator
+ *
+ * Same as the Session listed by GET /auth/sessions, without the
+ * current flag (it only has a meaning for the session owner).
+ *
+ * @typedef {object} AdminSession
+ */
+export type AdminSession = Omit<Session, 'current'>
+
+/**
+ * Admin User
+ *
+ * One account in GET /admin/users. The password hash is never returned.
+ *
+ * @interface AdminUser
+ * @property {string} username - Unique user identifier
+ * @property {string | null} email - Address for password reset emails (null if none)
+ * @property {string[]} roles - Role names
+ * @property {string[]} permissions - Directly granted permissions (not those from roles)
+ * @property {boolean} disabled - True if an administrator disabled the account
+ * @property {boolean} mfaEnabled - True if the user confirmed TOTP enrollment
+ * @property {string} createdAt - ISO 8601 creation time
+ * @property {string} updatedAt - ISO 8601 time of the last change
+ * @property {AdminSession[]} sessions - Active sessions, most recently used first
+ */
+export interface AdminUser {
+    username: string;
+    email: string | null;
+    roles: string[];
+    permissions: string[];
+    disabled: boolean;
+    mfaEnabled: boolean;
+    createdAt: string;
+    updatedAt: string;
+    sessions: AdminSession[];
+}
+
+/**
+ * User Page
+ *
+ * One page of GET /admin/users, ordered by username
+ *
+ * @interface UserPage
+ * @property {AdminUser[]} users - Users on this page
+ * @property {number} page - Page number (1-based)
+ * @property {number} pageSize - Maximum users per page
+ * @property {number} total - Number of users overall
+ * @property {number} totalPages - Number of pages (0 when there are no users)
+ *
+ * @example
+ * const page: UserPage = { users: [...], page: 1, pageSize: 20, total: 42, totalPages: 3 };
+ */
+export interface UserPage {
+    users: AdminUser[];
+    page: number;
+    pageSize: number;
+    total: number;
+    totalPages: number;
+}
+
+/**
+ * Admin Stats
+ *
+ * Returned by GET /admin/stats. Counts only - token values never leave the store.
+ *
+ * @interface AdminStats
+ * @property {object} users - Account totals
+ * @property {object} refreshTokens - Stored refresh tokens by state
+ *   (active = usable, rotated = kept for reuse detection, expired = awaiting cleanup)
+ * @property {number} activeSessions - Token families with an active refresh token
+ * @property {object} revokedAccessTokens - Access token denylist sizes
+ *
+ * @example
+ * const stats: AdminStats = {
+ *   users: { total: 42, disabled: 1 },
+ *   refreshTokens: { total: 57, active: 30, rotated: 25, expired: 2 },
+ *   activeSessions: 30,
+ *   revokedAccessTokens: { revokedTokens: 3, revokedSubjects: 1, revokedSessions: 0 }
+ * };
+ */
+export interface AdminStats {
+    users: {
+        total: number;
+        disabled: number;
+    };
+    refreshTokens: {
+        total: number;
+        active: number;
+        rotated: number;
+        expired: number;
+    };
+    activeSessions: number;
+    revokedAccessTokens: {
+        revokedTokens: number;
+        revokedSubjects: number;
+        revokedSessions: number;
+    };
+}
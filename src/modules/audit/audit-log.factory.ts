@@ -0,0 +1,63 @@
+/**
+ * Audit Log Factory
+ *
+ * Builds the AuditLog and its sinks from configuration (app.config),
+ * so deployments can choose audit destinations without code changes.
+ *
+ * Environment Variables (validated in config/env.ts):
+ * - AUDIT_SINKS: Comma-separated "stdout" and/or "file" (default: stdout; empty = none)
+ * - AUDIT_FILE: File for the "file" sink (default: data/audit.jsonl)
+ * - AUDIT_FILE_MAX_BYTES / AUDIT_FILE_MAX_FILES: Rotation size and rotated files kept
+ * - AUDIT_BUFFER_SIZE: Recent events kept in memory for GET /admin/audit (default: 1000)
+ *
+ * @module audit-log.factory
+ * @see {@link audit-log.ts}
+ */
+
+import { FastifyBaseLogger } from 'fastify'
+import { AuditLog } from './audit-log'
+import { AuditSink, MemoryAuditSink, StdoutAuditSink } from './audit-sink'
+import { RotatingFileAuditSink } from './file-audit.sink'
+import { AppConfig } from '../../config/env'
+
+/**
+ * Supported sink names (the memory ring buffer is always enabled)
+ */
+export const AUDIT_SINK_NAMES = ['stdout', 'file'] as const
+
+/**
+ * Split AUDIT_SINKS into sink names
+ *
+ * @param {string} value - Comma-separated list, e.g. "stdout,file"
+ * @returns {string[]} Trimmed, non-empty names (not yet validated)
+ */
+export function parseAuditSinks(value: string): string[] {
+    return value.split(',').map(name => name.trim()).filter(Boolean)
+}
+
+/**
+ * Create the audit log with the sinks selected by AUDIT_SINKS
+ *
+ * @param {AppConfig} config - Validated configuration (app.config)
+ * @param {FastifyBaseLogger} log - Logger for sink failures
+ * @returns {AuditLog} A new audit log
+ * @throws {Error} If AUDIT_SINKS names an unknown sink
+ *
+ * @example
+ * // AUDIT_SINKS=stdout,file AUDIT_FILE=/var/log/auth/audit.jsonl
+ * const auditLog = createAuditLog(app.config, app.log);
+ */
+export function createAuditLog(config: AppConfig, log: FastifyBaseLogger): AuditLog {
+    const sinks: AuditSink[] = parseAuditSinks(config.AUDIT_SINKS).map((name) => {
+        switch (name) {
+            case 'stdout':
+                return new StdoutAuditSink()
+            case 'file':
+                return new RotatingFileAuditSink(config.AUDIT_FILE, config.AUDIT_FILE_MAX_BYTES, config.AUDIT_FILE_MAX_FILES)
+            default:
+                throw new Error(`Unknown AUDIT_SINKS entry "${name}" (expected "stdout" or "file")`)
+        }
+    })
+
+    return new AuditLog(new MemoryAuditSink(config.AUDIT_BUFFER_SIZE), sinks, log)
+}
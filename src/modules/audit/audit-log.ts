@@ -0,0 +1,120 @@
+/**
+ * Audit Log
+ *
+ * Records security audit events and fans them out to the configured sinks.
+ *
+ * Emitters:
+ * - AuthService: registration, login (password and MFA step), refresh,
+ *   logout, session revocation, password change/reset, TOTP enrollment
+ * - app.authenticate (jwt.plugin): rejected access tokens
+ * - OAuthService: client authentication failures, client_credentials tokens
+ * - AdminService: every admin action
+ *
+ * Design:
+ * - record() never throws and never waits for slow sinks, so auditing
+ *   can't fail or slow down the request that triggered it
+ * - A sink that fails is reported in the application log; the other
+ *   sinks still receive the event
+ * - The in-memory ring buffer is always present and answers query()
+ *   (GET /admin/audit); older history lives in the file/stdout sinks
+ *
+ * @module audit-log
+ * @see {@link audit-sink.ts} for the sinks
+ */
+
+import { randomUUID } from 'crypto'
+import { FastifyBaseLogger } from 'fastify'
+import { AuditSink, MemoryAuditSink } from './audit-sink'
+import { AuditEvent, AuditEventType, AuditOutcome, AuditQuery } from './audit.types'
+import { ClientContext } from '../auth/auth.types'
+
+/**
+ * What an emitter provides; id, timestamp and client fields are filled in
+ *
+ * @interface AuditEventInput
+ * @property {AuditEventType} type - What happened
+ * @property {AuditOutcome} outcome - success or failure
+ * @property {string} [subject] - Account the event is about
+ * @property {string} [actor] - Who acted, when not the subject (admins)
+ * @property {ClientContext} [client] - IP, user-agent and request id of the caller
+ * @property {string} [reason] - Machine-readable failure reason
+ * @property {object} [details] - Event-specific facts (never secrets or tokens)
+ */
+export interface AuditEventInput {
+    type: AuditEventType;
+    outcome: AuditOutcome;
+    subject?: string;
+    actor?: string;
+    client?: ClientContext;
+    reason?: string;
+    details?: Record<string, unknown>;
+}
+
+export class AuditLog {
+    /**
+     * @param buffer Ring buffer of recent events (queried by admins)
+     * @param sinks Additional destinations (stdout, file)
+     * @param log Application logger, for sink failures
+     */
+    constructor(
+        private readonly buffer: MemoryAuditSink,
+        private readonly sinks: AuditSink[],
+        private readonly log: FastifyBaseLogger
+    ) {}
+
+    /**
+     * Record an event in every sink
+     *
+     * @param input Event facts
+     * @returns The recorded event
+     *
+     * @example
+     * auditLog.record({ type: 'login', outcome: 'failure', subject: 'alice', client, reason: 'invalid_password' });
+     */
+    record(input: AuditEventInput): AuditEvent {
+        const event: AuditEvent = {
+            id: randomUUID(),
+            timestamp: new Date().toISOString(),
+            type: input.type,
+            outcome: input.outcome,
+            subject: input.subject ?? null,
+            actor: input.actor ?? null,
+            ip: input.client?.ip ?? null,
+            userAgent: input.client?.userAgent ?? null,
+            requestId: input.client?.requestId ?? null,
+            ...(input.reason !== undefined && { reason: input.reason }),
+            ...(input.details !== undefined && { details: input.details })
+        }
+
+        this.buffer.write(event)
+        for (const sink of this.sinks) {
+            try {
+                Promise.resolve(sink.write(event)).catch((err) => this.reportFailure(err, event))
+            } catch (err) {
+                this.reportFailure(err, event)
+            }
+        }
+        return event
+    }
+
+    /**
+     * Search the recent events kept in memory
+     *
+     * @param query Filters and result limit
+     * @returns Matching events, newest first
+     */
+    query(query: AuditQuery): AuditEvent[] {
+        return this.buffer.query(query)
+    }
+
+    /**
+     * Flush and close every sink
+     */
+    async close(): Promise<void> {
+        await Promise.all([this.buffer, ...this.sinks].map(sink => sink.close()))
+    }
+
+    private reportFailure(err: unknown, event: AuditEvent): void {
+        this.log.error({ err, auditEventId: event.id, auditEventType: event.type }, 'Could not write audit event')
+    }
+}
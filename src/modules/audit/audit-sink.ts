@@ -0,0 +1,102 @@
+/**
+ * Audit Sinks
+ *
+ * A sink receives every audit event recorded by AuditLog.
+ * AuditLog depends only on the AuditSink interface, so destinations
+ * can be added without touching the code that emits events.
+ *
+ * Implementations:
+ * - StdoutAuditSink: One JSON line per event on stdout (log shippers, containers)
+ * - RotatingFileAuditSink: JSON lines in a size-rotated file (see file-audit.sink.ts)
+ * - MemoryAuditSink: Ring buffer of the latest events, queried by GET /admin/audit
+ *
+ * @module audit-sink
+ */
+
+import { AuditEvent, AuditQuery } from './audit.types'
+
+export interface AuditSink {
+    /**
+     * Store or forward one event
+     * Must not throw for a single bad write; AuditLog logs rejections
+     * @param event The event to write
+     */
+    write(event: AuditEvent): void | Promise<void>
+
+    /**
+     * Release resources (flush pending writes)
+     */
+    close(): Promise<void>
+}
+
+/**
+ * JSON lines on stdout
+ *
+ * Each line carries "log":"audit", so audit events can be told apart from
+ * the application's own JSON request log sharing the same stream.
+ */
+export class StdoutAuditSink implements AuditSink {
+    /**
+     * @param stream Destination (default: process.stdout)
+     */
+    constructor(private readonly stream: NodeJS.WritableStream = process.stdout) {}
+
+    write(event: AuditEvent): void {
+        this.stream.write(JSON.stringify({ log: 'audit', ...event }) + '\n')
+    }
+
+    async close(): Promise<void> {}
+}
+
+/**
+ * Fixed-size ring buffer of the most recent events
+ *
+ * Once full, each new event overwrites the oldest one, so memory use is
+ * bounded. Lost on restart; keep a file or stdout sink for history.
+ */
+export class MemoryAuditSink implements AuditSink {
+    private readonly events: AuditEvent[] = []
+    private next = 0
+
+    /**
+     * @param capacity Number of events kept
+     */
+    constructor(private readonly capacity: number) {}
+
+    write(event: AuditEvent): void {
+        if (this.events.length < this.capacity) {
+            this.events.push(event)
+        } else {
+            this.events[this.next] = event
+        }
+        this.next = (this.next + 1) % this.capacity
+    }
+
+    /**
+     * Find buffered events matching every given filter
+     *
+     * @param query Filters and result limit
+     * @returns Matching events, newest first
+     */
+    query(query: AuditQuery): AuditEvent[] {
+        const matches: AuditEvent[] = []
+
+        // Walk backwards from the newest event
+        for (let i = 1; i <= this.events.length && matches.length < query.limit; i++) {
+            const event = this.events[(this.next - i + this.events.length) % this.events.length]
+            if (query.since !== undefined && Date.parse(event.timestamp) < query.since) {
+                break
+            }
+            if (query.user !== undefined && event.subject !== query.user && event.actor !== query.user) {
+                continue
+            }
+            if (query.type !== undefined && event.type !== query.type && !event.type.startsWith(`${query.type}.`)) {
+                continue
+            }
+            matches.push(event)
+        }
+        return matches
+    }
+
+    async close(): Promise<void> {}
+}
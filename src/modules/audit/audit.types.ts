@@ -0,0 +1,110 @@
+/**
+ * Audit Module Types
+ *
+ * Shape of the security audit events written for every authentication
+ * decision (logins, token refreshes, revocations, password and MFA changes,
+ * rejected access tokens, OAuth clients, admin actions) and of audit queries.
+ *
+ * @module audit.types
+ */
+
+import { AdminAction } from '../admin/admin.types'
+
+/**
+ * Audit Event Type
+ *
+ * Stable identifiers, "<area>.<action>"; filter by a whole area with its
+ * prefix (e.g. type=password matches password.change and password.reset)
+ *
+ * @typedef {string} AuditEventType
+ */
+export type AuditEventType =
+    | 'account.register'
+    | 'account.unlock'
+    | 'login'
+    | 'login.mfa_challenge'
+    | 'login.mfa'
+    | 'token.refresh'
+    | 'logout'
+    | 'session.revoke'
+    | 'session.revoke_all'
+    | 'access_token.rejected'
+    | 'password.change'
+    | 'password.reset_request'
+    | 'password.reset'
+    | 'mfa.enroll'
+    | 'mfa.enable'
+    | 'oauth.client_auth'
+    | 'oauth.client_credentials'
+    | 'oauth.authorize'
+    | 'oauth.authorization_code'
+    | `admin.${AdminAction}`
+
+/**
+ * Whether the audited operation succeeded
+ *
+ * @typedef {string} AuditOutcome
+ */
+export type AuditOutcome = 'success' | 'failure'
+
+/**
+ * Audit Event
+ *
+ * @interface AuditEvent
+ * @property {string} id - Unique event id
+ * @property {string} timestamp - ISO 8601 time the event was recorded
+ * @property {AuditEventType} type - What happened
+ * @property {AuditOutcome} outcome - success or failure
+ * @property {string | null} subject - Account the event is about (null if unknown)
+ * @property {string | null} actor - Who acted on the subject, when not the subject itself (admins)
+ * @property {string | null} ip - Client IP address
+ * @property {string | null} userAgent - Client User-Agent header
+ * @property {string | null} requestId - Fastify request id (matches the request log)
+ * @property {string} [reason] - Machine-readable failure reason, e.g. "invalid_password"
+ * @property {object} [details] - Event-specific facts, e.g. { sessionId }
+ *
+ * @example
+ * const event: AuditEvent = {
+ *   id: "6f1c...",
+ *   timestamp: "2024-01-15T16:00:00.000Z",
+ *   type: "login",
+ *   outcome: "failure",
+ *   subject: "alice",
+ *   actor: null,
+ *   ip: "203.0.113.7",
+ *   userAgent: "MyApp/2.1 (iOS 17)",
+ *   requestId: "req-1f",
+ *   reason: "invalid_password"
+ * };
+ */
+export interface AuditEvent {
+    id: string;
+    timestamp: string;
+    type: AuditEventType;
+    outcome: AuditOutcome;
+    subject: string | null;
+    actor: string | null;
+    ip: string | null;
+    userAgent: string | null;
+    requestId: string | null;
+    reason?: string;
+    details?: Record<string, unknown>;
+}
+
+/**
+ * Audit Query
+ *
+ * Filters of GET /admin/audit; all optional, combined with AND
+ *
+ * @interface AuditQuery
+ * @property {string} [user] - Events whose subject or actor is this username
+ * @property {string} [type] - Exact event type, or a prefix ending at a dot boundary
+ * @property {number} [since] - Only events at or after this time (epoch milliseconds)
+ * @property {number} limit - Maximum number of events returned (newest first)
+ */
+export interface AuditQuery {
+    user?: string;
+    type?: string;
+    since?: number;
+    limit: number;
+}
@@ -0,0 +1,86 @@
+/**
+ * Rotating File Audit Sink
+ *
+ * Appends one JSON line per audit event to a file and rotates it by size:
+ *     audit.jsonl → audit.jsonl.1 → audit.jsonl.2 → ... → audit.jsonl.<maxFiles>
+ * The oldest rotated file is overwritten, so disk use stays below
+ * roughly (maxFiles + 1) × maxBytes.
+ *
+ * Durability:
+ * - Writes are serialized through a promise chain, in event order
+ * - A failed write is reported to the caller and does not block later ones
+ * - Files are created with mode 0600 (they contain usernames and IPs)
+ *
+ * Single process only: two instances must NOT share the same file.
+ */
+
+import { promises as fs } from 'fs'
+import path from 'path'
+import { AuditSink } from './audit-sink'
+import { AuditEvent } from './audit.types'
+
+export class RotatingFileAuditSink implements AuditSink {
+    private writeQueue: Promise<void> = Promise.resolve()
+    private size: number | null = null
+
+    /**
+     * @param filePath Current audit file (created on first write if missing)
+     * @param maxBytes Rotate before the file would grow beyond this size
+     * @param maxFiles Number of rotated files kept
+     */
+    constructor(
+        private readonly filePath: string,
+        private readonly maxBytes: number,
+        private readonly maxFiles: number
+    ) {}
+
+    write(event: AuditEvent): Promise<void> {
+        const line = JSON.stringify(event) + '\n'
+        const bytes = Buffer.byteLength(line)
+
+        this.writeQueue = this.writeQueue.catch(() => undefined).then(async () => {
+            if (this.size === null) {
+                await fs.mkdir(path.dirname(this.filePath), { recursive: true })
+                this.size = await fs.stat(this.filePath).then(stats => stats.size, () => 0)
+            }
+            if (this.size > 0 && this.size + bytes > this.maxBytes) {
+                await this.rotate()
+            }
+            await fs.appendFile(this.filePath, line, { encoding: 'utf8', mode: 0o600 })
+            this.size += bytes
+        })
+        return this.writeQueue
+    }
+
+    async close(): Promise<void> {
+        await this.writeQueue.catch(() => undefined)
+    }
+
+    /**
+     * Shift audit.jsonl.N → .N+1 (dropping the last), then audit.jsonl → .1
+     */
+    private async rotate(): Promise<void> {
+        for (let index = this.maxFiles - 1; index >= 1; index--) {
+            await renameIfExists(`${this.filePath}.${index}`, `${this.filePath}.${index + 1}`)
+        }
+        if (this.maxFiles > 0) {
+            await renameIfExists(this.filePath, `${this.filePath}.1`)
+        } else {
+            await fs.rm(this.filePath, { force: true })
+        }
+        this.size = 0
+    }
+}
+
+/**
+ * Rename a file; a missing source is not an error
+ */
+async function renameIfExists(from: string, to: string): Promise<void> {
+    try {
+        await fs.rename(from, to)
+    } catch (err) {
+        if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+            throw err
+        }
+    }
+}
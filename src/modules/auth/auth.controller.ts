@@ -5,9 +5,14 @@
  *
  * This controller acts as the bridge between HTTP requests and business logic:
  * 1. Parses and validates incoming request data
+ *    (login, refresh, logout and me are validated by their route schemas
+ *    before the handler runs, see auth.schemas.ts)
  * 2. Calls appropriate service methods
- * 3. Formats and sends HTTP responses
- * 4. Handles and converts business errors to HTTP responses
+ * 3. Formats and sends HTTP responses (including the refresh token
+ *    cookie transport, see refresh-cookie.ts)
+ * 4. Lets business errors propagate: AuthService throws typed errors
+ *    (auth.errors.ts) carrying their status and code, and the global error
+ *    handler renders them as application/problem+json
  *
  * Design Pattern: Controller-Service-Repository
  * - Controller: HTTP layer (this file)
@@ -21,22 +26,57 @@
 
 import { FastifyReply, FastifyRequest } from 'fastify'
 import { AuthService } from './auth.service'
-import { LoginRequest } from './auth.types'
+import {
+    ChangePasswordRequest,
+    ClientContext,
+    CookieTokenResponse,
+    LoginRequest,
+    MfaLoginRequest,
+    RefreshTokenRequest,
+    RegisterRequest,
+    ResetPasswordRequest,
+    TokenResponse
+} from './auth.types'
+import { InvalidRefreshTokenError } from './auth.errors'
+import {
+    clearRefreshCookies,
+    readRefreshCookie,
+    RefreshCookieOptions,
+    requestedTransport,
+    setRefreshCookies
+} from './refresh-cookie'
+import { ValidationError, Violation } from '../errors/app-error'
 
 /**
  * Authentication Controller Class
  *
  * Handles all authentication-related HTTP endpoints:
+ * - POST /auth/register - User self-registration
  * - POST /auth/login - User login
+ * - POST /auth/login/mfa - Second login step for TOTP users
  * - POST /auth/refresh - Token refresh
  * - GET /auth/me - Get current user
  * - POST /auth/logout - User logout
+ * - POST /auth/users/:username/unlock - Lift a login lockout (admin)
+ * - GET /auth/sessions - List my signed-in devices
+ * - DELETE /auth/sessions/:id - Sign out one device
+ * - POST /auth/logout-all - Sign out everywhere
+ * - POST /auth/mfa/totp/enroll - Start TOTP enrollment
+ * - POST /auth/mfa/totp/confirm - Finish TOTP enrollment, get recovery codes
+ * - POST /auth/password/change - Change my password, sign out my other devices
+ * - POST /auth/password/forgot - Email a password reset link
+ * - POST /auth/password/reset - Set a new password with the emailed token
  *
  * Dependency Injection:
- * - Receives AuthService via constructor
- * - AuthService is injected by the route handler
+ * - Receives AuthService and the refresh cookie settings via constructor
+ * - Both are injected by the route handler
  * - This makes the controller testable with mock services
  *
+ * Refresh Token Transport (X-Token-Transport header, per request):
+ * - body (default): refreshToken in the JSON request and response bodies
+ * - cookie: refresh token in an HttpOnly cookie, CSRF token in the body;
+ *   refresh and logout then require the X-CSRF-Token header
+ *
  * @class AuthController
  */
 export class AuthController {
@@ -44,8 +84,76 @@ export class AuthController {
      * Constructor
      *
      * @param {AuthService} service - Injected authentication service
+     * @param {RefreshCookieOptions} cookies - Refresh token cookie settings (from app.config)
      */
-    constructor(private service: AuthService) {}
+    constructor(private service: AuthService, private cookies: RefreshCookieOptions) {}
+
+    /**
+     * Handle POST /auth/register
+     *
+     * Creates a new user account
+     *
+     * Request Flow:
+     * 1. Client sends desired username and password (and optionally an email)
+     * 2. Service validates username format, password policy and email format
+     * 3. Controller returns ALL violations at once if validation fails
+     * 4. Service hashes the password and stores the user
+     * 5. Controller returns 201 Created
+     *
+     * Success Response (201 Created):
+     * ```json
+     * { "username": "alice", "createdAt": "2024-01-15T16:00:00.000Z" }
+     * ```
+     *
+     * Error Responses (application/problem+json):
+     * ```json
+     * // Validation failed (400 Bad Request)
+     * {
+     *   "type": "about:blank", "title": "Bad Request", "status": 400,
+     *   "detail": "Validation failed", "instance": "/api/v1/auth/register",
+     *   "code": "validation_failed",
+     *   "violations": [
+     *     { "field": "password", "rule": "min_length", "message": "Password must be at least 10 characters long" },
+     *     { "field": "password", "rule": "contains_username", "message": "Password must not contain the username" }
+     *   ]
+     * }
+     * ```
+     * - 409 username_taken / email_taken: Username or email already taken
+     *
+     * @async
+     * @param {FastifyRequest} request - Fastify request object
+     * @param {RegisterRequest} request.body - Desired credentials
+     * @param {FastifyReply} reply - Fastify reply object
+     * @returns {Promise<void>}
+     *
+     * @example
+     * // Client usage
+     * const response = await fetch('http://localhost:3000/api/v1/auth/register', {
+     *   method: 'POST',
+     *   headers: { 'Content-Type': 'application/json' },
+     *   body: JSON.stringify({
+     *     username: 'alice',
+     *     password: 'Correct-Horse-42'
+     *   })
+     * });
+     */
+    register = async (request: FastifyRequest, reply: FastifyReply) => {
+        // request.body may be missing or not an object; treat that as empty input
+        // so the client gets "required" violations instead of a 500
+        const payload = (request.body ?? {}) as Partial<RegisterRequest>
+
+        // Validate everything up front and report every failed rule
+        const violations = this.service.validateRegistration(payload)
+        if (violations.length > 0) {
+            throw new ValidationError(violations)
+        }
+
+        // Throws UsernameTakenError / EmailTakenError (409 Conflict)
+        const user = await this.service.register(payload as RegisterRequest, clientContext(request))
+
+        // 201 Created: a new resource (the account) now exists
+        reply.code(201).send(user)
+    }
 
     /**
      * Handle POST /auth/login
@@ -54,7 +162,7 @@ export class AuthController {
      *
      * Request Flow:
      * 1. Client sends username and password
-     * 2. Service validates credentials (currently against hardcoded admin user)
+     * 2. Service rejects throttled usernames/IPs, then validates credentials
      * 3. Service generates access and refresh tokens
      * 4. Service stores refresh token in token store
      * 5. Controller returns tokens to client
@@ -68,11 +176,27 @@ export class AuthController {
      * }
      * ```
      *
-     * Error Response (401 Unauthorized):
+     * Success Response with X-Token-Transport: cookie (200 OK) - the refresh
+     * token is only in the Set-Cookie header (HttpOnly):
+     * ```json
+     * {
+     *   "accessToken": "eyJhbGc...",
+     *   "tokenType": "Bearer",
+     *   "csrfToken": "Hk2v0tQ9..."
+     * }
+     * ```
+     *
+     * Success Response for TOTP users (200 OK) - continue with POST /auth/login/mfa:
      * ```json
-     * { "message": "Invalid credentials" }
+     * { "mfaRequired": true, "mfaToken": "eyJhbGc...", "expiresIn": 300 }
      * ```
      *
+     * Error Responses (application/problem+json, by code):
+     * - 400 validation_failed: Missing body or fields, wrong types (route schema)
+     * - 401 invalid_credentials: Wrong username or password (never says which)
+     * - 403 account_disabled: Correct credentials, but disabled by an admin
+     * - 429 account_locked: Username or IP throttled (Retry-After header in seconds)
+     *
      * @async
      * @param {FastifyRequest} request - Fastify request object
      * @param {LoginRequest} request.body - Login credentials
@@ -90,35 +214,69 @@ export class AuthController {
      *   })
      * });
      */
-    login = async (request: FastifyRequest, reply: FastifyReply) => {
-        try {
-            // Cast request.body to LoginRequest type
-            // request.body is of type unknown, so we need to cast it
-            const tokens = await this.service.login(request.body as LoginRequest)
-
-            // Send success response with tokens
-            // Status code defaults to 200 OK
-            reply.send(tokens)
-        } catch {
-            // Handle authentication failure
-            // Return 401 Unauthorized status
-            // Send generic error message (don't reveal if username or password was wrong)
-            reply.code(401).send({ message: 'Invalid credentials' })
-        }
+    login = async (request: FastifyRequest<{ Body: LoginRequest }>, reply: FastifyReply) => {
+        // request.body already passed the route schema (loginSchema)
+        // request.ip is the client address (or X-Forwarded-For with trustProxy)
+        // IP and user-agent are recorded with the new session
+        // Failures are thrown as typed errors (AccountLockedError,
+        // InvalidCredentialsError, AccountDisabledError) with their status
+        const result = await this.service.login(request.body, clientContext(request))
+
+        // Send success response with tokens (or the MFA challenge, which
+        // carries no refresh token yet)
+        // Status code defaults to 200 OK
+        reply.send('refreshToken' in result ? this.deliverTokens(request, reply, result) : result)
+    }
+
+    /**
+     * Handle POST /auth/login/mfa
+     *
+     * Second login step for users with TOTP enabled: exchanges the
+     * mfaToken from POST /auth/login plus a code from the authenticator app
+     * (or an unused recovery code) for tokens.
+     *
+     * Success Response (200 OK): same as POST /auth/login, including the
+     * cookie transport
+     *
+     * Error Responses (application/problem+json, by code):
+     * - 401 mfa_code_invalid: Wrong or reused code - ask again, the mfaToken is still valid
+     * - 401 mfa_token_invalid: Challenge expired, already used or malformed - log in again
+     * - 403 account_disabled: Account disabled by an administrator
+     * - 429 account_locked: Too many failures (Retry-After header)
+     *
+     * @async
+     * @param {FastifyRequest} request - Fastify request object
+     * @param {MfaLoginRequest} request.body - Challenge token and code
+     * @param {FastifyReply} reply - Fastify reply object
+     * @returns {Promise<void>}
+     */
+    loginMfa = async (request: FastifyRequest, reply: FastifyReply) => {
+        const tokens = await this.service.completeMfaLogin(request.body as MfaLoginRequest, clientContext(request))
+        reply.send(this.deliverTokens(request, reply, tokens))
     }
 
     /**
      * Handle POST /auth/refresh
      *
-     * Generates a new access token using a valid refresh token
+     * Exchanges a valid refresh token for a new access token and a new refresh token
      *
      * Use Case:
      * - Access token expires after 15 minutes
      * - Client stores refresh token (valid for 7 days)
      * - When access token expires, client calls this endpoint
-     * - Service validates refresh token
+     * - Service validates and rotates the refresh token
      * - Service generates new access token
-     * - Client updates stored access token
+     * - Client replaces BOTH stored tokens (the old refresh token is now used up)
+     *
+     * Reuse Detection:
+     * - Presenting an already-rotated refresh token revokes the whole session
+     * - The response is the same 401 refresh_token_invalid as any other invalid token
+     *
+     * Cookie Transport (X-Token-Transport: cookie):
+     * - The refresh token is read from its cookie (the body may be empty)
+     * - X-CSRF-Token must equal the CSRF cookie, else 403 csrf_token_invalid
+     * - The rotated refresh token and a new CSRF token are set as cookies;
+     *   the body carries accessToken, tokenType and csrfToken
      *
      * Success Response (200 OK):
      * ```json
@@ -129,14 +287,11 @@ export class AuthController {
      * }
      * ```
      *
-     * Error Responses:
-     * ```json
-     * // Missing refresh token
-     * { "statusCode": 400, "message": "Refresh token is required" }
-     *
-     * // Invalid or expired refresh token
-     * { "statusCode": 401, "message": "Invalid refresh token" }
-     * ```
+     * Error Responses (application/problem+json, by code):
+     * - 400 validation_failed: Missing or empty refresh token (body transport)
+     * - 401 refresh_token_invalid: Unknown, expired, revoked or reused - log in again
+     *   (also: cookie transport without the cookie)
+     * - 403 csrf_token_invalid: Cookie transport without a matching X-CSRF-Token
      *
      * @async
      * @param {FastifyRequest} request - Fastify request object
@@ -152,35 +307,23 @@ export class AuthController {
      *   body: JSON.stringify({ refreshToken: 'eyJhbGc...' })
      * });
      */
-    refresh = async (request: FastifyRequest, reply: FastifyReply) => {
-        try {
-            // Extract refresh token from request body
-            const { refreshToken } = request.body as { refreshToken: string }
-
-            // Validate that refresh token is provided
-            // Client must send the token, not an empty string
-            if (!refreshToken) {
-                // Return 400 Bad Request status
-                // 400 indicates client error (missing required field)
-                return reply.code(400).send({ message: 'Refresh token is required' })
-            }
-
-            // Call service to generate new access token
-            // Service validates token and generates new access token
-            const tokens = await this.service.refresh(refreshToken)
-
-            // Send success response
-            reply.send(tokens)
-        } catch (err) {
-            // Handle token validation errors
-            // Return 401 Unauthorized status
-            // This could mean:
-            // - Token has expired
-            // - Token was revoked (user logged out)
-            // - Token signature is invalid
-            // - Token was tampered with
-            reply.code(401).send({ message: 'Invalid refresh token' })
+    refresh = async (request: FastifyRequest<{ Body: RefreshTokenRequest }>, reply: FastifyReply) => {
+        // Extract refresh token from the request body or its cookie
+        // A cookie-transport client without the cookie has no session left
+        const refreshToken = this.readRefreshToken(request)
+        if (!refreshToken) {
+            throw new InvalidRefreshTokenError()
         }
+
+        // Call service to generate new access token
+        // Service validates token and generates new access token
+        // The session's latest IP and user-agent are updated
+        // Any unusable token (expired, revoked, tampered with, already
+        // rotated) throws InvalidRefreshTokenError (401)
+        const tokens = await this.service.refresh(refreshToken, clientContext(request))
+
+        // Send success response in the transport the client asked for
+        reply.send(this.deliverTokens(request, reply, tokens))
     }
 
     /**
@@ -192,30 +335,29 @@ export class AuthController {
      * 1. Client sends refresh token and valid access token
      * 2. Middleware validates access token (preHandler)
      * 3. Service revokes the refresh token in token store
-     * 4. Future refresh attempts with this token will fail
+     * 4. Service denylists the access token used for this call
+     * 5. Future refresh attempts and API calls with these tokens will fail
      *
      * Notes:
      * - This endpoint requires valid access token (protected)
-     * - Access token can still be used after logout (until it expires)
-     * - To prevent further use, client must delete stored access token
-     * - If you need immediate revocation, implement token blacklist
+     * - The access token used for this call is revoked immediately (denylist)
+     * - Client should still delete its stored tokens
+     * - Cookie transport: the refresh token is read from its cookie (CSRF
+     *   checked as for refresh) and both cookies are cleared
      *
      * Success Response (200 OK):
      * ```json
      * { "message": "Logged out successfully" }
      * ```
      *
-     * Error Responses:
-     * ```json
-     * // Missing refresh token
-     * { "statusCode": 400, "message": "Refresh token is required" }
+     * Error Responses (application/problem+json, by code):
+     * - 400 validation_failed: Missing or empty refresh token (body transport)
+     * - 401 authentication_required / token_invalid / token_expired / token_revoked:
+     *   Access token missing or unusable (global auth guard)
+     * - 403 csrf_token_invalid: Cookie transport without a matching X-CSRF-Token
      *
-     * // Logout failed (token not found, already revoked)
-     * { "statusCode": 400, "message": "Logout failed" }
-     *
-     * // Missing or invalid access token
-     * { "statusCode": 401, "message": "Unauthorized - Invalid or missing JWT token" }
-     * ```
+     * An unknown or already revoked refresh token is not an error: logout
+     * is idempotent.
      *
      * @async
      * @param {FastifyRequest} request - Fastify request object
@@ -234,31 +376,21 @@ export class AuthController {
      *   body: JSON.stringify({ refreshToken: 'eyJhbGc...' })
      * });
      */
-    logout = async (request: FastifyRequest, reply: FastifyReply) => {
-        try {
-            // Extract refresh token from request body
-            const { refreshToken } = request.body as { refreshToken: string }
-
-            // Validate that refresh token is provided
-            if (!refreshToken) {
-                return reply.code(400).send({ message: 'Refresh token is required' })
-            }
-
-            // Call service to revoke the refresh token
-            // Service removes token from token store
-            // Future refresh attempts will fail
-            await this.service.logout(refreshToken)
-
-            // Send success response
-            reply.send({ message: 'Logged out successfully' })
-        } catch (err) {
-            // Handle logout errors
-            // Could happen if:
-            // - Token doesn't exist in store
-            // - Token already revoked
-            // - Other unexpected error
-            reply.code(400).send({ message: 'Logout failed' })
+    logout = async (request: FastifyRequest<{ Body: RefreshTokenRequest }>, reply: FastifyReply) => {
+        // Extract refresh token from the request body or its cookie
+        // (undefined if a cookie-transport client has no cookie left)
+        const refreshToken = this.readRefreshToken(request)
+
+        // Call service to revoke the refresh token and the current access token
+        // Service removes token from token store and denylists the access token
+        // Future refresh attempts and API calls with these tokens will fail
+        await this.service.logout(refreshToken, request.user, clientContext(request))
+
+        // Send success response
+        if (requestedTransport(request) === 'cookie') {
+            clearRefreshCookies(reply, this.cookies)
         }
+        reply.send({ message: 'Logged out successfully' })
     }
 
     /**
@@ -271,8 +403,10 @@ export class AuthController {
      *
      * User Information:
      * - request.user contains decoded JWT payload
-     * - Payload includes: sub (username), iat (issued at), exp (expiration)
+     * - Payload includes: sub (username), jti, sid, roles, permissions,
+     *   iat (issued at), exp (expiration)
      * - User data comes from JWT token, not from database
+     * - The response schema (meSchema) writes only these claims
      *
      * Endpoint: GET /api/v1/auth/me
      *
@@ -281,19 +415,26 @@ export class AuthController {
      * {
      *   "user": {
      *     "sub": "admin",
+     *     "jti": "8d5e...",
+     *     "sid": "3f0c...",
+     *     "roles": ["admin"],
+     *     "permissions": ["sessions:read", "sessions:revoke", "users:read", "users:write"],
      *     "iat": 1705334400,
      *     "exp": 1705338000
      *   }
      * }
      * ```
      *
-     * Error Response (401 Unauthorized):
+     * Error Response (401 Unauthorized, application/problem+json):
      * ```json
      * {
-     *   "statusCode": 401,
-     *   "message": "Unauthorized - Invalid or missing JWT token"
+     *   "type": "about:blank", "title": "Unauthorized", "status": 401,
+     *   "detail": "Access token has expired", "instance": "/api/v1/auth/me",
+     *   "code": "token_expired"
      * }
      * ```
+     * token_expired: refresh and retry; token_revoked: log in again;
+     * authentication_required / token_invalid: send a valid token
      *
      * @async
      * @param {FastifyRequest} request - Fastify request object
@@ -319,5 +460,365 @@ export class AuthController {
         // No service call needed - user info is already in the token
         reply.send({ user: request.user })
     }
+
+    /**
+     * Handle POST /auth/users/:username/unlock
+     *
+     * Clears the failed-login counter of a username, lifting any backoff or
+     * lockout immediately. Restricted to admins (route config roles).
+     *
+     * Success Response (200 OK):
+     * ```json
+     * { "message": "Account unlocked", "username": "alice" }
+     * ```
+     *
+     * Error Response (application/problem+json):
+     * - 404 user_not_found: No such user
+     *
+     * @async
+     * @param {FastifyRequest} request - Fastify request object
+     * @param {string} request.params.username - Username to unlock
+     * @param {FastifyReply} reply - Fastify reply object
+     * @returns {Promise<void>}
+     */
+    unlock = async (request: FastifyRequest, reply: FastifyReply) => {
+        const { username } = request.params as { username: string }
+
+        await this.service.unlockUser(username, clientContext(request), request.user.sub)
+        reply.send({ message: 'Account unlocked', username })
+    }
+
+    /**
+     * Handle GET /auth/sessions
+     *
+     * Lists the caller's active sessions (signed-in devices), most recently
+     * used first. The session making the request has current: true.
+     *
+     * Success Response (200 OK):
+     * ```json
+     * {
+     *   "sessions": [
+     *     {
+     *       "id": "3f0c9a52-6a43-4f0e-9d1b-2b7f1c8e5d21",
+     *       "deviceName": "Alice's iPhone",
+     *       "userAgent": "MyApp/2.1 (iOS 17)",
+     *       "ip": "203.0.113.7",
+     *       "createdAt": "2024-01-15T16:00:00.000Z",
+     *       "lastUsedAt": "2024-01-16T08:12:00.000Z",
+     *       "expiresAt": "2024-01-23T08:12:00.000Z",
+     *       "current": true
+     *     }
+     *   ]
+     * }
+     * ```
+     *
+     * @async
+     * @param {FastifyRequest} request - Fastify request object
+     * @param {FastifyReply} reply - Fastify reply object
+     * @returns {Promise<void>}
+     */
+    listSessions = async (request: FastifyRequest, reply: FastifyReply) => {
+        const { sub, sid } = request.user
+        const sessions = await this.service.listSessions(sub, sid)
+        reply.send({ sessions })
+    }
+
+    /**
+     * Handle DELETE /auth/sessions/:id
+     *
+     * Signs one of the caller's sessions out: its refresh token stops
+     * working and its access tokens are rejected immediately. Revoking the
+     * current session works too (same effect as logout).
+     *
+     * Success Response (200 OK):
+     * ```json
+     * { "message": "Session revoked" }
+     * ```
+     *
+     * Error Response (application/problem+json):
+     * - 404 session_not_found: Unknown id, or another user's session (indistinguishable)
+     *
+     * @async
+     * @param {FastifyRequest} request - Fastify request object
+     * @param {string} request.params.id - Session id from GET /auth/sessions
+     * @param {FastifyReply} reply - Fastify reply object
+     * @returns {Promise<void>}
+     */
+    revokeSession = async (request: FastifyRequest, reply: FastifyReply) => {
+        const { id } = request.params as { id: string }
+        const { sub } = request.user
+
+        await this.service.revokeSession(sub, id, clientContext(request))
+        reply.send({ message: 'Session revoked' })
+    }
+
+    /**
+     * Handle POST /auth/logout-all
+     *
+     * Signs the caller out everywhere: every refresh token is revoked and
+     * every access token issued so far (including the one used for this
+     * call) is rejected immediately.
+     *
+     * Success Response (200 OK):
+     * ```json
+     * { "message": "Logged out of all sessions" }
+     * ```
+     *
+     * @async
+     * @param {FastifyRequest} request - Fastify request object
+     * @param {FastifyReply} reply - Fastify reply object
+     * @returns {Promise<void>}
+     */
+    logoutAll = async (request: FastifyRequest, reply: FastifyReply) => {
+        const { sub } = request.user
+        await this.service.revokeAllSessions(sub, clientContext(request))
+        reply.send({ message: 'Logged out of all sessions' })
+    }
+
+    /**
+     * Handle POST /auth/mfa/totp/enroll
+     *
+     * Starts TOTP enrollment for the caller. Show otpauthUri as a QR code
+     * (secret for manual entry), then confirm with POST /auth/mfa/totp/confirm.
+     * Login is unaffected until then.
+     *
+     * Success Response (200 OK):
+     * ```json
+     * {
+     *   "secret": "JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP",
+     *   "otpauthUri": "otpauth://totp/Secure%20Auth%20API:alice?secret=JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP&issuer=Secure+Auth+API&algorithm=SHA1&digits=6&period=30"
+     * }
+     * ```
+     *
+     * Error Response (application/problem+json):
+     * - 409 mfa_already_enabled: TOTP is already enabled
+     *
+     * @async
+     * @param {FastifyRequest} request - Fastify request object
+     * @param {FastifyReply} reply - Fastify reply object
+     * @returns {Promise<void>}
+     */
+    enrollTotp = async (request: FastifyRequest, reply: FastifyReply) => {
+        const { sub } = request.user
+
+        reply.send(await this.service.enrollTotp(sub, clientContext(request)))
+    }
+
+    /**
+     * Handle POST /auth/mfa/totp/confirm
+     *
+     * Finishes enrollment with a code from the authenticator app. From the
+     * next login on, a code is required. The recovery codes are shown ONCE.
+     *
+     * Request Body:
+     * ```json
+     * { "code": "492039" }
+     * ```
+     *
+     * Success Response (200 OK):
+     * ```json
+     * { "message": "TOTP enabled", "recoveryCodes": ["3f9a1-c07be", "..."] }
+     * ```
+     *
+     * Error Responses (application/problem+json, by code):
+     * - 400 mfa_code_invalid: The code doesn't match the pending secret
+     * - 400 mfa_enrollment_not_started: No TOTP enrollment in progress
+     *
+     * @async
+     * @param {FastifyRequest} request - Fastify request object
+     * @param {FastifyReply} reply - Fastify reply object
+     * @returns {Promise<void>}
+     */
+    confirmTotp = async (request: FastifyRequest, reply: FastifyReply) => {
+        const { sub } = request.user
+        const { code } = (request.body ?? {}) as { code?: string }
+
+        const recoveryCodes = await this.service.confirmTotp(sub, String(code ?? ''), clientContext(request))
+        reply.send({ message: 'TOTP enabled', recoveryCodes })
+    }
+
+    /**
+     * Handle POST /auth/password/change
+     *
+     * Changes the caller's password after re-checking the current one.
+     * Every other session of the user is signed out; the session making
+     * this call stays signed in.
+     *
+     * Request Body:
+     * ```json
+     * { "currentPassword": "Correct-Horse-42", "newPassword": "New-Horse-Battery-7" }
+     * ```
+     *
+     * Success Response (200 OK):
+     * ```json
+     * { "message": "Password changed", "revokedSessions": 2 }
+     * ```
+     *
+     * Error Responses (application/problem+json, by code):
+     * - 400 validation_failed: currentPassword or newPassword missing (violations)
+     * - 400 weak_password: New password rejected, e.g. rule "unchanged" (violations)
+     * - 403 incorrect_password: Wrong current password
+     * - 429 account_locked: Too many failures (Retry-After header)
+     *
+     * 403 rather than 401: the access token is fine, and clients commonly
+     * treat 401 as "sign out".
+     *
+     * @async
+     * @param {FastifyRequest} request - Fastify request object
+     * @param {FastifyReply} reply - Fastify reply object
+     * @returns {Promise<void>}
+     */
+    changePassword = async (request: FastifyRequest, reply: FastifyReply) => {
+        const { sub, sid } = request.user
+        const payload = (request.body ?? {}) as Partial<ChangePasswordRequest>
+
+        assertPresent(payload, 'currentPassword', 'newPassword')
+
+        const revokedSessions = await this.service.changePassword(
+            sub,
+            sid,
+            payload as ChangePasswordRequest,
+            clientContext(request)
+        )
+        reply.send({ message: 'Password changed', revokedSessions })
+    }
+
+    /**
+     * Handle POST /auth/password/forgot
+     *
+     * Emails a password reset link to the account registered with this
+     * address. The response is the same whether or not such an account
+     * exists, so the endpoint can't be used to discover accounts.
+     *
+     * Request Body:
+     * ```json
+     * { "email": "alice@example.com" }
+     * ```
+     *
+     * Success Response (202 Accepted):
+     * ```json
+     * { "message": "If an account with that email exists, a password reset link has been sent" }
+     * ```
+     *
+     * Error Response (application/problem+json):
+     * - 400 validation_failed: email missing or blank (violations)
+     *
+     * @async
+     * @param {FastifyRequest} request - Fastify request object
+     * @param {FastifyReply} reply - Fastify reply object
+     * @returns {Promise<void>}
+     */
+    forgotPassword = async (request: FastifyRequest, reply: FastifyReply) => {
+        const { email } = (request.body ?? {}) as { email?: unknown }
+
+        if (typeof email !== 'string' || email.trim() === '') {
+            throw new ValidationError([{ field: 'email', rule: 'required', message: 'email is required' }])
+        }
+
+        this.service.requestPasswordReset({ email: email.trim() }, clientContext(request))
+        reply.code(202).send({ message: 'If an account with that email exists, a password reset link has been sent' })
+    }
+
+    /**
+     * Handle POST /auth/password/reset
+     *
+     * Sets a new password with the token from the reset email. The token
+     * works once; afterwards every session of the user is signed out.
+     *
+     * Request Body:
+     * ```json
+     * { "token": "q3Zx...", "password": "New-Horse-Battery-7" }
+     * ```
+     *
+     * Success Response (200 OK):
+     * ```json
+     * { "message": "Password has been reset" }
+     * ```
+     *
+     * Error Responses (400 Bad Request, application/problem+json, by code):
+     * - validation_failed: token or password missing (violations)
+     * - reset_token_invalid: Token unknown, used, superseded or expired
+     * - weak_password: Password breaks the policy (violations)
+     *
+     * @async
+     * @param {FastifyRequest} request - Fastify request object
+     * @param {FastifyReply} reply - Fastify reply object
+     * @returns {Promise<void>}
+     */
+    resetPassword = async (request: FastifyRequest, reply: FastifyReply) => {
+        const payload = (request.body ?? {}) as Partial<ResetPasswordRequest>
+
+        assertPresent(payload, 'token', 'password')
+
+        await this.service.resetPassword(payload as ResetPasswordRequest, clientContext(request))
+        reply.send({ message: 'Password has been reset' })
+    }
+
+    /**
+     * Read the refresh token from the transport the client asked for
+     *
+     * @private
+     * @param {FastifyRequest} request - Refresh or logout request
+     * @returns {string | undefined} The token; undefined only with the
+     *   cookie transport when the cookie is gone
+     * @throws {ValidationError} Body transport without refreshToken
+     * @throws {CsrfTokenError} Cookie transport without a matching X-CSRF-Token
+     */
+    private readRefreshToken(request: FastifyRequest<{ Body: RefreshTokenRequest }>): string | undefined {
+        if (requestedTransport(request) === 'cookie') {
+            return readRefreshCookie(request, this.cookies)
+        }
+
+        const payload = request.body ?? {}
+        assertPresent(payload, 'refreshToken')
+        return payload.refreshToken
+    }
+
+    /**
+     * Shape a token response for the transport the client asked for
+     *
+     * Body transport: the tokens as issued. Cookie transport: the refresh
+     * token goes into its HttpOnly cookie (with a fresh CSRF cookie) and is
+     * left out of the body.
+     *
+     * @private
+     * @param {FastifyRequest} request - Request that issued the tokens
+     * @param {FastifyReply} reply - Reply to set the cookies on
+     * @param {TokenResponse} tokens - Tokens from AuthService
+     * @returns {TokenResponse | CookieTokenResponse} Response body
+     */
+    private deliverTokens(request: FastifyRequest, reply: FastifyReply, tokens: TokenResponse): TokenResponse | CookieTokenResponse {
+        if (requestedTransport(request) === 'body') {
+            return tokens
+        }
+
+        const csrfToken = setRefreshCookies(reply, this.cookies, tokens.refreshToken)
+        return { accessToken: tokens.accessToken, tokenType: tokens.tokenType, csrfToken }
+    }
 }
 
+/**
+ * Require non-empty string fields in a request body
+ *
+ * @param {Record<string, unknown>} payload - Request body (possibly partial)
+ * @param {...string} fields - Required field names
+ * @throws {ValidationError} Listing every missing field (rule "required")
+ */
+function assertPresent(payload: Record<string, unknown>, ...fields: string[]): void {
+    const violations: Violation[] = fields
+        .filter(field => typeof payload[field] !== 'string' || payload[field] === '')
+        .map(field => ({ field, rule: 'required', message: `${field} is required` }))
+    if (violations.length > 0) {
+        throw new ValidationError(violations)
+    }
+}
+
+/**
+ * Collect the client facts the service records and throttles on
+ *
+ * @param {FastifyRequest} request - Incoming request
+ * @returns {ClientContext} IP (honours trustProxy), User-Agent header and request id
+ */
+function clientContext(request: FastifyRequest): ClientContext {
+    return { ip: request.ip, userAgent: request.headers['user-agent'], requestId: request.id }
+}
@@ -0,0 +1,294 @@
+/**
+ * Authentication Errors
+ *
+ * Typed errors thrown by AuthService and the JWT plugin. Each one carries
+ * its HTTP status and stable code (see AppError), so controllers don't
+ * translate them: the global error handler renders them as
+ * application/problem+json.
+ *
+ * Messages never reveal more than the caller may know: e.g. a wrong
+ * username and a wrong password are the same invalid_credentials.
+ *
+ * @module auth.errors
+ * @see {@link ../errors/app-error.ts} for the base class and the code list
+ */
+
+import { AppError, ValidationError, Violation } from '../errors/app-error'
+
+/**
+ * Thrown when no access token was sent to a protected route
+ *
+ * @class AuthenticationRequiredError
+ */
+export class AuthenticationRequiredError extends AppError {
+    constructor() {
+        super(401, 'authentication_required', 'Authentication required: send an access token as "Authorization: Bearer <token>"')
+        this.name = 'AuthenticationRequiredError'
+    }
+}
+
+/**
+ * Thrown when an access token can't be used: malformed, bad signature,
+ * unknown key, or not an access token at all (e.g. an MFA challenge token)
+ *
+ * @class InvalidTokenError
+ */
+export class InvalidTokenError extends AppError {
+    constructor(message = 'Access token is invalid') {
+        super(401, 'token_invalid', message)
+        this.name = 'InvalidTokenError'
+    }
+}
+
+/**
+ * Thrown when an access token has passed its exp claim
+ *
+ * The client should refresh and retry the request.
+ *
+ * @class TokenExpiredError
+ */
+export class TokenExpiredError extends AppError {
+    constructor() {
+        super(401, 'token_expired', 'Access token has expired')
+        this.name = 'TokenExpiredError'
+    }
+}
+
+/**
+ * Thrown when a correctly signed, unexpired access token was revoked
+ * (logout, signed out session, password change or reset, admin action)
+ *
+ * The client should log in again.
+ *
+ * @class TokenRevokedError
+ */
+export class TokenRevokedError extends AppError {
+    constructor() {
+        super(401, 'token_revoked', 'Access token has been revoked')
+        this.name = 'TokenRevokedError'
+    }
+}
+
+/**
+ * Thrown by refresh() for every unusable refresh token: unknown, expired,
+ * revoked, reused after rotation, or belonging to a disabled account
+ *
+ * One error for every case, so a stolen token replayed after rotation
+ * learns nothing. The client should log in again.
+ *
+ * @class InvalidRefreshTokenError
+ */
+export class InvalidRefreshTokenError extends AppError {
+    constructor() {
+        super(401, 'refresh_token_invalid', 'Refresh token is invalid, expired or revoked')
+        this.name = 'InvalidRefreshTokenError'
+    }
+}
+
+/**
+ * Thrown by login() for a wrong password or an unknown username
+ *
+ * @class InvalidCredentialsError
+ */
+export class InvalidCredentialsError extends AppError {
+    constructor() {
+        super(401, 'invalid_credentials', 'Invalid credentials')
+        this.name = 'InvalidCredentialsError'
+    }
+}
+
+/**
+ * Thrown by login() when the credentials are correct but an administrator
+ * has disabled the account
+ *
+ * Only raised after the password checked out, so it never reveals
+ * anything to someone guessing passwords.
+ *
+ * @class AccountDisabledError
+ */
+export class AccountDisabledError extends AppError {
+    constructor() {
+        super(403, 'account_disabled', 'Account is disabled')
+        this.name = 'AccountDisabledError'
+    }
+}
+
+/**
+ * Thrown by completeMfaLogin() when the challenge token is expired,
+ * already used or malformed
+ *
+ * @class InvalidMfaTokenError
+ */
+export class InvalidMfaTokenError extends AppError {
+    constructor() {
+        super(401, 'mfa_token_invalid', 'MFA token is invalid or expired')
+        this.name = 'InvalidMfaTokenError'
+    }
+}
+
+/**
+ * Thrown when the TOTP or recovery code is wrong
+ *
+ * At login (401) the challenge token stays valid (until it expires), so
+ * the client can ask for the code again; failures count towards login
+ * throttling. While confirming an enrollment the caller is signed in, so
+ * the status is 400: clients commonly treat 401 as "sign out".
+ *
+ * @class InvalidMfaCodeError
+ */
+export class InvalidMfaCodeError extends AppError {
+    constructor(statusCode: 400 | 401 = 401) {
+        super(statusCode, 'mfa_code_invalid', 'Invalid MFA code')
+        this.name = 'InvalidMfaCodeError'
+    }
+}
+
+/**
+ * Thrown by enrollTotp() when TOTP is already enabled
+ *
+ * @class MfaAlreadyEnabledError
+ */
+export class MfaAlreadyEnabledError extends AppError {
+    constructor() {
+        super(409, 'mfa_already_enabled', 'TOTP is already enabled')
+        this.name = 'MfaAlreadyEnabledError'
+    }
+}
+
+/**
+ * Thrown by confirmTotp() when no enrollment was started
+ *
+ * @class MfaEnrollmentNotStartedError
+ */
+export class MfaEnrollmentNotStartedError extends AppError {
+    constructor() {
+        super(400, 'mfa_enrollment_not_started', 'No TOTP enrollment in progress')
+        this.name = 'MfaEnrollmentNotStartedError'
+    }
+}
+
+/**
+ * Thrown when a route requires a role or permission the caller's access
+ * token doesn't carry, or a kind of token it isn't (e.g. a user's, not
+ * an OAuth client's own)
+ *
+ * @class InsufficientPermissionsError
+ */
+export class InsufficientPermissionsError extends AppError {
+    constructor(message = 'Forbidden - Insufficient permissions') {
+        super(403, 'insufficient_permissions', message)
+        this.name = 'InsufficientPermissionsError'
+    }
+}
+
+/**
+ * Thrown by changePassword() when the current password is wrong
+ *
+ * Counts as a failed login for throttling, so a stolen access token
+ * can't be used to guess the password. 403 rather than 401: the access
+ * token is fine.
+ *
+ * @class IncorrectPasswordError
+ */
+export class IncorrectPasswordError extends AppError {
+    constructor() {
+        super(403, 'incorrect_password', 'Current password is incorrect')
+        this.name = 'IncorrectPasswordError'
+    }
+}
+
+/**
+ * Thrown when the refresh token came from its cookie but the request
+ * doesn't carry the matching CSRF token (X-CSRF-Token header equal to the
+ * CSRF cookie)
+ *
+ * A cross-site page can make the browser send the cookie, but can't read
+ * the CSRF token to echo it. 403 rather than 401: the client should not
+ * treat it as "signed out".
+ *
+ * @class CsrfTokenError
+ */
+export class CsrfTokenError extends AppError {
+    constructor() {
+        super(403, 'csrf_token_invalid', 'Missing or mismatched CSRF token')
+        this.name = 'CsrfTokenError'
+    }
+}
+
+/**
+ * Thrown by resetPassword() when the token is unknown, already used,
+ * superseded by a newer one, or expired
+ *
+ * One error for every case, so the response reveals nothing about the token.
+ *
+ * @class InvalidResetTokenError
+ */
+export class InvalidResetTokenError extends AppError {
+    constructor() {
+        super(400, 'reset_token_invalid', 'Reset token is invalid or expired')
+        this.name = 'InvalidResetTokenError'
+    }
+}
+
+/**
+ * Thrown when a new password breaks the PasswordPolicy
+ *
+ * Carries every failed rule (same shape as registration violations),
+ * so the client can show them all at once.
+ *
+ * @class WeakPasswordError
+ */
+export class WeakPasswordError extends ValidationError {
+    constructor(violations: Violation[]) {
+        super(violations, 'weak_password', 'Password does not meet the password policy')
+        this.name = 'WeakPasswordError'
+    }
+}
+
+/**
+ * Thrown by register() when the username is already taken
+ *
+ * @class UsernameTakenError
+ */
+export class UsernameTakenError extends AppError {
+    constructor() {
+        super(409, 'username_taken', 'Username is already taken')
+        this.name = 'UsernameTakenError'
+    }
+}
+
+/**
+ * Thrown by register() when another account uses the email address
+ *
+ * @class EmailTakenError
+ */
+export class EmailTakenError extends AppError {
+    constructor() {
+        super(409, 'email_taken', 'Email is already registered')
+        this.name = 'EmailTakenError'
+    }
+}
+
+/**
+ * Thrown when an operation names a user that doesn't exist
+ *
+ * @class UserNotFoundError
+ */
+export class UserNotFoundError extends AppError {
+    constructor() {
+        super(404, 'user_not_found', 'User not found')
+        this.name = 'UserNotFoundError'
+    }
+}
+
+/**
+ * Thrown by revokeSession() for unknown ids and other users' sessions alike
+ *
+ * @class SessionNotFoundError
+ */
+export class SessionNotFoundError extends AppError {
+    constructor() {
+        super(404, 'session_not_found', 'Session not found')
+        this.name = 'SessionNotFoundError'
+    }
+}
@@ -4,21 +4,25 @@
  * Routes Layer - HTTP Endpoint Configuration
  *
  * This module:
- * 1. Instantiates dependencies (service, controller)
+ * 1. Instantiates the controller around the shared AuthService
  * 2. Registers HTTP routes with handlers
- * 3. Configures route options (preHandlers, methods, etc.)
+ * 3. Configures route options (methods, JSON schemas, etc.)
+ *
+ * Authentication is applied globally (plugins/auth-guard.plugin.ts):
+ * every route here requires an access token unless it is listed in
+ * config/public-routes.ts or declares config: { public: true }.
  *
  * Route Registration Pattern:
- * - Creates instances of service and controller
- * - Wires up dependency injection manually
+ * - Takes the AuthService built by plugins/auth.plugin.ts (app.authService)
+ * - Wires up the controller manually
  * - Registers handlers with Fastify
  *
  * Dependency Injection Flow:
- * 1. authRoutes() is called by app.register() with FastifyInstance
- * 2. Create TokenStore (data layer)
- * 3. Create AuthService (business layer) - inject Fastify & TokenStore
- * 4. Create AuthController (HTTP layer) - inject AuthService
- * 5. Register routes with controller methods
+ * 1. auth.plugin builds UserRepository and AuthService once (shared with admin routes)
+ * 2. authRoutes() is called by app.register() with FastifyInstance
+ * 3. Create AuthController (HTTP layer) - inject app.authService and the
+ *    refresh cookie settings from app.config
+ * 4. Register routes with controller methods
  *
  * This manual DI is simple but can be replaced with DI container like:
  * - Awilix
@@ -32,9 +36,10 @@
  */
 
 import { FastifyInstance } from 'fastify'
-import { AuthService } from './auth.service'
 import { AuthController } from './auth.controller'
-import { TokenStore } from './token.store'
+import { loginMfaSchema, loginSchema, logoutSchema, meSchema, refreshSchema } from './auth.schemas'
+import { LoginRequest, RefreshTokenRequest } from './auth.types'
+import { refreshCookieOptions } from './refresh-cookie'
 
 /**
  * Register authentication routes
@@ -43,10 +48,21 @@ import { TokenStore } from './token.store'
  * Called during app initialization: app.register(authRoutes, { prefix: '/api/v1/auth' })
  *
  * Routes Registered:
- * 1. POST /login - Public, returns tokens
- * 2. POST /refresh - Public, requires refresh token
- * 3. GET /me - Protected, requires access token
- * 4. POST /logout - Protected, requires access token
+ * 1. POST /register - Public (PUBLIC_ROUTES), creates an account
+ * 2. POST /login - Public (PUBLIC_ROUTES), returns tokens
+ * 3. POST /refresh - Public (PUBLIC_ROUTES), requires refresh token
+ * 4. GET /me - Protected, requires access token
+ * 5. POST /logout - Protected, requires access token
+ * 6. POST /users/:username/unlock - Admin only, lifts a login lockout
+ * 7. GET /sessions - Protected, lists the caller's signed-in devices
+ * 8. DELETE /sessions/:id - Protected, signs one device out
+ * 9. POST /logout-all - Protected, signs out everywhere
+ * 10. POST /login/mfa - Public (PUBLIC_ROUTES prefix match), second login step for TOTP users
+ * 11. POST /mfa/totp/enroll - Protected, starts TOTP enrollment
+ * 12. POST /mfa/totp/confirm - Protected, enables TOTP and returns recovery codes
+ * 13. POST /password/change - Protected, changes the caller's password, revokes other sessions
+ * 14. POST /password/forgot - Public (PUBLIC_ROUTES), emails a password reset link
+ * 15. POST /password/reset - Public (PUBLIC_ROUTES), sets a new password with the emailed token
  *
  * Note on "this":
  * - Fastify routes are registered with `app.post()`, `app.get()`, etc.
@@ -63,6 +79,7 @@ import { TokenStore } from './token.store'
  * app.register(authRoutes, { prefix: '/api/v1/auth' });
  *
  * // Results in these endpoints:
+ * // POST http://localhost:3000/api/v1/auth/register
  * // POST http://localhost:3000/api/v1/auth/login
  * // POST http://localhost:3000/api/v1/auth/refresh
  * // GET http://localhost:3000/api/v1/auth/me
@@ -70,75 +87,98 @@ import { TokenStore } from './token.store'
  */
 export async function authRoutes(app: FastifyInstance) {
     /**
-     * Step 1: Create TokenStore instance
-     *
-     * TokenStore manages refresh tokens in memory
-     * Created fresh for each route registration
-     * In production, replace with Redis or database
-     *
-     * @type {TokenStore}
-     */
-    const tokenStore = new TokenStore()
-
-    /**
-     * Step 2: Create AuthService instance
+     * Create AuthController instance
      *
      * Depends on:
-     * - app: for JWT signing/verifying
-     * - tokenStore: for token storage/revocation
+     * - app.authService: business logic (decorated by auth.plugin, shared
+     *   with the other route modules)
+     * - app.config: refresh token cookie names and attributes
      *
-     * This is manual dependency injection
-     * Service receives its dependencies in constructor
+     * Controller receives service for handling requests
      *
-     * @type {AuthService}
+     * @type {AuthController}
      */
-    const service = new AuthService(app, tokenStore)
+    const controller = new AuthController(app.authService, refreshCookieOptions(app.config))
 
     /**
-     * Step 3: Create AuthController instance
+     * Route: POST /auth/register
      *
-     * Depends on:
-     * - service: for business logic
+     * Public endpoint - no authentication required
+     * Accepts desired username and password
+     * Creates the account (does not log in)
      *
-     * Controller receives service for handling requests
+     * HTTP Method: POST
+     * Handler: controller.register
      *
-     * @type {AuthController}
+     * Status Codes:
+     * - 201 Created: Account created
+     * - 400 Bad Request: Username format or password policy violations
+     * - 409 Conflict: Username already taken
      */
-    const controller = new AuthController(service)
+    app.post('/register', {
+        schema: { tags: ['auth'], operationId: 'register', summary: 'Create an account' }
+    }, controller.register)
 
     /**
      * Route: POST /auth/login
      *
      * Public endpoint - no authentication required
      * Accepts username and password
-     * Returns access and refresh tokens
+     * Returns access and refresh tokens (refresh token as an HttpOnly
+     * cookie with X-Token-Transport: cookie)
      *
      * HTTP Method: POST
      * Handler: controller.login
      *
+     * Schema: loginSchema (headers and body validated, response serialized)
+     *
      * Status Codes:
      * - 200 OK: Login successful, tokens returned
+     *   (or an MFA challenge for users with TOTP enabled)
+     * - 400 Bad Request: Missing body, missing fields or wrong types
      * - 401 Unauthorized: Invalid credentials
-     * - 400 Bad Request: Missing required fields
+     * - 403 Forbidden: Account disabled
+     * - 429 Too Many Requests: Username or IP throttled (Retry-After header)
+     */
+    app.post<{ Body: LoginRequest }>('/login', { schema: loginSchema }, controller.login)
+
+    /**
+     * Route: POST /auth/login/mfa
+     *
+     * Public endpoint - covered by the /auth/login entry of PUBLIC_ROUTES
+     * Accepts the mfaToken from /auth/login plus a TOTP or recovery code
+     * Returns access and refresh tokens
+     *
+     * HTTP Method: POST
+     * Handler: controller.loginMfa
+     *
+     * Status Codes:
+     * - 200 OK: Login completed, tokens returned
+     * - 401 Unauthorized: Wrong code, or invalid/expired/used mfaToken
+     * - 403 Forbidden: Account disabled
+     * - 429 Too Many Requests: Username or IP throttled (Retry-After header)
      */
-    app.post('/login', controller.login)
+    app.post('/login/mfa', { schema: loginMfaSchema }, controller.loginMfa)
 
     /**
      * Route: POST /auth/refresh
      *
      * Public endpoint - no authentication required
-     * Accepts refresh token
+     * Accepts refresh token (body, or cookie with X-Token-Transport: cookie)
      * Returns new access token
      *
      * HTTP Method: POST
      * Handler: controller.refresh
      *
+     * Schema: refreshSchema (headers and body validated, response serialized)
+     *
      * Status Codes:
      * - 200 OK: Token refreshed, new access token returned
-     * - 400 Bad Request: Missing refresh token
+     * - 400 Bad Request: Missing or malformed refresh token
      * - 401 Unauthorized: Invalid or expired refresh token
+     * - 403 Forbidden: Cookie transport without a matching X-CSRF-Token header
      */
-    app.post('/refresh', controller.refresh)
+    app.post<{ Body: RefreshTokenRequest }>('/refresh', { schema: refreshSchema }, controller.refresh)
 
     /**
      * Route: GET /auth/me
@@ -147,28 +187,22 @@ export async function authRoutes(app: FastifyInstance) {
      * Returns current authenticated user information
      *
      * HTTP Method: GET
-     * Middleware: app.authenticate (preHandler)
+     * Authentication: global onRequest hook (not in PUBLIC_ROUTES)
      * - Validates JWT token from Authorization header
      * - Decodes token and sets request.user
      * - Returns 401 if token missing or invalid
      *
      * Handler: controller.me
-     *
-     * Configuration:
-     * - preHandler: Runs before handler, validates token
-     * - Array allows multiple preHandlers
+     * Schema: meSchema (only the known access token claims are returned)
      *
      * Status Codes:
      * - 200 OK: User info returned
      * - 401 Unauthorized: Missing or invalid token
+     * - 403 Forbidden: Not a user token (OAuth client_credentials)
      *
      * @see {@link ../plugins/jwt.plugin.ts} for authenticate implementation
      */
-    app.get(
-        '/me',
-        { preHandler: [app.authenticate] },  // Security: validate token first
-        controller.me                        // Handler: return user info
-    )
+    app.get('/me', { config: { userOnly: true }, schema: meSchema }, controller.me)
 
     /**
      * Route: POST /auth/logout
@@ -178,28 +212,204 @@ export async function authRoutes(app: FastifyInstance) {
      * Prevents future token refreshes
      *
      * HTTP Method: POST
-     * Middleware: app.authenticate (preHandler)
+     * Authentication: global onRequest hook
      * - Same token validation as /me endpoint
      *
      * Handler: controller.logout
      *
      * Configuration:
-     * - preHandler: Validates access token
-     * - Body: Must include refreshToken
+     * - Schema: logoutSchema (body must include refreshToken, unless the
+     *   cookie transport is used)
      *
      * Status Codes:
      * - 200 OK: Logged out successfully
      * - 400 Bad Request: Missing refresh token or logout failed
      * - 401 Unauthorized: Missing or invalid access token
+     * - 403 Forbidden: Cookie transport without a matching X-CSRF-Token header
+     * - 403 Forbidden: Not a user token (OAuth client_credentials)
      *
      * Note:
-     * - Revokes the refresh token
-     * - Current access token remains valid until expiration
+     * - Revokes the refresh token's session
+     * - Current access token is denylisted and rejected immediately
      * - Client should delete stored tokens
      */
-    app.post(
-        '/logout',
-        { preHandler: [app.authenticate] },  // Security: validate token first
-        controller.logout                    // Handler: revoke refresh token
-    )
+    app.post<{ Body: RefreshTokenRequest }>('/logout', { config: { userOnly: true }, schema: logoutSchema }, controller.logout)
+
+    /**
+     * Route: POST /auth/users/:username/unlock
+     *
+     * Admin-only endpoint - requires an access token with the admin role
+     * Clears the user's failed-login counter (backoff and lockout)
+     *
+     * HTTP Method: POST
+     * Authorization: config.roles (enforced by jwt.plugin)
+     * Handler: controller.unlock
+     *
+     * Status Codes:
+     * - 200 OK: Lockout cleared
+     * - 401 Unauthorized: Missing or invalid token
+     * - 403 Forbidden: Caller is not an admin
+     * - 404 Not Found: No such user
+     */
+    app.post('/users/:username/unlock', {
+        config: { roles: ['admin'] },
+        schema: { tags: ['auth'], operationId: 'unlockUser', summary: "Clear a user's login lockout" }
+    }, controller.unlock)
+
+    /**
+     * Route: GET /auth/sessions
+     *
+     * Protected endpoint - lists the caller's signed-in devices
+     * (one session per login, with device name, user-agent, IP and last use)
+     *
+     * HTTP Method: GET
+     * Handler: controller.listSessions
+     *
+     * Status Codes:
+     * - 200 OK: Sessions returned (current one flagged)
+     * - 401 Unauthorized: Missing or invalid token
+     * - 403 Forbidden: Token issued to an OAuth client (not by /auth/login)
+     */
+    app.get('/sessions', {
+        config: { accountManagement: true },
+        schema: { tags: ['sessions'], operationId: 'listSessions', summary: 'List your signed-in devices' }
+    }, controller.listSessions)
+
+    /**
+     * Route: DELETE /auth/sessions/:id
+     *
+     * Protected endpoint - signs one of the caller's sessions out
+     * Its refresh token and access tokens stop working immediately
+     *
+     * HTTP Method: DELETE
+     * Handler: controller.revokeSession
+     *
+     * Status Codes:
+     * - 200 OK: Session revoked
+     * - 401 Unauthorized: Missing or invalid token
+     * - 403 Forbidden: Token issued to an OAuth client (not by /auth/login)
+     * - 404 Not Found: No such session for this user
+     */
+    app.delete('/sessions/:id', {
+        config: { accountManagement: true },
+        schema: { tags: ['sessions'], operationId: 'revokeSession', summary: 'Sign out one device' }
+    }, controller.revokeSession)
+
+    /**
+     * Route: POST /auth/logout-all
+     *
+     * Protected endpoint - signs the caller out of every session,
+     * including the current one
+     *
+     * HTTP Method: POST
+     * Handler: controller.logoutAll
+     *
+     * Status Codes:
+     * - 200 OK: All sessions revoked
+     * - 401 Unauthorized: Missing or invalid token
+     * - 403 Forbidden: Token issued to an OAuth client (not by /auth/login)
+     */
+    app.post('/logout-all', {
+        config: { accountManagement: true },
+        schema: { tags: ['sessions'], operationId: 'logoutAll', summary: 'Sign out everywhere' }
+    }, controller.logoutAll)
+
+    /**
+     * Route: POST /auth/mfa/totp/enroll
+     *
+     * Protected endpoint - creates a TOTP secret for the caller's
+     * authenticator app (no effect on login until confirmed)
+     *
+     * HTTP Method: POST
+     * Handler: controller.enrollTotp
+     *
+     * Status Codes:
+     * - 200 OK: Secret and otpauth:// URI returned
+     * - 401 Unauthorized: Missing or invalid token
+     * - 403 Forbidden: Token issued to an OAuth client (not by /auth/login)
+     * - 409 Conflict: TOTP already enabled
+     */
+    app.post('/mfa/totp/enroll', {
+        config: { accountManagement: true },
+        schema: { tags: ['mfa'], operationId: 'enrollTotp', summary: 'Start TOTP enrollment' }
+    }, controller.enrollTotp)
+
+    /**
+     * Route: POST /auth/mfa/totp/confirm
+     *
+     * Protected endpoint - checks a code from the authenticator app,
+     * enables TOTP and returns one-time recovery codes
+     *
+     * HTTP Method: POST
+     * Handler: controller.confirmTotp
+     *
+     * Status Codes:
+     * - 200 OK: TOTP enabled, recovery codes returned (shown once)
+     * - 400 Bad Request: Wrong code, or no enrollment in progress
+     * - 401 Unauthorized: Missing or invalid token
+     * - 403 Forbidden: Token issued to an OAuth client (not by /auth/login)
+     */
+    app.post('/mfa/totp/confirm', {
+        config: { accountManagement: true },
+        schema: { tags: ['mfa'], operationId: 'confirmTotp', summary: 'Enable TOTP and get recovery codes' }
+    }, controller.confirmTotp)
+
+    /**
+     * Route: POST /auth/password/change
+     *
+     * Protected endpoint - requires valid access token
+     * Accepts the current and the new password
+     * Signs out every other session of the user (this one stays signed in)
+     *
+     * HTTP Method: POST
+     * Handler: controller.changePassword
+     *
+     * Status Codes:
+     * - 200 OK: Password changed, other sessions revoked
+     * - 400 Bad Request: Missing input, or password policy violations
+     * - 401 Unauthorized: Missing or invalid token
+     * - 403 Forbidden: Current password is incorrect
+     * - 403 Forbidden: Token issued to an OAuth client (not by /auth/login)
+     * - 429 Too Many Requests: Username or IP throttled (Retry-After header)
+     */
+    app.post('/password/change', {
+        config: { accountManagement: true },
+        schema: { tags: ['password'], operationId: 'changePassword', summary: 'Change your password' }
+    }, controller.changePassword)
+
+    /**
+     * Route: POST /auth/password/forgot
+     *
+     * Public endpoint - no authentication required
+     * Accepts an email address and emails a single-use reset link
+     * Same response whether or not the address belongs to an account
+     *
+     * HTTP Method: POST
+     * Handler: controller.forgotPassword
+     *
+     * Status Codes:
+     * - 202 Accepted: Request taken (an email is sent if the account exists)
+     * - 400 Bad Request: Missing email
+     */
+    app.post('/password/forgot', {
+        schema: { tags: ['password'], operationId: 'forgotPassword', summary: 'Email a password reset link' }
+    }, controller.forgotPassword)
+
+    /**
+     * Route: POST /auth/password/reset
+     *
+     * Public endpoint - no authentication required
+     * Accepts the emailed reset token and a new password
+     * Signs the user out of every session on success
+     *
+     * HTTP Method: POST
+     * Handler: controller.resetPassword
+     *
+     * Status Codes:
+     * - 200 OK: Password changed, all tokens revoked
+     * - 400 Bad Request: Invalid/expired/used token, or password policy violations
+     */
+    app.post('/password/reset', {
+        schema: { tags: ['password'], operationId: 'resetPassword', summary: 'Set a new password with an emailed token' }
+    }, controller.resetPassword)
 }
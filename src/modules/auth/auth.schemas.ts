@@ -0,0 +1,168 @@
+/**
+ * Authentication Route Schemas
+ *
+ * Fastify route schemas (body, headers, response) for the core token
+ * endpoints (login, login/mfa, refresh, logout, me), assembled from the TypeBox schemas in auth.types.ts - the
+ * TypeScript types used by the controller and service are derived from
+ * the same objects, so they cannot drift apart.
+ *
+ * Requests:
+ * - Validated by Ajv before the handler runs
+ * - A missing body, a wrong type or a missing field is answered with
+ *   400 validation_failed (see plugins/error-handler.plugin.ts), never
+ *   with a 401 or a 500 from the handler
+ * - Unknown body properties are dropped (Fastify's removeAdditional)
+ *
+ * Documentation:
+ * - tags, operationId and summary name the operation in the OpenAPI
+ *   document (plugins/openapi.plugin.ts); SDK generators use operationId
+ *   as the method name
+ *
+ * Responses:
+ * - Serialized by fast-json-stringify from the schema of the status code
+ * - Only the listed properties are written: internal fields (e.g. extra
+ *   JWT claims) can't leak into a response by accident
+ * - Error statuses are application/problem+json (problemResponse); the
+ *   description lists the codes a client can expect
+ *
+ * @module auth.schemas
+ * @see {@link auth.types.ts} for the schemas and types
+ * @see {@link auth.routes.ts} for where they are attached
+ */
+
+import { FastifySchema } from 'fastify'
+import { Type } from '@sinclair/typebox'
+import {
+    CookieTokenResponseSchema,
+    LoginRequestSchema,
+    MeResponseSchema,
+    MessageResponseSchema,
+    MfaChallengeResponseSchema,
+    RefreshTokenRequestSchema,
+    TokenResponseSchema
+} from './auth.types'
+import { problemResponse } from '../errors/problem'
+import { CSRF_HEADER, TOKEN_TRANSPORT_HEADER } from './refresh-cookie'
+
+/**
+ * Headers of protected routes
+ *
+ * The global auth guard (onRequest) rejects a missing or invalid token with
+ * 401 before validation runs; this documents the header for clients.
+ */
+const BearerAuthHeadersSchema = Type.Object({
+    authorization: Type.String({ minLength: 1, description: 'Bearer <access token>' })
+})
+
+/**
+ * Headers of the endpoints that issue tokens
+ *
+ * Selects how the refresh token travels (see refresh-cookie.ts); any
+ * other value than body or cookie is a 400.
+ */
+const TokenTransportHeadersSchema = Type.Object({
+    [TOKEN_TRANSPORT_HEADER]: Type.Optional(Type.Union([Type.Literal('body'), Type.Literal('cookie')], {
+        description: 'cookie: refresh token in an HttpOnly cookie instead of the body (default body)'
+    }))
+})
+
+/**
+ * Headers of the endpoints that read the refresh token (refresh, logout)
+ */
+const RefreshTransportHeadersSchema = Type.Composite([
+    TokenTransportHeadersSchema,
+    Type.Object({
+        [CSRF_HEADER]: Type.Optional(Type.String({
+            description: 'Cookie transport: the csrfToken from the last login or refresh (same as the CSRF cookie)'
+        }))
+    })
+])
+
+/**
+ * POST /auth/login
+ *
+ * 200 is either tokens or, for TOTP users, an MFA challenge
+ */
+export const loginSchema = {
+    tags: ['auth'],
+    operationId: 'login',
+    summary: 'Log in with username and password',
+    headers: TokenTransportHeadersSchema,
+    body: LoginRequestSchema,
+    response: {
+        200: Type.Union([TokenResponseSchema, CookieTokenResponseSchema, MfaChallengeResponseSchema]),
+        400: problemResponse('validation_failed: malformed body'),
+        401: problemResponse('invalid_credentials: wrong username or password'),
+        403: problemResponse('account_disabled: account disabled by an administrator'),
+        429: problemResponse('account_locked: too many failed attempts (see Retry-After)')
+    }
+} satisfies FastifySchema
+
+/**
+ * Body of refresh and logout
+ *
+ * Fastify validates a missing body as null: cookie-transport clients may
+ * send no body at all. Whether refreshToken is required depends on the
+ * transport, so the controller checks it.
+ */
+const RefreshBodySchema = Type.Union([RefreshTokenRequestSchema, Type.Null()])
+
+/**
+ * POST /auth/login/mfa
+ *
+ * The body (mfaToken and code) is checked by AuthService
+ */
+export const loginMfaSchema = {
+    tags: ['auth'],
+    operationId: 'loginMfa',
+    summary: 'Complete a two-factor login',
+    headers: TokenTransportHeadersSchema
+} satisfies FastifySchema
+
+/**
+ * POST /auth/refresh
+ */
+export const refreshSchema = {
+    tags: ['auth'],
+    operationId: 'refreshToken',
+    summary: 'Exchange a refresh token for new tokens',
+    headers: RefreshTransportHeadersSchema,
+    body: RefreshBodySchema,
+    response: {
+        200: Type.Union([TokenResponseSchema, CookieTokenResponseSchema]),
+        400: problemResponse('validation_failed: malformed body or missing refreshToken'),
+        401: problemResponse('refresh_token_invalid: unknown, expired, revoked or reused refresh token'),
+        403: problemResponse('csrf_token_invalid: cookie transport without a matching X-CSRF-Token header')
+    }
+} satisfies FastifySchema
+
+/**
+ * POST /auth/logout
+ */
+export const logoutSchema = {
+    tags: ['auth'],
+    operationId: 'logout',
+    summary: 'Log out and revoke the refresh token',
+    headers: Type.Composite([BearerAuthHeadersSchema, RefreshTransportHeadersSchema]),
+    body: RefreshBodySchema,
+    response: {
+        200: MessageResponseSchema,
+        400: problemResponse('validation_failed: malformed body or missing refreshToken'),
+        401: problemResponse('authentication_required, token_invalid, token_expired or token_revoked'),
+        403: problemResponse('csrf_token_invalid: cookie transport without a matching X-CSRF-Token header')
+    }
+} satisfies FastifySchema
+
+/**
+ * GET /auth/me
+ */
+export const meSchema = {
+    tags: ['auth'],
+    operationId: 'getCurrentUser',
+    summary: 'Get the authenticated user',
+    headers: BearerAuthHeadersSchema,
+    response: {
+        200: MeResponseSchema,
+        401: problemResponse('authentication_required, token_invalid, token_expired or token_revoked')
+    }
+} satisfies FastifySchema
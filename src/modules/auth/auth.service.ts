@@ -4,10 +4,16 @@
  * Service Layer - Handles Business Logic
  *
  * This service encapsulates all authentication-related business logic:
+ * - User registration (username format + password policy)
  * - User credential validation
- * - JWT token generation (access & refresh tokens)
- * - Token refresh logic
- * - Token revocation (logout)
+ * - Token generation (JWT access tokens, opaque refresh tokens)
+ * - Token refresh logic (rotation with reuse detection)
+ * - Token revocation (logout, revoke all sessions)
+ * - Session management (list and revoke signed-in devices)
+ * - TOTP two-factor authentication (enrollment, step-up login, recovery codes)
+ * - Credential checks and sessions for the OAuth authorization code flow
+ * - Password change (signed-in users) and reset (emailed single-use tokens)
+ * - Security audit events for all of the above
  *
  * Layer Responsibilities:
  * - NOT responsible for HTTP handling (controller does that)
@@ -15,17 +21,104 @@
  * - Responsible for all business rules and logic
  *
  * Dependencies:
- * - FastifyInstance: For JWT signing/verifying
- * - TokenStore: For managing refresh token lifecycle
+ * - FastifyInstance: For JWT signing/verifying and token lifetimes (app.config)
+ * - ITokenStore: For managing refresh token lifecycle (any backend)
+ * - IRevokedTokenStore: For revoking access tokens before they expire
+ * - UserRepository: For looking up user accounts
+ * - PasswordHasher: For verifying (and upgrading) password hashes
+ * - PasswordPolicy: For validating new passwords
+ * - LoginThrottle: For brute-force protection (backoff, lockout)
+ * - Totp: For generating and checking authenticator app codes
+ * - Mailer: For sending password reset emails
+ * - AuditLog: For recording security audit events
  *
  * @module auth.service
  * @see {@link auth.controller.ts} for HTTP layer
  * @see {@link token.store.ts} for data access
+ * @see {@link ../users/user.repository.ts} for user accounts
  */
 
+import { randomBytes, randomUUID } from 'crypto'
 import { FastifyInstance } from 'fastify'
-import { LoginRequest, TokenResponse } from './auth.types'
-import { TokenStore } from './token.store'
+import {
+    AccessTokenClaims,
+    ChangePasswordRequest,
+    ClientContext,
+    ForgotPasswordRequest,
+    LoginRequest,
+    MfaChallengeResponse,
+    MfaLoginRequest,
+    MfaPendingClaims,
+    RegisterRequest,
+    RegisterResponse,
+    RegistrationViolation,
+    ResetPasswordRequest,
+    Session,
+    TokenResponse,
+    TotpEnrollment
+} from './auth.types'
+import {
+    AccountDisabledError,
+    EmailTakenError,
+    IncorrectPasswordError,
+    InvalidCredentialsError,
+    InvalidMfaCodeError,
+    InvalidMfaTokenError,
+    InvalidRefreshTokenError,
+    InvalidResetTokenError,
+    MfaAlreadyEnabledError,
+    MfaEnrollmentNotStartedError,
+    SessionNotFoundError,
+    UserNotFoundError,
+    UsernameTakenError,
+    WeakPasswordError
+} from './auth.errors'
+import { hashToken, ITokenStore, SessionMetadata, StoredToken } from './token.store'
+import { IRevokedTokenStore } from './revoked-token.store'
+import { LoginThrottle, AccountLockedError } from './login-throttle'
+import { Totp } from './totp'
+import { generateRecoveryCodes, hashRecoveryCode } from './recovery-codes'
+import { Mailer } from '../mail/mailer'
+import { AuditLog } from '../audit/audit-log'
+import { AuditEventType, AuditOutcome } from '../audit/audit.types'
+import { UserRepository } from '../users/user.repository'
+import { UserRecord } from '../users/user.types'
+import { PasswordHasher } from '../users/password.hasher'
+import { PasswordPolicy } from '../users/password.policy'
+import { DEFAULT_ROLE, resolvePermissions, restrictToScopes } from '../../config/roles'
+
+/**
+ * Allowed username format
+ * 3-32 characters: letters, digits, dot, underscore, hyphen
+ * Must start with a letter or digit
+ */
+const USERNAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]{2,31}$/
+
+/**
+ * Accepted email format: something@domain.tld, no spaces, at most 254 characters
+ * Deliberately loose; the reset email itself proves the address works
+ */
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+const MAX_EMAIL_LENGTH = 254
+
+/**
+ * Minimum time between two reset emails for the same account
+ * Stops the forgot-password endpoint from being used to flood a mailbox
+ */
+const PASSWORD_RESET_RESEND_INTERVAL_MS = 60 * 1000
+
+/**
+ * Entropy of a refresh token: 32 random bytes (256 bits), sent as
+ * 43 base64url characters
+ */
+const REFRESH_TOKEN_BYTES = 32
+
+/**
+ * Longest device name / user-agent stored with a session
+ * Longer values are truncated (client-supplied, shown back to the user)
+ */
+const MAX_DEVICE_NAME_LENGTH = 100
+const MAX_USER_AGENT_LENGTH = 512
 
 /**
  * Authentication Service Class
@@ -43,32 +136,184 @@ export class AuthService {
     /**
      * Constructor
      *
-     * @param {FastifyInstance} app - Fastify instance for JWT operations
-     * @param {TokenStore} tokenStore - In-memory token storage
+     * @param {FastifyInstance} app - Fastify instance for JWT operations and config
+     * @param {ITokenStore} tokenStore - Refresh token storage (memory, file, ...)
+     * @param {UserRepository} users - User account storage
+     * @param {PasswordHasher} hasher - Password hashing/verification
+     * @param {PasswordPolicy} passwordPolicy - Rules for new passwords
+     * @param {IRevokedTokenStore} revokedTokens - Access token denylist
+     * @param {LoginThrottle} loginThrottle - Failed login tracking (backoff, lockout)
+     * @param {Totp} totp - TOTP secret generation and code checks
+     * @param {Mailer} mailer - Outgoing mail (password reset links)
+     * @param {AuditLog} auditLog - Security audit events
      */
     constructor(
         private app: FastifyInstance,
-        private tokenStore: TokenStore
+        private tokenStore: ITokenStore,
+        private users: UserRepository,
+        private hasher: PasswordHasher,
+        private passwordPolicy: PasswordPolicy,
+        private revokedTokens: IRevokedTokenStore,
+        private loginThrottle: LoginThrottle,
+        private totp: Totp,
+        private mailer: Mailer,
+        private auditLog: AuditLog
     ) {}
 
+    /**
+     * Hash of a random password, verified against when the username is unknown
+     *
+     * Why?
+     * - Without it, unknown usernames return instantly while known ones
+     *   spend ~50ms in scrypt, which leaks which accounts exist
+     * - Computed lazily once and reused
+     */
+    private dummyHash: Promise<string> | null = null
+
+    /**
+     * Validate a registration request without creating anything
+     *
+     * Checks:
+     * 1. username and password are present and are strings
+     * 2. username matches USERNAME_PATTERN
+     * 3. password satisfies every PasswordPolicy rule
+     * 4. email, if given, looks like an address
+     *
+     * All failures are collected (not just the first), so the client can
+     * display every problem at once.
+     *
+     * @param {Partial<RegisterRequest>} payload - Raw registration input
+     * @returns {RegistrationViolation[]} Empty array if the request is valid
+     *
+     * @example
+     * authService.validateRegistration({ username: 'al', password: 'short' });
+     * // [
+     * //   { field: 'username', rule: 'format', message: '...' },
+     * //   { field: 'password', rule: 'min_length', message: '...' },
+     * //   ...
+     * // ]
+     */
+    validateRegistration(payload: Partial<RegisterRequest>): RegistrationViolation[] {
+        const violations: RegistrationViolation[] = []
+        const { username, password, email } = payload
+
+        if (typeof username !== 'string' || username.length === 0) {
+            violations.push({ field: 'username', rule: 'required', message: 'Username is required' })
+        } else if (!USERNAME_PATTERN.test(username)) {
+            violations.push({
+                field: 'username',
+                rule: 'format',
+                message: 'Username must be 3-32 characters of letters, digits, ".", "_" or "-", starting with a letter or digit'
+            })
+        }
+
+        if (typeof password !== 'string' || password.length === 0) {
+            violations.push({ field: 'password', rule: 'required', message: 'Password is required' })
+        } else {
+            const name = typeof username === 'string' ? username : undefined
+            for (const violation of this.passwordPolicy.validate(password, name)) {
+                violations.push({ field: 'password', ...violation })
+            }
+        }
+
+        if (email !== undefined && (
+            typeof email !== 'string' || email.length > MAX_EMAIL_LENGTH || !EMAIL_PATTERN.test(email)
+        )) {
+            violations.push({ field: 'email', rule: 'format', message: 'Email must be a valid email address' })
+        }
+
+        return violations
+    }
+
+    /**
+     * Register a new user account
+     *
+     * Registration Flow:
+     * 1. Caller validates input first with validateRegistration()
+     * 2. Reject if the username or email is already taken
+     * 3. Hash the password with scrypt
+     * 4. Store the new user with the default role (no direct permissions)
+     *    and the lowercased email, if given
+     *
+     * Tokens are NOT issued here; the client logs in afterwards.
+     * This keeps a single code path (login) responsible for issuing tokens.
+     *
+     * @async
+     * @param {RegisterRequest} payload - Validated registration input
+     * @param {ClientContext} [client] - Caller facts, for the audit event
+     * @returns {Promise<RegisterResponse>} The created account
+     * @throws {UsernameTakenError} If the username is already taken
+     * @throws {EmailTakenError} If the email is already registered
+     *
+     * @example
+     * const user = await authService.register({
+     *   username: 'alice',
+     *   password: 'Correct-Horse-42'
+     * });
+     * // Returns: { username: "alice", createdAt: "2024-01-15T16:00:00.000Z" }
+     */
+    async register(payload: RegisterRequest, client?: ClientContext): Promise<RegisterResponse> {
+        if (await this.users.findByUsername(payload.username)) {
+            this.audit('account.register', 'failure', payload.username, client, { reason: 'username_taken' })
+            throw new UsernameTakenError()
+        }
+
+        const email = payload.email?.toLowerCase()
+        if (email && await this.users.findByEmail(email)) {
+            this.audit('account.register', 'failure', payload.username, client, { reason: 'email_taken' })
+            throw new EmailTakenError()
+        }
+
+        const now = Date.now()
+        await this.users.create({
+            username: payload.username,
+            email,
+            passwordHash: await this.hasher.hash(payload.password),
+            roles: [DEFAULT_ROLE],
+            permissions: [],
+            createdAt: now,
+            updatedAt: now
+        })
+        this.audit('account.register', 'success', payload.username, client)
+
+        return {
+            username: payload.username,
+            createdAt: new Date(now).toISOString()
+        }
+    }
+
     /**
      * Authenticate user and generate JWT tokens
      *
      * Login Flow:
-     * 1. Validate credentials (username/password check)
-     * 2. Generate access token (short-lived: 15 minutes)
-     * 3. Generate refresh token (long-lived: 7 days)
-     * 4. Store refresh token in token store
+     * 0. Reject early if the username or client IP is throttled (backoff/lockout)
+     * 1. Validate credentials (user lookup + scrypt hash comparison)
+     *    - Failure: counted against username and IP
+     *    - Success: username counter reset
+     * 2. Upgrade the stored hash if its cost parameters are outdated
+     *    TOTP enabled? Stop here and return an MFA challenge instead
+     *    (completeMfaLogin() continues with step 3)
+     * 3. Generate access token (short-lived: ACCESS_TOKEN_TTL_SECONDS, default 15 minutes)
+     * 4. Generate and store refresh token (long-lived: REFRESH_TOKEN_TTL_SECONDS, default 7 days;
+     *    starts a new token family)
      * 5. Return both tokens to client
      *
      * Security Considerations:
-     * - Currently validates against hardcoded demo credentials
-     * - TODO: Replace with database lookup and bcrypt password comparison
+     * - Passwords are compared against salted scrypt hashes in constant time
+     * - Unknown usernames still run a hash comparison (no timing oracle)
+     * - Same error for unknown user and wrong password (no user enumeration)
+     * - Unknown usernames are throttled like real ones (no enumeration via lockouts)
      * - Access token expires quickly (15 min) - limits exposure
-     * - Refresh token stored server-side - can be revoked anytime
+     * - Refresh token is an opaque random string; only its hash is stored
+     *   server-side - can be revoked anytime
      *
-     * Token Claims:
+     * Access Token Claims:
      * - sub (subject): Username identifier
+     * - jti (JWT ID): Unique token id, used to revoke a single token
+     * - sid (session id): The login session, used to revoke one device
+     * - token_use, iss, aud: Token type, issuer and audience
+     * - roles: The user's roles
+     * - permissions: Effective permissions from roles + direct grants
      * - iat (issued at): Timestamp when token was created
      * - exp (expiration): Timestamp when token expires
      *
@@ -76,15 +321,21 @@ export class AuthService {
      * @param {LoginRequest} payload - User credentials
      * @param {string} payload.username - Username
      * @param {string} payload.password - Password (plaintext, sent over HTTPS)
-     * @returns {Promise<TokenResponse>} Access and refresh tokens
-     * @throws {Error} If credentials are invalid
+     * @param {ClientContext} client - Caller facts (IP for throttling, IP and user-agent for the session)
+     * @param {string[]} [scopes] - Scopes granted to the OAuth client (password grant); the
+     *   session's access tokens carry no permission outside them
+     * @returns {Promise<TokenResponse | MfaChallengeResponse>} Access and refresh tokens,
+     *          or a challenge to complete with POST /auth/login/mfa for TOTP users
+     * @throws {AccountLockedError} If the username or IP must wait before retrying
+     * @throws {AccountDisabledError} If the credentials are valid but the account is disabled
+     * @throws {InvalidCredentialsError} If credentials are invalid
      *
      * @example
      * // Valid login
      * const tokens = await authService.login({
      *   username: 'admin',
      *   password: 'Admin@123'
-     * });
+     * }, { ip: request.ip });
      * // Returns: { accessToken: "...", refreshToken: "...", tokenType: "Bearer" }
      *
      * @example
@@ -93,181 +344,1158 @@ export class AuthService {
      *   await authService.login({
      *     username: 'admin',
      *     password: 'wrongpassword'
-     *   });
+     *   }, { ip: request.ip });
      * } catch (error) {
-     *   // Throws: Error: Invalid credentials
+     *   // Throws: InvalidCredentialsError (401 invalid_credentials)
      * }
      */
-    async login(payload: LoginRequest): Promise<TokenResponse> {
-        // Step 1: Validate credentials
-        // TEMP: Using hardcoded credentials for demo
-        // TODO: Implement proper database lookup and bcrypt comparison
-        if (payload.username !== 'admin' || payload.password !== 'Admin@123') {
-            throw new Error('Invalid credentials')
+    async login(payload: LoginRequest, client: ClientContext, scopes?: string[]): Promise<TokenResponse | MfaChallengeResponse> {
+        // Steps 0-2: Throttling, credentials, disabled accounts, hash upgrade
+        const user = await this.verifyPassword(payload, client)
+
+        // Step 2b: Second factor
+        // Users with TOTP enabled get a short-lived challenge token instead
+        // of tokens; the session starts once completeMfaLogin() accepts a code
+        const deviceName = truncate(payload.deviceName, MAX_DEVICE_NAME_LENGTH)
+        if (user.totp?.confirmedAt) {
+            this.audit('login.mfa_challenge', 'success', user.username, client)
+            return this.issueMfaChallenge(user.username, deviceName)
         }
 
-        // Step 2: Generate access token
-        // app.jwt.sign() uses JWT_SECRET to sign the token
-        // Returns a cryptographically signed token string
-        // Expiration: 15 minutes (900 seconds)
-        // This token is used for subsequent API requests
-        const accessToken = this.app.jwt.sign(
-            { sub: payload.username },        // Payload: who is this token for
-            { expiresIn: '15m' }              // Options: when does it expire
-        )
+        return this.startSession(user, {
+            deviceName,
+            userAgent: truncate(client.userAgent, MAX_USER_AGENT_LENGTH),
+            ip: client.ip,
+            sessionStartedAt: Date.now(),
+            clientId: client.oauthClientId,
+            scopes
+        }, 'login', client)
+    }
 
-        // Step 3: Generate refresh token
-        // Same signing mechanism as access token
-        // Expiration: 7 days (long-lived)
-        // Used to obtain new access tokens when current one expires
-        // Stored server-side so it can be revoked
-        const refreshToken = this.app.jwt.sign(
-            { sub: payload.username },        // Payload: who is this token for
-            { expiresIn: '7d' }               // Options: expires in 7 days
-        )
+    /**
+     * Finish a login for a TOTP user: exchange the challenge token from
+     * login() plus a code for access and refresh tokens
+     *
+     * Flow:
+     * 1. Verify the challenge token (signature, expiry, token_use, not used yet)
+     * 2. Reject early if the username or client IP is throttled
+     * 3. Check the code: a TOTP code (not replayed) or an unused recovery code
+     *    - Failure: counted against username and IP, the challenge stays valid
+     * 4. Remember the code's time step / drop the used recovery code
+     * 5. Denylist the challenge token (single use) and start the session
+     *
+     * @async
+     * @param {MfaLoginRequest} payload - Challenge token and code
+     * @param {ClientContext} client - Caller facts (throttling, session metadata)
+     * @returns {Promise<TokenResponse>} Access and refresh tokens
+     * @throws {AccountLockedError} If the username or IP must wait before retrying
+     * @throws {InvalidMfaCodeError} If the code is wrong or already used
+     * @throws {AccountDisabledError} If the account was disabled in the meantime
+     * @throws {InvalidMfaTokenError} If the challenge token is invalid, expired or already used
+     *
+     * @example
+     * const tokens = await authService.completeMfaLogin({
+     *   mfaToken: challenge.mfaToken,
+     *   code: '492039'
+     * }, { ip: request.ip });
+     */
+    async completeMfaLogin(payload: MfaLoginRequest, client: ClientContext): Promise<TokenResponse> {
+        // Steps 1-4: Challenge token, throttling, code, single use
+        const { user, deviceName, method } = await this.verifyMfa(payload, client)
+
+        // Step 5: Start the session
+        // The audit event notes recovery code use (and how many are left)
+        return this.startSession(user, {
+            deviceName,
+            userAgent: truncate(client.userAgent, MAX_USER_AGENT_LENGTH),
+            ip: client.ip,
+            sessionStartedAt: Date.now()
+        }, 'login.mfa', client, method)
+    }
+
+    /**
+     * Check a user's credentials without starting a session
+     *
+     * Used by the OAuth authorization endpoint (GET/POST /oauth/authorize):
+     * the user signs in on the login page, but the session only starts
+     * when the client exchanges the authorization code. Same checks as
+     * login() - throttling, disabled accounts, hash upgrade - and TOTP
+     * users get the same challenge, to be finished with authenticateMfa().
+     *
+     * @async
+     * @param {LoginRequest} payload - Username and password
+     * @param {ClientContext} client - Caller facts (throttling, auditing)
+     * @returns {Promise<object>} The username, or an MFA challenge for TOTP users
+     * @throws {AccountLockedError} If the username or IP must wait before retrying
+     * @throws {AccountDisabledError} If the credentials are valid but the account is disabled
+     * @throws {InvalidCredentialsError} If credentials are invalid
+     */
+    async authenticate(
+        payload: LoginRequest,
+        client: ClientContext
+    ): Promise<{ username: string } | MfaChallengeResponse> {
+        const user = await this.verifyPassword(payload, client)
 
-        // Step 4: Store refresh token in memory store
-        // Stores: token string, username, expiration time
-        // Used to:
-        // - Verify token is valid during refresh
-        // - Revoke token on logout
-        // - Prevent token reuse attacks
-        // TTL: 7 * 24 * 60 * 60 seconds = 7 days
-        this.tokenStore.saveToken(refreshToken, payload.username, 7 * 24 * 60 * 60)
+        if (user.totp?.confirmedAt) {
+            this.audit('login.mfa_challenge', 'success', user.username, client)
+            return this.issueMfaChallenge(user.username)
+        }
+        return { username: user.username }
+    }
+
+    /**
+     * Finish authenticate() for a TOTP user: check the challenge token
+     * and code without starting a session
+     *
+     * The challenge is consumed, exactly as by completeMfaLogin().
+     *
+     * @async
+     * @param {MfaLoginRequest} payload - Challenge token and code
+     * @param {ClientContext} client - Caller facts (throttling, auditing)
+     * @returns {Promise<object>} The username
+     * @throws {AccountLockedError} If the username or IP must wait before retrying
+     * @throws {InvalidMfaCodeError} If the code is wrong or already used
+     * @throws {AccountDisabledError} If the account was disabled in the meantime
+     * @throws {InvalidMfaTokenError} If the challenge token is invalid, expired or already used
+     */
+    async authenticateMfa(payload: MfaLoginRequest, client: ClientContext): Promise<{ username: string }> {
+        const { user } = await this.verifyMfa(payload, client)
+        return { username: user.username }
+    }
+
+    /**
+     * Start a session for a user who signed in earlier through
+     * authenticate() (the OAuth authorization code grant)
+     *
+     * The account is checked again: it may have been deleted or disabled
+     * between the sign-in and the code exchange. The session is bound to
+     * the OAuth client (client.oauthClientId), so only that client can
+     * refresh it, and to the scopes the user approved: its access tokens
+     * carry no permission outside them.
+     *
+     * @async
+     * @param {string} username - User who approved the authorization request
+     * @param {ClientContext} client - Caller facts; oauthClientId is required
+     * @param {string[]} scopes - Scopes granted with the authorization code
+     * @param {object} [details] - Extra audit details
+     * @returns {Promise<TokenResponse>} Access and refresh tokens
+     * @throws {InvalidCredentialsError} If the user no longer exists
+     * @throws {AccountDisabledError} If the account was disabled in the meantime
+     */
+    async startAuthorizedSession(
+        username: string,
+        client: ClientContext,
+        scopes: string[],
+        details?: Record<string, unknown>
+    ): Promise<TokenResponse> {
+        const user = await this.users.findByUsername(username)
+        if (!user) {
+            this.audit('oauth.authorization_code', 'failure', username, client, { reason: 'unknown_user' })
+            throw new InvalidCredentialsError()
+        }
+        if (user.disabled) {
+            this.audit('oauth.authorization_code', 'failure', username, client, { reason: 'account_disabled' })
+            throw new AccountDisabledError()
+        }
+
+        return this.startSession(user, {
+            userAgent: truncate(client.userAgent, MAX_USER_AGENT_LENGTH),
+            ip: client.ip,
+            sessionStartedAt: Date.now(),
+            clientId: client.oauthClientId,
+            scopes
+        }, 'oauth.authorization_code', client, details)
+    }
+
+    /**
+     * Start TOTP enrollment: create a secret for the user's authenticator app
+     *
+     * The secret is stored but has no effect until confirmTotp() accepts a
+     * code generated from it. Calling this again before confirming replaces
+     * the pending secret.
+     *
+     * @async
+     * @param {string} username - The caller
+     * @param {ClientContext} [client] - Caller facts, for the audit event
+     * @returns {Promise<TotpEnrollment>} Secret and otpauth:// URI (show as QR code)
+     * @throws {MfaAlreadyEnabledError} If TOTP is already enabled
+     * @throws {UserNotFoundError} If the user doesn't exist
+     *
+     * @example
+     * const { otpauthUri } = await authService.enrollTotp('alice');
+     */
+    async enrollTotp(username: string, client?: ClientContext): Promise<TotpEnrollment> {
+        const user = await this.users.findByUsername(username)
+        if (!user) {
+            throw new UserNotFoundError()
+        }
+        if (user.totp?.confirmedAt) {
+            this.audit('mfa.enroll', 'failure', username, client, { reason: 'already_enabled' })
+            throw new MfaAlreadyEnabledError()
+        }
+
+        const secret = this.totp.generateSecret()
+        await this.users.update(username, { totp: { secret, recoveryCodeHashes: [] } })
+        this.audit('mfa.enroll', 'success', username, client)
 
-        // Step 5: Return tokens to client
         return {
-            accessToken,
-            refreshToken,
-            tokenType: 'Bearer'               // Standard OAuth 2.0 token type
+            secret,
+            otpauthUri: this.totp.uri(secret, username, this.app.config.MFA_ISSUER)
+        }
+    }
+
+    /**
+     * Finish TOTP enrollment with a code from the authenticator app
+     *
+     * From now on login() returns an MFA challenge for this user.
+     * Recovery codes are returned ONCE; only their hashes are kept.
+     *
+     * @async
+     * @param {string} username - The caller
+     * @param {string} code - Current code from the authenticator app
+     * @param {ClientContext} [client] - Caller facts, for the audit event
+     * @returns {Promise<string[]>} One-time recovery codes
+     * @throws {InvalidMfaCodeError} If the code doesn't match the pending secret
+     * @throws {MfaEnrollmentNotStartedError} If there is no pending enrollment
+     *
+     * @example
+     * const recoveryCodes = await authService.confirmTotp('alice', '492039');
+     */
+    async confirmTotp(username: string, code: string, client?: ClientContext): Promise<string[]> {
+        const user = await this.users.findByUsername(username)
+        if (!user?.totp || user.totp.confirmedAt) {
+            throw new MfaEnrollmentNotStartedError()
+        }
+
+        const step = this.totp.verify(user.totp.secret, code)
+        if (step === null) {
+            this.audit('mfa.enable', 'failure', username, client, { reason: 'invalid_code' })
+            throw new InvalidMfaCodeError(400)
         }
+
+        const recoveryCodes = generateRecoveryCodes()
+        await this.users.update(username, {
+            totp: {
+                secret: user.totp.secret,
+                confirmedAt: Date.now(),
+                lastUsedStep: step,
+                recoveryCodeHashes: recoveryCodes.map(hashRecoveryCode)
+            }
+        })
+        this.audit('mfa.enable', 'success', username, client)
+        return recoveryCodes
     }
 
     /**
-     * Refresh the access token using a valid refresh token
-     *
-     * Refresh Flow:
-     * 1. Verify refresh token exists and hasn't expired
-     * 2. Verify refresh token hasn't been revoked (not in blacklist)
-     * 3. Decode the refresh token to get username
-     * 4. Generate new access token with same username
-     * 5. Return new access token (and same refresh token)
-     *
-     * Why Refresh Tokens?
-     * - Access tokens are short-lived (15 min) - limits damage if compromised
-     * - Users don't need to re-enter password after 15 minutes
-     * - If refresh token is compromised, user can logout to revoke it
-     * - Can implement token rotation to reduce risk
-     *
-     * Token Rotation (Future Enhancement):
-     * - Current: Reuse same refresh token
-     * - Better: Issue new refresh token each time
-     * - This invalidates old refresh token and prevents token replay
+     * Exchange a refresh token for a new access token AND a new refresh token
+     *
+     * Refresh Flow (rotation with reuse detection):
+     * 1. Look up the refresh token's hash in the store (including rotated
+     *    tokens); unknown and expired tokens are refused
+     * 2. If it was already rotated: REUSE DETECTED
+     *    - Revoke the whole token family
+     *    - Record a security (audit) event
+     *    - Reject the request
+     *    Also rejected: a session of another OAuth client (or of none)
+     * 3. Mark the presented token as rotated
+     * 4. Issue a new refresh token in the same family
+     * 5. Generate a new access token with the user's CURRENT roles
+     * 6. Return both new tokens
+     *
+     * Refresh tokens are opaque: there is no signature to check. The
+     * stored record is the only source of truth for who owns the token
+     * and when it expires.
+     *
+     * Why Rotation?
+     * - Each refresh token can be used exactly once
+     * - A stolen refresh token is only useful until the legitimate client refreshes
+     * - If attacker and client both use the same token, the second use is detected
+     *   and the entire session (family) is killed, forcing a re-login
+     *
+     * Concurrency Note:
+     * - Two concurrent refreshes with the same token (e.g. two browser tabs)
+     *   are indistinguishable from theft; the second one revokes the family
+     * - Clients should serialize refresh calls
      *
      * @async
      * @param {string} refreshToken - Refresh token from client
-     * @returns {Promise<TokenResponse>} New access token with same refresh token
-     * @throws {Error} If token is invalid, expired, or revoked
+     * @param {ClientContext} [client] - Caller facts, recorded as the session's latest IP/user-agent;
+     *   oauthClientId must match the OAuth client the session was started by (if any)
+     * @returns {Promise<TokenResponse>} New access token and new refresh token
+     * @throws {InvalidRefreshTokenError} If token is invalid, expired, revoked, was already used,
+     *   or belongs to another OAuth client
      *
      * @example
      * // Successful refresh
      * const newTokens = await authService.refresh(refreshToken);
-     * // Returns: { accessToken: "...", refreshToken: "...", tokenType: "Bearer" }
+     * // Returns: { accessToken: "...", refreshToken: "<new token>", tokenType: "Bearer" }
+     * // The old refreshToken can no longer be used
      *
      * @example
-     * // Token revoked (user logged out)
-     * try {
-     *   await authService.refresh(revokedToken);
-     * } catch (error) {
-     *   // Throws: Error: Refresh token is invalid or revoked
-     * }
+     * // Reuse of a rotated token
+     * await authService.refresh(oldRefreshToken);
+     * // Throws: InvalidRefreshTokenError (reuse is audited as reuse_detected)
+     * // The newer token from the same login is now revoked too
      */
-    async refresh(refreshToken: string): Promise<TokenResponse> {
-        // Step 1: Verify refresh token exists and hasn't been revoked
-        // tokenStore.verifyToken() returns username if valid, null otherwise
-        // This checks:
-        // - Token exists in store (was issued by us)
-        // - Token hasn't expired (Date.now() < expiresAt)
-        // - Token hasn't been revoked via logout
-        const username = this.tokenStore.verifyToken(refreshToken)
-        if (!username) {
-            throw new Error('Refresh token is invalid or revoked')
-        }
-
-        // Step 2: Decode the refresh token to verify signature
-        // app.jwt.verify() validates the JWT signature using JWT_SECRET
-        // Confirms token wasn't tampered with
-        // Returns decoded payload: { sub: "username", iat: ..., exp: ... }
-        // Generic type: <{ sub: string }> tells TypeScript what's in the payload
-        const decoded = this.app.jwt.verify<{ sub: string }>(refreshToken)
-
-        // Step 3: Generate new access token
-        // Uses the username from refresh token to create new access token
-        // New token has fresh expiration time (15 minutes from now)
-        // Refresh token is NOT regenerated (same refresh token is returned)
-        const newAccessToken = this.app.jwt.sign(
-            { sub: decoded.sub },             // Payload: same username
-            { expiresIn: '15m' }              // Options: new expiration
-        )
+    async refresh(refreshToken: string, client?: ClientContext): Promise<TokenResponse> {
+        // Step 1: Look up the refresh token
+        // The store only knows token hashes
+        // tokenStore.getToken() returns metadata for known, unexpired tokens
+        // (including already-rotated ones), null otherwise
+        const tokenHash = hashToken(refreshToken)
+        const stored = await this.tokenStore.getToken(tokenHash)
+        if (!stored) {
+            this.audit('token.refresh', 'failure', undefined, client, { reason: 'invalid_token' })
+            throw new InvalidRefreshTokenError()
+        }
 
-        // Step 4: Return new access token with same refresh token
+        // Step 2: Reuse detection
+        // A rotated token should never be presented again
+        // If it is, someone holds a copy: revoke the whole family
+        if (stored.rotatedAt) {
+            await this.revokeReusedFamily(stored, client)
+        }
+
+        // Step 2b: Client binding
+        // A session started at POST /oauth/token can only be refreshed by
+        // the OAuth client it was issued to, and an /auth/login session
+        // only without one
+        if (stored.clientId !== client?.oauthClientId) {
+            this.audit('token.refresh', 'failure', stored.username, client, {
+                reason: 'client_mismatch',
+                details: { sessionId: stored.familyId }
+            })
+            throw new InvalidRefreshTokenError()
+        }
+
+        // Step 3: Rotate
+        // Mark the presented token as used, then issue its successor
+        // in the same family with a fresh full lifetime
+        // markRotated() is atomic: if a concurrent request rotated the
+        // token between Step 1 and now, this is reuse as well
+        // Session metadata carries over; IP and user-agent are updated
+        if (!(await this.tokenStore.markRotated(tokenHash))) {
+            await this.revokeReusedFamily(stored, client)
+        }
+        const newRefreshToken = await this.issueRefreshToken(stored.username, stored.familyId, {
+            deviceName: stored.deviceName,
+            userAgent: client ? truncate(client.userAgent, MAX_USER_AGENT_LENGTH) : stored.userAgent,
+            ip: client?.ip ?? stored.ip,
+            sessionStartedAt: stored.sessionStartedAt ?? stored.issuedAt,
+            clientId: stored.clientId,
+            scopes: stored.scopes
+        })
+
+        // Step 4: Generate new access token
+        // Re-reads the user so role/permission changes take effect here
+        // (still narrowed to the scopes an OAuth client was granted)
+        // Deleted or disabled accounts end the session instead
+        // New token has fresh expiration time (ACCESS_TOKEN_TTL_SECONDS from now)
+        const user = await this.users.findByUsername(stored.username)
+        if (!user || user.disabled) {
+            await this.tokenStore.revokeFamily(stored.familyId)
+            this.audit('token.refresh', 'failure', stored.username, client, {
+                reason: user ? 'account_disabled' : 'unknown_user',
+                details: { sessionId: stored.familyId }
+            })
+            throw new InvalidRefreshTokenError()
+        }
+        const newAccessToken = this.issueAccessToken(user, stored.familyId, stored)
+        this.audit('token.refresh', 'success', user.username, client, { details: { sessionId: stored.familyId } })
+
+        // Step 5: Return both new tokens
         return {
             accessToken: newAccessToken,      // New token for API requests
-            refreshToken,                     // Same refresh token
+            refreshToken: newRefreshToken,    // Replaces the presented token
             tokenType: 'Bearer'               // OAuth 2.0 standard type
         }
     }
 
     /**
-     * Logout user by revoking their refresh token
+     * Logout user by revoking their session's refresh tokens and the current access token
      *
      * Logout Flow:
      * 1. Find refresh token in token store
-     * 2. Delete/revoke the token
-     * 3. Future refresh attempts will fail
+     * 2. Revoke its whole token family (current and rotated tokens)
+     * 3. Put the caller's access token on the denylist
+     * 4. Future refresh attempts and API calls with these tokens fail
      *
      * What Happens After Logout:
      * - Refresh token becomes invalid immediately
      * - User can't get new access tokens
-     * - Current access token is still valid (until natural expiration)
-     * - Client should delete stored access token from memory
-     * - If you need immediate access token invalidation, implement blacklist
+     * - The access token used to call logout is rejected immediately
+     *   (denylisted by jti until its natural expiration)
+     * - Other sessions of the same user are NOT affected
      *
      * Implementation Details:
-     * - No response validation needed (just delete from map)
      * - If token doesn't exist, operation still succeeds
      * - Idempotent: calling twice has same effect as once
      *
-     * Future Enhancements:
-     * - Access token blacklist: prevent current token usage
-     * - Audit logging: track who logged out when
-     * - Device management: logout from specific devices only
-     * - Revoke all sessions: logout from all devices
-     *
      * @async
-     * @param {string} refreshToken - Refresh token to revoke
+     * @param {string | undefined} refreshToken - Refresh token to revoke (undefined when
+     *   a cookie-transport client no longer has its cookie: only the access token is revoked)
+     * @param {AccessTokenClaims} [accessToken] - Verified claims of the caller's access token
+     * @param {ClientContext} [client] - Caller facts, for the audit event
      * @returns {Promise<void>}
      * @throws {Error} Only if database error (won't happen with Map)
      *
      * @example
      * // Logout
-     * await authService.logout(refreshToken);
+     * await authService.logout(refreshToken, request.user);
      *
      * // Token is now invalid
      * try {
      *   await authService.refresh(refreshToken);
      * } catch (error) {
-     *   // Throws: Error: Refresh token is invalid or revoked
+     *   // Throws: InvalidRefreshTokenError
      * }
      */
-    async logout(refreshToken: string): Promise<void> {
-        // Step 1: Revoke the refresh token
-        // tokenStore.revokeToken() deletes token from in-memory map
-        // Token will no longer be found by future verifyToken() calls
-        // This immediately invalidates the refresh token
-        this.tokenStore.revokeToken(refreshToken)
+    async logout(refreshToken: string | undefined, accessToken?: AccessTokenClaims, client?: ClientContext): Promise<void> {
+        // Step 1: Revoke the refresh token's family
+        // Removes the token and any rotated predecessors from the store
+        // This immediately invalidates the session
+        const stored = refreshToken ? await this.tokenStore.getToken(hashToken(refreshToken)) : null
+        if (stored) {
+            await this.tokenStore.revokeFamily(stored.familyId)
+        }
+
+        // Step 2: Denylist the access token used for this request
+        // Kept until the token's own exp, after which it is rejected anyway
+        if (accessToken?.jti && accessToken.exp) {
+            await this.revokedTokens.revoke(accessToken.jti, accessToken.exp)
+        }
+        this.audit('logout', 'success', accessToken?.sub ?? stored?.username, client, {
+            details: { sessionId: stored?.familyId ?? accessToken?.sid ?? null }
+        })
 
         // Note: No throw/error if token not found
         // This makes logout safe - works even if token already deleted
     }
+
+    /**
+     * Revoke every session of a user ("log out everywhere")
+     *
+     * Flow:
+     * 1. Delete all of the user's refresh tokens (no more refreshes)
+     * 2. Record a per-user cutoff in the denylist, so every access token
+     *    issued until now is rejected immediately
+     *
+     * Used by administrators (compromised account) and by users who want
+     * to sign out of all devices.
+     *
+     * @async
+     * @param {string} username - User whose sessions are revoked
+     * @param {ClientContext} [client] - Caller facts, for the audit event
+     * @param {string} [actor] - Administrator acting on the user's behalf (audit event)
+     * @returns {Promise<void>}
+     *
+     * @example
+     * await authService.revokeAllSessions('alice');
+     * // All of alice's refresh AND access tokens are now rejected
+     */
+    async revokeAllSessions(username: string, client?: ClientContext, actor?: string): Promise<void> {
+        await this.tokenStore.revokeAllUserTokens(username)
+        await this.revokedTokens.revokeSubject(username, this.app.config.ACCESS_TOKEN_TTL_SECONDS)
+        this.audit('session.revoke_all', 'success', username, client, { actor })
+    }
+
+    /**
+     * List a user's active sessions (signed-in devices)
+     *
+     * Each token family with an unrotated refresh token is one session.
+     * Sorted by last use, most recent first.
+     *
+     * @async
+     * @param {string} username - Session owner
+     * @param {string} [currentSessionId] - sid of the calling access token (marked current)
+     * @returns {Promise<Session[]>}
+     *
+     * @example
+     * const sessions = await authService.listSessions('alice', request.user.sid);
+     * // [{ id: "3f0c...", deviceName: "Alice's iPhone", current: true, ... }]
+     */
+    async listSessions(username: string, currentSessionId?: string): Promise<Session[]> {
+        const tokens = await this.tokenStore.getUserTokens(username)
+
+        return tokens
+            .filter(stored => !stored.rotatedAt)
+            .sort((a, b) => b.issuedAt - a.issuedAt)
+            .map(stored => ({
+                id: stored.familyId,
+                deviceName: stored.deviceName ?? null,
+                userAgent: stored.userAgent ?? null,
+                ip: stored.ip ?? null,
+                createdAt: new Date(stored.sessionStartedAt ?? stored.issuedAt).toISOString(),
+                lastUsedAt: new Date(stored.issuedAt).toISOString(),
+                expiresAt: new Date(stored.expiresAt).toISOString(),
+                current: stored.familyId === currentSessionId
+            }))
+    }
+
+    /**
+     * Revoke one of a user's sessions ("sign out this device")
+     *
+     * Flow:
+     * 1. Check the session belongs to the user (ids of other users' sessions
+     *    are reported as not found)
+     * 2. Revoke its token family (no more refreshes)
+     * 3. Denylist the session id, so its access tokens are rejected immediately
+     *
+     * @async
+     * @param {string} username - Session owner (the caller)
+     * @param {string} sessionId - Session to revoke
+     * @param {ClientContext} [client] - Caller facts, for the audit event
+     * @returns {Promise<void>}
+     * @throws {SessionNotFoundError} If the user has no such session
+     *
+     * @example
+     * await authService.revokeSession('alice', '3f0c9a52-...');
+     */
+    async revokeSession(username: string, sessionId: string, client?: ClientContext): Promise<void> {
+        const tokens = await this.tokenStore.getUserTokens(username)
+        if (!tokens.some(stored => stored.familyId === sessionId)) {
+            this.audit('session.revoke', 'failure', username, client, { reason: 'not_found', details: { sessionId } })
+            throw new SessionNotFoundError()
+        }
+
+        await this.tokenStore.revokeFamily(sessionId)
+        await this.revokedTokens.revokeSession(sessionId, this.app.config.ACCESS_TOKEN_TTL_SECONDS)
+        this.audit('session.revoke', 'success', username, client, { details: { sessionId } })
+    }
+
+    /**
+     * Lift a brute-force lockout on a username before it expires
+     *
+     * Used by administrators when a legitimate user locked themselves out.
+     * Per-IP counters are not affected.
+     *
+     * @async
+     * @param {string} username - Username to unlock
+     * @param {ClientContext} [client] - Caller facts, for the audit event
+     * @param {string} [actor] - Administrator lifting the lockout (audit event)
+     * @returns {Promise<void>}
+     * @throws {UserNotFoundError} If no such user exists
+     *
+     * @example
+     * await authService.unlockUser('alice');
+     */
+    async unlockUser(username: string, client?: ClientContext, actor?: string): Promise<void> {
+        if (!(await this.users.findByUsername(username))) {
+            throw new UserNotFoundError()
+        }
+        await this.loginThrottle.unlock(username)
+        this.audit('account.unlock', 'success', username, client, { actor })
+    }
+
+    /**
+     * Change the password of a signed-in user
+     *
+     * Change Flow:
+     * 0. Reject early if the username or client IP is throttled
+     * 1. Re-authenticate: verify the current password
+     *    (failures count towards login throttling)
+     * 2. Check the new password against the PasswordPolicy, and that it
+     *    differs from the current one
+     * 3. Store the new hash and drop any outstanding password reset token
+     * 4. Revoke every OTHER session (token family): their refresh tokens
+     *    stop working and their access tokens are rejected immediately.
+     *    The caller's session stays signed in
+     * 5. Record an audit event (password.change)
+     *
+     * An access token without a sid claim (issued before sessions were
+     * tracked) has no session to keep, so every session is revoked.
+     *
+     * @async
+     * @param {string} username - The caller (access token sub)
+     * @param {string | undefined} currentSessionId - The caller's session (access token sid), kept signed in
+     * @param {ChangePasswordRequest} payload - Current and new password
+     * @param {ClientContext} client - Caller facts (IP for throttling and the audit event)
+     * @returns {Promise<number>} Number of other sessions that were revoked
+     * @throws {AccountLockedError} If the username or IP must wait before retrying
+     * @throws {IncorrectPasswordError} If the current password is wrong
+     * @throws {WeakPasswordError} If the new password breaks the policy or is unchanged
+     *
+     * @example
+     * const revoked = await authService.changePassword('alice', request.user.sid, {
+     *   currentPassword: 'Correct-Horse-42',
+     *   newPassword: 'New-Horse-Battery-7'
+     * }, { ip: request.ip });
+     * // 2 (alice's laptop and tablet are signed out, this device is not)
+     */
+    async changePassword(
+        username: string,
+        currentSessionId: string | undefined,
+        payload: ChangePasswordRequest,
+        client: ClientContext
+    ): Promise<number> {
+        await this.assertNotThrottled('password.change', username, client)
+
+        const user = await this.users.findByUsername(username)
+        if (!user || !(await this.hasher.verify(payload.currentPassword, user.passwordHash))) {
+            await this.loginThrottle.recordFailure(username, client.ip)
+            this.audit('password.change', 'failure', username, client, { reason: 'incorrect_password' })
+            throw new IncorrectPasswordError()
+        }
+        await this.loginThrottle.recordSuccess(username)
+
+        const violations: RegistrationViolation[] = this.passwordPolicy.validate(payload.newPassword, username)
+            .map(violation => ({ field: 'password', ...violation }))
+        if (await this.hasher.verify(payload.newPassword, user.passwordHash)) {
+            violations.push({ field: 'password', rule: 'unchanged', message: 'New password must differ from the current password' })
+        }
+        if (violations.length > 0) {
+            this.audit('password.change', 'failure', username, client, { reason: 'weak_password' })
+            throw new WeakPasswordError(violations)
+        }
+
+        await this.users.update(username, {
+            passwordHash: await this.hasher.hash(payload.newPassword),
+            passwordReset: undefined
+        })
+
+        const tokens = await this.tokenStore.getUserTokens(username)
+        const otherSessions = new Set(
+            tokens.map(stored => stored.familyId).filter(familyId => familyId !== currentSessionId)
+        )
+        for (const sessionId of otherSessions) {
+            await this.tokenStore.revokeFamily(sessionId)
+            await this.revokedTokens.revokeSession(sessionId, this.app.config.ACCESS_TOKEN_TTL_SECONDS)
+        }
+        if (!currentSessionId) {
+            await this.revokedTokens.revokeSubject(username, this.app.config.ACCESS_TOKEN_TTL_SECONDS)
+        }
+
+        this.audit('password.change', 'success', username, client, {
+            details: { sessionId: currentSessionId ?? null, revokedSessions: otherSessions.size }
+        })
+        return otherSessions.size
+    }
+
+    /**
+     * Start a password reset ("forgot password")
+     *
+     * Reset Flow:
+     * 1. Look up the account by email (lowercased)
+     * 2. Unknown address, disabled account, or a reset emailed less than a
+     *    minute ago: do nothing
+     * 3. Generate a random token (256 bits), store its SHA-256 hash with an
+     *    expiry (PASSWORD_RESET_TTL_SECONDS), replacing any older token
+     * 4. Email the token (as a PASSWORD_RESET_URL link, if configured)
+     * 5. The user completes the reset with resetPassword()
+     *
+     * Why return nothing and not wait?
+     * - The caller must answer identically whether or not the account
+     *   exists (no account enumeration), in content AND timing
+     * - The work runs in the background; failures (e.g. SMTP down) are
+     *   logged and audited, never reported to the caller
+     *
+     * @param {ForgotPasswordRequest} payload - Address the account was registered with
+     * @param {ClientContext} [client] - Caller facts, for the audit event
+     * @returns {void}
+     *
+     * @example
+     * authService.requestPasswordReset({ email: 'alice@example.com' });
+     * // Same outcome for the caller whether or not alice@example.com exists
+     */
+    requestPasswordReset(payload: ForgotPasswordRequest, client?: ClientContext): void {
+        this.sendPasswordReset(payload.email.toLowerCase(), client).catch((err) => {
+            this.app.log.error({ err, event: 'password_reset_failed' }, 'Could not send password reset email')
+            this.audit('password.reset_request', 'failure', undefined, client, { reason: 'delivery_failed' })
+        })
+    }
+
+    /**
+     * Complete a password reset with the emailed token
+     *
+     * Reset Flow:
+     * 1. Find the account whose stored token hash matches (and hasn't expired)
+     * 2. Check the new password against the PasswordPolicy
+     *    (the token stays valid if it fails, so the user can try again)
+     * 3. Store the new password hash and delete the token (single use)
+     * 4. Revoke every refresh and access token of the user: whoever
+     *    knew the old password is signed out everywhere
+     * 5. Lift any login lockout on the username
+     *
+     * @async
+     * @param {ResetPasswordRequest} payload - Token from the email and the new password
+     * @param {ClientContext} [client] - Caller facts, for the audit event
+     * @returns {Promise<void>}
+     * @throws {InvalidResetTokenError} If the token is unknown, used, superseded or expired
+     * @throws {WeakPasswordError} If the new password breaks the policy
+     *
+     * @example
+     * await authService.resetPassword({ token: 'q3Zx...', password: 'New-Horse-Battery-7' });
+     */
+    async resetPassword(payload: ResetPasswordRequest, client?: ClientContext): Promise<void> {
+        const tokenHash = hashToken(payload.token)
+        const user = await this.users.findByPasswordResetToken(tokenHash)
+
+        if (!user?.passwordReset || user.disabled) {
+            this.audit('password.reset', 'failure', user?.username, client, { reason: 'invalid_token' })
+            throw new InvalidResetTokenError()
+        }
+        if (user.passwordReset.expiresAt <= Date.now()) {
+            await this.users.update(user.username, { passwordReset: undefined })
+            this.audit('password.reset', 'failure', user.username, client, { reason: 'token_expired' })
+            throw new InvalidResetTokenError()
+        }
+
+        const violations = this.passwordPolicy.validate(payload.password, user.username)
+        if (violations.length > 0) {
+            this.audit('password.reset', 'failure', user.username, client, { reason: 'weak_password' })
+            throw new WeakPasswordError(violations.map(violation => ({ field: 'password', ...violation })))
+        }
+
+        await this.users.update(user.username, {
+            passwordHash: await this.hasher.hash(payload.password),
+            passwordReset: undefined
+        })
+        await this.tokenStore.revokeAllUserTokens(user.username)
+        await this.revokedTokens.revokeSubject(user.username, this.app.config.ACCESS_TOKEN_TTL_SECONDS)
+        await this.loginThrottle.unlock(user.username)
+
+        this.audit('password.reset', 'success', user.username, client)
+    }
+
+    /**
+     * Issue and email a reset token (background part of requestPasswordReset)
+     *
+     * @private
+     * @param {string} email - Lowercased address
+     * @param {ClientContext} [client] - Caller facts, for the audit event
+     * @returns {Promise<void>}
+     */
+    private async sendPasswordReset(email: string, client?: ClientContext): Promise<void> {
+        const user = await this.users.findByEmail(email)
+        if (!user?.email || user.disabled) {
+            this.audit('password.reset_request', 'failure', user?.username, client, {
+                reason: user ? 'account_disabled' : 'unknown_email'
+            })
+            return
+        }
+
+        const now = Date.now()
+        if (user.passwordReset && now - user.passwordReset.requestedAt < PASSWORD_RESET_RESEND_INTERVAL_MS) {
+            this.audit('password.reset_request', 'failure', user.username, client, { reason: 'rate_limited' })
+            return
+        }
+
+        const ttlSeconds = this.app.config.PASSWORD_RESET_TTL_SECONDS
+        const token = randomBytes(32).toString('base64url')
+        await this.users.update(user.username, {
+            passwordReset: { tokenHash: hashToken(token), requestedAt: now, expiresAt: now + ttlSeconds * 1000 }
+        })
+
+        const resetUrl = this.app.config.PASSWORD_RESET_URL
+        let instructions = `Use this reset token within ${Math.round(ttlSeconds / 60)} minutes:\n\n${token}`
+        if (resetUrl) {
+            const link = new URL(resetUrl)
+            link.searchParams.set('token', token)
+            instructions = `Open this link within ${Math.round(ttlSeconds / 60)} minutes to choose a new password:\n\n${link.toString()}`
+        }
+
+        await this.mailer.send({
+            to: user.email,
+            subject: 'Reset your password',
+            text: [
+                `Hi ${user.username},`,
+                '',
+                'Someone (hopefully you) asked to reset the password of your account.',
+                instructions,
+                '',
+                'If you did not ask for this, ignore this email; your password stays unchanged.'
+            ].join('\n')
+        })
+
+        this.audit('password.reset_request', 'success', user.username, client)
+    }
+
+    /**
+     * Check a username and password (login steps 0-2)
+     *
+     * Shared by login() and authenticate(). Failures are throttled and
+     * audited as "login" events; success is audited by the caller, once
+     * it knows what the login leads to.
+     *
+     * @private
+     * @param {LoginRequest} payload - Username and password
+     * @param {ClientContext} client - Caller facts (throttling, auditing)
+     * @returns {Promise<UserRecord>} The authenticated, enabled user
+     * @throws {AccountLockedError} If the username or IP must wait before retrying
+     * @throws {AccountDisabledError} If the credentials are valid but the account is disabled
+     * @throws {InvalidCredentialsError} If credentials are invalid
+     */
+    private async verifyPassword(payload: LoginRequest, client: ClientContext): Promise<UserRecord> {
+        if (typeof payload?.username !== 'string' || typeof payload.password !== 'string') {
+            throw new InvalidCredentialsError()
+        }
+
+        // Step 0: Brute-force protection
+        // Throws AccountLockedError (with a retry delay) before any
+        // password check while the username or IP is backing off / locked
+        await this.assertNotThrottled('login', payload.username, client)
+
+        // Step 1: Validate credentials
+        // Look up the user and verify the password against the stored hash
+        // When the user doesn't exist, verify against a dummy hash anyway
+        // so the response time doesn't reveal whether the username exists
+        const user = await this.users.findByUsername(payload.username)
+        const passwordHash = user?.passwordHash ?? await this.getDummyHash()
+        const passwordValid = await this.hasher.verify(payload.password, passwordHash)
+
+        if (!user || !passwordValid) {
+            await this.loginThrottle.recordFailure(payload.username, client.ip)
+            this.audit('login', 'failure', payload.username, client, {
+                reason: user ? 'invalid_password' : 'unknown_user'
+            })
+            throw new InvalidCredentialsError()
+        }
+        // TOTP users have only passed the first factor: their counter is
+        // reset by verifyMfa(), otherwise re-entering the password would
+        // clear the failed codes and allow unlimited guessing
+        if (!user.totp?.confirmedAt) {
+            await this.loginThrottle.recordSuccess(payload.username)
+        }
+
+        // Step 1b: Refuse disabled accounts
+        // Checked after the password so the answer can't be probed
+        if (user.disabled) {
+            this.audit('login', 'failure', user.username, client, { reason: 'account_disabled' })
+            throw new AccountDisabledError()
+        }
+
+        // Step 2: Transparently upgrade the hash
+        // If the cost parameters changed since this hash was created,
+        // re-hash the (now verified) plaintext with the current parameters
+        if (this.hasher.needsRehash(user.passwordHash)) {
+            await this.users.update(user.username, {
+                passwordHash: await this.hasher.hash(payload.password)
+            })
+        }
+
+        return user
+    }
+
+    /**
+     * Check a login challenge token and its code (MFA login steps 1-4),
+     * then consume the challenge
+     *
+     * Shared by completeMfaLogin() and authenticateMfa(). Failures are
+     * throttled and audited as "login.mfa" events.
+     *
+     * @private
+     * @param {MfaLoginRequest} payload - Challenge token and code
+     * @param {ClientContext} client - Caller facts (throttling, auditing)
+     * @returns {Promise<object>} The user, the device name carried by the
+     *   challenge and the audit details of the method used
+     * @throws {AccountLockedError} If the username or IP must wait before retrying
+     * @throws {InvalidMfaCodeError} If the code is wrong or already used
+     * @throws {AccountDisabledError} If the account was disabled in the meantime
+     * @throws {InvalidMfaTokenError} If the challenge token is invalid, expired or already used
+     */
+    private async verifyMfa(
+        payload: MfaLoginRequest,
+        client: ClientContext
+    ): Promise<{ user: UserRecord, deviceName?: string, method: Record<string, unknown> }> {
+        if (typeof payload?.mfaToken !== 'string' || typeof payload.code !== 'string') {
+            this.audit('login.mfa', 'failure', undefined, client, { reason: 'invalid_mfa_token' })
+            throw new InvalidMfaTokenError()
+        }
+
+        // Step 1: Verify the challenge token
+        let claims: MfaPendingClaims
+        try {
+            claims = this.app.jwt.verify<MfaPendingClaims>(payload.mfaToken, this.app.jwtKeys.verifyOptions(payload.mfaToken))
+        } catch {
+            this.audit('login.mfa', 'failure', undefined, client, { reason: 'invalid_mfa_token' })
+            throw new InvalidMfaTokenError()
+        }
+        if (claims.token_use !== 'mfa_pending' || await this.revokedTokens.isRevoked({ jti: claims.jti })) {
+            this.audit('login.mfa', 'failure', claims.sub, client, { reason: 'invalid_mfa_token' })
+            throw new InvalidMfaTokenError()
+        }
+
+        // Step 2: Brute-force protection (a 6-digit code is guessable without it)
+        await this.assertNotThrottled('login.mfa', claims.sub, client)
+
+        const user = await this.users.findByUsername(claims.sub)
+        if (!user?.totp?.confirmedAt) {
+            this.audit('login.mfa', 'failure', claims.sub, client, { reason: 'invalid_mfa_token' })
+            throw new InvalidMfaTokenError()
+        }
+
+        // Step 3: Check the code
+        const totp = user.totp
+        const step = this.totp.verify(totp.secret, payload.code, totp.lastUsedStep)
+        const recoveryHash = hashRecoveryCode(payload.code)
+        const recoveryCodeUsed = step === null && totp.recoveryCodeHashes.includes(recoveryHash)
+
+        if (step === null && !recoveryCodeUsed) {
+            await this.loginThrottle.recordFailure(claims.sub, client.ip)
+            this.audit('login.mfa', 'failure', claims.sub, client, { reason: 'invalid_code' })
+            throw new InvalidMfaCodeError()
+        }
+        await this.loginThrottle.recordSuccess(claims.sub)
+
+        if (user.disabled) {
+            this.audit('login.mfa', 'failure', claims.sub, client, { reason: 'account_disabled' })
+            throw new AccountDisabledError()
+        }
+
+        // Step 4: Make the code single use
+        // Checked and recorded in one repository call: of two concurrent
+        // logins with the same code (or time step), only one gets past here
+        const consumed = await this.users.consumeMfaCode(
+            user.username,
+            recoveryCodeUsed ? { recoveryCodeHash: recoveryHash } : { step: step as number }
+        )
+        if (!consumed?.totp) {
+            this.audit('login.mfa', 'failure', claims.sub, client, { reason: 'code_reuse' })
+            throw new InvalidMfaCodeError()
+        }
+
+        // Consume the challenge: it can't be presented again
+        await this.revokedTokens.revoke(claims.jti, claims.exp)
+        return {
+            user,
+            deviceName: claims.deviceName,
+            method: recoveryCodeUsed
+                ? { method: 'recovery_code', remainingRecoveryCodes: consumed.totp.recoveryCodeHashes.length }
+                : { method: 'totp' }
+        }
+    }
+
+    /**
+     * Start a new session: issue an access token and a refresh token
+     * in a new token family
+     *
+     * Shared by login() and completeMfaLogin(), once every factor checked out.
+     * Records the successful login as an audit event of the given type.
+     *
+     * @private
+     * @param {UserRecord} user - Authenticated user
+     * @param {SessionMetadata} session - Device name, user-agent, IP, start time, OAuth client and scopes
+     * @param {AuditEventType} type - "login" or "login.mfa"
+     * @param {ClientContext} client - Caller facts, for the audit event
+     * @param {Record<string, unknown>} [details] - Extra audit details (e.g. MFA method)
+     * @returns {Promise<TokenResponse>}
+     */
+    private async startSession(
+        user: UserRecord,
+        session: SessionMetadata,
+        type: AuditEventType,
+        client: ClientContext,
+        details?: Record<string, unknown>
+    ): Promise<TokenResponse> {
+        // Step 1: Generate access token
+        // app.jwt.sign() signs with the current key (app.jwtKeys)
+        // Returns a cryptographically signed token string
+        // Expiration: ACCESS_TOKEN_TTL_SECONDS (default 15 minutes)
+        // This token is used for subsequent API requests
+        // Every login is a new session; its id is the sid claim
+        const sessionId = randomUUID()
+        const accessToken = this.issueAccessToken(user, sessionId, session)
+
+        // Step 2: Generate and store refresh token
+        // Starts a NEW token family (one family per login session)
+        // Expiration: REFRESH_TOKEN_TTL_SECONDS (default 7 days)
+        // Stored server-side, with the session metadata, so it can be
+        // listed, revoked and rotated
+        const refreshToken = await this.issueRefreshToken(user.username, sessionId, session)
+        const scopes = session.scopes ? { scopes: session.scopes } : {}
+        this.audit(type, 'success', user.username, client, { details: { sessionId, ...scopes, ...details } })
+
+        // Step 3: Return tokens to client
+        return {
+            accessToken,
+            refreshToken,
+            tokenType: 'Bearer'               // Standard OAuth 2.0 token type
+        }
+    }
+
+    /**
+     * Sign the short-lived challenge token returned by login() for TOTP users
+     *
+     * token_use "mfa_pending" keeps it from being accepted as an access
+     * token (see jwt.plugin authenticate); the jti makes it single use.
+     *
+     * @private
+     * @param {string} username - User whose password was verified
+     * @param {string} [deviceName] - Session label, carried to the MFA step
+     * @returns {MfaChallengeResponse}
+     */
+    private issueMfaChallenge(username: string, deviceName?: string): MfaChallengeResponse {
+        const expiresIn = this.app.config.MFA_TOKEN_TTL_SECONDS
+        const mfaToken = this.app.jwt.sign(
+            { sub: username, jti: randomUUID(), token_use: 'mfa_pending', deviceName },
+            { ...this.app.jwtKeys.signOptions, expiresIn }
+        )
+
+        return { mfaRequired: true, mfaToken, expiresIn }
+    }
+
+    /**
+     * Generate a refresh token and store its hash
+     *
+     * Refresh tokens are opaque: 256 random bits, base64url-encoded. They
+     * carry no claims; ownership, family and expiry live in the store,
+     * keyed by the token's SHA-256 hash. The raw token is returned to the
+     * client once and never persisted, so a leaked store (file, Redis
+     * dump, backup) holds nothing that can be replayed.
+     *
+     * @private
+     * @param {string} username - Token owner
+     * @param {string} familyId - Session (token family) the token belongs to
+     * @param {SessionMetadata} session - Session metadata stored with the token
+     * @returns {Promise<string>} The refresh token
+     */
+    private async issueRefreshToken(username: string, familyId: string, session: SessionMetadata): Promise<string> {
+        const ttlSeconds = this.app.config.REFRESH_TOKEN_TTL_SECONDS
+
+        const refreshToken = randomBytes(REFRESH_TOKEN_BYTES).toString('base64url')
+
+        // The store decides when the token expires
+        await this.tokenStore.saveToken(hashToken(refreshToken), username, ttlSeconds, familyId, session)
+
+        return refreshToken
+    }
+
+    /**
+     * Handle reuse of an already-rotated refresh token
+     *
+     * Revokes the token's whole family, denylists the session id so its
+     * access tokens stop working at once (the session is compromised), and
+     * records a security (audit) event. Always throws, so callers can use
+     * it as a terminal branch.
+     *
+     * @private
+     * @param {StoredToken} stored - Metadata of the reused token
+     * @param {ClientContext} [client] - Whoever presented the token
+     * @returns {Promise<never>}
+     * @throws {InvalidRefreshTokenError} Always
+     */
+    private async revokeReusedFamily(stored: StoredToken, client?: ClientContext): Promise<never> {
+        const revoked = await this.tokenStore.revokeFamily(stored.familyId)
+        await this.revokedTokens.revokeSession(stored.familyId, this.app.config.ACCESS_TOKEN_TTL_SECONDS)
+        this.audit('token.refresh', 'failure', stored.username, client, {
+            reason: 'reuse_detected',
+            details: { sessionId: stored.familyId, revokedTokens: revoked }
+        })
+        throw new InvalidRefreshTokenError()
+    }
+
+    /**
+     * Check the login throttle, auditing a rejection
+     *
+     * @private
+     * @param {AuditEventType} type - Event recorded if the caller must wait
+     * @param {string} username - Username being tried
+     * @param {ClientContext} client - Caller facts (IP)
+     * @returns {Promise<void>}
+     * @throws {AccountLockedError} If the username or IP must wait before retrying
+     */
+    private async assertNotThrottled(type: AuditEventType, username: string, client: ClientContext): Promise<void> {
+        try {
+            await this.loginThrottle.assertAllowed(username, client.ip)
+        } catch (err) {
+            if (err instanceof AccountLockedError) {
+                this.audit(type, 'failure', username, client, {
+                    reason: 'throttled',
+                    details: { retryAfterSeconds: err.retryAfterSeconds }
+                })
+            }
+            throw err
+        }
+    }
+
+    /**
+     * Record an authentication event in the audit log
+     *
+     * @private
+     * @param {AuditEventType} type - What happened
+     * @param {AuditOutcome} outcome - "success" or "failure"
+     * @param {string | undefined} subject - Account concerned, if known
+     * @param {ClientContext | undefined} client - Caller facts (IP, user-agent, request id)
+     * @param {object} [extra] - Failure reason, details, acting administrator
+     * @returns {void}
+     */
+    private audit(
+        type: AuditEventType,
+        outcome: AuditOutcome,
+        subject: string | undefined,
+        client: ClientContext | undefined,
+        extra: { reason?: string, details?: Record<string, unknown>, actor?: string } = {}
+    ): void {
+        this.auditLog.record({ type, outcome, subject, client, ...extra })
+    }
+
+    /**
+     * Sign an access token
+     *
+     * The jti (JWT ID) claim gives every access token an identity, so a
+     * single token can be put on the denylist at logout without affecting
+     * the user's other sessions.
+     *
+     * Roles and effective permissions are embedded so app.authorize() and
+     * app.requirePermission() can decide without a user lookup.
+     *
+     * The sid claim ties the token to its session, so revoking a session
+     * rejects its access tokens too. Sessions started by an OAuth client
+     * also carry its client_id and the scopes the client was granted, and
+     * their roles and permissions are narrowed to them (restrictToScopes).
+     *
+     * token_use "access" is what app.authenticate requires; iss and aud
+     * come from app.jwtKeys.signOptions.
+     *
+     * @private
+     * @param {UserRecord} user - Token subject
+     * @param {string} sessionId - Session (refresh token family) the token belongs to
+     * @param {SessionMetadata} session - OAuth client the session was started by and its scopes, if any
+     * @returns {string} The signed access token
+     */
+    private issueAccessToken(user: UserRecord, sessionId: string, session: Pick<SessionMetadata, 'clientId' | 'scopes'>): string {
+        const permissions = resolvePermissions(user.roles, user.permissions)
+        const granted = session.scopes
+            ? restrictToScopes(user.roles, permissions, session.scopes)
+            : { roles: user.roles, permissions }
+
+        return this.app.jwt.sign(
+            {
+                sub: user.username,                        // Who
+                jti: randomUUID(),                         // Unique id
+                sid: sessionId,                            // Which session
+                token_use: 'access',                       // What it is for
+                roles: granted.roles,                      // What they are
+                permissions: granted.permissions,          // What they may do
+                client_id: session.clientId,               // Which OAuth client, if any
+                scope: session.scopes?.join(' ')           // Which scopes it was granted
+            },
+            { ...this.app.jwtKeys.signOptions, expiresIn: this.app.config.ACCESS_TOKEN_TTL_SECONDS }
+        )
+    }
+
+    /**
+     * Lazily compute the dummy hash used for unknown usernames
+     *
+     * @private
+     * @returns {Promise<string>} Encoded hash of a random password
+     */
+    private getDummyHash(): Promise<string> {
+        if (!this.dummyHash) {
+            this.dummyHash = this.hasher.hash(randomBytes(32).toString('hex'))
+        }
+        return this.dummyHash
+    }
+}
+
+/**
+ * Trim a client-supplied string and cap its length
+ * Non-strings and empty strings become undefined (not stored)
+ */
+function truncate(value: unknown, maxLength: number): string | undefined {
+    if (typeof value !== 'string') {
+        return undefined
+    }
+    const trimmed = value.trim()
+    return trimmed ? trimmed.slice(0, maxLength) : undefined
 }
@@ -4,9 +4,18 @@
  * This module defines TypeScript interfaces for type safety across the authentication system.
  * Using interfaces ensures compile-time type checking and provides IDE autocomplete.
  *
+ * Request and response bodies of the core token endpoints (login, refresh,
+ * logout, me) are declared as TypeBox schemas instead, and their TypeScript
+ * types are derived from them with Static<>. The same schema validates the
+ * request (Ajv) and serializes the response (fast-json-stringify), so the
+ * runtime contract and the compile-time types cannot drift apart.
+ *
  * @module auth.types
+ * @see {@link auth.schemas.ts} for the route schemas built from these
  */
 
+import { Static, Type } from '@sinclair/typebox'
+
 /**
  * Login Request Payload
  *
@@ -15,15 +24,21 @@
  * Properties:
  * - username: Unique user identifier (e.g., email or username)
  * - password: User's password (sent over HTTPS in production)
+ * - deviceName: Optional label for the new session (e.g. "Alice's iPhone"),
+ *   shown in GET /auth/sessions
  *
  * Security Notes:
  * - Password should always be transmitted over HTTPS
  * - Password is never stored as plain text in database (use bcrypt)
  * - Never log passwords to console or files
  *
- * @interface LoginRequest
+ * Validation: username and password must be non-empty strings; other
+ * properties are dropped.
+ *
+ * @typedef {object} LoginRequest
  * @property {string} username - Unique user identifier
  * @property {string} password - User's password (plaintext)
+ * @property {string} [deviceName] - Label for the session (truncated to 100 characters)
  *
  * @example
  * const loginRequest: LoginRequest = {
@@ -31,10 +46,33 @@
  *   password: "securePassword123"
  * };
  */
-export interface LoginRequest {
-    username: string;
-    password: string;
-}
+export const LoginRequestSchema = Type.Object({
+    username: Type.String({ minLength: 1 }),
+    password: Type.String({ minLength: 1 }),
+    deviceName: Type.Optional(Type.String())
+})
+export type LoginRequest = Static<typeof LoginRequestSchema>
+
+/**
+ * Refresh Token Request Payload
+ *
+ * Sent to POST /auth/refresh (token to exchange) and POST /auth/logout
+ * (token to revoke)
+ *
+ * refreshToken is required with the body transport (checked by the
+ * controller) and ignored with the cookie transport, where the token is
+ * read from its cookie and the body may be empty (see refresh-cookie.ts).
+ *
+ * @typedef {object} RefreshTokenRequest
+ * @property {string} [refreshToken] - Refresh token from login or the latest refresh
+ *
+ * @example
+ * const refreshRequest: RefreshTokenRequest = { refreshToken: "q3Zp0oW8m1cV7bJdXyT4sRk9uE2hA6nLfG5iYwC0xMv" };
+ */
+export const RefreshTokenRequestSchema = Type.Object({
+    refreshToken: Type.Optional(Type.String({ minLength: 1 }))
+})
+export type RefreshTokenRequest = Static<typeof RefreshTokenRequestSchema>
 
 /**
  * Token Response Payload
@@ -44,13 +82,13 @@ export interface LoginRequest {
  *
  * Properties:
  * - accessToken: JWT token for API requests (short-lived, ~15 minutes)
- * - refreshToken: JWT token for getting new access tokens (long-lived, ~7 days)
+ * - refreshToken: Opaque token for getting new access tokens (long-lived, ~7 days)
  * - tokenType: Token type identifier (always "Bearer" for JWT)
  *
- * Token Structure (JWT Format):
- * - Header: { alg: "HS256", typ: "JWT" }
- * - Payload: { sub: "username", iat: 1234567890, exp: 1234571490 }
- * - Signature: HMACSHA256(header.payload, secret)
+ * Token Structure:
+ * - accessToken is a signed JWT (see AccessTokenClaims)
+ * - refreshToken is 256 random bits, base64url-encoded (43 characters).
+ *   It carries no claims; the server stores only its SHA-256 hash.
  *
  * Usage:
  * Client stores these tokens and includes accessToken in subsequent requests:
@@ -64,20 +102,418 @@ export interface LoginRequest {
  * { "refreshToken": "<refreshToken>" }
  * ```
  *
- * @interface TokenResponse
+ * @typedef {object} TokenResponse
  * @property {string} accessToken - JWT access token for API requests
- * @property {string} refreshToken - JWT refresh token for token renewal
+ * @property {string} refreshToken - Opaque refresh token for token renewal
  * @property {'Bearer'} tokenType - Token type identifier (always "Bearer")
  *
  * @example
  * const tokenResponse: TokenResponse = {
  *   accessToken: "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...",
- *   refreshToken: "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...",
+ *   refreshToken: "q3Zp0oW8m1cV7bJdXyT4sRk9uE2hA6nLfG5iYwC0xMv",
  *   tokenType: "Bearer"
  * };
  */
-export interface TokenResponse {
-    accessToken: string;
-    refreshToken: string;
-    tokenType: 'Bearer';
+export const TokenResponseSchema = Type.Object({
+    accessToken: Type.String(),
+    refreshToken: Type.String(),
+    tokenType: Type.Literal('Bearer')
+})
+export type TokenResponse = Static<typeof TokenResponseSchema>
+
+/**
+ * Cookie Token Response Payload
+ *
+ * Returned instead of TokenResponse when the client asked for the cookie
+ * transport (X-Token-Transport: cookie): the refresh token is only in its
+ * HttpOnly cookie, never in the body.
+ *
+ * @typedef {object} CookieTokenResponse
+ * @property {string} accessToken - JWT access token for API requests
+ * @property {'Bearer'} tokenType - Token type identifier (always "Bearer")
+ * @property {string} csrfToken - Value to send as X-CSRF-Token with the next
+ *   refresh or logout (same as the CSRF cookie)
+ *
+ * @example
+ * const cookieTokenResponse: CookieTokenResponse = {
+ *   accessToken: "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...",
+ *   tokenType: "Bearer",
+ *   csrfToken: "Hk2v0tQ9bX1mW8cR4sLz7yPqE3nJ6aUoD5fG0iTkCwM"
+ * };
+ */
+export const CookieTokenResponseSchema = Type.Object({
+    accessToken: Type.String(),
+    tokenType: Type.Literal('Bearer'),
+    csrfToken: Type.String()
+})
+export type CookieTokenResponse = Static<typeof CookieTokenResponseSchema>
+
+/**
+ * Registration Request Payload
+ *
+ * This interface defines the shape of data sent to the /auth/register endpoint
+ *
+ * Validation:
+ * - username: 3-32 characters, letters, digits, dot, underscore or hyphen
+ * - password: Must satisfy the configured PasswordPolicy
+ * - email: Optional; a valid, not yet registered address (needed for password reset)
+ *
+ * @interface RegisterRequest
+ * @property {string} username - Desired unique user identifier
+ * @property {string} password - Desired password (plaintext, sent over HTTPS)
+ * @property {string} [email] - Address for password reset emails
+ *
+ * @example
+ * const registerRequest: RegisterRequest = {
+ *   username: "alice",
+ *   password: "Correct-Horse-42"
+ * };
+ */
+export interface RegisterRequest {
+    username: string;
+    password: string;
+    email?: string;
+}
+
+/**
+ * Registration Violation
+ *
+ * One failed registration rule, returned as a violation in the 400
+ * validation_failed problem of /auth/register
+ * so the frontend can highlight each problem next to the relevant field
+ *
+ * @interface RegistrationViolation
+ * @property {'username' | 'password' | 'email'} field - Which input failed
+ * @property {string} rule - Stable machine-readable rule identifier (e.g. "min_length")
+ * @property {string} message - Human-readable explanation
+ *
+ * @example
+ * const violation: RegistrationViolation = {
+ *   field: "password",
+ *   rule: "min_length",
+ *   message: "Password must be at least 10 characters long"
+ * };
+ */
+export interface RegistrationViolation {
+    field: 'username' | 'password' | 'email';
+    rule: string;
+    message: string;
+}
+
+/**
+ * Registration Response Payload
+ *
+ * Returned by POST /auth/register (201 Created)
+ * Tokens are NOT issued; the client logs in with the new credentials
+ *
+ * @interface RegisterResponse
+ * @property {string} username - The created username
+ * @property {string} createdAt - ISO 8601 creation timestamp
+ */
+export interface RegisterResponse {
+    username: string;
+    createdAt: string;
+}
+
+/**
+ * Token Use
+ *
+ * The token_use claim every JWT carries, naming what it may be used for.
+ * All JWTs are signed with the same key, so the signature alone can't
+ * tell them apart:
+ * - access: Bearer token for API calls (accepted only by app.authenticate)
+ * - mfa_pending: Login challenge for TOTP users (accepted only by POST /auth/login/mfa)
+ *
+ * Refresh tokens are opaque random strings, not JWTs, so they have no
+ * token_use and never verify as one.
+ *
+ * @typedef {'access' | 'mfa_pending'} TokenUse
+ */
+export type TokenUse = 'access' | 'mfa_pending'
+
+/**
+ * Access Token Claims
+ *
+ * Decoded payload of a verified access token (request.user on protected routes)
+ *
+ * roles and permissions are snapshotted when the token is issued (login or
+ * refresh); role changes apply from the next refresh.
+ *
+ * Also the body of GET /auth/me ({ user: claims }); claims not listed here
+ * are left out of that response.
+ *
+ * Tokens of the OAuth client_credentials grant act for a client, not a
+ * user: sub is "client:<clientId>" (usernames can't contain ":"), there is
+ * no sid, roles is empty and permissions are the granted scopes.
+ *
+ * Tokens issued to an OAuth client (either kind) carry the scopes it was
+ * granted in scope (RFC 9068 section 2.2.3), space-separated like the
+ * scope of the token response.
+ *
+ * @typedef {object} AccessTokenClaims
+ * @property {string} sub - Username the token was issued to, or "client:<clientId>"
+ * @property {string} jti - Unique token id (used for revocation)
+ * @property {string} [sid] - Session id (the refresh token family)
+ * @property {'access'} token_use - Marks the token as an access token
+ * @property {string} iss - Issuer (JWT_ISSUER)
+ * @property {string} aud - Audience (JWT_AUDIENCE)
+ * @property {string[]} roles - The user's roles (e.g. ["admin"])
+ * @property {string[]} permissions - Effective permissions (roles + direct grants)
+ * @property {string} [client_id] - OAuth client the token was issued to (POST /oauth/token)
+ * @property {string} [scope] - Scopes granted to that client, space-separated
+ * @property {number} iat - Issued at (epoch seconds)
+ * @property {number} exp - Expires at (epoch seconds)
+ */
+export const AccessTokenClaimsSchema = Type.Object({
+    sub: Type.String(),
+    jti: Type.String(),
+    sid: Type.Optional(Type.String()),
+    token_use: Type.Literal('access'),
+    iss: Type.String(),
+    aud: Type.String(),
+    roles: Type.Array(Type.String()),
+    permissions: Type.Array(Type.String()),
+    client_id: Type.Optional(Type.String()),
+    scope: Type.Optional(Type.String()),
+    iat: Type.Integer(),
+    exp: Type.Integer()
+})
+export type AccessTokenClaims = Static<typeof AccessTokenClaimsSchema>
+
+/**
+ * Current User Response
+ *
+ * Returned by GET /auth/me: the verified claims of the caller's access token
+ *
+ * @typedef {object} MeResponse
+ * @property {AccessTokenClaims} user - Decoded access token
+ */
+export const MeResponseSchema = Type.Object({
+    user: AccessTokenClaimsSchema
+})
+export type MeResponse = Static<typeof MeResponseSchema>
+
+/**
+ * Message Response
+ *
+ * Body of simple confirmations (errors are problem details, see
+ * modules/errors/problem.ts)
+ *
+ * @typedef {object} MessageResponse
+ * @property {string} message - Human-readable outcome
+ *
+ * @example
+ * const response: MessageResponse = { message: "Logged out successfully" };
+ */
+export const MessageResponseSchema = Type.Object({
+    message: Type.String()
+})
+export type MessageResponse = Static<typeof MessageResponseSchema>
+
+/**
+ * Client Context
+ *
+ * Facts about the calling client, taken from the HTTP request by the controller
+ * and passed to the service for security decisions (throttling, auditing)
+ *
+ * @interface ClientContext
+ * @property {string} ip - Client IP address (request.ip; honours trustProxy)
+ * @property {string} [userAgent] - User-Agent request header
+ * @property {string} [requestId] - Fastify request id (request.id), ties audit events to the request log
+ * @property {string} [oauthClientId] - OAuth client authenticated at POST /oauth/token; the
+ *   session started or refreshed is bound to it
+ *
+ * @example
+ * const client: ClientContext = { ip: "203.0.113.7", userAgent: "MyApp/2.1 (iOS 17)", requestId: "req-1f" };
+ */
+export interface ClientContext {
+    ip: string;
+    userAgent?: string;
+    requestId?: string;
+    oauthClientId?: string;
+}
+
+/**
+ * Session
+ *
+ * One signed-in device, as listed by GET /auth/sessions
+ *
+ * A session starts at login and lasts as long as its refresh token family:
+ * each refresh extends it, logout or revocation ends it.
+ * Fields the client never supplied are null.
+ *
+ * @interface Session
+ * @property {string} id - Session id (DELETE /auth/sessions/:id)
+ * @property {string | null} deviceName - Label given at login
+ * @property {string | null} userAgent - User-Agent of the latest login/refresh
+ * @property {string | null} ip - Client IP of the latest login/refresh
+ * @property {string} createdAt - ISO 8601 login time
+ * @property {string} lastUsedAt - ISO 8601 time of the latest login/refresh
+ * @property {string} expiresAt - ISO 8601 time the session ends unless refreshed
+ * @property {boolean} current - True for the session making this request
+ *
+ * @example
+ * const session: Session = {
+ *   id: "3f0c9a52-6a43-4f0e-9d1b-2b7f1c8e5d21",
+ *   deviceName: "Alice's iPhone",
+ *   userAgent: "MyApp/2.1 (iOS 17)",
+ *   ip: "203.0.113.7",
+ *   createdAt: "2024-01-15T16:00:00.000Z",
+ *   lastUsedAt: "2024-01-16T08:12:00.000Z",
+ *   expiresAt: "2024-01-23T08:12:00.000Z",
+ *   current: true
+ * };
+ */
+export interface Session {
+    id: string;
+    deviceName: string | null;
+    userAgent: string | null;
+    ip: string | null;
+    createdAt: string;
+    lastUsedAt: string;
+    expiresAt: string;
+    current: boolean;
+}
+
+/**
+ * MFA Challenge Response
+ *
+ * Returned by POST /auth/login instead of a TokenResponse when the user has
+ * TOTP enabled. The password was correct; the client now asks for a code and
+ * sends it with mfaToken to POST /auth/login/mfa.
+ *
+ * The mfaToken is a short-lived JWT (token_use "mfa_pending") that only
+ * POST /auth/login/mfa accepts - it is rejected as an access token.
+ *
+ * @typedef {object} MfaChallengeResponse
+ * @property {true} mfaRequired - Always true (tells the two login responses apart)
+ * @property {string} mfaToken - Challenge token, single use
+ * @property {number} expiresIn - Seconds until the challenge expires (MFA_TOKEN_TTL_SECONDS)
+ *
+ * @example
+ * const challenge: MfaChallengeResponse = {
+ *   mfaRequired: true,
+ *   mfaToken: "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...",
+ *   expiresIn: 300
+ * };
+ */
+export const MfaChallengeResponseSchema = Type.Object({
+    mfaRequired: Type.Literal(true),
+    mfaToken: Type.String(),
+    expiresIn: Type.Integer()
+})
+export type MfaChallengeResponse = Static<typeof MfaChallengeResponseSchema>
+
+/**
+ * MFA Login Request Payload
+ *
+ * Sent to POST /auth/login/mfa to finish a login
+ *
+ * @interface MfaLoginRequest
+ * @property {string} mfaToken - Challenge token from POST /auth/login
+ * @property {string} code - 6-digit TOTP code, or an unused recovery code
+ */
+export interface MfaLoginRequest {
+    mfaToken: string;
+    code: string;
+}
+
+/**
+ * Change Password Request Payload
+ *
+ * Sent to POST /auth/password/change by a signed-in user
+ *
+ * @interface ChangePasswordRequest
+ * @property {string} currentPassword - The password in use now (re-authentication)
+ * @property {string} newPassword - New password (must satisfy the PasswordPolicy)
+ */
+export interface ChangePasswordRequest {
+    currentPassword: string;
+    newPassword: string;
+}
+
+/**
+ * Forgot Password Request Payload
+ *
+ * Sent to POST /auth/password/forgot to have a reset link emailed
+ *
+ * @interface ForgotPasswordRequest
+ * @property {string} email - Address the account was registered with
+ */
+export interface ForgotPasswordRequest {
+    email: string;
+}
+
+/**
+ * Reset Password Request Payload
+ *
+ * Sent to POST /auth/password/reset with the token from the email
+ *
+ * @interface ResetPasswordRequest
+ * @property {string} token - Reset token from the emailed link
+ * @property {string} password - New password (must satisfy the PasswordPolicy)
+ */
+export interface ResetPasswordRequest {
+    token: string;
+    password: string;
+}
+
+/**
+ * MFA Pending Token Claims
+ *
+ * Payload of the challenge token issued by login for TOTP users
+ *
+ * @interface MfaPendingClaims
+ * @property {string} sub - Username whose password was verified
+ * @property {string} jti - Unique token id (denylisted once used)
+ * @property {'mfa_pending'} token_use - Marks the token as a login challenge
+ * @property {string} [deviceName] - Session label from the login request
+ * @property {string} iss - Issuer (JWT_ISSUER)
+ * @property {string} aud - Audience (JWT_AUDIENCE)
+ * @property {number} iat - Issued at (epoch seconds)
+ * @property {number} exp - Expires at (epoch seconds)
+ */
+export interface MfaPendingClaims {
+    sub: string;
+    jti: string;
+    token_use: 'mfa_pending';
+    deviceName?: string;
+    iss: string;
+    aud: string;
+    iat: number;
+    exp: number;
+}
+
+/**
+ * Token Payload
+ *
+ * What AuthService passes to app.jwt.sign(): the claims of one of the
+ * token types, minus those the signer adds (iss and aud from
+ * app.jwtKeys.signOptions, iat and exp from the lifetime)
+ *
+ * @typedef {object} TokenPayload
+ */
+export type TokenPayload =
+    | Omit<AccessTokenClaims, 'iss' | 'aud' | 'iat' | 'exp'>
+    | Omit<MfaPendingClaims, 'iss' | 'aud' | 'iat' | 'exp'>
+
+/**
+ * TOTP Enrollment
+ *
+ * Returned by POST /auth/mfa/totp/enroll. The client shows otpauthUri as a
+ * QR code (and secret for manual entry), then confirms with a code.
+ *
+ * @interface TotpEnrollment
+ * @property {string} secret - Base32 shared secret
+ * @property {string} otpauthUri - otpauth://totp/... URI for authenticator apps
+ *
+ * @example
+ * const enrollment: TotpEnrollment = {
+ *   secret: "JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP",
+ *   otpauthUri: "otpauth://totp/Secure%20Auth%20API:alice?secret=JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP&issuer=Secure+Auth+API&algorithm=SHA1&digits=6&period=30"
+ * };
+ */
+export interface TotpEnrollment {
+    secret: string;
+    otpauthUri: string;
 }
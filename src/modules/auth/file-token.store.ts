@@ -0,0 +1,244 @@
+/**
+ * File-Backed Token Store (append-only JSON log)
+ *
+ * Persists refresh tokens to a local file so restarts don't log everyone out.
+ * Needs no database and no native modules.
+ *
+ * How it works:
+ * - All reads are served from the in-memory Map (inherited from InMemoryTokenStore)
+ * - Every mutation is appended to the log as one JSON line, e.g.
+ *     {"op":"save","tokenHash":"...","record":{...}}
+ *     {"op":"rotate","tokenHash":"...","rotatedAt":1705334400000}
+ *     {"op":"revokeFamily","familyId":"..."}
+ * - On first access the log is replayed to rebuild the Map
+ * - The log is compacted (rewritten with only live tokens) after loading,
+ *   after cleanupExpired(), and whenever it has grown well beyond the live set
+ *
+ * Durability:
+ * - Appends are serialized through a promise chain, in mutation order
+ * - Compaction writes a temp file and renames it (atomic on POSIX)
+ * - A torn final line (crash mid-append) is ignored on replay
+ *
+ * Only token hashes are written (see hashToken). Entries from logs of older
+ * releases, which held the raw refresh JWTs, are skipped on replay and
+ * disappear from disk with the compaction that follows; those sessions
+ * have to log in again.
+ *
+ * Limitations:
+ * - Single process only: two instances must NOT share the same file
+ * - The whole token set lives in memory
+ *
+ * Structure on disk: one JSON operation per line (JSON Lines)
+ */
+
+import { promises as fs } from 'fs'
+import path from 'path'
+import { DEFAULT_TOKEN_TTL_SECONDS, InMemoryTokenStore, SessionMetadata, StoredToken } from './token.store'
+
+type LogEntry =
+    | { op: 'save', tokenHash: string, record: StoredToken }
+    | { op: 'rotate', tokenHash: string, rotatedAt: number }
+    | { op: 'revoke', tokenHash: string }
+    | { op: 'revokeFamily', familyId: string }
+    | { op: 'revokeUser', username: string }
+
+/**
+ * Compact once the log holds this many more entries than there are live tokens
+ */
+const COMPACTION_SLACK = 1000
+
+export class FileTokenStore extends InMemoryTokenStore {
+    private loaded: Promise<void> | null = null
+    private writeQueue: Promise<void> = Promise.resolve()
+    private logEntries = 0
+
+    /**
+     * @param filePath Path to the log file (created on first write if missing)
+     */
+    constructor(private readonly filePath: string) {
+        super()
+    }
+
+    async saveToken(
+        tokenHash: string,
+        username: string,
+        ttlSeconds: number = DEFAULT_TOKEN_TTL_SECONDS,
+        familyId?: string,
+        session?: SessionMetadata
+    ): Promise<string> {
+        await this.load()
+        const savedFamilyId = await super.saveToken(tokenHash, username, ttlSeconds, familyId, session)
+        await this.append({ op: 'save', tokenHash, record: { ...this.tokens.get(tokenHash)! } })
+        return savedFamilyId
+    }
+
+    async getToken(tokenHash: string): Promise<StoredToken | null> {
+        await this.load()
+        return super.getToken(tokenHash)
+    }
+
+    async getUserTokens(username: string): Promise<StoredToken[]> {
+        await this.load()
+        return super.getUserTokens(username)
+    }
+
+    async markRotated(tokenHash: string): Promise<boolean> {
+        await this.load()
+        const rotated = await super.markRotated(tokenHash)
+        if (rotated) {
+            await this.append({ op: 'rotate', tokenHash, rotatedAt: this.tokens.get(tokenHash)!.rotatedAt! })
+        }
+        return rotated
+    }
+
+    async revokeToken(tokenHash: string): Promise<void> {
+        await this.load()
+        await super.revokeToken(tokenHash)
+        await this.append({ op: 'revoke', tokenHash })
+    }
+
+    async revokeFamily(familyId: string): Promise<number> {
+        await this.load()
+        const removed = await super.revokeFamily(familyId)
+        if (removed > 0) {
+            await this.append({ op: 'revokeFamily', familyId })
+        }
+        return removed
+    }
+
+    async revokeAllUserTokens(username: string): Promise<number> {
+        await this.load()
+        const removed = await super.revokeAllUserTokens(username)
+        if (removed > 0) {
+            await this.append({ op: 'revokeUser', username })
+        }
+        return removed
+    }
+
+    async cleanupExpired(): Promise<number> {
+        await this.load()
+        const removed = await super.cleanupExpired()
+        if (removed > 0) {
+            await this.compact()
+        }
+        return removed
+    }
+
+    async getStats() {
+        await this.load()
+        return super.getStats()
+    }
+
+    async close(): Promise<void> {
+        await this.writeQueue.catch(() => undefined)
+    }
+
+    /**
+     * Replay the log once, then compact it
+     */
+    private load(): Promise<void> {
+        if (!this.loaded) {
+            this.loaded = (async () => {
+                let raw = ''
+                try {
+                    raw = await fs.readFile(this.filePath, 'utf8')
+                } catch (err) {
+                    if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+                        throw err
+                    }
+                }
+
+                for (const line of raw.split('\n')) {
+                    if (!line.trim()) {
+                        continue
+                    }
+
+                    let entry: LogEntry
+                    try {
+                        entry = JSON.parse(line) as LogEntry
+                    } catch {
+                        // Torn write from a crash; everything before it is intact
+                        continue
+                    }
+                    if ('token' in entry) {
+                        // Written by a release that stored raw refresh tokens
+                        continue
+                    }
+                    this.apply(entry)
+                }
+
+                // Drop expired tokens before compacting
+                const now = Date.now()
+                this.deleteWhere(stored => now > stored.expiresAt)
+                await this.compact()
+            })()
+        }
+        return this.loaded
+    }
+
+    /**
+     * Apply one log entry to the in-memory Map (replay)
+     */
+    private apply(entry: LogEntry): void {
+        switch (entry.op) {
+            case 'save':
+                this.tokens.set(entry.tokenHash, entry.record)
+                break
+            case 'rotate': {
+                const stored = this.tokens.get(entry.tokenHash)
+                if (stored) {
+                    stored.rotatedAt = entry.rotatedAt
+                }
+                break
+            }
+            case 'revoke':
+                this.tokens.delete(entry.tokenHash)
+                break
+            case 'revokeFamily':
+                this.deleteWhere(stored => stored.familyId === entry.familyId)
+                break
+            case 'revokeUser':
+                this.deleteWhere(stored => stored.username === entry.username)
+                break
+        }
+    }
+
+    /**
+     * Append one entry, compacting if the log has grown too large
+     */
+    private append(entry: LogEntry): Promise<void> {
+        this.logEntries++
+        if (this.logEntries > this.tokens.size + COMPACTION_SLACK) {
+            return this.compact()
+        }
+
+        return this.enqueue(async () => {
+            await fs.appendFile(this.filePath, JSON.stringify(entry) + '\n', { encoding: 'utf8', mode: 0o600 })
+        })
+    }
+
+    /**
+     * Rewrite the log with one "save" entry per live token
+     */
+    private compact(): Promise<void> {
+        const entries = Array.from(this.tokens.entries())
+            .map(([tokenHash, record]) => JSON.stringify({ op: 'save', tokenHash, record }) + '\n')
+        this.logEntries = entries.length
+
+        return this.enqueue(async () => {
+            const tmpPath = `${this.filePath}.tmp`
+            await fs.mkdir(path.dirname(this.filePath), { recursive: true })
+            await fs.writeFile(tmpPath, entries.join(''), { encoding: 'utf8', mode: 0o600 })
+            await fs.rename(tmpPath, this.filePath)
+        })
+    }
+
+    /**
+     * Run file operations one at a time, in call order
+     * A failed earlier write must not block later ones
+     */
+    private enqueue(task: () => Promise<void>): Promise<void> {
+        this.writeQueue = this.writeQueue.catch(() => undefined).then(task)
+        return this.writeQueue
+    }
+}
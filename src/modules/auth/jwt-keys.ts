@@ -0,0 +1,374 @@
+/**
+ * JWT Key Ring
+ *
+ * Holds the key used to SIGN new tokens and every key accepted to VERIFY
+ * tokens, selected by the `kid` (key id) header.
+ *
+ * Modes (JWT_ALGORITHM):
+ * - HS256 (default): one shared secret (JWT_SECRET) signs and verifies.
+ *   Nothing is published - a shared secret must never leave the server.
+ * - RS256 / ES256 / EdDSA: a private key (JWT_PRIVATE_KEY_FILE, PEM) signs;
+ *   its public key verifies and is published as a JWK Set, so other
+ *   services can verify access tokens without holding any secret.
+ *
+ * Key Rotation (asymmetric modes):
+ * 1. Add the NEW public key to JWT_PUBLIC_KEY_FILES and deploy
+ *    (it is published and accepted, but nothing is signed with it yet)
+ * 2. Once resource servers have refreshed the JWKS, switch
+ *    JWT_PRIVATE_KEY_FILE to the new key and move the OLD public key
+ *    into JWT_PUBLIC_KEY_FILES (tokens already issued keep verifying)
+ * 3. After the longest JWT lifetime (ACCESS_TOKEN_TTL_SECONDS; refresh
+ *    tokens are opaque and not signed), remove the old public key
+ *
+ * Key IDs:
+ * - JWT_KEY_ID names the signing key; entries of JWT_PUBLIC_KEY_FILES
+ *   may be written as "kid=path"
+ * - Otherwise the kid is the key's RFC 7638 JWK thumbprint, so the same
+ *   key always gets the same kid on every instance
+ * - Tokens without a kid are verified with the current signing key
+ *   (tokens issued before kids were introduced)
+ *
+ * Issuer and Audience:
+ * - signOptions writes JWT_ISSUER as iss and JWT_AUDIENCE as aud into
+ *   every token; the verify options reject tokens with any other value
+ *   and tokens missing iss, aud, exp or token_use
+ * - Tokens signed by another service sharing the key (or by an older
+ *   release, before these claims existed) are therefore refused
+ *
+ * @module jwt-keys
+ * @see https://www.rfc-editor.org/rfc/rfc7517 (JSON Web Key)
+ * @see https://www.rfc-editor.org/rfc/rfc7638 (JWK Thumbprint)
+ */
+
+import { createHash, createPrivateKey, createPublicKey, KeyObject, webcrypto } from 'crypto'
+import { readFileSync } from 'fs'
+import { AppConfig } from '../../config/env'
+
+/**
+ * A JSON Web Key (RFC 7517)
+ */
+export type JsonWebKey = webcrypto.JsonWebKey
+
+/**
+ * Supported signing algorithms
+ */
+export type JwtAlgorithm = 'HS256' | 'RS256' | 'ES256' | 'EdDSA'
+
+/**
+ * Algorithms signed with a private key and verified with a public key
+ */
+export const ASYMMETRIC_JWT_ALGORITHMS: readonly JwtAlgorithm[] = ['RS256', 'ES256', 'EdDSA']
+
+/**
+ * A key accepted for verification
+ *
+ * @interface VerificationKey
+ * @property {string} [kid] - Key id (absent only for an HS256 secret without JWT_KEY_ID)
+ * @property {JwtAlgorithm} algorithm - The only algorithm accepted with this key
+ * @property {string} key - Public key (PEM) or shared secret
+ * @property {JsonWebKey} [jwk] - Public JWK (asymmetric keys only)
+ */
+export interface VerificationKey {
+    kid?: string
+    algorithm: JwtAlgorithm
+    key: string
+    jwk?: JsonWebKey
+}
+
+/**
+ * Claims every token must carry to pass verification
+ */
+export const REQUIRED_JWT_CLAIMS = ['iss', 'aud', 'exp', 'token_use']
+
+/**
+ * Options for app.jwt.sign()
+ *
+ * @interface JwtSignOptions
+ * @property {JwtAlgorithm} algorithm - Signing algorithm
+ * @property {string} [kid] - Key id header
+ * @property {string} iss - Issuer claim
+ * @property {string} aud - Audience claim
+ */
+export interface JwtSignOptions {
+    algorithm: JwtAlgorithm
+    kid?: string
+    iss: string
+    aud: string
+}
+
+/**
+ * Claim checks for app.jwt.verify() and request.jwtVerify()
+ *
+ * @interface JwtVerifyOptions
+ * @property {JwtAlgorithm[]} algorithms - Accepted algorithms
+ * @property {string} allowedIss - Required iss claim
+ * @property {string} allowedAud - Required aud claim
+ * @property {string[]} requiredClaims - Claims that must be present
+ */
+export interface JwtVerifyOptions {
+    algorithms: JwtAlgorithm[]
+    allowedIss: string
+    allowedAud: string
+    requiredClaims: string[]
+}
+
+/**
+ * JSON Web Key Set, as served by GET /.well-known/jwks.json
+ *
+ * @interface JsonWebKeySet
+ */
+export interface JsonWebKeySet {
+    keys: JsonWebKey[]
+}
+
+export class JwtKeyRing {
+    /**
+     * @param algorithm Algorithm used for new tokens
+     * @param signingKey Private key (PEM) or shared secret used for new tokens
+     * @param signingKid Key id written into new tokens' headers
+     * @param verificationKeys Accepted keys; the first one belongs to the signing key
+     * @param issuer iss claim of new tokens, required when verifying
+     * @param audience aud claim of new tokens, required when verifying
+     */
+    constructor(
+        readonly algorithm: JwtAlgorithm,
+        readonly signingKey: string,
+        readonly signingKid: string | undefined,
+        private readonly verificationKeys: VerificationKey[],
+        readonly issuer: string,
+        readonly audience: string
+    ) {}
+
+    /**
+     * Options for app.jwt.sign(): algorithm, kid header, iss and aud
+     *
+     * Options passed to app.jwt.sign() replace the plugin's defaults
+     * instead of extending them, so callers spread these in.
+     *
+     * @returns {JwtSignOptions}
+     *
+     * @example
+     * app.jwt.sign(payload, { ...app.jwtKeys.signOptions, expiresIn: 900 })
+     */
+    get signOptions(): JwtSignOptions {
+        const options: JwtSignOptions = { algorithm: this.algorithm, iss: this.issuer, aud: this.audience }
+        return this.signingKid ? { ...options, kid: this.signingKid } : options
+    }
+
+    /**
+     * Verification defaults: every configured algorithm, plus the iss, aud
+     * and required claim checks
+     *
+     * Used as the plugin's verify options (request.jwtVerify()); key
+     * selection by kid happens in the plugin's secret callback.
+     *
+     * @returns {JwtVerifyOptions}
+     */
+    get verifyDefaults(): JwtVerifyOptions {
+        return {
+            algorithms: this.algorithms,
+            allowedIss: this.issuer,
+            allowedAud: this.audience,
+            requiredClaims: REQUIRED_JWT_CLAIMS
+        }
+    }
+
+    /**
+     * Every algorithm accepted by at least one verification key
+     *
+     * @returns {JwtAlgorithm[]}
+     */
+    get algorithms(): JwtAlgorithm[] {
+        return [...new Set(this.verificationKeys.map(entry => entry.algorithm))]
+    }
+
+    /**
+     * Find the verification key for a token's kid header
+     *
+     * @param {string} [kid] - kid header (omitted = current signing key)
+     * @returns {VerificationKey}
+     * @throws {Error} If no key has this kid
+     */
+    find(kid?: string): VerificationKey {
+        const entry = kid === undefined
+            ? this.verificationKeys[0]
+            : this.verificationKeys.find(candidate => candidate.kid === kid)
+
+        if (!entry) {
+            throw new Error(`Unknown JWT key id "${kid}"`)
+        }
+        return entry
+    }
+
+    /**
+     * Options for app.jwt.verify(): the key matching the token's kid,
+     * that key's algorithm only, and the iss, aud and required claim checks
+     *
+     * token_use is not checked here: each caller compares it with the
+     * token type it expects.
+     *
+     * @param {string} token - Compact JWT
+     * @returns {JwtVerifyOptions & { key: string }}
+     * @throws {Error} If the header is malformed or the kid is unknown
+     *
+     * @example
+     * app.jwt.verify(mfaToken, app.jwtKeys.verifyOptions(mfaToken))
+     */
+    verifyOptions(token: string): JwtVerifyOptions & { key: string } {
+        const entry = this.find(readKid(token))
+        return { ...this.verifyDefaults, key: entry.key, algorithms: [entry.algorithm] }
+    }
+
+    /**
+     * Public keys as a JWK Set (empty for HS256)
+     *
+     * @returns {JsonWebKeySet}
+     */
+    jwks(): JsonWebKeySet {
+        return {
+            keys: this.verificationKeys
+                .filter(entry => entry.jwk)
+                .map(entry => ({ ...entry.jwk, kid: entry.kid, alg: entry.algorithm, use: 'sig' }))
+        }
+    }
+}
+
+/**
+ * Build the key ring from configuration, reading PEM files from disk
+ *
+ * @param {AppConfig} config - Validated configuration (app.config)
+ * @returns {JwtKeyRing}
+ * @throws {Error} If a key file is unreadable, of an unsupported type,
+ *                 or does not match JWT_ALGORITHM
+ *
+ * @example
+ * // JWT_ALGORITHM=ES256 JWT_PRIVATE_KEY_FILE=keys/current.pem
+ * // JWT_PUBLIC_KEY_FILES=2024-01=keys/previous.pub.pem
+ * const keyRing = loadJwtKeyRing(app.config);
+ */
+export function loadJwtKeyRing(config: AppConfig): JwtKeyRing {
+    const algorithm = config.JWT_ALGORITHM
+
+    if (algorithm === 'HS256') {
+        const kid = config.JWT_KEY_ID || undefined
+        return new JwtKeyRing(
+            algorithm,
+            config.JWT_SECRET,
+            kid,
+            [{ kid, algorithm, key: config.JWT_SECRET }],
+            config.JWT_ISSUER,
+            config.JWT_AUDIENCE
+        )
+    }
+
+    if (!config.JWT_PRIVATE_KEY_FILE) {
+        throw new Error(`JWT_PRIVATE_KEY_FILE is required when JWT_ALGORITHM is ${algorithm}`)
+    }
+
+    const privateKeyPem = readKeyFile(config.JWT_PRIVATE_KEY_FILE)
+    const signing = toVerificationKey(createPublicKey(createPrivateKey(privateKeyPem)), config.JWT_KEY_ID)
+    if (signing.algorithm !== algorithm) {
+        throw new Error(`JWT_PRIVATE_KEY_FILE holds a ${signing.algorithm} key, but JWT_ALGORITHM is ${algorithm}`)
+    }
+
+    const verificationKeys = [signing]
+    for (const { kid, path } of parseKeyFileList(config.JWT_PUBLIC_KEY_FILES ?? '')) {
+        const entry = toVerificationKey(createPublicKey(readKeyFile(path)), kid)
+        if (verificationKeys.some(existing => existing.kid === entry.kid)) {
+            throw new Error(`Duplicate JWT key id "${entry.kid}" (${path})`)
+        }
+        verificationKeys.push(entry)
+    }
+
+    return new JwtKeyRing(algorithm, privateKeyPem, signing.kid, verificationKeys, config.JWT_ISSUER, config.JWT_AUDIENCE)
+}
+
+/**
+ * Parse JWT_PUBLIC_KEY_FILES: comma-separated "path" or "kid=path" entries
+ *
+ * @example
+ * parseKeyFileList('old=keys/a.pem, keys/b.pem');
+ * // [{ kid: 'old', path: 'keys/a.pem' }, { kid: undefined, path: 'keys/b.pem' }]
+ */
+function parseKeyFileList(value: string): { kid?: string, path: string }[] {
+    return value.split(',').map(item => item.trim()).filter(Boolean).map(item => {
+        const separator = item.indexOf('=')
+        return separator === -1
+            ? { path: item }
+            : { kid: item.slice(0, separator).trim(), path: item.slice(separator + 1).trim() }
+    })
+}
+
+/**
+ * Read a PEM file, naming the file in the error
+ */
+function readKeyFile(path: string): string {
+    try {
+        return readFileSync(path, 'utf8')
+    } catch (err) {
+        throw new Error(`Cannot read JWT key file ${path}: ${(err as Error).message}`)
+    }
+}
+
+/**
+ * Describe a public key: algorithm from its type, kid, PEM and JWK
+ *
+ * @throws {Error} For key types other than RSA, EC P-256 and Ed25519
+ */
+function toVerificationKey(publicKey: KeyObject, kid?: string): VerificationKey {
+    const algorithm = algorithmFor(publicKey)
+    const jwk = publicKey.export({ format: 'jwk' })
+
+    return {
+        kid: kid || thumbprint(jwk),
+        algorithm,
+        key: publicKey.export({ type: 'spki', format: 'pem' }).toString(),
+        jwk
+    }
+}
+
+/**
+ * The algorithm a key type is used with
+ */
+function algorithmFor(key: KeyObject): JwtAlgorithm {
+    switch (key.asymmetricKeyType) {
+        case 'rsa':
+            return 'RS256'
+        case 'ec':
+            if (key.asymmetricKeyDetails?.namedCurve === 'prime256v1') {
+                return 'ES256'
+            }
+            break
+        case 'ed25519':
+            return 'EdDSA'
+    }
+    throw new Error(`Unsupported JWT key type "${key.asymmetricKeyType}" (expected RSA, EC P-256 or Ed25519)`)
+}
+
+/**
+ * RFC 7638 JWK thumbprint: SHA-256 over the required members in
+ * lexicographic order, base64url-encoded
+ */
+function thumbprint(jwk: JsonWebKey): string {
+    const required = jwk.kty === 'RSA'
+        ? { e: jwk.e, kty: jwk.kty, n: jwk.n }
+        : jwk.kty === 'EC'
+            ? { crv: jwk.crv, kty: jwk.kty, x: jwk.x, y: jwk.y }
+            : { crv: jwk.crv, kty: jwk.kty, x: jwk.x }
+
+    return createHash('sha256').update(JSON.stringify(required)).digest('base64url')
+}
+
+/**
+ * Read the kid header of a compact JWT without verifying it
+ *
+ * @throws {Error} If the header is not valid base64url JSON
+ */
+function readKid(token: string): string | undefined {
+    try {
+        const header = JSON.parse(Buffer.from(token.split('.')[0], 'base64url').toString('utf8'))
+        return typeof header.kid === 'string' ? header.kid : undefined
+    } catch {
+        throw new Error('Malformed token header')
+    }
+}
@@ -0,0 +1,45 @@
+/**
+ * Login Attempt Store Factory
+ *
+ * Chooses where failed-login counters live, from configuration (app.config).
+ * Use "redis" whenever more than one instance serves /auth/login, so the
+ * brute-force limits apply across all of them.
+ *
+ * Environment Variables (validated in config/env.ts):
+ * - LOGIN_ATTEMPT_STORE: "memory" (default) or "redis"
+ * - REDIS_URL: Connection URL for the "redis" backend (default: redis://127.0.0.1:6379)
+ * - REDIS_KEY_PREFIX: Key prefix for the "redis" backend (default: auth:)
+ *
+ * @module login-attempt-store.factory
+ * @see {@link login-attempt.store.ts} for the ILoginAttemptStore contract
+ */
+
+import { ILoginAttemptStore, InMemoryLoginAttemptStore } from './login-attempt.store'
+import { RedisLoginAttemptStore } from './redis-login-attempt.store'
+import Redis from 'ioredis'
+import { AppConfig } from '../../config/env'
+
+/**
+ * Supported backend names
+ */
+export type LoginAttemptStoreBackend = 'memory' | 'redis'
+
+/**
+ * Create the login attempt store selected by LOGIN_ATTEMPT_STORE
+ *
+ * @param {AppConfig} config - Validated configuration (app.config)
+ * @returns {ILoginAttemptStore} A new, unshared store instance
+ * @throws {Error} If LOGIN_ATTEMPT_STORE names an unknown backend
+ */
+export function createLoginAttemptStore(config: AppConfig): ILoginAttemptStore {
+    const backend: LoginAttemptStoreBackend = config.LOGIN_ATTEMPT_STORE
+
+    switch (backend) {
+        case 'memory':
+            return new InMemoryLoginAttemptStore()
+        case 'redis':
+            return new RedisLoginAttemptStore(new Redis(config.REDIS_URL), { keyPrefix: config.REDIS_KEY_PREFIX })
+        default:
+            throw new Error(`Unknown LOGIN_ATTEMPT_STORE backend "${backend}" (expected "memory" or "redis")`)
+    }
+}
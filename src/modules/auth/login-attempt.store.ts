@@ -0,0 +1,114 @@
+/**
+ * Login Attempt Store Abstraction Layer
+ *
+ * Counts failed login attempts per key (a username or a client IP) so
+ * LoginThrottle can apply backoff and lockouts.
+ *
+ * Why a store interface?
+ * - Counters must be shared by every instance behind a load balancer,
+ *   otherwise an attacker simply spreads guesses across instances
+ * - Same approach as ITokenStore: consumers depend only on the interface
+ *
+ * Implementations:
+ * - InMemoryLoginAttemptStore (this file): per-process, lost on restart
+ * - RedisLoginAttemptStore (redis-login-attempt.store.ts): shared between instances
+ *
+ * Counters expire on their own once no failure has been recorded for
+ * the configured window, so old mistakes are eventually forgotten.
+ *
+ * Structure: Map<key, { failures, lastFailureAt, expiresAt }>
+ */
+
+export interface LoginAttempt {
+    /** Consecutive failures within the current window */
+    failures: number
+    /** Epoch milliseconds of the most recent failure */
+    lastFailureAt: number
+}
+
+export interface ILoginAttemptStore {
+    /**
+     * Look up the failure counter for a key
+     * @param key Counter key, e.g. "user:alice" or "ip:203.0.113.7"
+     * @returns The counter, or null if there are no recent failures
+     */
+    get(key: string): Promise<LoginAttempt | null>
+
+    /**
+     * Atomically add one failure and restart the expiry window
+     * @param key Counter key
+     * @param windowSeconds How long the counter is kept after this failure
+     * @returns The updated counter
+     */
+    recordFailure(key: string, windowSeconds: number): Promise<LoginAttempt>
+
+    /**
+     * Forget all failures for a key (successful login, admin unlock)
+     * @param key Counter key
+     */
+    reset(key: string): Promise<void>
+
+    /**
+     * Remove expired counters (backends with native expiry can return 0)
+     * @returns Number of counters removed
+     */
+    cleanupExpired(): Promise<number>
+
+    /**
+     * Release resources (close connections)
+     */
+    close(): Promise<void>
+}
+
+export class InMemoryLoginAttemptStore implements ILoginAttemptStore {
+    private attempts = new Map<string, LoginAttempt & { expiresAt: number }>()
+
+    async get(key: string): Promise<LoginAttempt | null> {
+        const stored = this.attempts.get(key)
+
+        if (!stored) {
+            return null
+        }
+
+        if (Date.now() > stored.expiresAt) {
+            this.attempts.delete(key)
+            return null
+        }
+
+        return { failures: stored.failures, lastFailureAt: stored.lastFailureAt }
+    }
+
+    async recordFailure(key: string, windowSeconds: number): Promise<LoginAttempt> {
+        const now = Date.now()
+        const previous = await this.get(key)
+        const attempt = {
+            failures: (previous?.failures ?? 0) + 1,
+            lastFailureAt: now
+        }
+
+        this.attempts.set(key, { ...attempt, expiresAt: now + windowSeconds * 1000 })
+        return attempt
+    }
+
+    async reset(key: string): Promise<void> {
+        this.attempts.delete(key)
+    }
+
+    async cleanupExpired(): Promise<number> {
+        const now = Date.now()
+        let removed = 0
+
+        for (const [key, stored] of this.attempts.entries()) {
+            if (now > stored.expiresAt) {
+                this.attempts.delete(key)
+                removed++
+            }
+        }
+
+        return removed
+    }
+
+    async close(): Promise<void> {
+        // Nothing to release
+    }
+}
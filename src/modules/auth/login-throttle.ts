@@ -0,0 +1,217 @@
+/**
+ * Login Throttle
+ *
+ * Brute-force protection for POST /auth/login.
+ *
+ * Failed attempts are counted twice: per username (targeted guessing
+ * against one account) and per client IP (one client spraying many
+ * accounts). Each counter independently slows the client down:
+ *
+ * 1. The first few failures are free (typos happen; more for IPs, which
+ *    may be shared by many users behind a NAT)
+ * 2. After that, each failure doubles the wait before the next attempt
+ *    (exponential backoff, capped at maxBackoffSeconds)
+ * 3. Once a counter reaches its limit, the key is locked out for
+ *    lockoutSeconds; every further failure restarts the lockout
+ *
+ * While a key is waiting or locked, attempts are rejected BEFORE the
+ * password is checked, so guesses during a lockout reveal nothing.
+ *
+ * Username Enumeration:
+ * - Unknown usernames are counted and locked exactly like real ones,
+ *   so a lockout response does not reveal whether an account exists
+ *
+ * Resetting:
+ * - A successful login resets the username counter (not the IP counter,
+ *   otherwise logging into one's own account would reset an attack)
+ * - For TOTP users a login succeeds only with the second factor: the
+ *   password alone doesn't reset the counter
+ * - Administrators can unlock a username early with unlock()
+ *
+ * @module login-throttle
+ * @see {@link login-attempt.store.ts} for counter storage
+ */
+
+import { FastifyBaseLogger } from 'fastify'
+import { ILoginAttemptStore, LoginAttempt } from './login-attempt.store'
+import { AppError } from '../errors/app-error'
+
+/**
+ * Tunable limits
+ *
+ * @interface LoginThrottleOptions
+ * @property {number} maxUsernameFailures - Failures per username before lockout
+ * @property {number} maxIpFailures - Failures per IP before lockout (higher: shared NATs)
+ * @property {number} freeAttempts - Failures per username allowed before backoff starts
+ * @property {number} freeIpAttempts - Failures per IP allowed before backoff starts
+ * @property {number} baseBackoffSeconds - Wait after the first counted failure
+ * @property {number} maxBackoffSeconds - Upper bound for the backoff wait
+ * @property {number} lockoutSeconds - Lockout duration once the limit is reached
+ * @property {number} windowSeconds - Counters are forgotten after this long without failures
+ */
+export interface LoginThrottleOptions {
+    maxUsernameFailures: number
+    maxIpFailures: number
+    freeAttempts: number
+    freeIpAttempts: number
+    baseBackoffSeconds: number
+    maxBackoffSeconds: number
+    lockoutSeconds: number
+    windowSeconds: number
+}
+
+/**
+ * Default limits
+ *
+ * With these values a single account can be guessed at most 10 times
+ * per 15 minutes, and a single IP at most 50 times.
+ */
+export const DEFAULT_LOGIN_THROTTLE: LoginThrottleOptions = {
+    maxUsernameFailures: 10,
+    maxIpFailures: 50,
+    freeAttempts: 3,
+    freeIpAttempts: 10,
+    baseBackoffSeconds: 1,
+    maxBackoffSeconds: 60,
+    lockoutSeconds: 15 * 60,
+    windowSeconds: 15 * 60
+}
+
+/**
+ * Thrown when a login attempt arrives while its username or IP is throttled
+ * (backoff or lockout)
+ *
+ * Carries the number of seconds until the next attempt is allowed, sent
+ * as the Retry-After response header. The response is the same whether
+ * the username, the IP or both are throttled, and whether or not the
+ * username exists.
+ *
+ * @class AccountLockedError
+ */
+export class AccountLockedError extends AppError {
+    constructor(public readonly retryAfterSeconds: number) {
+        super(429, 'account_locked', 'Too many failed login attempts, try again later', {
+            headers: { 'Retry-After': String(retryAfterSeconds) }
+        })
+        this.name = 'AccountLockedError'
+    }
+}
+
+export class LoginThrottle {
+    private readonly options: LoginThrottleOptions
+
+    /**
+     * @param store Failed-attempt counters (shared between instances if networked)
+     * @param log Logger for lockout events
+     * @param options Limits (defaults: DEFAULT_LOGIN_THROTTLE)
+     */
+    constructor(
+        private readonly store: ILoginAttemptStore,
+        private readonly log: FastifyBaseLogger,
+        options: Partial<LoginThrottleOptions> = {}
+    ) {
+        this.options = { ...DEFAULT_LOGIN_THROTTLE, ...options }
+    }
+
+    /**
+     * Reject the attempt if its username or IP must still wait
+     *
+     * @param {string} username - Username being tried
+     * @param {string} ip - Client IP address
+     * @returns {Promise<void>}
+     * @throws {AccountLockedError} If either counter is in backoff or lockout
+     */
+    async assertAllowed(username: string, ip: string): Promise<void> {
+        const [byUsername, byIp] = await Promise.all([
+            this.store.get(usernameKey(username)),
+            this.store.get(ipKey(ip))
+        ])
+
+        const retryAfterMs = Math.max(
+            this.remainingWaitMs(byUsername, this.options.freeAttempts, this.options.maxUsernameFailures),
+            this.remainingWaitMs(byIp, this.options.freeIpAttempts, this.options.maxIpFailures)
+        )
+
+        if (retryAfterMs > 0) {
+            throw new AccountLockedError(Math.ceil(retryAfterMs / 1000))
+        }
+    }
+
+    /**
+     * Count a failed attempt against both the username and the IP
+     *
+     * @param {string} username - Username that was tried
+     * @param {string} ip - Client IP address
+     * @returns {Promise<void>}
+     */
+    async recordFailure(username: string, ip: string): Promise<void> {
+        // Keep counters at least as long as a lockout lasts
+        const window = Math.max(this.options.windowSeconds, this.options.lockoutSeconds)
+
+        const [byUsername, byIp] = await Promise.all([
+            this.store.recordFailure(usernameKey(username), window),
+            this.store.recordFailure(ipKey(ip), window)
+        ])
+
+        if (byUsername.failures === this.options.maxUsernameFailures) {
+            this.log.warn({ event: 'login_lockout', username, failures: byUsername.failures }, 'Username locked out after repeated login failures')
+        }
+        if (byIp.failures === this.options.maxIpFailures) {
+            this.log.warn({ event: 'login_lockout', ip, failures: byIp.failures }, 'IP locked out after repeated login failures')
+        }
+    }
+
+    /**
+     * Clear the username counter after a successful login
+     *
+     * @param {string} username - Username that logged in
+     * @returns {Promise<void>}
+     */
+    async recordSuccess(username: string): Promise<void> {
+        await this.store.reset(usernameKey(username))
+    }
+
+    /**
+     * Lift a username lockout early (administrator action)
+     *
+     * @param {string} username - Username to unlock
+     * @returns {Promise<void>}
+     */
+    async unlock(username: string): Promise<void> {
+        await this.store.reset(usernameKey(username))
+    }
+
+    /**
+     * Milliseconds until a counter allows the next attempt (0 = allowed now)
+     *
+     * - failures <= freeAttempts: no wait
+     * - failures >= maxFailures: lockoutSeconds after the last failure
+     * - otherwise: base * 2^(failures - freeAttempts - 1), capped
+     */
+    private remainingWaitMs(attempt: LoginAttempt | null, freeAttempts: number, maxFailures: number): number {
+        if (!attempt || attempt.failures <= freeAttempts) {
+            return 0
+        }
+
+        const { baseBackoffSeconds, maxBackoffSeconds, lockoutSeconds } = this.options
+        const waitSeconds = attempt.failures >= maxFailures
+            ? lockoutSeconds
+            : Math.min(baseBackoffSeconds * 2 ** (attempt.failures - freeAttempts - 1), maxBackoffSeconds)
+
+        return Math.max(0, attempt.lastFailureAt + waitSeconds * 1000 - Date.now())
+    }
+}
+
+/**
+ * Counter key for a username (case-insensitive, so "Alice" and "alice" share it)
+ */
+function usernameKey(username: string): string {
+    return `user:${username.toLowerCase()}`
+}
+
+/**
+ * Counter key for a client IP
+ */
+function ipKey(ip: string): string {
+    return `ip:${ip}`
+}
@@ -0,0 +1,47 @@
+/**
+ * MFA Recovery Codes
+ *
+ * One-time codes issued when TOTP is enabled, for when the authenticator
+ * device is lost. Each code replaces a TOTP code exactly once.
+ *
+ * Format: 10 hex characters shown as two groups, e.g. "3f9a1-c07be"
+ * (40 random bits each; far beyond online guessing with login throttling).
+ *
+ * Storage:
+ * - Only SHA-256 hashes are stored. A fast hash is enough here: the codes
+ *   are random, so there is nothing for a dictionary attack to exploit
+ * - Input is normalized (case, spaces and dashes ignored) before hashing
+ *
+ * @module recovery-codes
+ */
+
+import { createHash, randomBytes } from 'crypto'
+
+/**
+ * Number of codes issued per enrollment
+ */
+export const RECOVERY_CODE_COUNT = 10
+
+/**
+ * Generate a fresh set of recovery codes (shown to the user once)
+ *
+ * @param count How many codes to create
+ * @returns Codes formatted for display
+ */
+export function generateRecoveryCodes(count: number = RECOVERY_CODE_COUNT): string[] {
+    return Array.from({ length: count }, () => {
+        const hex = randomBytes(5).toString('hex')
+        return `${hex.slice(0, 5)}-${hex.slice(5)}`
+    })
+}
+
+/**
+ * Hash a recovery code for storage or lookup
+ *
+ * @param code Code as issued or as typed by the user
+ * @returns Hex SHA-256 of the normalized code
+ */
+export function hashRecoveryCode(code: string): string {
+    const normalized = code.toLowerCase().replace(/[\s-]/g, '')
+    return createHash('sha256').update(normalized).digest('hex')
+}
@@ -0,0 +1,83 @@
+/**
+ * Redis-Backed Login Attempt Store
+ *
+ * Shares failed-login counters between all instances, so throttling and
+ * lockouts hold no matter which instance receives a guess.
+ *
+ * Key Layout (prefix defaults to "auth:"):
+ * - auth:login:<key>   Hash { failures, lastFailureAt }
+ *                      Expires natively windowSeconds after the last failure
+ *
+ * Atomicity:
+ * - recordFailure runs HINCRBY + HSET + PEXPIRE in one MULTI, so concurrent
+ *   failures on different instances are all counted
+ */
+
+import type { Redis } from 'ioredis'
+import { ILoginAttemptStore, LoginAttempt } from './login-attempt.store'
+
+export interface RedisLoginAttemptStoreOptions {
+    /** Prefix for every key (default: "auth:") */
+    keyPrefix?: string
+}
+
+export class RedisLoginAttemptStore implements ILoginAttemptStore {
+    private readonly prefix: string
+
+    /**
+     * @param client Connected ioredis-compatible client (owned by this store; closed by close())
+     * @param options Key naming options
+     */
+    constructor(private readonly client: Redis, options: RedisLoginAttemptStoreOptions = {}) {
+        this.prefix = options.keyPrefix ?? 'auth:'
+    }
+
+    async get(key: string): Promise<LoginAttempt | null> {
+        const hash = await this.client.hgetall(this.attemptKey(key))
+
+        if (!hash.failures) {
+            return null
+        }
+
+        return {
+            failures: Number(hash.failures),
+            lastFailureAt: Number(hash.lastFailureAt)
+        }
+    }
+
+    async recordFailure(key: string, windowSeconds: number): Promise<LoginAttempt> {
+        const redisKey = this.attemptKey(key)
+        const now = Date.now()
+
+        const results = await this.client
+            .multi()
+            .hincrby(redisKey, 'failures', 1)
+            .hset(redisKey, 'lastFailureAt', now)
+            .pexpire(redisKey, windowSeconds * 1000)
+            .exec()
+
+        const [err, failures] = results?.[0] ?? [new Error('Transaction aborted'), null]
+        if (err) {
+            throw err
+        }
+
+        return { failures: Number(failures), lastFailureAt: now }
+    }
+
+    async reset(key: string): Promise<void> {
+        await this.client.del(this.attemptKey(key))
+    }
+
+    async cleanupExpired(): Promise<number> {
+        // Counters expire natively via PEXPIRE
+        return 0
+    }
+
+    async close(): Promise<void> {
+        await this.client.quit()
+    }
+
+    private attemptKey(key: string): string {
+        return `${this.prefix}login:${key}`
+    }
+}
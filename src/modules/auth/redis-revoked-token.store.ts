@@ -0,0 +1,126 @@
+/**
+ * Redis-Backed Revoked Access Token Store
+ *
+ * Shares the access token denylist between all instances, so logout,
+ * "revoke all sessions", session revocation and the single use of MFA
+ * challenges take effect everywhere, not only on the instance that
+ * handled the request.
+ *
+ * Key Layout (prefix defaults to "auth:"):
+ * - auth:revoked:jti:<jti>       "1", expires with the token's own exp
+ * - auth:revoked:sid:<sid>       "1", expires after ttlSeconds
+ * - auth:revoked:sub:<username>  Cutoff (epoch seconds); tokens with iat <= it
+ *                                are rejected. Expires after ttlSeconds
+ *
+ * Every entry expires natively, so cleanupExpired() has nothing to do.
+ * isRevoked reads all keys of a token with one MGET.
+ */
+
+import type { Redis } from 'ioredis'
+import { IRevokedTokenStore, RevocationClaims, RevokedTokenStats } from './revoked-token.store'
+
+export interface RedisRevokedTokenStoreOptions {
+    /** Prefix for every key (default: "auth:") */
+    keyPrefix?: string
+}
+
+export class RedisRevokedTokenStore implements IRevokedTokenStore {
+    private readonly prefix: string
+
+    /**
+     * @param client Connected ioredis-compatible client (owned by this store; closed by close())
+     * @param options Key naming options
+     */
+    constructor(private readonly client: Redis, options: RedisRevokedTokenStoreOptions = {}) {
+        this.prefix = options.keyPrefix ?? 'auth:'
+    }
+
+    async revoke(jti: string, expiresAtSeconds: number): Promise<void> {
+        const ttlMs = expiresAtSeconds * 1000 - Date.now()
+        if (ttlMs > 0) {
+            await this.client.set(this.tokenKey(jti), '1', 'PX', ttlMs)
+        }
+    }
+
+    async revokeSubject(username: string, ttlSeconds: number): Promise<void> {
+        const revokedBefore = Math.floor(Date.now() / 1000)
+        await this.client.set(this.subjectKey(username), revokedBefore, 'EX', ttlSeconds)
+    }
+
+    async revokeSession(sessionId: string, ttlSeconds: number): Promise<void> {
+        await this.client.set(this.sessionKey(sessionId), '1', 'EX', ttlSeconds)
+    }
+
+    async isRevoked(claims: RevocationClaims): Promise<boolean> {
+        const keys = {
+            token: claims.jti ? this.tokenKey(claims.jti) : undefined,
+            session: claims.sid ? this.sessionKey(claims.sid) : undefined,
+            subject: claims.sub ? this.subjectKey(claims.sub) : undefined
+        }
+        const lookup = Object.values(keys).filter((key): key is string => key !== undefined)
+        if (lookup.length === 0) {
+            return false
+        }
+
+        const values = await this.client.mget(...lookup)
+        const found = new Map(lookup.map((key, i) => [key, values[i]]))
+
+        if ((keys.token && found.get(keys.token)) || (keys.session && found.get(keys.session))) {
+            return true
+        }
+
+        const revokedBefore = keys.subject ? found.get(keys.subject) : null
+        if (revokedBefore) {
+            return claims.iat === undefined || claims.iat <= Number(revokedBefore)
+        }
+
+        return false
+    }
+
+    async cleanupExpired(): Promise<number> {
+        // Entries expire natively (PX / EX)
+        return 0
+    }
+
+    /**
+     * Counts keys with SCAN: O(n), intended for debugging only
+     */
+    async getStats(): Promise<RevokedTokenStats> {
+        const [revokedTokens, revokedSessions, revokedSubjects] = await Promise.all([
+            this.countKeys(this.tokenKey('')),
+            this.countKeys(this.sessionKey('')),
+            this.countKeys(this.subjectKey(''))
+        ])
+
+        return { revokedTokens, revokedSubjects, revokedSessions }
+    }
+
+    async close(): Promise<void> {
+        await this.client.quit()
+    }
+
+    private async countKeys(keyPrefix: string): Promise<number> {
+        let count = 0
+        let cursor = '0'
+
+        do {
+            const [next, keys] = await this.client.scan(cursor, 'MATCH', `${keyPrefix}*`, 'COUNT', 100)
+            cursor = next
+            count += keys.length
+        } while (cursor !== '0')
+
+        return count
+    }
+
+    private tokenKey(jti: string): string {
+        return `${this.prefix}revoked:jti:${jti}`
+    }
+
+    private sessionKey(sessionId: string): string {
+        return `${this.prefix}revoked:sid:${sessionId}`
+    }
+
+    private subjectKey(username: string): string {
+        return `${this.prefix}revoked:sub:${username}`
+    }
+}
@@ -0,0 +1,301 @@
+/**
+ * Redis-Backed Token Store
+ *
+ * Shares refresh tokens between all instances behind a load balancer.
+ * Works with any server speaking the Redis protocol (Redis, Valkey, KeyDB).
+ *
+ * Key Layout (prefix defaults to "auth:"):
+ * - auth:rt:<tokenHash>    Hash { username, familyId, issuedAt, expiresAt, rotatedAt?,
+ *                                 deviceName?, userAgent?, ip?, sessionStartedAt?, clientId?,
+ *                                 scopes? (space-separated) }
+ *                          Expires natively at expiresAt (PEXPIREAT)
+ * - auth:user:<username>   Set of the user's token hashes (index for revokeAllUserTokens, getUserTokens)
+ * - auth:family:<familyId> Set of the family's token hashes (index for revokeFamily)
+ *
+ * Only SHA-256 hashes of refresh tokens are stored (see hashToken), so a
+ * dump or replica of the database holds no usable token. Keys written by
+ * older releases under the raw refresh JWT are never matched again and
+ * expire on their own.
+ *
+ * Why index sets?
+ * - revokeAllUserTokens and revokeFamily read one set instead of scanning
+ *   every key, so they are O(tokens of that user/family), not O(all tokens)
+ * - Index sets expire with the newest token they contain; members whose
+ *   token key already expired are skipped (and removed) when revoking
+ *
+ * Atomicity:
+ * - markRotated and both revocations run as Lua scripts, so concurrent
+ *   instances can't both rotate the same token or interleave a revocation
+ * - Scripts touch keys derived inside the script, so this store targets
+ *   a single Redis node (or a Sentinel-managed primary), not Redis Cluster
+ *
+ * Testing:
+ * - The constructor takes a client; test/token-store.test.ts passes an
+ *   ioredis-mock client (an in-process fake that runs the Lua scripts too)
+ *   and runs the shared ITokenStore contract against this store
+ */
+
+import { randomUUID } from 'crypto'
+import type { Redis } from 'ioredis'
+import { DEFAULT_TOKEN_TTL_SECONDS, ITokenStore, SessionMetadata, StoredToken, TokenStoreStats } from './token.store'
+
+/**
+ * Set rotatedAt only if the token exists and has not been rotated yet
+ * KEYS[1] = token key, ARGV[1] = now (ms)
+ * Returns 1 if rotated by this call, 0 otherwise
+ */
+const MARK_ROTATED_SCRIPT = `
+if redis.call('EXISTS', KEYS[1]) == 0 then
+    return 0
+end
+return redis.call('HSETNX', KEYS[1], 'rotatedAt', ARGV[1])
+`
+
+/**
+ * Delete every token in an index set and unlink it from the other index
+ * KEYS[1] = index set being revoked
+ * ARGV[1] = token key prefix, ARGV[2] = other index key prefix, ARGV[3] = hash field naming the other index
+ * Returns the number of token keys deleted
+ */
+const REVOKE_INDEX_SCRIPT = `
+local tokens = redis.call('SMEMBERS', KEYS[1])
+local removed = 0
+for _, token in ipairs(tokens) do
+    local key = ARGV[1] .. token
+    local other = redis.call('HGET', key, ARGV[3])
+    if other then
+        removed = removed + redis.call('DEL', key)
+        redis.call('SREM', ARGV[2] .. other, token)
+    end
+end
+redis.call('DEL', KEYS[1])
+return removed
+`
+
+export interface RedisTokenStoreOptions {
+    /** Prefix for every key (default: "auth:") */
+    keyPrefix?: string
+}
+
+export class RedisTokenStore implements ITokenStore {
+    private readonly prefix: string
+
+    /**
+     * @param client Connected ioredis-compatible client (owned by this store; closed by close())
+     * @param options Key naming options
+     */
+    constructor(private readonly client: Redis, options: RedisTokenStoreOptions = {}) {
+        this.prefix = options.keyPrefix ?? 'auth:'
+    }
+
+    async saveToken(
+        tokenHash: string,
+        username: string,
+        ttlSeconds: number = DEFAULT_TOKEN_TTL_SECONDS,
+        familyId: string = randomUUID(),
+        session: SessionMetadata = {}
+    ): Promise<string> {
+        const now = Date.now()
+        const expiresAt = now + ttlSeconds * 1000
+        const userKey = this.userKey(username)
+        const familyKey = this.familyKey(familyId)
+
+        // Hash values can't be undefined: store only the metadata present
+        // Scopes are stored space-separated, as in OAuth ("" = none granted)
+        const metadata = Object.fromEntries(
+            Object.entries({ ...session, scopes: session.scopes?.join(' ') })
+                .filter(([, value]) => value !== undefined)
+        )
+
+        // Index sets live as long as their newest token
+        // (all refresh tokens share one TTL, so the newest expires last)
+        await this.client.multi()
+            .hset(this.tokenKey(tokenHash), {
+                ...metadata,
+                username,
+                familyId,
+                issuedAt: now,
+                expiresAt
+            })
+            .pexpireat(this.tokenKey(tokenHash), expiresAt)
+            .sadd(userKey, tokenHash)
+            .pexpireat(userKey, expiresAt)
+            .sadd(familyKey, tokenHash)
+            .pexpireat(familyKey, expiresAt)
+            .exec()
+
+        return familyId
+    }
+
+    async getToken(tokenHash: string): Promise<StoredToken | null> {
+        const hash = await this.client.hgetall(this.tokenKey(tokenHash))
+        return this.parse(hash)
+    }
+
+    async getUserTokens(username: string): Promise<StoredToken[]> {
+        const tokenHashes = await this.client.smembers(this.userKey(username))
+        if (tokenHashes.length === 0) {
+            return []
+        }
+
+        const pipeline = this.client.pipeline()
+        for (const tokenHash of tokenHashes) {
+            pipeline.hgetall(this.tokenKey(tokenHash))
+        }
+        const results = (await pipeline.exec()) ?? []
+
+        // Members whose token key already expired are skipped
+        return results
+            .map(([, hash]) => this.parse((hash ?? {}) as Record<string, string>))
+            .filter((stored): stored is StoredToken => stored !== null)
+    }
+
+    async verifyToken(tokenHash: string): Promise<string | null> {
+        const stored = await this.getToken(tokenHash)
+
+        if (!stored || stored.rotatedAt) {
+            return null
+        }
+
+        return stored.username
+    }
+
+    async markRotated(tokenHash: string): Promise<boolean> {
+        const result = await this.client.eval(MARK_ROTATED_SCRIPT, 1, this.tokenKey(tokenHash), Date.now())
+        return Number(result) === 1
+    }
+
+    async revokeToken(tokenHash: string): Promise<void> {
+        const stored = await this.getToken(tokenHash)
+
+        const pipeline = this.client.multi().del(this.tokenKey(tokenHash))
+        if (stored) {
+            pipeline
+                .srem(this.userKey(stored.username), tokenHash)
+                .srem(this.familyKey(stored.familyId), tokenHash)
+        }
+        await pipeline.exec()
+    }
+
+    async revokeFamily(familyId: string): Promise<number> {
+        const removed = await this.client.eval(
+            REVOKE_INDEX_SCRIPT,
+            1,
+            this.familyKey(familyId),
+            this.tokenKey(''),
+            this.userKey(''),
+            'username'
+        )
+        return Number(removed)
+    }
+
+    async revokeAllUserTokens(username: string): Promise<number> {
+        const removed = await this.client.eval(
+            REVOKE_INDEX_SCRIPT,
+            1,
+            this.userKey(username),
+            this.tokenKey(''),
+            this.familyKey(''),
+            'familyId'
+        )
+        return Number(removed)
+    }
+
+    async cleanupExpired(): Promise<number> {
+        // Redis evicts expired keys natively (PEXPIREAT); nothing to do
+        return 0
+    }
+
+    /**
+     * Walks every token key with SCAN: O(n), intended for debugging only
+     */
+    async getStats(): Promise<TokenStoreStats> {
+        const tokenPrefix = this.tokenKey('')
+        const tokens: TokenStoreStats['tokens'] = []
+        let cursor = '0'
+
+        do {
+            const [next, keys] = await this.client.scan(cursor, 'MATCH', `${tokenPrefix}*`, 'COUNT', 100)
+            cursor = next
+
+            for (const key of keys) {
+                const stored = this.parse(await this.client.hgetall(key))
+                if (!stored) {
+                    continue
+                }
+
+                tokens.push({
+                    username: stored.username,
+                    familyId: stored.familyId,
+                    issuedAt: new Date(stored.issuedAt).toISOString(),
+                    expiresAt: new Date(stored.expiresAt).toISOString(),
+                    isExpired: Date.now() > stored.expiresAt,
+                    isRotated: Boolean(stored.rotatedAt)
+                })
+            }
+        } while (cursor !== '0')
+
+        return { totalTokens: tokens.length, tokens }
+    }
+
+    async close(): Promise<void> {
+        await this.client.quit()
+    }
+
+    private tokenKey(tokenHash: string): string {
+        return `${this.prefix}rt:${tokenHash}`
+    }
+
+    private userKey(username: string): string {
+        return `${this.prefix}user:${username}`
+    }
+
+    private familyKey(familyId: string): string {
+        return `${this.prefix}family:${familyId}`
+    }
+
+    /**
+     * Convert a Redis hash (all string values) to StoredToken
+     * HGETALL returns {} for a missing key
+     */
+    private parse(hash: Record<string, string>): StoredToken | null {
+        if (!hash.username) {
+            return null
+        }
+
+        const stored: StoredToken = {
+            username: hash.username,
+            familyId: hash.familyId,
+            issuedAt: Number(hash.issuedAt),
+            expiresAt: Number(hash.expiresAt)
+        }
+        if (hash.rotatedAt) {
+            stored.rotatedAt = Number(hash.rotatedAt)
+        }
+        if (hash.deviceName) {
+            stored.deviceName = hash.deviceName
+        }
+        if (hash.userAgent) {
+            stored.userAgent = hash.userAgent
+        }
+        if (hash.ip) {
+            stored.ip = hash.ip
+        }
+        if (hash.sessionStartedAt) {
+            stored.sessionStartedAt = Number(hash.sessionStartedAt)
+        }
+        if (hash.clientId) {
+            stored.clientId = hash.clientId
+        }
+        if (hash.scopes !== undefined) {
+            stored.scopes = hash.scopes.split(' ').filter(Boolean)
+        }
+
+        // Guard against clock skew between Redis and this instance
+        if (Date.now() > stored.expiresAt) {
+            return null
+        }
+
+        return stored
+    }
+}
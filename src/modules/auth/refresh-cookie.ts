@@ -0,0 +1,174 @@
+/**
+ * Refresh Token Cookie Transport
+ *
+ * Browser clients can't keep a refresh token anywhere JavaScript can't
+ * read it - unless the server puts it in an HttpOnly cookie. Clients pick
+ * the transport per request with the X-Token-Transport header:
+ * - body (default): refreshToken in the JSON bodies, as native clients use it
+ * - cookie: the refresh token travels only in a cookie
+ *
+ * Cookies (cookie transport):
+ * - REFRESH_COOKIE_NAME: the refresh token. HttpOnly, Secure, SameSite,
+ *   Path=/api/v1/auth so it is only sent to the auth endpoints
+ * - CSRF_COOKIE_NAME: a random CSRF token. NOT HttpOnly and Path=/, so the
+ *   page's scripts can read it; also returned as csrfToken in the body for
+ *   SPAs served from another origin
+ * Both expire with the refresh token (REFRESH_TOKEN_TTL_SECONDS) and are
+ * replaced on every refresh.
+ *
+ * CSRF (double submit):
+ * - The browser attaches cookies to requests a malicious site triggers;
+ *   SameSite stops most of them, the CSRF token stops the rest
+ * - Whenever the refresh token is read from its cookie, the request must
+ *   echo the CSRF cookie in the X-CSRF-Token header. Another site can't
+ *   read the cookie, so it can't forge the header
+ *
+ * @module refresh-cookie
+ * @see https://cheatsheetseries.owasp.org/cheatsheets/Cross-Site_Request_Forgery_Prevention_Cheat_Sheet.html
+ */
+
+import { randomBytes, timingSafeEqual } from 'crypto'
+import { FastifyReply, FastifyRequest } from 'fastify'
+import { API_PREFIX } from '../../config/api.constants'
+import { AppConfig } from '../../config/env'
+import { CsrfTokenError } from './auth.errors'
+
+/**
+ * Request header selecting the refresh token transport ("body" or "cookie")
+ */
+export const TOKEN_TRANSPORT_HEADER = 'x-token-transport'
+
+/**
+ * Request header echoing the CSRF cookie (cookie transport)
+ */
+export const CSRF_HEADER = 'x-csrf-token'
+
+/**
+ * Path both the refresh endpoint and logout live under
+ */
+const REFRESH_COOKIE_PATH = `${API_PREFIX}/auth`
+
+/**
+ * Entropy of a CSRF token: 32 random bytes, sent as base64url
+ */
+const CSRF_TOKEN_BYTES = 32
+
+/**
+ * How a client sends and receives its refresh token
+ *
+ * @typedef {'body' | 'cookie'} TokenTransport
+ */
+export type TokenTransport = 'body' | 'cookie'
+
+/**
+ * Cookie settings, read once from app.config
+ *
+ * @interface RefreshCookieOptions
+ * @property {string} refreshCookieName - Cookie carrying the refresh token
+ * @property {string} csrfCookieName - Cookie carrying the CSRF token
+ * @property {'strict' | 'lax' | 'none'} sameSite - SameSite attribute of both cookies
+ * @property {boolean} secure - Secure attribute of both cookies
+ * @property {number} maxAgeSeconds - Cookie lifetime (the refresh token's)
+ */
+export interface RefreshCookieOptions {
+    refreshCookieName: string
+    csrfCookieName: string
+    sameSite: 'strict' | 'lax' | 'none'
+    secure: boolean
+    maxAgeSeconds: number
+}
+
+/**
+ * Build the cookie settings from configuration
+ *
+ * @param {AppConfig} config - Validated configuration
+ * @returns {RefreshCookieOptions}
+ */
+export function refreshCookieOptions(config: AppConfig): RefreshCookieOptions {
+    return {
+        refreshCookieName: config.REFRESH_COOKIE_NAME,
+        csrfCookieName: config.CSRF_COOKIE_NAME,
+        sameSite: config.REFRESH_COOKIE_SAME_SITE,
+        secure: config.REFRESH_COOKIE_SECURE,
+        maxAgeSeconds: config.REFRESH_TOKEN_TTL_SECONDS
+    }
+}
+
+/**
+ * Read the transport the client asked for
+ *
+ * The header value is checked by the route schemas; anything but
+ * "cookie" means the body transport.
+ *
+ * @param {FastifyRequest} request - Incoming request
+ * @returns {TokenTransport}
+ */
+export function requestedTransport(request: FastifyRequest): TokenTransport {
+    return request.headers[TOKEN_TRANSPORT_HEADER] === 'cookie' ? 'cookie' : 'body'
+}
+
+/**
+ * Set the refresh token and a fresh CSRF token as cookies
+ *
+ * @param {FastifyReply} reply - Reply to add the Set-Cookie headers to
+ * @param {RefreshCookieOptions} options - Cookie settings
+ * @param {string} refreshToken - Refresh token to deliver
+ * @returns {string} The new CSRF token (also returned in the body)
+ */
+export function setRefreshCookies(reply: FastifyReply, options: RefreshCookieOptions, refreshToken: string): string {
+    const csrfToken = randomBytes(CSRF_TOKEN_BYTES).toString('base64url')
+    const attributes = { sameSite: options.sameSite, secure: options.secure, maxAge: options.maxAgeSeconds }
+
+    reply.setCookie(options.refreshCookieName, refreshToken, { ...attributes, httpOnly: true, path: REFRESH_COOKIE_PATH })
+    reply.setCookie(options.csrfCookieName, csrfToken, { ...attributes, httpOnly: false, path: '/' })
+    return csrfToken
+}
+
+/**
+ * Expire both cookies (logout)
+ *
+ * @param {FastifyReply} reply - Reply to add the Set-Cookie headers to
+ * @param {RefreshCookieOptions} options - Cookie settings
+ */
+export function clearRefreshCookies(reply: FastifyReply, options: RefreshCookieOptions): void {
+    const attributes = { sameSite: options.sameSite, secure: options.secure }
+
+    reply.clearCookie(options.refreshCookieName, { ...attributes, httpOnly: true, path: REFRESH_COOKIE_PATH })
+    reply.clearCookie(options.csrfCookieName, { ...attributes, httpOnly: false, path: '/' })
+}
+
+/**
+ * Read the refresh token from its cookie, after checking the CSRF token
+ *
+ * @param {FastifyRequest} request - Incoming request
+ * @param {RefreshCookieOptions} options - Cookie settings
+ * @returns {string | undefined} The refresh token, undefined without a cookie
+ * @throws {CsrfTokenError} If the cookie is present but X-CSRF-Token is
+ *   missing or doesn't match the CSRF cookie
+ */
+export function readRefreshCookie(request: FastifyRequest, options: RefreshCookieOptions): string | undefined {
+    const refreshToken = request.cookies[options.refreshCookieName]
+    if (!refreshToken) {
+        return undefined
+    }
+
+    const expected = request.cookies[options.csrfCookieName]
+    const presented = request.headers[CSRF_HEADER]
+    if (!expected || typeof presented !== 'string' || !constantTimeEquals(expected, presented)) {
+        throw new CsrfTokenError()
+    }
+    return refreshToken
+}
+
+/**
+ * Compare two strings without leaking where they differ
+ *
+ * @param {string} a - First string
+ * @param {string} b - Second string
+ * @returns {boolean} True if equal
+ */
+function constantTimeEquals(a: string, b: string): boolean {
+    const left = Buffer.from(a)
+    const right = Buffer.from(b)
+    return left.length === right.length && timingSafeEqual(left, right)
+}
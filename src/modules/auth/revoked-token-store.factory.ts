@@ -0,0 +1,45 @@
+/**
+ * Revoked Token Store Factory
+ *
+ * Chooses where the access token denylist lives, from configuration
+ * (app.config). Use "redis" whenever more than one instance serves the
+ * API, so a revocation made on one instance is enforced by all of them.
+ *
+ * Environment Variables (validated in config/env.ts):
+ * - REVOKED_TOKEN_STORE: "memory" (default) or "redis"
+ * - REDIS_URL: Connection URL for the "redis" backend (default: redis://127.0.0.1:6379)
+ * - REDIS_KEY_PREFIX: Key prefix for the "redis" backend (default: auth:)
+ *
+ * @module revoked-token-store.factory
+ * @see {@link revoked-token.store.ts} for the IRevokedTokenStore contract
+ */
+
+import { IRevokedTokenStore, InMemoryRevokedTokenStore } from './revoked-token.store'
+import { RedisRevokedTokenStore } from './redis-revoked-token.store'
+import Redis from 'ioredis'
+import { AppConfig } from '../../config/env'
+
+/**
+ * Supported backend names
+ */
+export type RevokedTokenStoreBackend = 'memory' | 'redis'
+
+/**
+ * Create the denylist selected by REVOKED_TOKEN_STORE
+ *
+ * @param {AppConfig} config - Validated configuration (app.config)
+ * @returns {IRevokedTokenStore} A new, unshared store instance
+ * @throws {Error} If REVOKED_TOKEN_STORE names an unknown backend
+ */
+export function createRevokedTokenStore(config: AppConfig): IRevokedTokenStore {
+    const backend: RevokedTokenStoreBackend = config.REVOKED_TOKEN_STORE
+
+    switch (backend) {
+        case 'memory':
+            return new InMemoryRevokedTokenStore()
+        case 'redis':
+            return new RedisRevokedTokenStore(new Redis(config.REDIS_URL), { keyPrefix: config.REDIS_KEY_PREFIX })
+        default:
+            throw new Error(`Unknown REVOKED_TOKEN_STORE backend "${backend}" (expected "memory" or "redis")`)
+    }
+}
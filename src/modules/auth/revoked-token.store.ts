@@ -0,0 +1,219 @@
+/**
+ * Revoked Access Token Store (denylist)
+ *
+ * Access tokens are stateless JWTs: once signed they stay valid until exp.
+ * This store lets the server reject them early:
+ *
+ * 1. Single token revocation (logout)
+ *    - Keyed by the token's jti claim
+ *    - Kept only until the token's own exp; after that the signature check
+ *      rejects it anyway, so the entry can be evicted
+ *
+ * 2. Subject-wide revocation ("revoke all sessions")
+ *    - Records a cutoff time per username
+ *    - Every access token for that user issued at or before the cutoff is rejected
+ *    - Kept for one access-token lifetime; older tokens have expired by then
+ *
+ * 3. Session revocation (sign out one device)
+ *    - Keyed by the token's sid claim (the session id)
+ *    - Every access token of that session is rejected, whenever issued
+ *    - Kept for one access-token lifetime; the session can't mint new ones
+ *
+ * Why a store interface?
+ * - Revocations must reach every instance behind a load balancer,
+ *   otherwise a logged-out token keeps working on the other instances
+ * - Same approach as ITokenStore and ILoginAttemptStore: consumers depend
+ *   only on the interface
+ *
+ * Implementations:
+ * - InMemoryRevokedTokenStore (this file): per-process, lost on restart
+ * - RedisRevokedTokenStore (redis-revoked-token.store.ts): shared between instances
+ *
+ * Eviction: expired entries are dropped lazily on lookup and by cleanupExpired(),
+ * which the JWT plugin runs on a timer.
+ *
+ * Structure (in memory):
+ * - Map<jti, expiresAt>
+ * - Map<username, { revokedBefore, expiresAt }>
+ * - Map<sid, expiresAt>
+ */
+
+/**
+ * Claims of a verified token that the denylist checks
+ */
+export interface RevocationClaims {
+    jti?: string
+    sub?: string
+    sid?: string
+    iat?: number
+}
+
+/**
+ * Denylist sizes (GET /admin/stats)
+ */
+export interface RevokedTokenStats {
+    revokedTokens: number
+    revokedSubjects: number
+    revokedSessions: number
+}
+
+export interface IRevokedTokenStore {
+    /**
+     * Revoke a single access token
+     * @param jti The token's jti claim
+     * @param expiresAtSeconds The token's exp claim (epoch seconds)
+     */
+    revoke(jti: string, expiresAtSeconds: number): Promise<void>
+
+    /**
+     * Revoke every access token issued to a user up to now
+     *
+     * iat has one-second resolution, so a token issued later within the
+     * same second is rejected too; the user simply logs in again.
+     *
+     * @param username The token subject
+     * @param ttlSeconds How long to remember the cutoff (the access token lifetime)
+     */
+    revokeSubject(username: string, ttlSeconds: number): Promise<void>
+
+    /**
+     * Revoke every access token of one session
+     *
+     * @param sessionId The tokens' sid claim
+     * @param ttlSeconds How long to remember it (the access token lifetime)
+     */
+    revokeSession(sessionId: string, ttlSeconds: number): Promise<void>
+
+    /**
+     * Check whether an access token has been revoked
+     * @param claims The verified token's claims
+     * @returns true if the token must be rejected
+     */
+    isRevoked(claims: RevocationClaims): Promise<boolean>
+
+    /**
+     * Drop entries whose tokens have expired naturally (backends with
+     * native expiry can return 0)
+     * @returns Number of entries removed
+     */
+    cleanupExpired(): Promise<number>
+
+    /**
+     * Get denylist sizes (useful for debugging)
+     */
+    getStats(): Promise<RevokedTokenStats>
+
+    /**
+     * Release resources (close connections)
+     */
+    close(): Promise<void>
+}
+
+interface SubjectRevocation {
+    /** Epoch seconds; tokens with iat <= this are rejected */
+    revokedBefore: number
+    /** Epoch milliseconds when this entry can be evicted */
+    expiresAt: number
+}
+
+export class InMemoryRevokedTokenStore implements IRevokedTokenStore {
+    private tokens = new Map<string, number>()
+    private subjects = new Map<string, SubjectRevocation>()
+    private sessions = new Map<string, number>()
+
+    async revoke(jti: string, expiresAtSeconds: number): Promise<void> {
+        const expiresAt = expiresAtSeconds * 1000
+        if (expiresAt > Date.now()) {
+            this.tokens.set(jti, expiresAt)
+        }
+    }
+
+    async revokeSubject(username: string, ttlSeconds: number): Promise<void> {
+        const now = Date.now()
+        this.subjects.set(username, {
+            revokedBefore: Math.floor(now / 1000),
+            expiresAt: now + ttlSeconds * 1000
+        })
+    }
+
+    async revokeSession(sessionId: string, ttlSeconds: number): Promise<void> {
+        this.sessions.set(sessionId, Date.now() + ttlSeconds * 1000)
+    }
+
+    async isRevoked(claims: RevocationClaims): Promise<boolean> {
+        const now = Date.now()
+
+        if (claims.jti) {
+            const expiresAt = this.tokens.get(claims.jti)
+            if (expiresAt !== undefined) {
+                if (now <= expiresAt) {
+                    return true
+                }
+                this.tokens.delete(claims.jti)
+            }
+        }
+
+        if (claims.sid) {
+            const expiresAt = this.sessions.get(claims.sid)
+            if (expiresAt !== undefined) {
+                if (now <= expiresAt) {
+                    return true
+                }
+                this.sessions.delete(claims.sid)
+            }
+        }
+
+        if (claims.sub) {
+            const revocation = this.subjects.get(claims.sub)
+            if (revocation) {
+                if (now > revocation.expiresAt) {
+                    this.subjects.delete(claims.sub)
+                } else if (claims.iat === undefined || claims.iat <= revocation.revokedBefore) {
+                    return true
+                }
+            }
+        }
+
+        return false
+    }
+
+    async cleanupExpired(): Promise<number> {
+        const now = Date.now()
+        let cleaned = 0
+
+        for (const [jti, expiresAt] of this.tokens.entries()) {
+            if (now > expiresAt) {
+                this.tokens.delete(jti)
+                cleaned++
+            }
+        }
+
+        for (const [username, revocation] of this.subjects.entries()) {
+            if (now > revocation.expiresAt) {
+                this.subjects.delete(username)
+                cleaned++
+            }
+        }
+
+        for (const [sessionId, expiresAt] of this.sessions.entries()) {
+            if (now > expiresAt) {
+                this.sessions.delete(sessionId)
+                cleaned++
+            }
+        }
+
+        return cleaned
+    }
+
+    async getStats(): Promise<RevokedTokenStats> {
+        return {
+            revokedTokens: this.tokens.size,
+            revokedSubjects: this.subjects.size,
+            revokedSessions: this.sessions.size
+        }
+    }
+
+    async close(): Promise<void> {
+        // Nothing to release
+    }
+}
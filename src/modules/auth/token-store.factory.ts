@@ -0,0 +1,52 @@
+/**
+ * Token Store Factory
+ *
+ * Chooses the refresh token backend from configuration (app.config),
+ * so deployments can switch storage without code changes.
+ *
+ * Environment Variables (validated in config/env.ts):
+ * - TOKEN_STORE: "memory" (default), "file" or "redis"
+ * - TOKEN_STORE_FILE: Log file path for the "file" backend (default: data/tokens.jsonl)
+ * - REDIS_URL: Connection URL for the "redis" backend (default: redis://127.0.0.1:6379)
+ * - REDIS_KEY_PREFIX: Key prefix for the "redis" backend (default: auth:)
+ *
+ * @module token-store.factory
+ * @see {@link token.store.ts} for the ITokenStore contract
+ */
+
+import { InMemoryTokenStore, ITokenStore } from './token.store'
+import { FileTokenStore } from './file-token.store'
+import { RedisTokenStore } from './redis-token.store'
+import Redis from 'ioredis'
+import { AppConfig } from '../../config/env'
+
+/**
+ * Supported backend names
+ */
+export type TokenStoreBackend = 'memory' | 'file' | 'redis'
+
+/**
+ * Create the token store selected by TOKEN_STORE
+ *
+ * @param {AppConfig} config - Validated configuration (app.config)
+ * @returns {ITokenStore} A new, unshared store instance
+ * @throws {Error} If TOKEN_STORE names an unknown backend
+ *
+ * @example
+ * // TOKEN_STORE=file TOKEN_STORE_FILE=/var/lib/auth/tokens.jsonl
+ * const tokenStore = createTokenStore(app.config);
+ */
+export function createTokenStore(config: AppConfig): ITokenStore {
+    const backend: TokenStoreBackend = config.TOKEN_STORE
+
+    switch (backend) {
+        case 'memory':
+            return new InMemoryTokenStore()
+        case 'file':
+            return new FileTokenStore(config.TOKEN_STORE_FILE)
+        case 'redis':
+            return new RedisTokenStore(new Redis(config.REDIS_URL), { keyPrefix: config.REDIS_KEY_PREFIX })
+        default:
+            throw new Error(`Unknown TOKEN_STORE backend "${backend}" (expected "memory", "file" or "redis")`)
+    }
+}
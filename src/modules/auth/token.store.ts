@@ -2,9 +2,8 @@
  * Token Store Abstraction Layer
  *
  * This module provides an abstraction for token storage.
- * Current implementation uses in-memory storage (development-only).
- * Can be replaced with Redis, MongoDB, PostgreSQL, or any database
- * without changing consumers (AuthService, AuthController).
+ * Consumers (AuthService, AuthController) depend only on the ITokenStore
+ * interface, so backends can be swapped without changing them.
  *
  * Why abstraction?
  * - Separates token storage logic from business logic
@@ -12,46 +11,206 @@
  * - Allows testing with mock implementations
  * - Enables scaling without refactoring services
  *
- * Production Migration Path:
- * 1. Create RedisTokenStore class (implements same methods)
- * 2. Update auth.routes.ts: new RedisTokenStore() instead of new TokenStore()
+ * Why async?
+ * - Persistent and networked backends (files, Redis, SQL) do I/O
+ * - A single async contract lets every backend satisfy the same interface
+ *
+ * Implementations:
+ * - InMemoryTokenStore (this file): Map-backed, lost on restart (development/testing)
+ * - FileTokenStore (file-token.store.ts): append-only JSON log, survives restarts
+ * - RedisTokenStore (redis-token.store.ts): shared between instances, native TTLs
+ *
+ * Adding a Backend:
+ * 1. Create a class that implements ITokenStore
+ * 2. Pass it to buildApp({ tokenStore }) or add it to createTokenStore()
  * 3. Everything else continues to work unchanged
  *
- * Structure: Map<refreshToken, { username: string, issuedAt: number, expiresAt: number }>
+ * Token Families (refresh token rotation):
+ * - Every login starts a new family; each refresh issues a new token in the same family
+ * - A rotated token is NOT deleted: it is kept (with rotatedAt set) until it expires,
+ *   so presenting it again can be detected as reuse of a stolen token
+ * - On reuse, the whole family is revoked (attacker and victim both lose the session)
+ *
+ * Hashed Keys:
+ * - Refresh tokens are opaque random strings (see AuthService); stores are
+ *   given and keep only their SHA-256 hash (hashToken), never the token
+ * - Reading a store (memory dump, token file, Redis, backup) therefore
+ *   yields no usable token: a hash can't be exchanged at /auth/refresh
+ * - Expiry and ownership live in the stored record (expiresAt, username),
+ *   not in the token itself
+ *
+ * Sessions:
+ * - A token family IS a session: its familyId is the session id
+ * - Session metadata (device name, user-agent, IP, start time, OAuth client)
+ *   is stored on every token and carried forward on rotation; the newest
+ *   token's issuedAt is the session's last-used time
+ *
+ * Structure: Map<tokenHash, { username, familyId, issuedAt, expiresAt, rotatedAt?, ...SessionMetadata }>
  */
 
-export interface StoredToken {
+import { createHash, randomUUID } from 'crypto'
+
+/**
+ * Facts about the session (login) a refresh token belongs to
+ * All optional: tokens saved before sessions were tracked have none
+ */
+export interface SessionMetadata {
+    /** Name the client gave its device at login (e.g. "Alice's iPhone") */
+    deviceName?: string
+    /** User-Agent header of the latest login/refresh */
+    userAgent?: string
+    /** Client IP of the latest login/refresh */
+    ip?: string
+    /** When the session started (epoch ms; the login, not the latest refresh) */
+    sessionStartedAt?: number
+    /** OAuth client the session was started by (POST /oauth/token); only that client may refresh it */
+    clientId?: string
+    /** Scopes granted to that client; its access tokens carry no permission outside them */
+    scopes?: string[]
+}
+
+export interface StoredToken extends SessionMetadata {
     username: string
+    familyId: string
     issuedAt: number
     expiresAt: number
+    /** Set when the token has been exchanged for a newer one */
+    rotatedAt?: number
 }
 
-export class TokenStore {
-    private tokens = new Map<string, StoredToken>()
+export interface TokenStoreStats {
+    totalTokens: number
+    tokens: {
+        username: string
+        familyId: string
+        issuedAt: string
+        expiresAt: string
+        isExpired: boolean
+        isRotated: boolean
+    }[]
+}
+
+/**
+ * Default refresh token time-to-live: 7 days
+ */
+export const DEFAULT_TOKEN_TTL_SECONDS = 7 * 24 * 60 * 60
+
+/**
+ * Hash a refresh token for storage or lookup
+ *
+ * Tokens are random with 256 bits of entropy, so a fast unsalted hash is
+ * enough: there is nothing to brute-force, and lookups need a
+ * deterministic key.
+ *
+ * @param token The refresh token sent by the client
+ * @returns Hex-encoded SHA-256 digest
+ */
+export function hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex')
+}
 
+export interface ITokenStore {
     /**
      * Save a refresh token with metadata
-     * @param token The refresh token string
+     * @param tokenHash hashToken() of the refresh token
      * @param username The username associated with this token
      * @param ttlSeconds Token time-to-live in seconds (default: 7 days)
+     * @param familyId Token family to join (default: start a new family)
+     * @param session Session metadata stored with the token
+     * @returns The token's family id
+     */
+    saveToken(tokenHash: string, username: string, ttlSeconds?: number, familyId?: string, session?: SessionMetadata): Promise<string>
+
+    /**
+     * Look up a refresh token, including rotated ones
+     * @param tokenHash hashToken() of the refresh token to look up
+     * @returns A copy of the stored metadata, or null if unknown or expired
+     */
+    getToken(tokenHash: string): Promise<StoredToken | null>
+
+    /**
+     * List a user's unexpired tokens, including rotated ones
+     * @param username The token owner
+     * @returns Copies of the stored metadata (without the token hashes)
+     */
+    getUserTokens(username: string): Promise<StoredToken[]>
+
+    /**
+     * Verify if a refresh token is valid, not expired and not yet rotated
+     * @param tokenHash hashToken() of the refresh token to verify
+     * @returns The username if token is valid, null otherwise
+     */
+    verifyToken(tokenHash: string): Promise<string | null>
+
+    /**
+     * Atomically mark a refresh token as rotated (exchanged for a newer token)
+     * The token stays in the store until it expires so reuse can be detected
+     * @param tokenHash hashToken() of the refresh token being exchanged
+     * @returns true if this call rotated it; false if it was unknown or already rotated
+     */
+    markRotated(tokenHash: string): Promise<boolean>
+
+    /**
+     * Revoke a single refresh token
+     * @param tokenHash hashToken() of the refresh token to revoke
+     */
+    revokeToken(tokenHash: string): Promise<void>
+
+    /**
+     * Revoke every token in a family (reuse detected, logout)
+     * @param familyId The token family to revoke
+     * @returns Number of tokens removed
+     */
+    revokeFamily(familyId: string): Promise<number>
+
+    /**
+     * Revoke all tokens for a specific user (admin logout, security breach, etc.)
+     * @param username The username whose tokens should be revoked
+     * @returns Number of tokens removed
+     */
+    revokeAllUserTokens(username: string): Promise<number>
+
+    /**
+     * Clean up all expired tokens
+     * Can be called periodically by a background job
+     * @returns Number of tokens removed
+     */
+    cleanupExpired(): Promise<number>
+
+    /**
+     * Get token store statistics (useful for debugging; no tokens or hashes)
+     */
+    getStats(): Promise<TokenStoreStats>
+
+    /**
+     * Release resources (flush pending writes, close connections)
      */
-    saveToken(token: string, username: string, ttlSeconds: number = 7 * 24 * 60 * 60): void {
+    close(): Promise<void>
+}
+
+export class InMemoryTokenStore implements ITokenStore {
+    protected tokens = new Map<string, StoredToken>()
+
+    async saveToken(
+        tokenHash: string,
+        username: string,
+        ttlSeconds: number = DEFAULT_TOKEN_TTL_SECONDS,
+        familyId: string = randomUUID(),
+        session: SessionMetadata = {}
+    ): Promise<string> {
         const now = Date.now()
-        this.tokens.set(token, {
+        this.tokens.set(tokenHash, {
+            ...session,
             username,
+            familyId,
             issuedAt: now,
             expiresAt: now + ttlSeconds * 1000
         })
+        return familyId
     }
 
-    /**
-     * Verify if a refresh token is valid and not expired
-     * Automatically cleans up expired tokens
-     * @param token The refresh token to verify
-     * @returns The username if token is valid, null otherwise
-     */
-    verifyToken(token: string): string | null {
-        const stored = this.tokens.get(token)
+    async getToken(tokenHash: string): Promise<StoredToken | null> {
+        const stored = this.tokens.get(tokenHash)
 
         if (!stored) {
             return null
@@ -59,64 +218,89 @@ export class TokenStore {
 
         // Check if token has expired
         if (Date.now() > stored.expiresAt) {
-            this.tokens.delete(token)
+            this.tokens.delete(tokenHash)
             return null
         }
 
-        return stored.username
+        return { ...stored }
     }
 
-    /**
-     * Revoke a refresh token (logout)
-     * @param token The refresh token to revoke
-     */
-    revokeToken(token: string): void {
-        this.tokens.delete(token)
+    async getUserTokens(username: string): Promise<StoredToken[]> {
+        const now = Date.now()
+        return Array.from(this.tokens.values())
+            .filter(stored => stored.username === username && now <= stored.expiresAt)
+            .map(stored => ({ ...stored }))
     }
 
-    /**
-     * Revoke all tokens for a specific user (admin logout, security breach, etc.)
-     * @param username The username whose tokens should be revoked
-     */
-    revokeAllUserTokens(username: string): void {
-        for (const [token, stored] of this.tokens.entries()) {
-            if (stored.username === username) {
-                this.tokens.delete(token)
-            }
+    async verifyToken(tokenHash: string): Promise<string | null> {
+        const stored = await this.getToken(tokenHash)
+
+        if (!stored || stored.rotatedAt) {
+            return null
         }
-    }
 
-    /**
-     * Clean up all expired tokens
-     * Can be called periodically by a background job
-     */
-    cleanupExpired(): number {
-        const now = Date.now()
-        let cleaned = 0
+        return stored.username
+    }
 
-        for (const [token, stored] of this.tokens.entries()) {
-            if (now > stored.expiresAt) {
-                this.tokens.delete(token)
-                cleaned++
-            }
+    async markRotated(tokenHash: string): Promise<boolean> {
+        const stored = this.tokens.get(tokenHash)
+        if (!stored || stored.rotatedAt) {
+            return false
         }
 
-        return cleaned
+        stored.rotatedAt = Date.now()
+        return true
     }
 
-    /**
-     * Get token store statistics (useful for debugging)
-     */
-    getStats() {
+    async revokeToken(tokenHash: string): Promise<void> {
+        this.tokens.delete(tokenHash)
+    }
+
+    async revokeFamily(familyId: string): Promise<number> {
+        return this.deleteWhere(stored => stored.familyId === familyId)
+    }
+
+    async revokeAllUserTokens(username: string): Promise<number> {
+        return this.deleteWhere(stored => stored.username === username)
+    }
+
+    async cleanupExpired(): Promise<number> {
+        const now = Date.now()
+        return this.deleteWhere(stored => now > stored.expiresAt)
+    }
+
+    async getStats(): Promise<TokenStoreStats> {
         return {
             totalTokens: this.tokens.size,
-            tokens: Array.from(this.tokens.entries()).map(([token, data]) => ({
-                token: token.substring(0, 10) + '...',
+            tokens: Array.from(this.tokens.values()).map(data => ({
                 username: data.username,
+                familyId: data.familyId,
                 issuedAt: new Date(data.issuedAt).toISOString(),
                 expiresAt: new Date(data.expiresAt).toISOString(),
-                isExpired: Date.now() > data.expiresAt
+                isExpired: Date.now() > data.expiresAt,
+                isRotated: Boolean(data.rotatedAt)
             }))
         }
     }
+
+    async close(): Promise<void> {
+        // Nothing to release
+    }
+
+    /**
+     * Delete every token matching a predicate
+     * @returns Number of tokens removed
+     */
+    protected deleteWhere(predicate: (stored: StoredToken) => boolean): number {
+        let removed = 0
+
+        for (const [tokenHash, stored] of this.tokens.entries()) {
+            if (predicate(stored)) {
+                this.tokens.delete(tokenHash)
+                removed++
+            }
+        }
+
+        return removed
+    }
 }
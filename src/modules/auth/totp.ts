@@ -0,0 +1,183 @@
+/**
+ * TOTP (Time-based One-Time Passwords)
+ *
+ * Implements RFC 6238 codes as produced by authenticator apps
+ * (Google Authenticator, 1Password, Authy, ...), with Node's crypto only.
+ *
+ * How it works:
+ * - Server and app share a random secret (shown once as an otpauth:// URI / QR code)
+ * - Both compute HMAC-SHA1(secret, floor(unixTime / 30)) and truncate it
+ *   to a 6-digit code (RFC 4226 dynamic truncation)
+ * - A code from the previous or next 30-second step is also accepted
+ *   (clock drift between phone and server)
+ *
+ * Replay Protection:
+ * - verify() returns the matched time step; callers store it and pass it
+ *   back as lastUsedStep, so a code can't be used twice
+ *
+ * Secrets are base32 (RFC 4648, no padding), the format authenticator
+ * apps expect.
+ *
+ * @module totp
+ * @see https://www.rfc-editor.org/rfc/rfc6238
+ * @see https://github.com/google/google-authenticator/wiki/Key-Uri-Format
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto'
+
+export interface TotpOptions {
+    /** Code length */
+    digits: number
+    /** Length of one time step */
+    periodSeconds: number
+    /** Steps accepted before and after the current one (clock drift) */
+    window: number
+    /** Random secret length in bytes */
+    secretBytes: number
+}
+
+/**
+ * Defaults understood by every common authenticator app
+ * (SHA-1, 6 digits, 30 seconds; 160-bit secret as recommended by RFC 4226)
+ */
+export const DEFAULT_TOTP_OPTIONS: TotpOptions = {
+    digits: 6,
+    periodSeconds: 30,
+    window: 1,
+    secretBytes: 20
+}
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567'
+
+export class Totp {
+    private readonly options: TotpOptions
+
+    /**
+     * @param options Overrides for DEFAULT_TOTP_OPTIONS
+     */
+    constructor(options: Partial<TotpOptions> = {}) {
+        this.options = { ...DEFAULT_TOTP_OPTIONS, ...options }
+    }
+
+    /**
+     * Create a new random shared secret
+     * @returns Base32-encoded secret
+     */
+    generateSecret(): string {
+        return base32Encode(randomBytes(this.options.secretBytes))
+    }
+
+    /**
+     * Build the otpauth:// URI that authenticator apps import (usually as a QR code)
+     *
+     * @param secret Base32 secret
+     * @param accountName Account shown in the app (the username)
+     * @param issuer Service name shown in the app
+     *
+     * @example
+     * totp.uri('JBSWY3DPEHPK3PXP', 'alice', 'Acme')
+     * // otpauth://totp/Acme:alice?secret=JBSWY3DPEHPK3PXP&issuer=Acme&algorithm=SHA1&digits=6&period=30
+     */
+    uri(secret: string, accountName: string, issuer: string): string {
+        const label = `${encodeURIComponent(issuer)}:${encodeURIComponent(accountName)}`
+        const params = new URLSearchParams({
+            secret,
+            issuer,
+            algorithm: 'SHA1',
+            digits: String(this.options.digits),
+            period: String(this.options.periodSeconds)
+        })
+        return `otpauth://totp/${label}?${params.toString()}`
+    }
+
+    /**
+     * Compute the code for a time step
+     *
+     * @param secret Base32 secret
+     * @param step Time step (default: the current one)
+     */
+    generate(secret: string, step: number = this.currentStep()): string {
+        const counter = Buffer.alloc(8)
+        counter.writeBigUInt64BE(BigInt(step))
+
+        const hmac = createHmac('sha1', base32Decode(secret)).update(counter).digest()
+        const offset = hmac[hmac.length - 1] & 0x0f
+        const binary = hmac.readUInt32BE(offset) & 0x7fffffff
+
+        return String(binary % 10 ** this.options.digits).padStart(this.options.digits, '0')
+    }
+
+    /**
+     * Check a code against the current time step and its neighbours
+     *
+     * @param secret Base32 secret
+     * @param code Code entered by the user
+     * @param lastUsedStep Step of the last accepted code; it and older steps are rejected
+     * @returns The matched time step, or null if the code is wrong, malformed or replayed
+     */
+    verify(secret: string, code: string, lastUsedStep = -1): number | null {
+        if (typeof code !== 'string' || code.length !== this.options.digits || !/^\d+$/.test(code)) {
+            return null
+        }
+
+        const current = this.currentStep()
+        for (let step = current - this.options.window; step <= current + this.options.window; step++) {
+            if (step > lastUsedStep && timingSafeEqual(Buffer.from(this.generate(secret, step)), Buffer.from(code))) {
+                return step
+            }
+        }
+        return null
+    }
+
+    private currentStep(): number {
+        return Math.floor(Date.now() / 1000 / this.options.periodSeconds)
+    }
+}
+
+/**
+ * RFC 4648 base32, without padding
+ */
+function base32Encode(data: Buffer): string {
+    let bits = 0
+    let value = 0
+    let output = ''
+
+    for (const byte of data) {
+        value = (value << 8) | byte
+        bits += 8
+        while (bits >= 5) {
+            output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31]
+            bits -= 5
+        }
+    }
+    if (bits > 0) {
+        output += BASE32_ALPHABET[(value << (5 - bits)) & 31]
+    }
+    return output
+}
+
+/**
+ * Decode RFC 4648 base32 (case-insensitive, padding and spaces ignored)
+ *
+ * @throws {Error} On characters outside the base32 alphabet
+ */
+function base32Decode(encoded: string): Buffer {
+    const clean = encoded.toUpperCase().replace(/[\s=]/g, '')
+    const bytes: number[] = []
+    let bits = 0
+    let value = 0
+
+    for (const char of clean) {
+        const index = BASE32_ALPHABET.indexOf(char)
+        if (index === -1) {
+            throw new Error('Invalid base32 secret')
+        }
+        value = (value << 5) | index
+        bits += 5
+        if (bits >= 8) {
+            bytes.push((value >>> (bits - 8)) & 0xff)
+            bits -= 8
+        }
+    }
+    return Buffer.from(bytes)
+}
@@ -0,0 +1,160 @@
+/**
+ * Application Errors
+ *
+ * Base class for every error the API reports to clients on purpose.
+ * Services throw them; the global error handler (plugins/error-handler.plugin.ts)
+ * renders them as RFC 7807 problem details with a stable `code`:
+ *
+ *   401 application/problem+json
+ *   { "type": "about:blank", "title": "Unauthorized", "status": 401,
+ *     "detail": "Access token has expired", "instance": "/api/v1/auth/me",
+ *     "code": "token_expired" }
+ *
+ * Why Error Codes?
+ * - detail is for humans and may be reworded; code never changes
+ * - Clients branch on code, e.g. token_expired → refresh and retry,
+ *   token_revoked → log in again
+ * - One status can mean several things (401 alone can't tell "expired"
+ *   from "revoked")
+ *
+ * Anything thrown that is NOT an AppError (or a Fastify 4xx) is a bug or an
+ * outage: it becomes 500 internal_error and its message is never shown.
+ *
+ * @module app-error
+ * @see https://www.rfc-editor.org/rfc/rfc7807
+ * @see {@link ../auth/auth.errors.ts} for the authentication errors
+ */
+
+/**
+ * Stable, machine-readable error codes
+ *
+ * Part of the API contract: codes are added, never renamed or reused.
+ * The HTTP status is listed for reference; see API_DOCUMENTATION.md.
+ *
+ * - validation_failed (400): Input breaks a schema or rule (see violations)
+ * - weak_password (400): New password breaks the password policy (see violations)
+ * - reset_token_invalid (400): Password reset token unknown, used or expired
+ * - mfa_enrollment_not_started (400): TOTP confirmation without a pending enrollment
+ * - cannot_disable_self (400): Administrator tried to disable their own account
+ * - authentication_required (401): No access token sent
+ * - token_invalid (401): Access token malformed, forged or not an access token
+ * - token_expired (401): Access token expired - refresh and retry
+ * - token_revoked (401): Access token revoked (logout, password change) - log in again
+ * - refresh_token_invalid (401): Refresh token unknown, expired, revoked or reused - log in again
+ * - invalid_credentials (401): Wrong username or password
+ * - mfa_token_invalid (401): Login challenge expired, used or malformed - log in again
+ * - mfa_code_invalid (401 at login, 400 at enrollment): Wrong TOTP or recovery code
+ * - insufficient_permissions (403): Missing role or permission
+ * - account_disabled (403): Account disabled by an administrator
+ * - incorrect_password (403): Current password wrong (password change)
+ * - csrf_token_invalid (403): Cookie transport without a matching X-CSRF-Token header
+ * - not_found (404): No such route
+ * - user_not_found (404), session_not_found (404)
+ * - username_taken (409), email_taken (409), mfa_already_enabled (409)
+ * - account_locked (429): Too many failed attempts for the username or IP (Retry-After)
+ * - internal_error (500): Unexpected failure, details are only logged
+ *
+ * Other 4xx raised by Fastify itself (e.g. 413, 415) use their status phrase
+ * as code: payload_too_large, unsupported_media_type.
+ */
+export type ErrorCode =
+    | 'validation_failed'
+    | 'weak_password'
+    | 'reset_token_invalid'
+    | 'mfa_enrollment_not_started'
+    | 'cannot_disable_self'
+    | 'authentication_required'
+    | 'token_invalid'
+    | 'token_expired'
+    | 'token_revoked'
+    | 'refresh_token_invalid'
+    | 'invalid_credentials'
+    | 'mfa_token_invalid'
+    | 'mfa_code_invalid'
+    | 'insufficient_permissions'
+    | 'account_disabled'
+    | 'incorrect_password'
+    | 'csrf_token_invalid'
+    | 'not_found'
+    | 'user_not_found'
+    | 'session_not_found'
+    | 'username_taken'
+    | 'email_taken'
+    | 'mfa_already_enabled'
+    | 'account_locked'
+    | 'internal_error'
+
+/**
+ * One failed validation rule
+ *
+ * @interface Violation
+ * @property {string} field - Input that failed ("password", "page", "user.roles.0")
+ * @property {string} rule - Stable rule identifier (e.g. "required", "min_length")
+ * @property {string} message - Human-readable explanation
+ */
+export interface Violation {
+    field: string;
+    rule: string;
+    message: string;
+}
+
+/**
+ * Options for AppError
+ *
+ * @interface AppErrorOptions
+ * @property {Record<string, unknown>} [extensions] - Extra problem members (e.g. violations)
+ * @property {Record<string, string>} [headers] - Response headers (e.g. Retry-After)
+ */
+export interface AppErrorOptions {
+    extensions?: Record<string, unknown>;
+    headers?: Record<string, string>;
+}
+
+/**
+ * An error with an HTTP status and a stable code
+ *
+ * The message becomes the problem's detail, so it must be safe to show
+ * to the client.
+ *
+ * @class AppError
+ *
+ * @example
+ * throw new AppError(409, 'username_taken', 'Username is already taken')
+ */
+export class AppError extends Error {
+    readonly extensions: Record<string, unknown>
+    readonly headers: Record<string, string>
+
+    /**
+     * @param statusCode HTTP status of the response
+     * @param code Stable machine-readable code
+     * @param message Human-readable detail
+     * @param options Extra problem members and response headers
+     */
+    constructor(
+        readonly statusCode: number,
+        readonly code: ErrorCode,
+        message: string,
+        options: AppErrorOptions = {}
+    ) {
+        super(message)
+        this.name = 'AppError'
+        this.extensions = options.extensions ?? {}
+        this.headers = options.headers ?? {}
+    }
+}
+
+/**
+ * Thrown when input breaks one or more rules
+ *
+ * Carries every failed rule, so the client can show them all at once
+ * next to the relevant fields.
+ *
+ * @class ValidationError
+ */
+export class ValidationError extends AppError {
+    constructor(readonly violations: Violation[], code: ErrorCode = 'validation_failed', message = 'Validation failed') {
+        super(400, code, message, { extensions: { violations } })
+        this.name = 'ValidationError'
+    }
+}
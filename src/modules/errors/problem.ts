@@ -0,0 +1,77 @@
+/**
+ * Problem Details (RFC 7807)
+ *
+ * The body of every error response, sent as application/problem+json:
+ *
+ *   { "type": "about:blank", "title": "Conflict", "status": 409,
+ *     "detail": "Username is already taken", "instance": "/api/v1/auth/register",
+ *     "code": "username_taken" }
+ *
+ * Members:
+ * - type: always "about:blank" - the problem is identified by code instead
+ * - title: the HTTP status phrase ("Unauthorized", "Conflict", ...)
+ * - status: the HTTP status code
+ * - detail: human-readable explanation of this occurrence
+ * - instance: path of the request that failed
+ * - code: stable machine-readable error code (see ErrorCode)
+ * - violations: failed rules, for validation_failed and weak_password
+ *
+ * @module problem
+ * @see https://www.rfc-editor.org/rfc/rfc7807
+ * @see {@link ../../plugins/error-handler.plugin.ts} for where problems are rendered
+ */
+
+import { Static, Type } from '@sinclair/typebox'
+
+/**
+ * Media type of problem responses
+ */
+export const PROBLEM_CONTENT_TYPE = 'application/problem+json'
+
+/**
+ * Problem Details Body
+ *
+ * @typedef {object} ProblemDetails
+ * @property {string} type - Problem type URI ("about:blank")
+ * @property {string} title - HTTP status phrase
+ * @property {number} status - HTTP status code
+ * @property {string} detail - Human-readable explanation
+ * @property {string} instance - Request path
+ * @property {string} code - Stable error code (e.g. "token_expired")
+ * @property {object[]} [violations] - Failed rules: field, rule, message
+ */
+export const ProblemDetailsSchema = Type.Object({
+    type: Type.String(),
+    title: Type.String(),
+    status: Type.Integer(),
+    detail: Type.String(),
+    instance: Type.String(),
+    code: Type.String(),
+    violations: Type.Optional(Type.Array(Type.Object({
+        field: Type.String(),
+        rule: Type.String(),
+        message: Type.String()
+    })))
+}, { additionalProperties: true })
+export type ProblemDetails = Static<typeof ProblemDetailsSchema>
+
+/**
+ * Route response schema for an error status
+ *
+ * Declares the problem+json media type, so the OpenAPI document and the
+ * response serializer both match what the error handler sends.
+ *
+ * @param {string} description - When this status is returned
+ * @returns {object} Fastify response schema entry
+ *
+ * @example
+ * response: { 401: problemResponse('Token missing, invalid or expired') }
+ */
+export function problemResponse(description: string) {
+    return {
+        description,
+        content: {
+            [PROBLEM_CONTENT_TYPE]: { schema: ProblemDetailsSchema }
+        }
+    }
+}
@@ -0,0 +1,41 @@
+/**
+ * File Mail Transport (append-only JSON log)
+ *
+ * Writes every outgoing message to a local file instead of sending it,
+ * one JSON object per line (JSON Lines), e.g.
+ *     {"sentAt":"2024-01-15T16:00:00.000Z","to":"alice@example.com","subject":"...","text":"..."}
+ *
+ * Useful for development and automated tests: read the file to pick up
+ * a password reset link without a mail server.
+ *
+ * Appends are serialized through a promise chain, in send order.
+ * The file is created with mode 0600: it contains live reset links.
+ */
+
+import { promises as fs } from 'fs'
+import path from 'path'
+import { MailMessage, Mailer } from './mailer'
+
+export class FileMailer implements Mailer {
+    private writeQueue: Promise<void> = Promise.resolve()
+
+    /**
+     * @param filePath Path to the mail log (created on first send if missing)
+     */
+    constructor(private readonly filePath: string) {}
+
+    send(message: MailMessage): Promise<void> {
+        const line = JSON.stringify({ sentAt: new Date().toISOString(), ...message }) + '\n'
+
+        // A failed earlier write must not block later ones
+        this.writeQueue = this.writeQueue.catch(() => undefined).then(async () => {
+            await fs.mkdir(path.dirname(this.filePath), { recursive: true })
+            await fs.appendFile(this.filePath, line, { encoding: 'utf8', mode: 0o600 })
+        })
+        return this.writeQueue
+    }
+
+    async close(): Promise<void> {
+        await this.writeQueue.catch(() => undefined)
+    }
+}
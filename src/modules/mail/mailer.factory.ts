@@ -0,0 +1,61 @@
+/**
+ * Mailer Factory
+ *
+ * Chooses the mail transport from configuration (app.config),
+ * so deployments can switch delivery without code changes.
+ *
+ * Environment Variables (validated in config/env.ts):
+ * - MAIL_TRANSPORT: "console" (default), "file" or "smtp"
+ * - MAIL_FILE: Output file for the "file" transport (default: data/mail.jsonl)
+ * - MAIL_FROM: Sender address (default: no-reply@localhost)
+ * - SMTP_HOST / SMTP_PORT / SMTP_SECURE: Server for the "smtp" transport
+ * - SMTP_USER / SMTP_PASSWORD: Optional AUTH PLAIN credentials
+ *
+ * @module mailer.factory
+ * @see {@link mailer.ts} for the Mailer contract
+ */
+
+import { FastifyBaseLogger } from 'fastify'
+import { ConsoleMailer, Mailer } from './mailer'
+import { FileMailer } from './file-mailer'
+import { SmtpMailer } from './smtp-mailer'
+import { AppConfig } from '../../config/env'
+
+/**
+ * Supported transport names
+ */
+export type MailTransport = 'console' | 'file' | 'smtp'
+
+/**
+ * Create the mailer selected by MAIL_TRANSPORT
+ *
+ * @param {AppConfig} config - Validated configuration (app.config)
+ * @param {FastifyBaseLogger} log - Logger for the "console" transport
+ * @returns {Mailer} A new mailer instance
+ * @throws {Error} If MAIL_TRANSPORT names an unknown transport
+ *
+ * @example
+ * // MAIL_TRANSPORT=smtp SMTP_HOST=localhost SMTP_PORT=1025
+ * const mailer = createMailer(app.config, app.log);
+ */
+export function createMailer(config: AppConfig, log: FastifyBaseLogger): Mailer {
+    const transport: MailTransport = config.MAIL_TRANSPORT
+
+    switch (transport) {
+        case 'console':
+            return new ConsoleMailer(log)
+        case 'file':
+            return new FileMailer(config.MAIL_FILE)
+        case 'smtp':
+            return new SmtpMailer({
+                host: config.SMTP_HOST,
+                port: config.SMTP_PORT,
+                secure: config.SMTP_SECURE,
+                user: config.SMTP_USER,
+                password: config.SMTP_PASSWORD,
+                from: config.MAIL_FROM
+            })
+        default:
+            throw new Error(`Unknown MAIL_TRANSPORT "${transport}" (expected "console", "file" or "smtp")`)
+    }
+}
@@ -0,0 +1,68 @@
+/**
+ * Mailer Abstraction Layer
+ *
+ * This module defines how the application sends email.
+ * Consumers (AuthService) depend only on the Mailer interface,
+ * so the transport can be swapped without touching business logic.
+ *
+ * Implementations:
+ * - ConsoleMailer: Writes each message to the application log (development)
+ * - FileMailer: Appends each message to a JSONL file (development/testing)
+ * - SmtpMailer: Delivers through an SMTP server (production, or a local SMTP sink)
+ *
+ * The transport is selected by MAIL_TRANSPORT (see mailer.factory.ts).
+ *
+ * @module mailer
+ */
+
+import { FastifyBaseLogger } from 'fastify'
+
+/**
+ * Outgoing Email
+ *
+ * Plain text only: the messages sent by this API (password reset links)
+ * don't need HTML, and plain text can't carry tracking pixels or scripts.
+ *
+ * @interface MailMessage
+ * @property {string} to - Recipient address
+ * @property {string} subject - Subject line
+ * @property {string} text - Plain text body
+ */
+export interface MailMessage {
+    to: string;
+    subject: string;
+    text: string;
+}
+
+export interface Mailer {
+    /**
+     * Deliver a message
+     * @param message The email to send
+     * @throws {Error} If the transport rejects the message
+     */
+    send(message: MailMessage): Promise<void>
+
+    /**
+     * Release resources (flush pending writes, close connections)
+     */
+    close(): Promise<void>
+}
+
+/**
+ * Log-only transport
+ *
+ * Messages (including any reset link) end up in the application log,
+ * which is convenient locally but must not be used in production.
+ */
+export class ConsoleMailer implements Mailer {
+    /**
+     * @param log Logger the messages are written to
+     */
+    constructor(private readonly log: FastifyBaseLogger) {}
+
+    async send(message: MailMessage): Promise<void> {
+        this.log.info({ event: 'mail', mail: message }, `Mail to ${message.to}: ${message.subject}`)
+    }
+
+    async close(): Promise<void> {}
+}
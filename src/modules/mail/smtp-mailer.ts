@@ -0,0 +1,295 @@
+/**
+ * SMTP Mail Transport
+ *
+ * Delivers messages to an SMTP server (RFC 5321) using Node's net/tls
+ * modules only - no mail library needed for plain text notifications.
+ *
+ * One connection per message:
+ *   220 greeting → EHLO → [STARTTLS → EHLO] → [AUTH PLAIN] →
+ *   MAIL FROM → RCPT TO → DATA → message → QUIT
+ *
+ * TLS:
+ * - secure: true connects with TLS from the start (implicit TLS, port 465)
+ * - Otherwise the connection is upgraded with STARTTLS whenever the server
+ *   offers it (submission, port 587)
+ * - Credentials are never sent over an unencrypted connection
+ *
+ * Local Testing:
+ * - Point SMTP_HOST/SMTP_PORT at an SMTP sink such as Mailpit or MailHog
+ *   (e.g. localhost:1025) and open its web UI to read the messages
+ *
+ * @module smtp-mailer
+ * @see https://www.rfc-editor.org/rfc/rfc5321
+ */
+
+import net from 'net'
+import os from 'os'
+import tls from 'tls'
+import { randomUUID } from 'crypto'
+import { MailMessage, Mailer } from './mailer'
+
+/**
+ * Default time allowed for the connection and for each server reply
+ */
+const DEFAULT_SMTP_TIMEOUT_MS = 10 * 1000
+
+/**
+ * SMTP Connection Settings
+ *
+ * @interface SmtpMailerOptions
+ * @property {string} host - SMTP server hostname
+ * @property {number} port - SMTP server port (465 implicit TLS, 587 submission, 1025 local sink)
+ * @property {boolean} secure - Use TLS from the start instead of STARTTLS
+ * @property {string} [user] - Username for AUTH PLAIN (omit for servers without authentication)
+ * @property {string} [password] - Password for AUTH PLAIN
+ * @property {string} from - Sender address (envelope and From header)
+ * @property {number} [timeoutMs] - Connection and reply timeout (default 10 seconds)
+ * @property {string} [clientName] - Name sent with EHLO (default: the machine's hostname)
+ */
+export interface SmtpMailerOptions {
+    host: string;
+    port: number;
+    secure: boolean;
+    user?: string;
+    password?: string;
+    from: string;
+    timeoutMs?: number;
+    clientName?: string;
+}
+
+/**
+ * One parsed server reply, e.g. 250 with its text lines
+ */
+interface SmtpReply {
+    code: number;
+    lines: string[];
+}
+
+export class SmtpMailer implements Mailer {
+    /**
+     * @param options Server, credentials and sender address
+     */
+    constructor(private readonly options: SmtpMailerOptions) {}
+
+    async send(message: MailMessage): Promise<void> {
+        for (const value of [this.options.from, message.to, message.subject]) {
+            if (/[\r\n]/.test(value)) {
+                throw new Error('Mail addresses and subject must not contain line breaks')
+            }
+        }
+
+        const connection = new SmtpConnection(this.options)
+        try {
+            await connection.expect(220)
+            let extensions = await connection.command(`EHLO ${this.clientName()}`, 250)
+
+            if (!this.options.secure && supportsExtension(extensions, 'STARTTLS')) {
+                await connection.command('STARTTLS', 220)
+                connection.startTls()
+                extensions = await connection.command(`EHLO ${this.clientName()}`, 250)
+            }
+
+            if (this.options.user) {
+                if (!connection.encrypted) {
+                    throw new Error('SMTP server does not support TLS; refusing to send credentials in clear text')
+                }
+                const credentials = Buffer.from(`\0${this.options.user}\0${this.options.password ?? ''}`).toString('base64')
+                await connection.command(`AUTH PLAIN ${credentials}`, 235)
+            }
+
+            await connection.command(`MAIL FROM:<${this.options.from}>`, 250)
+            await connection.command(`RCPT TO:<${message.to}>`, 250, 251)
+            await connection.command('DATA', 354)
+            await connection.command(`${this.format(message)}\r\n.`, 250)
+            await connection.command('QUIT', 221).catch(() => undefined)
+        } finally {
+            connection.close()
+        }
+    }
+
+    async close(): Promise<void> {}
+
+    /**
+     * Build the RFC 5322 message: headers, blank line, dot-stuffed body
+     */
+    private format(message: MailMessage): string {
+        const domain = this.options.from.split('@')[1] ?? 'localhost'
+        const body = message.text.replace(/\r?\n/g, '\r\n')
+        const ascii = /^[\x20-\x7e\r\n\t]*$/.test(body)
+
+        const headers = [
+            `From: ${this.options.from}`,
+            `To: ${message.to}`,
+            `Subject: ${encodeHeader(message.subject)}`,
+            `Date: ${new Date().toUTCString()}`,
+            `Message-ID: <${randomUUID()}@${domain}>`,
+            'MIME-Version: 1.0',
+            'Content-Type: text/plain; charset=utf-8',
+            `Content-Transfer-Encoding: ${ascii ? '7bit' : 'base64'}`
+        ]
+
+        // Lines starting with "." are escaped so they can't end the DATA section
+        const encodedBody = ascii
+            ? body.replace(/^\./gm, '..')
+            : Buffer.from(body, 'utf8').toString('base64').replace(/.{76}/g, '$&\r\n')
+
+        return `${headers.join('\r\n')}\r\n\r\n${encodedBody}`
+    }
+
+    private clientName(): string {
+        return this.options.clientName ?? os.hostname()
+    }
+}
+
+/**
+ * Socket wrapper that turns the SMTP byte stream into one reply per command
+ *
+ * Replies can span several lines ("250-SIZE", "250-8BITMIME", "250 OK");
+ * a reply is complete at the first line without a dash after the code.
+ */
+class SmtpConnection {
+    private socket: net.Socket
+    private buffer = ''
+    private replyLines: string[] = []
+    private replies: SmtpReply[] = []
+    private waiting: { resolve: (reply: SmtpReply) => void, reject: (err: Error) => void } | null = null
+    private failure: Error | null = null
+    encrypted: boolean
+
+    constructor(private readonly options: SmtpMailerOptions) {
+        this.encrypted = options.secure
+        this.socket = options.secure
+            ? tls.connect({ host: options.host, port: options.port, servername: options.host })
+            : net.connect({ host: options.host, port: options.port })
+        this.attach(this.socket)
+    }
+
+    /**
+     * Wait for the next reply and check its code
+     *
+     * @throws {Error} On an unexpected code, a timeout or a closed connection
+     */
+    async expect(...codes: number[]): Promise<SmtpReply> {
+        const reply = await this.read()
+        if (!codes.includes(reply.code)) {
+            throw new Error(`Unexpected SMTP reply: ${reply.code} ${reply.lines.join(' ')}`)
+        }
+        return reply
+    }
+
+    /**
+     * Send one command line and wait for its reply
+     *
+     * Errors name only the command verb, so credentials never end up in logs.
+     */
+    async command(line: string, ...codes: number[]): Promise<SmtpReply> {
+        this.socket.write(`${line}\r\n`)
+        const reply = await this.read()
+        if (!codes.includes(reply.code)) {
+            const verb = /^[A-Z]+( FROM| TO)?/.exec(line)?.[0] ?? 'DATA'
+            throw new Error(`SMTP ${verb} failed: ${reply.code} ${reply.lines.join(' ')}`)
+        }
+        return reply
+    }
+
+    /**
+     * Continue the session over TLS (after the server accepted STARTTLS)
+     */
+    startTls(): void {
+        this.detach(this.socket)
+        this.socket = tls.connect({ socket: this.socket, servername: this.options.host })
+        this.attach(this.socket)
+        this.encrypted = true
+    }
+
+    close(): void {
+        this.detach(this.socket)
+        this.socket.destroy()
+    }
+
+    private read(): Promise<SmtpReply> {
+        const reply = this.replies.shift()
+        if (reply) {
+            return Promise.resolve(reply)
+        }
+        if (this.failure) {
+            return Promise.reject(this.failure)
+        }
+        return new Promise((resolve, reject) => {
+            this.waiting = { resolve, reject }
+        })
+    }
+
+    private attach(socket: net.Socket): void {
+        socket.setTimeout(this.options.timeoutMs ?? DEFAULT_SMTP_TIMEOUT_MS)
+        socket.on('data', this.onData)
+        socket.on('timeout', this.onTimeout)
+        socket.on('error', this.onError)
+        socket.on('close', this.onClose)
+    }
+
+    private detach(socket: net.Socket): void {
+        socket.setTimeout(0)
+        socket.off('data', this.onData)
+        socket.off('timeout', this.onTimeout)
+        socket.off('error', this.onError)
+        socket.off('close', this.onClose)
+    }
+
+    private readonly onData = (chunk: Buffer) => {
+        this.buffer += chunk.toString('utf8')
+
+        let index: number
+        while ((index = this.buffer.indexOf('\n')) !== -1) {
+            const line = this.buffer.slice(0, index).replace(/\r$/, '')
+            this.buffer = this.buffer.slice(index + 1)
+            this.replyLines.push(line)
+
+            if (line.charAt(3) !== '-') {
+                const reply = { code: Number(line.slice(0, 3)), lines: this.replyLines.map(l => l.slice(4)) }
+                this.replyLines = []
+                this.deliver(reply)
+            }
+        }
+    }
+
+    private readonly onTimeout = () => this.fail(new Error('SMTP server timed out'))
+
+    private readonly onError = (err: Error) => this.fail(err)
+
+    private readonly onClose = () => this.fail(new Error('SMTP connection closed unexpectedly'))
+
+    private deliver(reply: SmtpReply): void {
+        if (this.waiting) {
+            this.waiting.resolve(reply)
+            this.waiting = null
+        } else {
+            this.replies.push(reply)
+        }
+    }
+
+    private fail(err: Error): void {
+        this.failure ??= err
+        this.socket.destroy()
+        if (this.waiting) {
+            this.waiting.reject(this.failure)
+            this.waiting = null
+        }
+    }
+}
+
+/**
+ * Check the EHLO reply for an extension keyword (e.g. STARTTLS)
+ */
+function supportsExtension(reply: SmtpReply, keyword: string): boolean {
+    return reply.lines.some(line => line.toUpperCase().split(' ')[0] === keyword)
+}
+
+/**
+ * Encode a header value with non-ASCII characters as an RFC 2047 encoded word
+ */
+function encodeHeader(value: string): string {
+    return /^[\x20-\x7e]*$/.test(value)
+        ? value
+        : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`
+}
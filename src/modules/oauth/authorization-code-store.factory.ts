@@ -0,0 +1,49 @@
+/**
+ * Authorization Code Store Factory
+ *
+ * Keeps authorization codes next to the refresh tokens: with
+ * TOKEN_STORE=redis they are shared between instances, so the code
+ * exchange may reach any instance. The "memory" and "file" backends keep
+ * codes in process memory (codes live seconds; a restart only makes the
+ * user sign in again).
+ *
+ * Environment Variables (validated in config/env.ts):
+ * - TOKEN_STORE: "memory" (default), "file" or "redis"
+ * - OAUTH_CODE_TTL_SECONDS: Lifetime of a code (default: 60)
+ * - REDIS_URL: Connection URL for the "redis" backend (default: redis://127.0.0.1:6379)
+ * - REDIS_KEY_PREFIX: Key prefix for the "redis" backend (default: auth:)
+ *
+ * @module authorization-code-store.factory
+ * @see {@link authorization-code.store.ts} for the IAuthorizationCodeStore contract
+ */
+
+import { IAuthorizationCodeStore, InMemoryAuthorizationCodeStore } from './authorization-code.store'
+import { RedisAuthorizationCodeStore } from './redis-authorization-code.store'
+import Redis from 'ioredis'
+import { AppConfig } from '../../config/env'
+import { TokenStoreBackend } from '../auth/token-store.factory'
+
+/**
+ * Create the authorization code store matching TOKEN_STORE
+ *
+ * @param {AppConfig} config - Validated configuration (app.config)
+ * @returns {IAuthorizationCodeStore} A new, unshared store instance
+ * @throws {Error} If TOKEN_STORE names an unknown backend
+ */
+export function createAuthorizationCodeStore(config: AppConfig): IAuthorizationCodeStore {
+    const backend: TokenStoreBackend = config.TOKEN_STORE
+
+    switch (backend) {
+        case 'memory':
+        case 'file':
+            return new InMemoryAuthorizationCodeStore(config.OAUTH_CODE_TTL_SECONDS)
+        case 'redis':
+            return new RedisAuthorizationCodeStore(
+                new Redis(config.REDIS_URL),
+                config.OAUTH_CODE_TTL_SECONDS,
+                { keyPrefix: config.REDIS_KEY_PREFIX }
+            )
+        default:
+            throw new Error(`Unknown TOKEN_STORE backend "${backend}" (expected "memory", "file" or "redis")`)
+    }
+}
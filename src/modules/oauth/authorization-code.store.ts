@@ -0,0 +1,202 @@
+/**
+ * Authorization Code Store
+ *
+ * Short-lived, single-use codes issued by /oauth/authorize and exchanged
+ * at POST /oauth/token (authorization_code grant).
+ *
+ * 1. Codes are opaque: 256 random bits, base64url-encoded
+ *    - Keyed by the code's SHA-256 hash, like refresh tokens: the raw
+ *      code only travels in the redirect and the token request
+ * 2. Each code is bound to the client, the redirect_uri, the PKCE
+ *    code_challenge and the granted scopes of its authorization request
+ * 3. Single use
+ *    - consume() marks the code used; a used code is kept until it
+ *      expires, so a second exchange is recognised as reuse (and the
+ *      session the first one started can be revoked, RFC 6749 section 4.1.2)
+ *    - The session only exists once the first exchange has started it: a
+ *      replay in between marks the code reused, and recordSession()
+ *      reports it, so the first exchange revokes its own session
+ *
+ * Lifetime: OAUTH_CODE_TTL_SECONDS (default 60 seconds).
+ *
+ * Why a store interface?
+ * - Behind a load balancer, the authorization request and the code
+ *   exchange may reach different instances: both must see the same codes
+ * - Same approach as ITokenStore: consumers depend only on the interface,
+ *   and the backend follows TOKEN_STORE (authorization-code-store.factory.ts)
+ *
+ * Implementations:
+ * - InMemoryAuthorizationCodeStore (this file): per-process; a restart
+ *   invalidates outstanding codes, and the user simply signs in again
+ * - RedisAuthorizationCodeStore (redis-authorization-code.store.ts):
+ *   shared between instances
+ *
+ * Eviction (in memory): expired codes are dropped on lookup and whenever
+ * a code is issued.
+ *
+ * Structure (in memory):
+ * - Map<sha256(code), AuthorizationCode>
+ */
+
+import { randomBytes } from 'crypto'
+import { hashToken } from '../auth/token.store'
+
+/**
+ * Entropy of an authorization code: 32 random bytes (256 bits)
+ */
+const CODE_BYTES = 32
+
+/**
+ * A stored authorization code
+ */
+export interface AuthorizationCode {
+    /** Client the code was issued to */
+    clientId: string
+    /** redirect_uri of the authorization request; the token request must repeat it */
+    redirectUri: string
+    /** PKCE S256 code_challenge of the authorization request */
+    codeChallenge: string
+    /** User who signed in (and approved the request) */
+    username: string
+    /** Scopes the user approved; the session's tokens carry nothing outside them */
+    scopes: string[]
+    /** Epoch milliseconds when the code was issued */
+    issuedAt: number
+    /** Epoch milliseconds after which the code is rejected */
+    expiresAt: number
+    /** Epoch milliseconds of the first exchange, if any */
+    usedAt?: number
+    /** Session started by the first exchange */
+    sessionId?: string
+    /** Epoch milliseconds of the first exchange after that (a replay), if any */
+    reusedAt?: number
+}
+
+/**
+ * Grant bound to a new code: everything but the timestamps and usage
+ */
+export type AuthorizationGrant = Pick<AuthorizationCode, 'clientId' | 'redirectUri' | 'codeChallenge' | 'username' | 'scopes'>
+
+/**
+ * Result of consuming a code
+ */
+export interface ConsumedAuthorizationCode {
+    /** The code as it was before it was consumed */
+    code: AuthorizationCode
+    /** Whether it had been used already */
+    reused: boolean
+}
+
+export interface IAuthorizationCodeStore {
+    /**
+     * Issue a code for an approved authorization request
+     *
+     * @param grant Client, redirect URI, code challenge, user and scopes
+     * @returns The raw code, for the redirect back to the client
+     */
+    issue(grant: AuthorizationGrant): Promise<string>
+
+    /**
+     * Look up a code and mark it used, atomically: of concurrent
+     * exchanges of one code, only one sees reused = false
+     *
+     * @param code Raw code from the token request
+     * @returns The code and whether it had been used already; null if
+     *   unknown or expired
+     */
+    consume(code: string): Promise<ConsumedAuthorizationCode | null>
+
+    /**
+     * Remember the session started with a code, so that reuse can revoke
+     * it, and tell whether the code was replayed before that, atomically:
+     * a replay either finds the session or is reported here
+     *
+     * @param code Raw code
+     * @param sessionId Session id (sid claim) of the issued tokens
+     * @returns true if the code was presented again meanwhile: the caller
+     *   revokes the session itself
+     */
+    recordSession(code: string, sessionId: string): Promise<boolean>
+
+    /**
+     * Drop expired codes (backends with native expiry can return 0)
+     * @returns Number of codes removed
+     */
+    cleanupExpired(): Promise<number>
+
+    /**
+     * Release resources (close connections)
+     */
+    close(): Promise<void>
+}
+
+/**
+ * Create a new raw authorization code
+ */
+export function generateAuthorizationCode(): string {
+    return randomBytes(CODE_BYTES).toString('base64url')
+}
+
+export class InMemoryAuthorizationCodeStore implements IAuthorizationCodeStore {
+    private codes = new Map<string, AuthorizationCode>()
+
+    /**
+     * @param ttlSeconds Lifetime of a code (OAUTH_CODE_TTL_SECONDS)
+     */
+    constructor(private readonly ttlSeconds: number) {}
+
+    async issue(grant: AuthorizationGrant): Promise<string> {
+        await this.cleanupExpired()
+
+        const code = generateAuthorizationCode()
+        const now = Date.now()
+        this.codes.set(hashToken(code), { ...grant, issuedAt: now, expiresAt: now + this.ttlSeconds * 1000 })
+        return code
+    }
+
+    async consume(code: string): Promise<ConsumedAuthorizationCode | null> {
+        const key = hashToken(code)
+        const stored = this.codes.get(key)
+        if (!stored) {
+            return null
+        }
+        if (Date.now() > stored.expiresAt) {
+            this.codes.delete(key)
+            return null
+        }
+
+        const reused = stored.usedAt !== undefined
+        const before = { ...stored }
+        if (!reused) {
+            stored.usedAt = Date.now()
+        } else if (stored.reusedAt === undefined) {
+            stored.reusedAt = Date.now()
+        }
+        return { code: before, reused }
+    }
+
+    async recordSession(code: string, sessionId: string): Promise<boolean> {
+        const stored = this.codes.get(hashToken(code))
+        if (!stored) {
+            return false
+        }
+        stored.sessionId = sessionId
+        return stored.reusedAt !== undefined
+    }
+
+    async cleanupExpired(): Promise<number> {
+        const now = Date.now()
+        let removed = 0
+        for (const [key, stored] of this.codes) {
+            if (now > stored.expiresAt) {
+                this.codes.delete(key)
+                removed++
+            }
+        }
+        return removed
+    }
+
+    async close(): Promise<void> {
+        // Nothing to release
+    }
+}
@@ -0,0 +1,182 @@
+/**
+ * Authorization Page
+ *
+ * Server-rendered HTML of /oauth/authorize: the minimal login/consent
+ * page of the authorization code flow, and the error page shown when the
+ * request can't be sent back to the client.
+ *
+ * Steps (each a form posting to POST /oauth/authorize):
+ * 1. password: username and password
+ * 2. mfa: TOTP or recovery code, for users with two-factor authentication
+ *    (the challenge token travels as a hidden field)
+ *
+ * First-party clients get a plain "Sign in" page. Third-party clients get
+ * a consent page: the client's name, the scopes it asks for, what
+ * approving means, and Allow / Deny buttons (the decision field).
+ *
+ * The authorization request itself (client_id, redirect_uri, state,
+ * code_challenge, ...) is carried along as hidden fields, so the page
+ * needs no server-side state between steps.
+ *
+ * Every value is HTML-escaped. The routes send the page with a strict
+ * Content-Security-Policy (no scripts, no framing).
+ *
+ * @module authorize-page
+ * @see {@link oauth.service.ts} for the flow
+ */
+
+import { AuthorizeRequest, OAuthClientRecord } from './oauth.types'
+
+/**
+ * What the login/consent page shows
+ *
+ * @interface AuthorizePage
+ * @property {OAuthClientRecord} client - Client asking for access (name, first-party)
+ * @property {AuthorizeRequest} request - Authorization request, carried as hidden fields
+ * @property {string[]} scopes - Scopes the client asks for (the consent page lists them)
+ * @property {'password' | 'mfa'} step - Which form to show
+ * @property {string} [username] - Pre-filled username (after a failed attempt)
+ * @property {string} [mfaToken] - Challenge token of the mfa step
+ * @property {string} [error] - Message of the failed previous attempt
+ */
+export interface AuthorizePage {
+    client: OAuthClientRecord
+    request: AuthorizeRequest
+    scopes: string[]
+    step: 'password' | 'mfa'
+    username?: string
+    mfaToken?: string
+    error?: string
+}
+
+/**
+ * Inline styles (the Content-Security-Policy allows inline styles only)
+ */
+const STYLES = `
+body { font-family: system-ui, sans-serif; background: #f4f5f7; margin: 0; }
+main { max-width: 22rem; margin: 4rem auto; padding: 2rem; background: #fff; border-radius: 8px; box-shadow: 0 1px 4px rgba(0, 0, 0, .15); }
+h1 { font-size: 1.25rem; margin-top: 0; }
+label { display: block; margin: 1rem 0 .25rem; }
+input { box-sizing: border-box; width: 100%; padding: .5rem; }
+.error { color: #b00020; }
+.actions { display: flex; gap: .5rem; margin-top: 1.5rem; }
+button { flex: 1; padding: .6rem; cursor: pointer; }
+code { font-size: .9rem; }
+`
+
+/**
+ * Escape text for HTML element content and double-quoted attributes
+ *
+ * @param value Untrusted text
+ * @returns Text with &, <, >, " and ' replaced by entities
+ */
+function escapeHtml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;')
+}
+
+/**
+ * Wrap page content in a complete HTML document
+ */
+function layout(title: string, content: string): string {
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="referrer" content="no-referrer">
+<title>${escapeHtml(title)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<main>
+${content}
+</main>
+</body>
+</html>
+`
+}
+
+/**
+ * Hidden inputs carrying the authorization request to the next step
+ */
+function hiddenFields(fields: Record<string, string | undefined>): string {
+    return Object.entries(fields)
+        .filter((entry): entry is [string, string] => entry[1] !== undefined)
+        .map(([name, value]) => `<input type="hidden" name="${escapeHtml(name)}" value="${escapeHtml(value)}">`)
+        .join('\n')
+}
+
+/**
+ * Render the login/consent page
+ *
+ * @param {AuthorizePage} page - Client, request, step and error
+ * @returns {string} HTML document
+ */
+export function renderAuthorizePage(page: AuthorizePage): string {
+    const clientName = page.client.name ?? page.client.clientId
+    const firstParty = page.client.firstParty === true
+    const title = firstParty ? 'Sign in' : `Authorize ${clientName}`
+
+    // What approving grants, exactly: the user's permissions within these
+    // scopes, plus the routes every user token reaches (/auth/me and the
+    // logout of its own session). Account management routes refuse
+    // tokens issued to a client (config.accountManagement).
+    const permissions = page.scopes.length > 0
+        ? 'use your permissions within these scopes (only those you have):\n' +
+            `<ul>\n${page.scopes.map(scope => `<li><code>${escapeHtml(scope)}</code></li>`).join('\n')}\n</ul>`
+        : 'use none of your permissions (it has no scopes)'
+
+    const intro = firstParty
+        ? `<p>Sign in to continue to <strong>${escapeHtml(clientName)}</strong>.</p>`
+        : `<p><strong>${escapeHtml(clientName)}</strong> wants to access your account. ` +
+            'If you allow it, it can:</p>\n<ul>\n' +
+            '<li>see your username and the roles and permissions it gets</li>\n' +
+            `<li>${permissions}</li>\n` +
+            '<li>sign itself out</li>\n</ul>\n' +
+            '<p>It can\'t see or change your sessions, your password or your two-factor ' +
+            'authentication. It keeps this access until you sign it out in your sessions.</p>'
+
+    const fields = page.step === 'mfa'
+        ? `${hiddenFields({ mfa_token: page.mfaToken })}
+<label for="code">Authentication code</label>
+<input id="code" name="code" autocomplete="one-time-code" required autofocus>`
+        : `<label for="username">Username</label>
+<input id="username" name="username" autocomplete="username" value="${escapeHtml(page.username ?? '')}" required autofocus>
+<label for="password">Password</label>
+<input id="password" name="password" type="password" autocomplete="current-password" required>`
+
+    // The first button is the one Enter submits
+    const actions = firstParty
+        ? '<button type="submit" name="decision" value="allow">Sign in</button>'
+        : '<button type="submit" name="decision" value="allow">Allow</button>\n' +
+            '<button type="submit" name="decision" value="deny" formnovalidate>Deny</button>'
+
+    return layout(title, `<h1>${escapeHtml(title)}</h1>
+${intro}
+${page.error ? `<p class="error" role="alert">${escapeHtml(page.error)}</p>` : ''}
+<form method="post" action="authorize">
+${hiddenFields(page.request)}
+${fields}
+<div class="actions">
+${actions}
+</div>
+</form>`)
+}
+
+/**
+ * Render the error page, for requests that can't be redirected back to
+ * the client (unknown client, unregistered redirect_uri, malformed form)
+ *
+ * @param {string} message - Safe, human-readable explanation
+ * @returns {string} HTML document
+ */
+export function renderErrorPage(message: string): string {
+    return layout('Authorization error', `<h1>Authorization error</h1>
+<p class="error">${escapeHtml(message)}</p>
+<p>Return to the application and try again.</p>`)
+}
@@ -0,0 +1,142 @@
+/**
+ * OAuth Client Repository
+ *
+ * Storage for the clients registered to use the OAuth endpoints.
+ * Consumers (OAuthService) depend only on the OAuthClientRepository
+ * interface, like UserRepository for user accounts.
+ *
+ * Implementations:
+ * - InMemoryOAuthClientRepository: Map-backed, lost on restart (development/testing)
+ * - FileOAuthClientRepository: JSON file on disk (OAUTH_CLIENTS_FILE)
+ *
+ * Clients are registered by an operator (npm run client:create), not
+ * through the API.
+ *
+ * File Structure (FileOAuthClientRepository):
+ * { "clients": [{ "clientId": "...", "name": "...", "secretHash": "...", "grantTypes": [], "scopes": [], "redirectUris": [], "firstParty": false, "createdAt": 0 }] }
+ */
+
+import { promises as fs } from 'fs'
+import path from 'path'
+import { OAuthClientRecord } from './oauth.types'
+
+export interface OAuthClientRepository {
+    /**
+     * Find a client by id
+     * @param clientId The client_id to look up
+     * @returns The stored client, or null if no such client exists
+     */
+    findById(clientId: string): Promise<OAuthClientRecord | null>
+
+    /**
+     * Register a new client
+     * @param client The client record to store
+     * @throws {Error} If a client with the same id already exists
+     */
+    create(client: OAuthClientRecord): Promise<void>
+
+    /**
+     * List all clients
+     */
+    list(): Promise<OAuthClientRecord[]>
+}
+
+export class InMemoryOAuthClientRepository implements OAuthClientRepository {
+    protected clients = new Map<string, OAuthClientRecord>()
+
+    async findById(clientId: string): Promise<OAuthClientRecord | null> {
+        const client = this.clients.get(clientId)
+        return client ? { ...client } : null
+    }
+
+    async create(client: OAuthClientRecord): Promise<void> {
+        if (this.clients.has(client.clientId)) {
+            throw new Error(`Client "${client.clientId}" already exists`)
+        }
+        this.clients.set(client.clientId, { ...client })
+    }
+
+    async list(): Promise<OAuthClientRecord[]> {
+        return Array.from(this.clients.values()).map(client => ({ ...client }))
+    }
+}
+
+/**
+ * JSON-file-backed repository
+ *
+ * Same approach as FileUserRepository: read once on first access, every
+ * write rewrites the whole file via a temp file + rename, writes are
+ * serialized. Multiple processes must NOT write the same file; several
+ * instances may share a read-only copy.
+ */
+export class FileOAuthClientRepository extends InMemoryOAuthClientRepository {
+    private loaded: Promise<void> | null = null
+    private writeQueue: Promise<void> = Promise.resolve()
+
+    /**
+     * @param filePath Path to the JSON clients file (created on first write if missing)
+     */
+    constructor(private readonly filePath: string) {
+        super()
+    }
+
+    async findById(clientId: string): Promise<OAuthClientRecord | null> {
+        await this.load()
+        return super.findById(clientId)
+    }
+
+    async create(client: OAuthClientRecord): Promise<void> {
+        await this.load()
+        await super.create(client)
+        await this.persist()
+    }
+
+    async list(): Promise<OAuthClientRecord[]> {
+        await this.load()
+        return super.list()
+    }
+
+    /**
+     * Load clients from disk once; a missing file means "no clients yet"
+     */
+    private load(): Promise<void> {
+        if (!this.loaded) {
+            this.loaded = (async () => {
+                try {
+                    const raw = await fs.readFile(this.filePath, 'utf8')
+                    const data = JSON.parse(raw) as { clients?: OAuthClientRecord[] }
+                    for (const client of data.clients ?? []) {
+                        this.clients.set(client.clientId, {
+                            ...client,
+                            grantTypes: client.grantTypes ?? [],
+                            scopes: client.scopes ?? [],
+                            redirectUris: client.redirectUris ?? []
+                        })
+                    }
+                } catch (err) {
+                    if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+                        throw err
+                    }
+                }
+            })()
+        }
+        return this.loaded
+    }
+
+    /**
+     * Write the current snapshot to disk atomically
+     */
+    private persist(): Promise<void> {
+        const snapshot = JSON.stringify({ clients: Array.from(this.clients.values()) }, null, 2)
+
+        // A failed earlier write must not block later ones
+        this.writeQueue = this.writeQueue.catch(() => undefined).then(async () => {
+            const tmpPath = `${this.filePath}.tmp`
+            await fs.mkdir(path.dirname(this.filePath), { recursive: true })
+            await fs.writeFile(tmpPath, snapshot, { encoding: 'utf8', mode: 0o600 })
+            await fs.rename(tmpPath, this.filePath)
+        })
+
+        return this.writeQueue
+    }
+}
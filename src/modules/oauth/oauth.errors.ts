@@ -0,0 +1,175 @@
+/**
+ * OAuth Errors
+ *
+ * Errors of the token endpoint (RFC 6749 section 5.2). They are NOT
+ * AppErrors: the OAuth routes have their own error handler
+ * (oauth.routes.ts) that renders them as
+ *
+ *   400 application/json
+ *   { "error": "invalid_grant", "error_description": "Invalid credentials" }
+ *
+ * which is what OAuth client libraries expect, instead of problem details.
+ *
+ * The authorization endpoint (/oauth/authorize) reports the same codes
+ * differently (RFC 6749 section 4.1.2.1): as error and error_description
+ * query parameters of a redirect back to the client or, when the client
+ * or redirect_uri can't be trusted, on an error page.
+ *
+ * @module oauth.errors
+ * @see https://www.rfc-editor.org/rfc/rfc6749#section-5.2
+ */
+
+/**
+ * Error codes defined by RFC 6749 sections 5.2 and 4.1.2.1
+ *
+ * - invalid_request (400): Missing or repeated parameter, malformed body
+ * - invalid_client (401): Unknown client, wrong secret or no client authentication
+ * - invalid_grant (400): Credentials or refresh token invalid, expired or revoked
+ * - unauthorized_client (400): Client not allowed to use this grant type
+ * - unsupported_grant_type (400): Grant type not supported by the server
+ * - invalid_scope (400): Scope unknown or beyond what the client was granted
+ * - unsupported_response_type (authorization endpoint): response_type is not "code"
+ * - access_denied (authorization endpoint): The user denied the request
+ */
+export type OAuthErrorCode =
+    | 'invalid_request'
+    | 'invalid_client'
+    | 'invalid_grant'
+    | 'unauthorized_client'
+    | 'unsupported_grant_type'
+    | 'invalid_scope'
+    | 'unsupported_response_type'
+    | 'access_denied'
+
+/**
+ * An error of the token or authorization endpoint
+ *
+ * The message becomes error_description, so it must be safe to show
+ * to the client.
+ *
+ * @class OAuthError
+ */
+export class OAuthError extends Error {
+    /**
+     * @param statusCode HTTP status of the response
+     * @param error RFC 6749 error code
+     * @param message Human-readable error_description
+     * @param headers Response headers (e.g. WWW-Authenticate, Retry-After)
+     */
+    constructor(
+        readonly statusCode: number,
+        readonly error: OAuthErrorCode,
+        message: string,
+        readonly headers: Record<string, string> = {}
+    ) {
+        super(message)
+        this.name = 'OAuthError'
+    }
+}
+
+/**
+ * Thrown when a parameter is missing, repeated or malformed
+ *
+ * @class InvalidRequestError
+ */
+export class InvalidRequestError extends OAuthError {
+    constructor(message: string) {
+        super(400, 'invalid_request', message)
+        this.name = 'InvalidRequestError'
+    }
+}
+
+/**
+ * Thrown when client authentication fails: no credentials, unknown
+ * client_id or wrong client_secret
+ *
+ * One error for every case, so the response doesn't reveal which client
+ * ids exist. 401 with a Basic challenge, as RFC 6749 section 5.2 asks.
+ *
+ * @class InvalidClientError
+ */
+export class InvalidClientError extends OAuthError {
+    constructor() {
+        super(401, 'invalid_client', 'Client authentication failed', { 'WWW-Authenticate': 'Basic realm="oauth"' })
+        this.name = 'InvalidClientError'
+    }
+}
+
+/**
+ * Thrown when the user's credentials or the refresh token are not
+ * accepted (wrong password, locked, disabled, expired, revoked, reused,
+ * or issued to another client)
+ *
+ * @class InvalidGrantError
+ */
+export class InvalidGrantError extends OAuthError {
+    /**
+     * @param message Human-readable error_description
+     * @param headers Response headers (Retry-After of a locked account)
+     */
+    constructor(message: string, headers: Record<string, string> = {}) {
+        super(400, 'invalid_grant', message, headers)
+        this.name = 'InvalidGrantError'
+    }
+}
+
+/**
+ * Thrown when an authenticated client asks for a grant type it is not
+ * registered for
+ *
+ * @class UnauthorizedClientError
+ */
+export class UnauthorizedClientError extends OAuthError {
+    constructor(grantType: string) {
+        super(400, 'unauthorized_client', `Client is not allowed to use the ${grantType} grant`)
+        this.name = 'UnauthorizedClientError'
+    }
+}
+
+/**
+ * Thrown for a grant_type the server doesn't implement
+ *
+ * @class UnsupportedGrantTypeError
+ */
+export class UnsupportedGrantTypeError extends OAuthError {
+    constructor(grantType: string) {
+        super(400, 'unsupported_grant_type', `Unsupported grant_type "${grantType}"`)
+        this.name = 'UnsupportedGrantTypeError'
+    }
+}
+
+/**
+ * Thrown when client_credentials asks for a scope the client was not granted
+ *
+ * @class InvalidScopeError
+ */
+export class InvalidScopeError extends OAuthError {
+    constructor(scopes: string[]) {
+        super(400, 'invalid_scope', `Scope not granted to this client: ${scopes.join(' ')}`)
+        this.name = 'InvalidScopeError'
+    }
+}
+
+/**
+ * Thrown by the authorization endpoint for a response_type other than "code"
+ *
+ * @class UnsupportedResponseTypeError
+ */
+export class UnsupportedResponseTypeError extends OAuthError {
+    constructor(responseType: string) {
+        super(400, 'unsupported_response_type', `Unsupported response_type "${responseType}"`)
+        this.name = 'UnsupportedResponseTypeError'
+    }
+}
+
+/**
+ * Thrown by the authorization endpoint when the user denies the client access
+ *
+ * @class AccessDeniedError
+ */
+export class AccessDeniedError extends OAuthError {
+    constructor() {
+        super(403, 'access_denied', 'The user denied the request')
+        this.name = 'AccessDeniedError'
+    }
+}
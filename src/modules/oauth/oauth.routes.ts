@@ -0,0 +1,211 @@
+/**
+ * OAuth Routes Module
+ *
+ * Routes Layer - OAuth 2.0 Token and Authorization Endpoints (RFC 6749)
+ *
+ * This module:
+ * 1. Instantiates OAuthService and the controller
+ * 2. Accepts application/x-www-form-urlencoded bodies (and only those)
+ * 3. Renders token endpoint errors as RFC 6749 error bodies instead of
+ *    problem details, and authorization endpoint errors as an HTML page
+ * 4. Registers POST /token and GET/POST /authorize
+ *
+ * The routes are public (PUBLIC_ROUTES): token callers authenticate as a
+ * client (client_id and client_secret), not with an access token; the
+ * authorization page asks the user to sign in.
+ *
+ * Both the body parser and the error handlers are set on this plugin's
+ * own (encapsulated) context: the rest of the API keeps JSON bodies and
+ * problem details.
+ *
+ * @module oauth.routes
+ * @see {@link oauth.controller.ts} for the endpoint handler
+ * @see {@link oauth.service.ts} for the grants
+ */
+
+import { FastifyError, FastifyInstance, FastifyReply, FastifyRequest } from 'fastify'
+import { toViolations } from '../../plugins/error-handler.plugin'
+import { PasswordHasher } from '../users/password.hasher'
+import { renderErrorPage } from './authorize-page'
+import { NO_STORE_HEADERS, OAuthController, PAGE_HEADERS } from './oauth.controller'
+import { InvalidRequestError, OAuthError } from './oauth.errors'
+import { authorizePageSchema, authorizeSchema, FORM_CONTENT_TYPE, tokenSchema } from './oauth.schemas'
+import { OAuthService } from './oauth.service'
+import { AuthorizeForm, AuthorizeRequest, OAuthErrorResponse, TokenRequest } from './oauth.types'
+
+/**
+ * Parse a form-urlencoded body into an object of strings
+ *
+ * RFC 6749 section 3.2: request parameters must not be repeated.
+ *
+ * @param {string} body - Raw request body
+ * @returns {Record<string, string>}
+ * @throws {InvalidRequestError} If a parameter is repeated
+ */
+function parseForm(body: string): Record<string, string> {
+    const params: Record<string, string> = {}
+    for (const [name, value] of new URLSearchParams(body)) {
+        if (Object.hasOwn(params, name)) {
+            throw new InvalidRequestError(`Parameter ${name} is repeated`)
+        }
+        params[name] = value
+    }
+    return params
+}
+
+/**
+ * Translate a thrown error into an OAuthError
+ *
+ * @param {FastifyError} err - Error thrown by the parser, validation or the handler
+ * @returns {OAuthError | null} null for errors the global handler should render
+ */
+function toOAuthError(err: FastifyError): OAuthError | null {
+    if (err instanceof OAuthError) {
+        return err
+    }
+    if (err.validation) {
+        const messages = toViolations(err.validation, err.validationContext).map(violation => violation.message)
+        return new InvalidRequestError(messages.join('; '))
+    }
+
+    // Rejected by Fastify before the handler: not form-encoded (415), too large (413), ...
+    if (err.statusCode && err.statusCode >= 400 && err.statusCode < 500) {
+        return new OAuthError(err.statusCode, 'invalid_request', err.message)
+    }
+    return null
+}
+
+/**
+ * Register the OAuth routes
+ *
+ * Called during app initialization: app.register(oauthRoutes, { prefix: '/api/v1/oauth' })
+ *
+ * Routes Registered:
+ * 1. POST /token - Public (PUBLIC_ROUTES), client authentication required
+ * 2. GET /authorize - Public (PUBLIC_ROUTES), login/consent page
+ * 3. POST /authorize - Public (PUBLIC_ROUTES), submitted login/consent page
+ *
+ * @async
+ * @param {FastifyInstance} app - Fastify application instance
+ * @returns {Promise<void>}
+ *
+ * @example
+ * // Usage in app.ts
+ * app.register(oauthRoutes, { prefix: '/api/v1/oauth' });
+ * // POST http://localhost:3000/api/v1/oauth/token
+ */
+export async function oauthRoutes(app: FastifyInstance) {
+    /**
+     * Create OAuthService and OAuthController
+     *
+     * Depends on:
+     * - app.oauthClients: registered clients (decorated by oauth.plugin)
+     * - app.oauthCodes: authorization codes (decorated by oauth.plugin)
+     * - PasswordHasher: verifies client secrets (scrypt, like passwords)
+     * - app.authService: user sign-in, sessions and refresh_token rotation (decorated by auth.plugin)
+     * - app.auditLog: client authentication failures, authorizations, client_credentials tokens
+     */
+    const service = new OAuthService(
+        app,
+        app.oauthClients,
+        app.oauthCodes,
+        new PasswordHasher(),
+        app.authService,
+        app.auditLog
+    )
+    const controller = new OAuthController(service)
+
+    /**
+     * Body parsing: form-urlencoded only
+     *
+     * RFC 6749 token requests and the login/consent page are
+     * form-encoded; JSON and every other media type are answered with
+     * 415 invalid_request.
+     */
+    app.removeAllContentTypeParsers()
+    app.addContentTypeParser(FORM_CONTENT_TYPE, { parseAs: 'string' }, (request, body, done) => {
+        try {
+            done(null, parseForm(body as string))
+        } catch (err) {
+            done(err as Error, undefined)
+        }
+    })
+
+    /**
+     * Errors: RFC 6749 error bodies
+     *
+     * OAuthErrors, schema validation failures and Fastify's own 4xx
+     * become { error, error_description }; anything else (bugs, outages)
+     * is passed on to the global handler (500 internal_error).
+     */
+    app.setErrorHandler((err: FastifyError, request: FastifyRequest, reply: FastifyReply) => {
+        const error = toOAuthError(err)
+        if (!error) {
+            throw err
+        }
+
+        const body: OAuthErrorResponse = { error: error.error, error_description: error.message }
+        return reply.code(error.statusCode).headers({ ...NO_STORE_HEADERS, ...error.headers }).send(body)
+    })
+
+    /**
+     * Route: POST /oauth/token
+     *
+     * Public endpoint - client authentication instead of an access token
+     * Grants: password, refresh_token, client_credentials, authorization_code
+     *
+     * Status Codes:
+     * - 200 OK: Tokens issued
+     * - 400 Bad Request: invalid_request, invalid_grant, unauthorized_client,
+     *   unsupported_grant_type, invalid_scope
+     * - 401 Unauthorized: invalid_client
+     */
+    app.post<{ Body: TokenRequest }>('/token', { schema: tokenSchema }, controller.token)
+
+    /**
+     * Authorization endpoint: its own context, for its error handler
+     *
+     * Errors that reach the handler are the ones that can't be sent back
+     * to the client (unknown client_id, unregistered redirect_uri,
+     * malformed query or form): they are shown on an error page rather
+     * than redirected. Unexpected errors fall through to the global
+     * handler (500).
+     */
+    await app.register(async authorizeRoutes => {
+        authorizeRoutes.setErrorHandler((err: FastifyError, request: FastifyRequest, reply: FastifyReply) => {
+            const error = toOAuthError(err)
+            if (!error) {
+                throw err
+            }
+            return reply.code(error.statusCode).headers(PAGE_HEADERS).send(renderErrorPage(error.message))
+        })
+
+        /**
+         * Route: GET /oauth/authorize
+         *
+         * Public endpoint - opened in the user's browser
+         *
+         * Status Codes:
+         * - 200 OK: Login/consent page
+         * - 302 Found: Error redirect to redirect_uri
+         * - 400 Bad Request: Error page
+         */
+        authorizeRoutes.get<{ Querystring: AuthorizeRequest }>(
+            '/authorize',
+            { schema: authorizePageSchema },
+            controller.authorizePage
+        )
+
+        /**
+         * Route: POST /oauth/authorize
+         *
+         * Public endpoint - the user signs in on the form
+         *
+         * Status Codes:
+         * - 302 Found: Redirect to redirect_uri with code (or access_denied)
+         * - 200 OK: Two-factor step
+         * - 400/401/403/429: The page again with the error, or the error page
+         */
+        authorizeRoutes.post<{ Body: AuthorizeForm }>('/authorize', { schema: authorizeSchema }, controller.authorize)
+    })
+}
@@ -0,0 +1,144 @@
+/**
+ * OAuth Route Schemas
+ *
+ * Fastify route schemas of POST /oauth/token and GET/POST /oauth/authorize,
+ * assembled from the TypeBox schemas in oauth.types.ts.
+ *
+ * Requests:
+ * - application/x-www-form-urlencoded only (parsed in oauth.routes.ts)
+ * - A missing grant_type or a malformed body is answered with
+ *   400 invalid_request by the OAuth error handler, not validation_failed
+ *
+ * Responses:
+ * - 200 is the RFC 6749 token response
+ * - Errors are RFC 6749 error bodies (application/json), not problem
+ *   details: OAuth client libraries parse { error, error_description }
+ * - /oauth/authorize answers with HTML pages and redirects; its errors
+ *   are error pages or redirects back to the client
+ *
+ * @module oauth.schemas
+ * @see {@link oauth.types.ts} for the schemas and types
+ * @see {@link oauth.routes.ts} for where they are attached
+ */
+
+import { FastifySchema } from 'fastify'
+import { Type } from '@sinclair/typebox'
+import {
+    AuthorizeFormSchema,
+    AuthorizeRequestSchema,
+    OAuthErrorResponseSchema,
+    OAuthTokenResponseSchema,
+    TokenRequestSchema
+} from './oauth.types'
+
+/**
+ * Media type of token requests (RFC 6749 section 4.3.2, 4.4.2, 6)
+ */
+export const FORM_CONTENT_TYPE = 'application/x-www-form-urlencoded'
+
+/**
+ * Route response schema for an OAuth error status
+ *
+ * @param {string} description - When this status is returned
+ * @returns {object} Fastify response schema entry
+ */
+function oauthErrorResponse(description: string) {
+    return {
+        description,
+        content: {
+            'application/json': { schema: OAuthErrorResponseSchema }
+        }
+    }
+}
+
+/**
+ * Route response schema for an HTML page
+ *
+ * @param {string} description - When this page is shown
+ * @returns {object} Fastify response schema entry
+ */
+function htmlResponse(description: string) {
+    return {
+        description,
+        content: {
+            'text/html': { schema: Type.String() }
+        }
+    }
+}
+
+/**
+ * Redirect back to the client's redirect_uri
+ */
+const redirectResponse = {
+    description: 'Redirect to redirect_uri with code and state, or with error, error_description and state',
+    type: 'null'
+}
+
+/**
+ * POST /oauth/token
+ *
+ * The Authorization header is optional: clients may send client_id and
+ * client_secret in the body instead (never both).
+ */
+export const tokenSchema = {
+    tags: ['oauth'],
+    operationId: 'oauthToken',
+    summary: 'Get tokens with an OAuth 2.0 grant',
+    description: 'grant_type password, refresh_token, client_credentials or authorization_code. ' +
+        'Authenticate the client with HTTP Basic or client_id and client_secret in the body; ' +
+        'public clients send client_id alone.',
+    consumes: [FORM_CONTENT_TYPE],
+    security: [{ oauthClient: [] }],
+    headers: Type.Object({
+        authorization: Type.Optional(Type.String({ description: 'Basic base64(client_id:client_secret)' }))
+    }),
+    body: TokenRequestSchema,
+    response: {
+        200: OAuthTokenResponseSchema,
+        400: oauthErrorResponse('invalid_request, invalid_grant, unauthorized_client, unsupported_grant_type or invalid_scope'),
+        401: oauthErrorResponse('invalid_client: unknown client, wrong secret or no client authentication')
+    }
+} satisfies FastifySchema
+
+/**
+ * GET /oauth/authorize
+ *
+ * Opened in the user's browser by the client, not called by API clients.
+ */
+export const authorizePageSchema = {
+    tags: ['oauth'],
+    operationId: 'oauthAuthorize',
+    summary: 'Start the authorization code flow (login/consent page)',
+    description: 'response_type=code with PKCE (code_challenge_method=S256). ' +
+        'Shows the sign-in page; errors are redirected to redirect_uri once client_id and redirect_uri are valid.',
+    security: [],
+    querystring: AuthorizeRequestSchema,
+    response: {
+        200: htmlResponse('Login/consent page'),
+        302: redirectResponse,
+        400: htmlResponse('Error page: unknown client_id, unregistered redirect_uri or malformed request')
+    }
+} satisfies FastifySchema
+
+/**
+ * POST /oauth/authorize
+ *
+ * Posted by the login/consent page itself.
+ */
+export const authorizeSchema = {
+    tags: ['oauth'],
+    operationId: 'oauthAuthorizeSubmit',
+    summary: 'Submit the login/consent page',
+    description: 'Signs the user in (password, then TOTP if enabled) and redirects to redirect_uri with an authorization code.',
+    security: [],
+    consumes: [FORM_CONTENT_TYPE],
+    body: AuthorizeFormSchema,
+    response: {
+        200: htmlResponse('Two-factor step of the page'),
+        302: redirectResponse,
+        400: htmlResponse('The page again with the error, or the error page'),
+        401: htmlResponse('The page again: invalid credentials or code'),
+        403: htmlResponse('The page again: account disabled'),
+        429: htmlResponse('The page again: too many failed attempts')
+    }
+} satisfies FastifySchema
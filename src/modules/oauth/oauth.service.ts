@@ -0,0 +1,721 @@
+/**
+ * OAuth Service Module
+ *
+ * Business Logic Layer - OAuth 2.0 Token Endpoint (RFC 6749)
+ *
+ * Lets standard OAuth client libraries and machine-to-machine services
+ * get tokens from POST /oauth/token:
+ * - password: a user's username and password (same checks as /auth/login)
+ * - refresh_token: rotate a refresh token from an earlier grant
+ * - client_credentials: a registered service acts for itself, no user
+ * - authorization_code: exchange a code from /oauth/authorize (with PKCE)
+ *
+ * Every request authenticates the client first (client_id and
+ * client_secret, registered in the OAuthClientRepository; public clients
+ * send client_id alone), then checks the client is allowed the grant type.
+ *
+ * Authorization code flow (RFC 6749 section 4.1, RFC 7636):
+ * 1. The app sends the user's browser to GET /oauth/authorize with its
+ *    client_id, a registered redirect_uri, state, a PKCE code_challenge
+ *    and optionally the scopes it wants
+ * 2. The user signs in on the server-rendered page (password, then TOTP
+ *    if enabled) and, for third-party apps, approves the listed scopes
+ * 3. The browser is redirected to redirect_uri with a short-lived,
+ *    single-use code bound to the client, redirect_uri, code_challenge
+ *    and scopes
+ * 4. The app exchanges the code plus its code_verifier at POST /oauth/token
+ *
+ * Errors before the client and redirect_uri are known to be valid are
+ * shown on an error page, never redirected: an attacker must not be able
+ * to bounce users to an arbitrary URI.
+ *
+ * User grants and the sign-in page reuse AuthService: throttling, disabled
+ * accounts, two-factor checks, rotation and reuse detection, sessions and
+ * audit events all behave as for /auth/login and /auth/refresh. The session is bound to the client:
+ * only that client can refresh it (and /auth/refresh can't).
+ *
+ * Token types:
+ * - Access tokens are the same JWTs as everywhere else; client_credentials
+ *   tokens have sub "client:<clientId>", no session, no roles and the
+ *   granted scopes as permissions
+ * - Scopes: a grant gets the scopes it asks for, within the client's
+ *   registered scopes (all of them if it asks for none). A user's tokens
+ *   carry only the user's permissions within those scopes, and only the
+ *   roles whose permissions the scopes fully cover
+ * - client_credentials returns no refresh token (RFC 6749 section 4.4.3):
+ *   the client simply asks again
+ *
+ * @module oauth.service
+ * @see https://www.rfc-editor.org/rfc/rfc6749
+ */
+
+import { randomBytes, randomUUID } from 'crypto'
+import { FastifyInstance } from 'fastify'
+import { InvalidMfaTokenError, SessionNotFoundError } from '../auth/auth.errors'
+import { AuthService } from '../auth/auth.service'
+import { AccessTokenClaims, ClientContext, TokenResponse } from '../auth/auth.types'
+import { AuditLog } from '../audit/audit-log'
+import { AppError } from '../errors/app-error'
+import { PasswordHasher } from '../users/password.hasher'
+import { IAuthorizationCodeStore } from './authorization-code.store'
+import { AuthorizePage } from './authorize-page'
+import { OAuthClientRepository } from './oauth-client.repository'
+import {
+    AccessDeniedError,
+    InvalidClientError,
+    InvalidGrantError,
+    InvalidRequestError,
+    InvalidScopeError,
+    OAuthError,
+    UnauthorizedClientError,
+    UnsupportedGrantTypeError,
+    UnsupportedResponseTypeError
+} from './oauth.errors'
+import {
+    AuthorizeForm,
+    AuthorizeRequest,
+    ClientCredentials,
+    GRANT_TYPES,
+    GrantType,
+    OAuthClientRecord,
+    OAuthTokenResponse,
+    PUBLIC_CLIENT_GRANT_TYPES,
+    TokenRequest
+} from './oauth.types'
+import { CODE_CHALLENGE_METHOD, isValidCodeChallenge, verifyCodeVerifier } from './pkce'
+
+/**
+ * Prefix of the sub claim of client_credentials access tokens
+ * Usernames can't contain ":", so a client never impersonates a user
+ */
+export const CLIENT_SUBJECT_PREFIX = 'client:'
+
+/**
+ * Result of an /oauth/authorize request: a page to show, or a redirect
+ * back to the client (with code and state, or error and state)
+ */
+export type AuthorizeOutcome =
+    | { page: AuthorizePage, statusCode?: number }
+    | { redirectTo: string }
+
+/**
+ * OAuth Service Class
+ *
+ * @class OAuthService
+ *
+ * @example
+ * const service = new OAuthService(
+ *   app, app.oauthClients, app.oauthCodes, new PasswordHasher(), app.authService, app.auditLog
+ * );
+ * const tokens = await service.token(
+ *   { grant_type: 'client_credentials', scope: 'users:read' },
+ *   { clientId: 'billing-service', clientSecret: '...' },
+ *   { ip: request.ip }
+ * );
+ */
+export class OAuthService {
+    /**
+     * Hash verified for unknown client ids, so response times don't reveal
+     * which ids exist (computed on first use)
+     */
+    private dummyHash: Promise<string> | null = null
+
+    /**
+     * Constructor - Dependency Injection
+     *
+     * @param {FastifyInstance} app - Fastify instance (JWT signing, app.config)
+     * @param {OAuthClientRepository} clients - Registered clients
+     * @param {IAuthorizationCodeStore} codes - Authorization codes issued by /oauth/authorize
+     * @param {PasswordHasher} hasher - Verifies client secrets
+     * @param {AuthService} authService - User logins, sessions and refresh token rotation
+     * @param {AuditLog} auditLog - Security audit events
+     */
+    constructor(
+        private app: FastifyInstance,
+        private clients: OAuthClientRepository,
+        private codes: IAuthorizationCodeStore,
+        private hasher: PasswordHasher,
+        private authService: AuthService,
+        private auditLog: AuditLog
+    ) {}
+
+    /**
+     * Handle a token request
+     *
+     * Flow:
+     * 1. Authenticate the client (invalid_client)
+     * 2. Check the grant type is supported (unsupported_grant_type) and
+     *    allowed for this client (unauthorized_client; public clients
+     *    only get authorization_code and refresh_token)
+     * 3. Run the grant
+     *
+     * @async
+     * @param {TokenRequest} request - Form parameters
+     * @param {ClientCredentials | null} credentials - From the Basic header or the form, null if none
+     * @param {ClientContext} client - Caller facts (throttling, sessions, auditing)
+     * @returns {Promise<OAuthTokenResponse>}
+     * @throws {OAuthError} invalid_request, invalid_client, invalid_grant,
+     *   unauthorized_client, unsupported_grant_type or invalid_scope
+     */
+    async token(request: TokenRequest, credentials: ClientCredentials | null, client: ClientContext): Promise<OAuthTokenResponse> {
+        // Step 1: Authenticate the client
+        const oauthClient = await this.authenticateClient(credentials, client)
+        const context: ClientContext = { ...client, oauthClientId: oauthClient.clientId }
+
+        // Step 2: Check the grant type
+        const grantType = request.grant_type
+        if (!isGrantType(grantType)) {
+            throw new UnsupportedGrantTypeError(grantType)
+        }
+        if (!oauthClient.grantTypes.includes(grantType) ||
+            (!oauthClient.secretHash && !PUBLIC_CLIENT_GRANT_TYPES.includes(grantType))) {
+            this.auditLog.record({
+                type: 'oauth.client_auth',
+                outcome: 'failure',
+                subject: `${CLIENT_SUBJECT_PREFIX}${oauthClient.clientId}`,
+                client,
+                reason: 'grant_not_allowed',
+                details: { grantType }
+            })
+            throw new UnauthorizedClientError(grantType)
+        }
+
+        // Step 3: Run the grant
+        switch (grantType) {
+            case 'password':
+                return this.passwordGrant(request, oauthClient, context)
+            case 'refresh_token':
+                return this.refreshTokenGrant(request, context)
+            case 'client_credentials':
+                return this.clientCredentialsGrant(request, oauthClient, client)
+            case 'authorization_code':
+                return this.authorizationCodeGrant(request, context)
+        }
+    }
+
+    /**
+     * Handle GET /oauth/authorize: show the login/consent page
+     *
+     * Flow:
+     * 1. Check client_id and redirect_uri (error page)
+     * 2. Check response_type, the client's grants, PKCE and scope
+     *    (redirect back to the client with error and state)
+     * 3. Show the sign-in step, with the scopes asked for
+     *
+     * @async
+     * @param {AuthorizeRequest} request - Query parameters
+     * @returns {Promise<AuthorizeOutcome>}
+     * @throws {InvalidRequestError} If the client or redirect_uri is unknown
+     */
+    async authorizePage(request: AuthorizeRequest): Promise<AuthorizeOutcome> {
+        const { oauthClient, redirectUri } = await this.resolveClient(request)
+
+        const error = checkAuthorizeRequest(request, oauthClient)
+        if (error) {
+            return { redirectTo: redirectWithError(redirectUri, error, request.state) }
+        }
+        return {
+            page: { client: oauthClient, request: authorizeRequestOf(request), scopes: grantScopes(request.scope, oauthClient), step: 'password' }
+        }
+    }
+
+    /**
+     * Handle POST /oauth/authorize: the login/consent form was submitted
+     *
+     * Flow:
+     * 1. Same request checks as authorizePage()
+     * 2. decision=deny: redirect with access_denied
+     * 3. Check the credentials with AuthService:
+     *    - password step: authenticate(); TOTP users get the mfa step
+     *    - mfa step: authenticateMfa()
+     *    - Failures (wrong password, locked, disabled, wrong code) show
+     *      the page again with the message
+     * 4. Issue an authorization code, bound to the scopes shown on the
+     *    page, and redirect with code and state
+     *
+     * No session starts here: it starts when the client exchanges the code.
+     *
+     * @async
+     * @param {AuthorizeForm} form - Hidden request fields and the user's input
+     * @param {ClientContext} client - Browser facts (throttling, auditing)
+     * @returns {Promise<AuthorizeOutcome>}
+     * @throws {InvalidRequestError} If the client or redirect_uri is unknown
+     */
+    async authorize(form: AuthorizeForm, client: ClientContext): Promise<AuthorizeOutcome> {
+        // Step 1: Validate the authorization request
+        const { oauthClient, redirectUri } = await this.resolveClient(form)
+        const error = checkAuthorizeRequest(form, oauthClient)
+        if (error) {
+            return { redirectTo: redirectWithError(redirectUri, error, form.state) }
+        }
+        const request = authorizeRequestOf(form)
+        const scopes = grantScopes(request.scope, oauthClient)
+        const page: AuthorizePage = { client: oauthClient, request, scopes, step: 'password', username: form.username }
+
+        // Step 2: The user declined (third-party consent)
+        if (form.decision === 'deny') {
+            this.auditLog.record({
+                type: 'oauth.authorize',
+                outcome: 'failure',
+                subject: form.username,
+                client,
+                reason: 'access_denied',
+                details: { clientId: oauthClient.clientId }
+            })
+            return { redirectTo: redirectWithError(redirectUri, new AccessDeniedError(), form.state) }
+        }
+        if (form.decision !== 'allow') {
+            return { page: { ...page, error: 'Choose whether to allow access' }, statusCode: 400 }
+        }
+
+        // Step 3: Check the credentials
+        let username: string
+        try {
+            if (form.mfa_token !== undefined) {
+                ({ username } = await this.authService.authenticateMfa(
+                    { mfaToken: form.mfa_token, code: form.code ?? '' },
+                    client
+                ))
+            } else {
+                const result = await this.authService.authenticate(
+                    { username: form.username ?? '', password: form.password ?? '' },
+                    client
+                )
+                if ('mfaRequired' in result) {
+                    return { page: { ...page, step: 'mfa', mfaToken: result.mfaToken } }
+                }
+                username = result.username
+            }
+        } catch (err) {
+            if (!(err instanceof AppError)) {
+                throw err
+            }
+            // A wrong code can be retried with the same challenge; an
+            // expired or used challenge means starting over with the password
+            const retryMfa = form.mfa_token !== undefined && !(err instanceof InvalidMfaTokenError)
+            return {
+                page: { ...page, step: retryMfa ? 'mfa' : 'password', mfaToken: retryMfa ? form.mfa_token : undefined, error: err.message },
+                statusCode: err.statusCode
+            }
+        }
+
+        // Step 4: Issue the code
+        // Bound to this client, redirect_uri, code_challenge and scopes
+        const code = await this.codes.issue({
+            clientId: oauthClient.clientId,
+            redirectUri,
+            codeChallenge: request.code_challenge as string,
+            username,
+            scopes
+        })
+        this.auditLog.record({
+            type: 'oauth.authorize',
+            outcome: 'success',
+            subject: username,
+            client,
+            details: { clientId: oauthClient.clientId, scopes }
+        })
+        return { redirectTo: redirectWith(redirectUri, { code, state: form.state }) }
+    }
+
+    /**
+     * password grant (RFC 6749 section 4.3)
+     *
+     * Runs AuthService.login(): its errors become invalid_grant, keeping
+     * the detail and the Retry-After of a locked account. Accounts with
+     * TOTP enabled can't use this grant - a password alone isn't enough.
+     *
+     * Scope: a subset of the client's registered scopes (invalid_scope
+     * otherwise); none requested means all of them. The session's tokens
+     * carry only the user's permissions within these scopes, on every
+     * refresh too.
+     *
+     * @private
+     * @param {TokenRequest} request - username, password and scope
+     * @param {OAuthClientRecord} oauthClient - Authenticated client
+     * @param {ClientContext} context - Caller facts, with the authenticated client
+     * @returns {Promise<OAuthTokenResponse>}
+     */
+    private async passwordGrant(
+        request: TokenRequest,
+        oauthClient: OAuthClientRecord,
+        context: ClientContext
+    ): Promise<OAuthTokenResponse> {
+        if (!request.username || !request.password) {
+            throw new InvalidRequestError('username and password are required')
+        }
+        const scopes = grantScopes(request.scope, oauthClient)
+
+        const result = await toInvalidGrant(this.authService.login({
+            username: request.username,
+            password: request.password
+        }, context, scopes))
+        if (!('refreshToken' in result)) {
+            throw new InvalidGrantError('Two-factor authentication is required: log in with POST /auth/login')
+        }
+        return this.toTokenResponse(result)
+    }
+
+    /**
+     * refresh_token grant (RFC 6749 section 6)
+     *
+     * Runs AuthService.refresh() with the client bound: a refresh token
+     * issued to another client (or by /auth/login) is invalid_grant.
+     *
+     * @private
+     * @param {TokenRequest} request - refresh_token
+     * @param {ClientContext} context - Caller facts, with the authenticated client
+     * @returns {Promise<OAuthTokenResponse>}
+     */
+    private async refreshTokenGrant(request: TokenRequest, context: ClientContext): Promise<OAuthTokenResponse> {
+        if (!request.refresh_token) {
+            throw new InvalidRequestError('refresh_token is required')
+        }
+
+        const tokens = await toInvalidGrant(this.authService.refresh(request.refresh_token, context))
+        return this.toTokenResponse(tokens)
+    }
+
+    /**
+     * authorization_code grant (RFC 6749 section 4.1.3, RFC 7636 section 4.5)
+     *
+     * Flow:
+     * 1. Consume the code (single use)
+     *    - A second exchange of the same code revokes the session the
+     *      first one started: the code has leaked (RFC 6749 section 4.1.2)
+     * 2. Check it was issued to this client, for this redirect_uri, and
+     *    that code_verifier matches its code_challenge (PKCE)
+     * 3. Start the session with AuthService, bound to the client and the
+     *    scopes granted with the code, and record it with the code
+     *    - If the code was presented again while the session was being
+     *      started (the replay found no session to revoke), revoke it
+     *      here instead
+     *
+     * Every failure is invalid_grant, audited as oauth.authorization_code.
+     *
+     * @private
+     * @param {TokenRequest} request - code, redirect_uri and code_verifier
+     * @param {ClientContext} context - Caller facts, with the authenticated client
+     * @returns {Promise<OAuthTokenResponse>}
+     */
+    private async authorizationCodeGrant(request: TokenRequest, context: ClientContext): Promise<OAuthTokenResponse> {
+        if (!request.code || !request.redirect_uri || !request.code_verifier) {
+            throw new InvalidRequestError('code, redirect_uri and code_verifier are required')
+        }
+        const clientId = context.oauthClientId
+        const fail = (reason: string, message: string, username?: string): never => {
+            this.auditLog.record({
+                type: 'oauth.authorization_code',
+                outcome: 'failure',
+                subject: username,
+                client: context,
+                reason,
+                details: { clientId }
+            })
+            throw new InvalidGrantError(message)
+        }
+        const revoke = (username: string, sessionId: string): Promise<void> =>
+            this.authService.revokeSession(username, sessionId, context).catch(err => {
+                // Already signed out
+                if (!(err instanceof SessionNotFoundError)) {
+                    throw err
+                }
+            })
+
+        // Step 1: Consume the code
+        const consumed = await this.codes.consume(request.code)
+        if (!consumed) {
+            return fail('invalid_code', 'Invalid or expired authorization code')
+        }
+        const { code, reused } = consumed
+        if (reused) {
+            if (code.sessionId) {
+                await revoke(code.username, code.sessionId)
+            }
+            return fail('code_reuse', 'Invalid or expired authorization code', code.username)
+        }
+
+        // Step 2: Check the binding
+        if (code.clientId !== clientId) {
+            return fail('client_mismatch', 'Invalid or expired authorization code', code.username)
+        }
+        if (code.redirectUri !== request.redirect_uri) {
+            return fail('redirect_uri_mismatch', 'redirect_uri does not match the authorization request', code.username)
+        }
+        if (!verifyCodeVerifier(request.code_verifier, code.codeChallenge)) {
+            return fail('pkce_mismatch', 'code_verifier does not match the code_challenge', code.username)
+        }
+
+        // Step 3: Start the session
+        // Remember it, so that a later replay of the code can revoke it
+        const tokens = await toInvalidGrant(this.authService.startAuthorizedSession(code.username, context, code.scopes, { clientId }))
+        const response = this.toTokenResponse(tokens)
+        const sessionId = this.app.jwt.decode<{ payload: AccessTokenClaims }>(tokens.accessToken)?.payload.sid
+        if (sessionId && await this.codes.recordSession(request.code, sessionId)) {
+            await revoke(code.username, sessionId)
+            return fail('code_reuse', 'Invalid or expired authorization code', code.username)
+        }
+        return response
+    }
+
+    /**
+     * client_credentials grant (RFC 6749 section 4.4)
+     *
+     * Scope: a space-separated subset of the client's registered scopes;
+     * none requested means all of them. The granted scopes become the
+     * access token's permissions, so routes protect themselves with
+     * app.requirePermission() exactly as for users.
+     *
+     * @private
+     * @param {TokenRequest} request - scope
+     * @param {OAuthClientRecord} oauthClient - Authenticated client
+     * @param {ClientContext} client - Caller facts, for the audit event
+     * @returns {OAuthTokenResponse}
+     */
+    private clientCredentialsGrant(request: TokenRequest, oauthClient: OAuthClientRecord, client: ClientContext): OAuthTokenResponse {
+        const scopes = grantScopes(request.scope, oauthClient)
+
+        const subject = `${CLIENT_SUBJECT_PREFIX}${oauthClient.clientId}`
+        const expiresIn = this.app.config.ACCESS_TOKEN_TTL_SECONDS
+        const accessToken = this.app.jwt.sign(
+            {
+                sub: subject,
+                jti: randomUUID(),
+                token_use: 'access',
+                roles: [],
+                permissions: scopes,
+                client_id: oauthClient.clientId,
+                scope: scopes.join(' ')
+            },
+            { ...this.app.jwtKeys.signOptions, expiresIn }
+        )
+        this.auditLog.record({
+            type: 'oauth.client_credentials',
+            outcome: 'success',
+            subject,
+            client,
+            details: { scopes }
+        })
+
+        return {
+            access_token: accessToken,
+            token_type: 'Bearer',
+            expires_in: expiresIn,
+            scope: scopes.join(' ')
+        }
+    }
+
+    /**
+     * Check client_id and client_secret against the registered clients
+     *
+     * Unknown ids are verified against a dummy hash, so they take as long
+     * as a wrong secret. Public clients (no secret registered) are
+     * identified by client_id alone and must not send a secret. Failures
+     * are audited as oauth.client_auth.
+     *
+     * @private
+     * @param {ClientCredentials | null} credentials - Presented credentials
+     * @param {ClientContext} client - Caller facts, for the audit event
+     * @returns {Promise<OAuthClientRecord>} The authenticated client
+     * @throws {InvalidClientError} If credentials are missing or wrong
+     */
+    private async authenticateClient(credentials: ClientCredentials | null, client: ClientContext): Promise<OAuthClientRecord> {
+        if (!credentials) {
+            this.auditLog.record({ type: 'oauth.client_auth', outcome: 'failure', client, reason: 'no_credentials' })
+            throw new InvalidClientError()
+        }
+
+        const oauthClient = await this.clients.findById(credentials.clientId)
+        let reason: string | null
+        if (oauthClient && !oauthClient.secretHash) {
+            reason = credentials.clientSecret === undefined ? null : 'unexpected_secret'
+        } else {
+            const secretHash = oauthClient?.secretHash ?? await this.getDummyHash()
+            const secretValid = credentials.clientSecret !== undefined &&
+                await this.hasher.verify(credentials.clientSecret, secretHash)
+            reason = !oauthClient ? 'unknown_client' : secretValid ? null : 'invalid_secret'
+        }
+
+        if (!oauthClient || reason) {
+            this.auditLog.record({
+                type: 'oauth.client_auth',
+                outcome: 'failure',
+                subject: `${CLIENT_SUBJECT_PREFIX}${credentials.clientId}`,
+                client,
+                reason: reason ?? 'unknown_client'
+            })
+            throw new InvalidClientError()
+        }
+        return oauthClient
+    }
+
+    /**
+     * Convert AuthService tokens to the RFC 6749 response
+     *
+     * scope lists the scopes granted to the client (RFC 6749 section 5.1),
+     * read from the access token: for a refresh they are the session's.
+     * The token's permissions are the user's within them, and may be
+     * fewer.
+     *
+     * @private
+     * @param {TokenResponse} tokens - Tokens from login() or refresh()
+     * @returns {OAuthTokenResponse}
+     */
+    private toTokenResponse(tokens: TokenResponse): OAuthTokenResponse {
+        // The app decodes complete tokens (header, payload, signature)
+        const claims = this.app.jwt.decode<{ payload: AccessTokenClaims }>(tokens.accessToken)?.payload
+
+        return {
+            access_token: tokens.accessToken,
+            token_type: 'Bearer',
+            expires_in: this.app.config.ACCESS_TOKEN_TTL_SECONDS,
+            refresh_token: tokens.refreshToken,
+            scope: claims?.scope ?? ''
+        }
+    }
+
+    /**
+     * Find the client of an authorization request and check its redirect_uri
+     *
+     * redirect_uri must be one of the client's registered URIs, compared
+     * exactly (no prefix or pattern matching). Until both are known to be
+     * valid, errors can't be sent back to the client: the routes show
+     * them on an error page instead.
+     *
+     * @private
+     * @param {AuthorizeRequest} request - client_id and redirect_uri
+     * @returns {Promise<object>} The client and the validated redirect URI
+     * @throws {InvalidRequestError} If client_id or redirect_uri is missing, unknown or not registered
+     */
+    private async resolveClient(request: AuthorizeRequest): Promise<{ oauthClient: OAuthClientRecord, redirectUri: string }> {
+        if (!request.client_id) {
+            throw new InvalidRequestError('client_id is required')
+        }
+        const oauthClient = await this.clients.findById(request.client_id)
+        if (!oauthClient) {
+            throw new InvalidRequestError('Unknown client_id')
+        }
+        if (!request.redirect_uri || !oauthClient.redirectUris.includes(request.redirect_uri)) {
+            throw new InvalidRequestError('redirect_uri is missing or not registered for this client')
+        }
+        return { oauthClient, redirectUri: request.redirect_uri }
+    }
+
+    /**
+     * Lazily compute the dummy hash used for unknown client ids
+     *
+     * @private
+     * @returns {Promise<string>} Encoded hash of a random secret
+     */
+    private getDummyHash(): Promise<string> {
+        if (!this.dummyHash) {
+            this.dummyHash = this.hasher.hash(randomBytes(32).toString('hex'))
+        }
+        return this.dummyHash
+    }
+}
+
+/**
+ * Narrow a grant_type parameter to the supported grants
+ */
+function isGrantType(value: string): value is GrantType {
+    return (GRANT_TYPES as readonly string[]).includes(value)
+}
+
+/**
+ * Check the parts of an authorization request that are reported back to
+ * the client (RFC 6749 section 4.1.2.1)
+ *
+ * @returns The error to redirect with, or null if the request is valid
+ */
+function checkAuthorizeRequest(request: AuthorizeRequest, oauthClient: OAuthClientRecord): OAuthError | null {
+    if (request.response_type !== 'code') {
+        return request.response_type
+            ? new UnsupportedResponseTypeError(request.response_type)
+            : new InvalidRequestError('response_type is required')
+    }
+    if (!oauthClient.grantTypes.includes('authorization_code')) {
+        return new UnauthorizedClientError('authorization_code')
+    }
+    if (!request.code_challenge || !isValidCodeChallenge(request.code_challenge)) {
+        return new InvalidRequestError('code_challenge is required (PKCE)')
+    }
+    if (request.code_challenge_method !== CODE_CHALLENGE_METHOD) {
+        return new InvalidRequestError(`code_challenge_method must be ${CODE_CHALLENGE_METHOD}`)
+    }
+    const denied = parseScope(request.scope).filter(entry => !oauthClient.scopes.includes(entry))
+    if (denied.length > 0) {
+        return new InvalidScopeError(denied)
+    }
+    return null
+}
+
+/**
+ * Keep only the authorization request parameters of a form (not the
+ * password or code the user typed), to carry them to the next step
+ */
+function authorizeRequestOf(form: AuthorizeRequest): AuthorizeRequest {
+    const { response_type, client_id, redirect_uri, state, scope, code_challenge, code_challenge_method } = form
+    return { response_type, client_id, redirect_uri, state, scope, code_challenge, code_challenge_method }
+}
+
+/**
+ * Append query parameters to a redirect URI (undefined values are skipped)
+ */
+function redirectWith(redirectUri: string, params: Record<string, string | undefined>): string {
+    const url = new URL(redirectUri)
+    for (const [name, value] of Object.entries(params)) {
+        if (value !== undefined) {
+            url.searchParams.set(name, value)
+        }
+    }
+    return url.toString()
+}
+
+/**
+ * Redirect URI reporting an authorization error to the client
+ */
+function redirectWithError(redirectUri: string, error: OAuthError, state: string | undefined): string {
+    return redirectWith(redirectUri, { error: error.error, error_description: error.message, state })
+}
+
+/**
+ * Work out the scopes granted to a client for a scope parameter
+ *
+ * @param scope Requested scopes, space-separated; none means all of the client's
+ * @param oauthClient Client asking for them
+ * @returns The granted scopes
+ * @throws {InvalidScopeError} If a requested scope isn't registered for the client
+ */
+function grantScopes(scope: string | undefined, oauthClient: OAuthClientRecord): string[] {
+    const requested = parseScope(scope)
+    const denied = requested.filter(entry => !oauthClient.scopes.includes(entry))
+    if (denied.length > 0) {
+        throw new InvalidScopeError(denied)
+    }
+    return requested.length > 0 ? requested : oauthClient.scopes
+}
+
+/**
+ * Split a scope parameter ("a b  c") into its distinct scopes
+ */
+function parseScope(scope: string | undefined): string[] {
+    return Array.from(new Set((scope ?? '').split(' ').filter(Boolean)))
+}
+
+/**
+ * Await an AuthService call, reporting its AppErrors as invalid_grant
+ *
+ * The detail is kept as error_description; headers (Retry-After of a
+ * locked account) are passed on. Unexpected errors propagate (500).
+ */
+async function toInvalidGrant<T>(operation: Promise<T>): Promise<T> {
+    try {
+        return await operation
+    } catch (err) {
+        if (err instanceof AppError) {
+            throw new InvalidGrantError(err.message, err.headers)
+        }
+        throw err
+    }
+}
@@ -0,0 +1,241 @@
+/**
+ * OAuth Module Types
+ *
+ * Registered clients and the request/response shapes of the OAuth 2.0
+ * endpoints (RFC 6749): the token endpoint (POST /oauth/token) and the
+ * authorization endpoint (GET/POST /oauth/authorize).
+ *
+ * Field names follow the RFC (snake_case: grant_type, access_token, ...),
+ * not the camelCase of the /auth endpoints: off-the-shelf OAuth client
+ * libraries send and expect exactly these names.
+ *
+ * @module oauth.types
+ * @see https://www.rfc-editor.org/rfc/rfc6749
+ */
+
+import { Static, Type } from '@sinclair/typebox'
+
+/**
+ * Grant types supported by POST /oauth/token
+ *
+ * - password: username and password of a user (RFC 6749 section 4.3)
+ * - refresh_token: exchange a refresh token from an earlier grant (section 6)
+ * - client_credentials: the client acts for itself, no user (section 4.4)
+ * - authorization_code: exchange a code from /oauth/authorize, with PKCE
+ *   (section 4.1, RFC 7636)
+ */
+export const GRANT_TYPES = ['password', 'refresh_token', 'client_credentials', 'authorization_code'] as const
+
+/**
+ * @typedef {'password' | 'refresh_token' | 'client_credentials' | 'authorization_code'} GrantType
+ */
+export type GrantType = typeof GRANT_TYPES[number]
+
+/**
+ * Grants a public client (no client secret) may use
+ *
+ * password and client_credentials need a client that can keep a secret;
+ * a public client proves itself with PKCE instead.
+ */
+export const PUBLIC_CLIENT_GRANT_TYPES: readonly GrantType[] = ['authorization_code', 'refresh_token']
+
+/**
+ * Stored OAuth Client
+ *
+ * A service or application allowed to call POST /oauth/token.
+ *
+ * Properties:
+ * - clientId: Unique client identifier (lookup key), sent as client_id
+ * - name: Human-readable label (logs, admin tooling, the consent page)
+ * - secretHash: The client secret, hashed by PasswordHasher (never stored
+ *   in clear). Absent for public clients (browser and mobile apps), which
+ *   can't keep a secret: they only identify themselves with client_id and
+ *   may only use authorization_code (with PKCE) and refresh_token
+ * - grantTypes: Grants the client may use; others are unauthorized_client
+ * - scopes: Scopes the client may request. client_credentials tokens carry
+ *   them as permissions; user tokens (password, authorization_code) carry
+ *   the user's permissions within them
+ * - redirectUris: Exact URIs /oauth/authorize may send the user back to
+ *   (authorization_code)
+ * - firstParty: An app of this service: /oauth/authorize shows a plain
+ *   sign-in page instead of asking the user to approve access
+ * - createdAt: Epoch milliseconds when the client was registered
+ *
+ * @interface OAuthClientRecord
+ *
+ * @example
+ * const client: OAuthClientRecord = {
+ *   clientId: "billing-service",
+ *   name: "Billing",
+ *   secretHash: "scrypt$N=32768,r=8,p=1$c2FsdA$aGFzaA",
+ *   grantTypes: ["client_credentials"],
+ *   scopes: ["users:read"],
+ *   redirectUris: [],
+ *   createdAt: 1705334400000
+ * };
+ */
+export interface OAuthClientRecord {
+    clientId: string;
+    name?: string;
+    secretHash?: string;
+    grantTypes: GrantType[];
+    scopes: string[];
+    redirectUris: string[];
+    firstParty?: boolean;
+    createdAt: number;
+}
+
+/**
+ * Client credentials presented with a token request
+ *
+ * Taken from the Authorization: Basic header or, for clients that can't
+ * set it, from client_id and client_secret in the form body. Public
+ * clients send client_id alone.
+ *
+ * @interface ClientCredentials
+ * @property {string} clientId - client_id
+ * @property {string} [clientSecret] - client_secret (confidential clients)
+ */
+export interface ClientCredentials {
+    clientId: string;
+    clientSecret?: string;
+}
+
+/**
+ * Token Request
+ *
+ * Form body of POST /oauth/token (application/x-www-form-urlencoded).
+ * Which parameters are required depends on grant_type, so the service
+ * checks them; grant_type is any string here so that unknown grants are
+ * answered with unsupported_grant_type rather than a schema error.
+ *
+ * @typedef {object} TokenRequest
+ * @property {string} grant_type - password, refresh_token, client_credentials or authorization_code
+ * @property {string} [username] - password grant
+ * @property {string} [password] - password grant
+ * @property {string} [refresh_token] - refresh_token grant
+ * @property {string} [code] - authorization_code grant: code from /oauth/authorize
+ * @property {string} [redirect_uri] - authorization_code grant: same redirect_uri as the authorization request
+ * @property {string} [code_verifier] - authorization_code grant: PKCE verifier (RFC 7636)
+ * @property {string} [scope] - Space-separated scopes (password, client_credentials; default: all of the client's)
+ * @property {string} [client_id] - Client authentication without the Basic header
+ * @property {string} [client_secret] - Client authentication without the Basic header
+ *
+ * @example
+ * // grant_type=client_credentials&scope=users%3Aread
+ * const request: TokenRequest = { grant_type: "client_credentials", scope: "users:read" };
+ */
+export const TokenRequestSchema = Type.Object({
+    grant_type: Type.String({ minLength: 1 }),
+    username: Type.Optional(Type.String()),
+    password: Type.Optional(Type.String()),
+    refresh_token: Type.Optional(Type.String()),
+    code: Type.Optional(Type.String()),
+    redirect_uri: Type.Optional(Type.String()),
+    code_verifier: Type.Optional(Type.String()),
+    scope: Type.Optional(Type.String()),
+    client_id: Type.Optional(Type.String()),
+    client_secret: Type.Optional(Type.String())
+})
+export type TokenRequest = Static<typeof TokenRequestSchema>
+
+/**
+ * Authorization Request (RFC 6749 section 4.1.1, RFC 7636 section 4.3)
+ *
+ * Query string of GET /oauth/authorize. Every parameter is optional in
+ * the schema: which error to show - an error page, or a redirect back to
+ * the client - depends on which parameter is wrong, so the service
+ * checks them.
+ *
+ * @typedef {object} AuthorizeRequest
+ * @property {string} response_type - Always "code"
+ * @property {string} client_id - Registered client
+ * @property {string} redirect_uri - One of the client's registered redirect URIs
+ * @property {string} [state] - Opaque value echoed back to the client (CSRF protection)
+ * @property {string} [scope] - Space-separated scopes, within the client's (default: all of the client's)
+ * @property {string} code_challenge - base64url(SHA-256(code_verifier))
+ * @property {string} code_challenge_method - Always "S256"
+ *
+ * @example
+ * // GET /oauth/authorize?response_type=code&client_id=demo-client&redirect_uri=...&state=xyz
+ * //     &code_challenge=E9Melhoa2OwvFrEMTJguCHaoeK1t8URWbuGJSstw-cM&code_challenge_method=S256
+ */
+export const AuthorizeRequestSchema = Type.Object({
+    response_type: Type.Optional(Type.String()),
+    client_id: Type.Optional(Type.String()),
+    redirect_uri: Type.Optional(Type.String()),
+    state: Type.Optional(Type.String()),
+    scope: Type.Optional(Type.String()),
+    code_challenge: Type.Optional(Type.String()),
+    code_challenge_method: Type.Optional(Type.String())
+})
+export type AuthorizeRequest = Static<typeof AuthorizeRequestSchema>
+
+/**
+ * Authorization Form
+ *
+ * Form body of POST /oauth/authorize, posted by the login/consent page:
+ * the authorization request (as hidden fields) plus what the user entered.
+ *
+ * @typedef {object} AuthorizeForm
+ * @property {string} [username] - Sign-in step
+ * @property {string} [password] - Sign-in step
+ * @property {string} [mfa_token] - Two-factor step: challenge from the sign-in step
+ * @property {string} [code] - Two-factor step: TOTP or recovery code
+ * @property {string} [decision] - "allow" or "deny" (third-party clients)
+ */
+export const AuthorizeFormSchema = Type.Object({
+    ...AuthorizeRequestSchema.properties,
+    username: Type.Optional(Type.String()),
+    password: Type.Optional(Type.String()),
+    mfa_token: Type.Optional(Type.String()),
+    code: Type.Optional(Type.String()),
+    decision: Type.Optional(Type.String())
+})
+export type AuthorizeForm = Static<typeof AuthorizeFormSchema>
+
+/**
+ * Token Response (RFC 6749 section 5.1)
+ *
+ * @typedef {object} OAuthTokenResponse
+ * @property {string} access_token - Signed JWT access token
+ * @property {'Bearer'} token_type - Always "Bearer"
+ * @property {number} expires_in - Access token lifetime in seconds (ACCESS_TOKEN_TTL_SECONDS)
+ * @property {string} [refresh_token] - Opaque refresh token (password and refresh_token grants)
+ * @property {string} scope - Space-separated scopes granted to the client
+ *
+ * @example
+ * const response: OAuthTokenResponse = {
+ *   access_token: "eyJhbGciOiJIUzI1NiIs...",
+ *   token_type: "Bearer",
+ *   expires_in: 900,
+ *   scope: "users:read"
+ * };
+ */
+export const OAuthTokenResponseSchema = Type.Object({
+    access_token: Type.String(),
+    token_type: Type.Literal('Bearer'),
+    expires_in: Type.Integer(),
+    refresh_token: Type.Optional(Type.String()),
+    scope: Type.String()
+})
+export type OAuthTokenResponse = Static<typeof OAuthTokenResponseSchema>
+
+/**
+ * Error Response (RFC 6749 section 5.2)
+ *
+ * Errors of the token endpoint use this body instead of problem details,
+ * because OAuth client libraries parse it.
+ *
+ * @typedef {object} OAuthErrorResponse
+ * @property {string} error - Error code, e.g. "invalid_grant"
+ * @property {string} [error_description] - Human-readable explanation
+ *
+ * @example
+ * const response: OAuthErrorResponse = { error: "invalid_grant", error_description: "Invalid credentials" };
+ */
+export const OAuthErrorResponseSchema = Type.Object({
+    error: Type.String(),
+    error_description: Type.Optional(Type.String())
+})
+export type OAuthErrorResponse = Static<typeof OAuthErrorResponseSchema>
@@ -0,0 +1,60 @@
+/**
+ * PKCE - Proof Key for Code Exchange (RFC 7636)
+ *
+ * Binds an authorization code to the app that asked for it: the app
+ * sends code_challenge = base64url(SHA-256(code_verifier)) to
+ * /oauth/authorize and must present the code_verifier itself when it
+ * exchanges the code. A code intercepted on its way back (another app
+ * registered for the same redirect URI, a leaked log) is useless without
+ * the verifier, which never left the app.
+ *
+ * Only the S256 method is accepted; "plain" would send the verifier
+ * itself through the browser.
+ *
+ * @module pkce
+ * @see https://www.rfc-editor.org/rfc/rfc7636
+ */
+
+import { createHash, timingSafeEqual } from 'crypto'
+
+/**
+ * The only supported code_challenge_method
+ */
+export const CODE_CHALLENGE_METHOD = 'S256'
+
+/**
+ * code_verifier: 43-128 unreserved characters (RFC 7636 section 4.1)
+ */
+const CODE_VERIFIER_PATTERN = /^[A-Za-z0-9._~-]{43,128}$/
+
+/**
+ * S256 code_challenge: an unpadded base64url SHA-256 digest (43 characters)
+ */
+const CODE_CHALLENGE_PATTERN = /^[A-Za-z0-9_-]{43}$/
+
+/**
+ * Check that a code_challenge has the shape of an S256 challenge
+ *
+ * @param challenge code_challenge parameter
+ * @returns true if it can be the S256 digest of a verifier
+ */
+export function isValidCodeChallenge(challenge: string): boolean {
+    return CODE_CHALLENGE_PATTERN.test(challenge)
+}
+
+/**
+ * Check a code_verifier against the code_challenge of the authorization request
+ *
+ * @param verifier code_verifier sent to the token endpoint
+ * @param challenge code_challenge stored with the authorization code
+ * @returns true if base64url(SHA-256(verifier)) equals the challenge
+ */
+export function verifyCodeVerifier(verifier: string, challenge: string): boolean {
+    if (!CODE_VERIFIER_PATTERN.test(verifier)) {
+        return false
+    }
+
+    const expected = Buffer.from(createHash('sha256').update(verifier).digest('base64url'))
+    const actual = Buffer.from(challenge)
+    return expected.length === actual.length && timingSafeEqual(expected, actual)
+}
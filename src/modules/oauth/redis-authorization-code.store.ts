@@ -0,0 +1,170 @@
+/**
+ * Redis-Backed Authorization Code Store
+ *
+ * Shares authorization codes between all instances, so the code exchange
+ * works whichever instance handled /oauth/authorize.
+ *
+ * Key Layout (prefix defaults to "auth:"):
+ * - auth:code:<sha256(code)>  Hash { clientId, redirectUri, codeChallenge, username,
+ *                                    scopes (space-separated), issuedAt, expiresAt,
+ *                                    usedAt?, sessionId?, reusedAt? }
+ *                             Expires natively at expiresAt (PEXPIREAT)
+ *
+ * Only SHA-256 hashes of codes are stored, like refresh tokens.
+ *
+ * Atomicity:
+ * - consume reads the code and sets usedAt in one Lua script (HSETNX), so
+ *   of concurrent exchanges on any instances only one gets a session;
+ *   the later ones set reusedAt
+ * - recordSession sets sessionId and reads reusedAt in one Lua script, so
+ *   a replay either sees the session or is seen by the first exchange.
+ *   It only updates a code that still exists, so it never recreates an
+ *   expired one without a TTL
+ */
+
+import type { Redis } from 'ioredis'
+import { hashToken } from '../auth/token.store'
+import {
+    AuthorizationCode,
+    AuthorizationGrant,
+    ConsumedAuthorizationCode,
+    IAuthorizationCodeStore,
+    generateAuthorizationCode
+} from './authorization-code.store'
+
+/**
+ * Return a code's fields and set usedAt if it isn't set yet (reusedAt if it is)
+ * KEYS[1] = code key, ARGV[1] = now (ms)
+ * Returns { fields before this call (HGETALL), 1 if marked used by this call },
+ * or an empty array if the code doesn't exist
+ */
+const CONSUME_SCRIPT = `
+local fields = redis.call('HGETALL', KEYS[1])
+if #fields == 0 then
+    return {}
+end
+local marked = redis.call('HSETNX', KEYS[1], 'usedAt', ARGV[1])
+if marked == 0 then
+    redis.call('HSETNX', KEYS[1], 'reusedAt', ARGV[1])
+end
+return { fields, marked }
+`
+
+/**
+ * Set sessionId if the code exists, and tell whether it was replayed
+ * KEYS[1] = code key, ARGV[1] = session id
+ * Returns 1 if reusedAt is set, 0 otherwise (or if the code doesn't exist)
+ */
+const RECORD_SESSION_SCRIPT = `
+if redis.call('EXISTS', KEYS[1]) == 0 then
+    return 0
+end
+redis.call('HSET', KEYS[1], 'sessionId', ARGV[1])
+return redis.call('HEXISTS', KEYS[1], 'reusedAt')
+`
+
+export interface RedisAuthorizationCodeStoreOptions {
+    /** Prefix for every key (default: "auth:") */
+    keyPrefix?: string
+}
+
+export class RedisAuthorizationCodeStore implements IAuthorizationCodeStore {
+    private readonly prefix: string
+
+    /**
+     * @param client Connected ioredis-compatible client (owned by this store; closed by close())
+     * @param ttlSeconds Lifetime of a code (OAUTH_CODE_TTL_SECONDS)
+     * @param options Key naming options
+     */
+    constructor(
+        private readonly client: Redis,
+        private readonly ttlSeconds: number,
+        options: RedisAuthorizationCodeStoreOptions = {}
+    ) {
+        this.prefix = options.keyPrefix ?? 'auth:'
+    }
+
+    async issue(grant: AuthorizationGrant): Promise<string> {
+        const code = generateAuthorizationCode()
+        const key = this.codeKey(hashToken(code))
+        const now = Date.now()
+        const expiresAt = now + this.ttlSeconds * 1000
+
+        await this.client.multi()
+            .hset(key, {
+                clientId: grant.clientId,
+                redirectUri: grant.redirectUri,
+                codeChallenge: grant.codeChallenge,
+                username: grant.username,
+                scopes: grant.scopes.join(' '),
+                issuedAt: now,
+                expiresAt
+            })
+            .pexpireat(key, expiresAt)
+            .exec()
+
+        return code
+    }
+
+    async consume(code: string): Promise<ConsumedAuthorizationCode | null> {
+        const result = await this.client.eval(CONSUME_SCRIPT, 1, this.codeKey(hashToken(code)), Date.now()) as [string[], number] | []
+        if (result.length === 0) {
+            return null
+        }
+
+        const [fields, marked] = result
+        const stored = this.parse(fields)
+        if (Date.now() > stored.expiresAt) {
+            return null
+        }
+        return { code: stored, reused: Number(marked) !== 1 }
+    }
+
+    async recordSession(code: string, sessionId: string): Promise<boolean> {
+        const replayed = await this.client.eval(RECORD_SESSION_SCRIPT, 1, this.codeKey(hashToken(code)), sessionId)
+        return Number(replayed) === 1
+    }
+
+    async cleanupExpired(): Promise<number> {
+        // Redis evicts expired keys natively (PEXPIREAT); nothing to do
+        return 0
+    }
+
+    async close(): Promise<void> {
+        await this.client.quit()
+    }
+
+    private codeKey(codeHash: string): string {
+        return `${this.prefix}code:${codeHash}`
+    }
+
+    /**
+     * Convert HGETALL's flat [field, value, ...] reply (from Lua) to AuthorizationCode
+     */
+    private parse(fields: string[]): AuthorizationCode {
+        const hash: Record<string, string> = {}
+        for (let i = 0; i < fields.length; i += 2) {
+            hash[fields[i]] = fields[i + 1]
+        }
+
+        const stored: AuthorizationCode = {
+            clientId: hash.clientId,
+            redirectUri: hash.redirectUri,
+            codeChallenge: hash.codeChallenge,
+            username: hash.username,
+            scopes: hash.scopes.split(' ').filter(Boolean),
+            issuedAt: Number(hash.issuedAt),
+            expiresAt: Number(hash.expiresAt)
+        }
+        if (hash.usedAt) {
+            stored.usedAt = Number(hash.usedAt)
+        }
+        if (hash.sessionId) {
+            stored.sessionId = hash.sessionId
+        }
+        if (hash.reusedAt) {
+            stored.reusedAt = Number(hash.reusedAt)
+        }
+        return stored
+    }
+}
@@ -0,0 +1,78 @@
+/**
+ * Common Password Deny-List
+ *
+ * A short list of the most frequently leaked passwords (lowercased).
+ * Used by PasswordPolicy to reject passwords that appear at the top of
+ * every credential-stuffing dictionary, regardless of character classes.
+ *
+ * Deliberately small: it catches the worst offenders without shipping a
+ * multi-megabyte dictionary. Pass a larger list via PasswordPolicyOptions
+ * if stricter screening is needed.
+ *
+ * @module common-passwords
+ */
+
+export const COMMON_PASSWORDS: readonly string[] = [
+    '123456',
+    '123456789',
+    '12345678',
+    '1234567890',
+    '12345',
+    '1234567',
+    '111111',
+    '000000',
+    '123123',
+    '654321',
+    '666666',
+    '121212',
+    '987654321',
+    'password',
+    'password1',
+    'password12',
+    'password123',
+    'password1!',
+    'p@ssw0rd',
+    'p@ssword1',
+    'passw0rd',
+    'qwerty',
+    'qwerty123',
+    'qwertyuiop',
+    'qwerty1!',
+    '1q2w3e4r',
+    '1q2w3e4r5t',
+    'zaq12wsx',
+    'asdfghjkl',
+    'abc123',
+    'abcd1234',
+    'iloveyou',
+    'letmein',
+    'letmein1!',
+    'welcome',
+    'welcome1',
+    'welcome123',
+    'welcome@123',
+    'admin',
+    'admin123',
+    'admin@123',
+    'administrator',
+    'root',
+    'toor',
+    'changeme',
+    'changeme123',
+    'secret',
+    'monkey',
+    'dragon',
+    'football',
+    'baseball',
+    'sunshine',
+    'princess',
+    'master',
+    'shadow',
+    'superman',
+    'trustno1',
+    'starwars',
+    'login',
+    'test',
+    'test123',
+    'guest'
+]
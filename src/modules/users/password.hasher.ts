@@ -0,0 +1,167 @@
+/**
+ * Password Hasher
+ *
+ * Hashes and verifies passwords with scrypt (memory-hard KDF built into Node).
+ *
+ * Encoded Format:
+ *   scrypt$N=<cost>,r=<blockSize>,p=<parallelization>$<salt base64>$<hash base64>
+ *
+ * Why a self-describing format?
+ * - Every hash carries the parameters it was created with
+ * - Old hashes keep verifying after the cost parameters are raised
+ * - needsRehash() tells callers when a stored hash should be upgraded,
+ *   which AuthService does transparently on successful login
+ *
+ * Security:
+ * - Random 16-byte salt per password (no rainbow tables)
+ * - crypto.timingSafeEqual for comparison (no timing side channel)
+ * - Malformed hashes never throw, they simply fail verification
+ */
+
+import { randomBytes, scrypt, timingSafeEqual, ScryptOptions } from 'crypto'
+
+export interface ScryptParams {
+    /** CPU/memory cost (power of two) */
+    N: number
+    /** Block size */
+    r: number
+    /** Parallelization */
+    p: number
+    /** Derived key length in bytes */
+    keyLength: number
+    /** Salt length in bytes */
+    saltLength: number
+}
+
+/**
+ * Default cost parameters (OWASP recommendation for scrypt: N=2^15, r=8, p=1)
+ */
+export const DEFAULT_SCRYPT_PARAMS: ScryptParams = {
+    N: 2 ** 15,
+    r: 8,
+    p: 1,
+    keyLength: 64,
+    saltLength: 16
+}
+
+const ALGORITHM = 'scrypt'
+
+interface ParsedHash {
+    N: number
+    r: number
+    p: number
+    salt: Buffer
+    hash: Buffer
+}
+
+/**
+ * Promise wrapper around crypto.scrypt
+ * maxmem is raised so larger N values don't hit Node's 32 MiB default limit
+ */
+function deriveKey(password: string, salt: Buffer, keyLength: number, params: Pick<ScryptParams, 'N' | 'r' | 'p'>): Promise<Buffer> {
+    const options: ScryptOptions = {
+        N: params.N,
+        r: params.r,
+        p: params.p,
+        maxmem: 256 * params.N * params.r * params.p
+    }
+
+    return new Promise((resolve, reject) => {
+        scrypt(password, salt, keyLength, options, (err, derivedKey) => {
+            if (err) {
+                reject(err)
+                return
+            }
+            resolve(derivedKey)
+        })
+    })
+}
+
+export class PasswordHasher {
+    private readonly params: ScryptParams
+
+    /**
+     * @param params Cost parameters used for NEW hashes (defaults to DEFAULT_SCRYPT_PARAMS)
+     */
+    constructor(params: Partial<ScryptParams> = {}) {
+        this.params = { ...DEFAULT_SCRYPT_PARAMS, ...params }
+    }
+
+    /**
+     * Hash a plaintext password with a fresh random salt
+     * @param password The plaintext password
+     * @returns Encoded hash string (see module header for format)
+     */
+    async hash(password: string): Promise<string> {
+        const { N, r, p, keyLength, saltLength } = this.params
+        const salt = randomBytes(saltLength)
+        const hash = await deriveKey(password, salt, keyLength, { N, r, p })
+
+        return `${ALGORITHM}$N=${N},r=${r},p=${p}$${salt.toString('base64')}$${hash.toString('base64')}`
+    }
+
+    /**
+     * Verify a plaintext password against an encoded hash
+     * Uses the parameters stored in the hash, not the current defaults
+     * @param password The plaintext password to check
+     * @param encoded The stored hash string
+     * @returns true if the password matches, false otherwise (including malformed hashes)
+     */
+    async verify(password: string, encoded: string): Promise<boolean> {
+        const parsed = this.parse(encoded)
+        if (!parsed) {
+            return false
+        }
+
+        const candidate = await deriveKey(password, parsed.salt, parsed.hash.length, parsed)
+
+        return timingSafeEqual(candidate, parsed.hash)
+    }
+
+    /**
+     * Check whether a stored hash was created with different parameters
+     * than the ones currently configured
+     * @param encoded The stored hash string
+     * @returns true if the hash should be regenerated on next successful login
+     */
+    needsRehash(encoded: string): boolean {
+        const parsed = this.parse(encoded)
+        if (!parsed) {
+            return true
+        }
+
+        return parsed.N !== this.params.N
+            || parsed.r !== this.params.r
+            || parsed.p !== this.params.p
+            || parsed.hash.length !== this.params.keyLength
+            || parsed.salt.length !== this.params.saltLength
+    }
+
+    /**
+     * Decode an encoded hash string, returning null if it is malformed
+     */
+    private parse(encoded: string): ParsedHash | null {
+        const parts = encoded.split('$')
+        if (parts.length !== 4 || parts[0] !== ALGORITHM) {
+            return null
+        }
+
+        const params = new Map(
+            parts[1].split(',').map(pair => pair.split('=') as [string, string])
+        )
+        const N = Number(params.get('N'))
+        const r = Number(params.get('r'))
+        const p = Number(params.get('p'))
+        if (![N, r, p].every(value => Number.isInteger(value) && value > 0)) {
+            return null
+        }
+
+        const salt = Buffer.from(parts[2], 'base64')
+        const hash = Buffer.from(parts[3], 'base64')
+        if (salt.length === 0 || hash.length === 0) {
+            return null
+        }
+
+        return { N, r, p, salt, hash }
+    }
+}
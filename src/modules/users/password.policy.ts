@@ -0,0 +1,103 @@
+/**
+ * Password Policy
+ *
+ * Validates candidate passwords against a configurable set of rules and
+ * reports EVERY failed rule, so clients can show all problems at once
+ * instead of making the user fix them one round-trip at a time.
+ *
+ * Rules (each can be tuned or disabled via PasswordPolicyOptions):
+ * - min_length / max_length: Length bounds
+ * - lowercase / uppercase / digit / symbol: Required character classes
+ * - common_password: Not on the deny-list of frequently leaked passwords
+ * - contains_username: Password must not contain the username
+ *
+ * Why max_length?
+ * - scrypt cost grows with input length; an upper bound prevents
+ *   very long passwords from being used to burn server CPU
+ */
+
+import { COMMON_PASSWORDS } from './common-passwords'
+
+export interface PasswordPolicyOptions {
+    minLength: number
+    maxLength: number
+    requireLowercase: boolean
+    requireUppercase: boolean
+    requireDigit: boolean
+    requireSymbol: boolean
+    /** Lowercased passwords that are always rejected */
+    denyList: readonly string[]
+    /** Reject passwords containing the username (case-insensitive) */
+    disallowUsername: boolean
+}
+
+export const DEFAULT_PASSWORD_POLICY: PasswordPolicyOptions = {
+    minLength: 10,
+    maxLength: 128,
+    requireLowercase: true,
+    requireUppercase: true,
+    requireDigit: true,
+    requireSymbol: false,
+    denyList: COMMON_PASSWORDS,
+    disallowUsername: true
+}
+
+/**
+ * A single failed rule
+ * rule is a stable machine-readable identifier, message is for humans
+ */
+export interface PolicyViolation {
+    rule: string
+    message: string
+}
+
+export class PasswordPolicy {
+    readonly options: PasswordPolicyOptions
+    private readonly denyList: Set<string>
+
+    /**
+     * @param options Overrides for DEFAULT_PASSWORD_POLICY
+     */
+    constructor(options: Partial<PasswordPolicyOptions> = {}) {
+        this.options = { ...DEFAULT_PASSWORD_POLICY, ...options }
+        this.denyList = new Set(this.options.denyList.map(entry => entry.toLowerCase()))
+    }
+
+    /**
+     * Check a password against every rule
+     * @param password The candidate password
+     * @param username The account's username (for the contains_username rule)
+     * @returns All violated rules; an empty array means the password is acceptable
+     */
+    validate(password: string, username?: string): PolicyViolation[] {
+        const { options } = this
+        const violations: PolicyViolation[] = []
+
+        if (password.length < options.minLength) {
+            violations.push({ rule: 'min_length', message: `Password must be at least ${options.minLength} characters long` })
+        }
+        if (password.length > options.maxLength) {
+            violations.push({ rule: 'max_length', message: `Password must be at most ${options.maxLength} characters long` })
+        }
+        if (options.requireLowercase && !/[a-z]/.test(password)) {
+            violations.push({ rule: 'lowercase', message: 'Password must contain a lowercase letter' })
+        }
+        if (options.requireUppercase && !/[A-Z]/.test(password)) {
+            violations.push({ rule: 'uppercase', message: 'Password must contain an uppercase letter' })
+        }
+        if (options.requireDigit && !/[0-9]/.test(password)) {
+            violations.push({ rule: 'digit', message: 'Password must contain a digit' })
+        }
+        if (options.requireSymbol && !/[^A-Za-z0-9]/.test(password)) {
+            violations.push({ rule: 'symbol', message: 'Password must contain a symbol' })
+        }
+        if (this.denyList.has(password.toLowerCase())) {
+            violations.push({ rule: 'common_password', message: 'Password is too common' })
+        }
+        if (options.disallowUsername && username && password.toLowerCase().includes(username.toLowerCase())) {
+            violations.push({ rule: 'contains_username', message: 'Password must not contain the username' })
+        }
+
+        return violations
+    }
+}
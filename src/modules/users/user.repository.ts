@@ -0,0 +1,283 @@
+/**
+ * User Repository Abstraction Layer
+ *
+ * This module provides an abstraction for user account storage.
+ * Consumers (AuthService) depend only on the UserRepository interface,
+ * so the backend can be swapped without touching business logic.
+ *
+ * Implementations:
+ * - InMemoryUserRepository: Map-backed, lost on restart (development/testing)
+ * - FileUserRepository: JSON file on disk, survives restarts (small teams, no database)
+ *
+ * Production Migration Path:
+ * 1. Create a database-backed class (implements UserRepository)
+ * 2. Update plugins/auth.plugin.ts to construct it instead
+ * 3. Everything else continues to work unchanged
+ *
+ * File Structure (FileUserRepository):
+ * { "users": [{ "username": "...", "email": "...", "passwordHash": "...", "roles": [], "permissions": [], "createdAt": 0, "updatedAt": 0 }] }
+ */
+
+import { promises as fs } from 'fs'
+import path from 'path'
+import { MfaCodeUse, UserRecord, UserUpdate } from './user.types'
+import { DEFAULT_ROLE } from '../../config/roles'
+
+export interface UserRepository {
+    /**
+     * Find a user by username
+     * @param username The username to look up
+     * @returns The stored user, or null if no such user exists
+     */
+    findByUsername(username: string): Promise<UserRecord | null>
+
+    /**
+     * Find a user by email address
+     * @param email The address to look up (compared lowercased)
+     * @returns The stored user, or null if no user has this address
+     */
+    findByEmail(email: string): Promise<UserRecord | null>
+
+    /**
+     * Find the user an outstanding password reset token belongs to
+     * Looked up by the stored hash, like refresh tokens (no scan over all users)
+     * @param tokenHash hashToken() of the token from the reset email
+     * @returns The stored user, or null if no user has this reset token
+     */
+    findByPasswordResetToken(tokenHash: string): Promise<UserRecord | null>
+
+    /**
+     * Create a new user
+     * @param user The user record to store
+     * @throws {Error} If a user with the same username already exists
+     */
+    create(user: UserRecord): Promise<void>
+
+    /**
+     * Update fields on an existing user (updatedAt is set automatically)
+     * @param username The user to update
+     * @param changes Fields to change
+     * @returns The updated user, or null if no such user exists
+     */
+    update(username: string, changes: UserUpdate): Promise<UserRecord | null>
+
+    /**
+     * Atomically mark a second-factor code as used
+     *
+     * Checking that the code is still unused and recording its use are one
+     * step, so two concurrent logins can't both accept the same code.
+     *
+     * @param username The user who presented the code
+     * @param use The accepted TOTP time step, or the hash of the accepted recovery code
+     * @returns The updated user if this call used the code; null if that step
+     *   (or a later one) was already used, the recovery code is gone, or the
+     *   user has no two-factor settings
+     */
+    consumeMfaCode(username: string, use: MfaCodeUse): Promise<UserRecord | null>
+
+    /**
+     * List all users
+     */
+    list(): Promise<UserRecord[]>
+}
+
+export class InMemoryUserRepository implements UserRepository {
+    protected users = new Map<string, UserRecord>()
+    /** Index: password reset token hash -> username */
+    private resetTokens = new Map<string, string>()
+
+    async findByUsername(username: string): Promise<UserRecord | null> {
+        const user = this.users.get(username)
+        return user ? { ...user } : null
+    }
+
+    async findByEmail(email: string): Promise<UserRecord | null> {
+        const normalized = email.toLowerCase()
+        for (const user of this.users.values()) {
+            if (user.email === normalized) {
+                return { ...user }
+            }
+        }
+        return null
+    }
+
+    async findByPasswordResetToken(tokenHash: string): Promise<UserRecord | null> {
+        const username = this.resetTokens.get(tokenHash)
+        const user = username ? this.users.get(username) : undefined
+        return user?.passwordReset?.tokenHash === tokenHash ? { ...user } : null
+    }
+
+    async create(user: UserRecord): Promise<void> {
+        if (this.users.has(user.username)) {
+            throw new Error(`User "${user.username}" already exists`)
+        }
+        this.put({ ...user })
+    }
+
+    async update(username: string, changes: UserUpdate): Promise<UserRecord | null> {
+        const existing = this.users.get(username)
+        if (!existing) {
+            return null
+        }
+
+        const updated: UserRecord = { ...existing, ...changes, username, updatedAt: Date.now() }
+        this.put(updated)
+        return { ...updated }
+    }
+
+    async consumeMfaCode(username: string, use: MfaCodeUse): Promise<UserRecord | null> {
+        // Check and write without awaiting in between: atomic within the process
+        const existing = this.users.get(username)
+        const totp = existing?.totp
+        if (!existing || !totp) {
+            return null
+        }
+
+        let recoveryCodeHashes = totp.recoveryCodeHashes
+        let lastUsedStep = totp.lastUsedStep
+        if ('step' in use) {
+            if (lastUsedStep !== undefined && use.step <= lastUsedStep) {
+                return null
+            }
+            lastUsedStep = use.step
+        } else {
+            if (!recoveryCodeHashes.includes(use.recoveryCodeHash)) {
+                return null
+            }
+            recoveryCodeHashes = recoveryCodeHashes.filter(hash => hash !== use.recoveryCodeHash)
+        }
+
+        const updated: UserRecord = { ...existing, totp: { ...totp, lastUsedStep, recoveryCodeHashes }, updatedAt: Date.now() }
+        this.put(updated)
+        return { ...updated }
+    }
+
+    async list(): Promise<UserRecord[]> {
+        return Array.from(this.users.values()).map(user => ({ ...user }))
+    }
+
+    /**
+     * Store a user and keep the reset token index in step with it
+     */
+    protected put(user: UserRecord): void {
+        const previousHash = this.users.get(user.username)?.passwordReset?.tokenHash
+        if (previousHash && previousHash !== user.passwordReset?.tokenHash) {
+            this.resetTokens.delete(previousHash)
+        }
+        if (user.passwordReset) {
+            this.resetTokens.set(user.passwordReset.tokenHash, user.username)
+        }
+        this.users.set(user.username, user)
+    }
+}
+
+/**
+ * JSON-file-backed repository
+ *
+ * - The file is read once, on first access, and kept in memory afterwards
+ * - Every write rewrites the whole file via a temp file + rename,
+ *   so a crash mid-write never leaves a truncated file behind
+ * - Writes are serialized through a promise chain to avoid interleaving
+ *
+ * Suitable for tens to hundreds of users on a single instance.
+ * Multiple processes must NOT share the same file.
+ */
+export class FileUserRepository extends InMemoryUserRepository {
+    private loaded: Promise<void> | null = null
+    private writeQueue: Promise<void> = Promise.resolve()
+
+    /**
+     * @param filePath Path to the JSON users file (created on first write if missing)
+     */
+    constructor(private readonly filePath: string) {
+        super()
+    }
+
+    async findByUsername(username: string): Promise<UserRecord | null> {
+        await this.load()
+        return super.findByUsername(username)
+    }
+
+    async findByEmail(email: string): Promise<UserRecord | null> {
+        await this.load()
+        return super.findByEmail(email)
+    }
+
+    async findByPasswordResetToken(tokenHash: string): Promise<UserRecord | null> {
+        await this.load()
+        return super.findByPasswordResetToken(tokenHash)
+    }
+
+    async create(user: UserRecord): Promise<void> {
+        await this.load()
+        await super.create(user)
+        await this.persist()
+    }
+
+    async update(username: string, changes: UserUpdate): Promise<UserRecord | null> {
+        await this.load()
+        const updated = await super.update(username, changes)
+        if (updated) {
+            await this.persist()
+        }
+        return updated
+    }
+
+    async consumeMfaCode(username: string, use: MfaCodeUse): Promise<UserRecord | null> {
+        await this.load()
+        const updated = await super.consumeMfaCode(username, use)
+        if (updated) {
+            await this.persist()
+        }
+        return updated
+    }
+
+    async list(): Promise<UserRecord[]> {
+        await this.load()
+        return super.list()
+    }
+
+    /**
+     * Load users from disk once; a missing file means "no users yet"
+     */
+    private load(): Promise<void> {
+        if (!this.loaded) {
+            this.loaded = (async () => {
+                try {
+                    const raw = await fs.readFile(this.filePath, 'utf8')
+                    const data = JSON.parse(raw) as { users?: UserRecord[] }
+                    for (const user of data.users ?? []) {
+                        // Files written before roles existed get the default role
+                        this.put({
+                            ...user,
+                            roles: user.roles ?? [DEFAULT_ROLE],
+                            permissions: user.permissions ?? []
+                        })
+                    }
+                } catch (err) {
+                    if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+                        throw err
+                    }
+                }
+            })()
+        }
+        return this.loaded
+    }
+
+    /**
+     * Write the current snapshot to disk atomically
+     */
+    private persist(): Promise<void> {
+        const snapshot = JSON.stringify({ users: Array.from(this.users.values()) }, null, 2)
+
+        // A failed earlier write must not block later ones
+        this.writeQueue = this.writeQueue.catch(() => undefined).then(async () => {
+            const tmpPath = `${this.filePath}.tmp`
+            await fs.mkdir(path.dirname(this.filePath), { recursive: true })
+            await fs.writeFile(tmpPath, snapshot, { encoding: 'utf8', mode: 0o600 })
+            await fs.rename(tmpPath, this.filePath)
+        })
+
+        return this.writeQueue
+    }
+}
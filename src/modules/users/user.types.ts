@@ -0,0 +1,121 @@
+/**
+ * User Module Types
+ *
+ * This module defines the persisted shape of a user account.
+ * Shared by every UserRepository implementation and by the services
+ * that read or update accounts (AuthService).
+ *
+ * Security Notes:
+ * - Only password HASHES are stored, never the plaintext password
+ * - The hash string is self-describing (algorithm, cost parameters, salt)
+ *   so it can be verified and upgraded without extra columns
+ *
+ * @module user.types
+ */
+
+/**
+ * Stored User Record
+ *
+ * Properties:
+ * - username: Unique user identifier (lookup key)
+ * - email: Unique, lowercased address for password reset emails (optional)
+ * - passwordHash: Encoded password hash produced by PasswordHasher
+ * - roles: Role names (see config/roles.ts), e.g. ["admin"]
+ * - permissions: Permissions granted directly, on top of those from roles
+ * - disabled: Set by an administrator; a disabled account cannot log in or refresh
+ * - totp: Two-factor settings, present once the user started TOTP enrollment
+ * - passwordReset: The outstanding password reset token, if one was requested
+ * - createdAt: Epoch milliseconds when the account was created
+ * - updatedAt: Epoch milliseconds of the last modification
+ *
+ * @interface UserRecord
+ *
+ * @example
+ * const user: UserRecord = {
+ *   username: "alice",
+ *   passwordHash: "scrypt$N=32768,r=8,p=1$c2FsdA$aGFzaA",
+ *   roles: ["user"],
+ *   permissions: [],
+ *   createdAt: 1705334400000,
+ *   updatedAt: 1705334400000
+ * };
+ */
+export interface UserRecord {
+    username: string;
+    email?: string;
+    passwordHash: string;
+    roles: string[];
+    permissions: string[];
+    disabled?: boolean;
+    totp?: TotpSettings;
+    passwordReset?: PasswordResetToken;
+    createdAt: number;
+    updatedAt: number;
+}
+
+/**
+ * TOTP Two-Factor Settings
+ *
+ * Enrollment is two-step: the secret is stored first (confirmedAt unset,
+ * login unaffected) and only takes effect once the user proved their
+ * authenticator app works by entering a code.
+ *
+ * Security Notes:
+ * - The secret must stay readable to verify codes, so it is stored as is;
+ *   protect the users file/database like any credential store
+ * - Recovery codes are stored as SHA-256 hashes and removed once used
+ *
+ * @interface TotpSettings
+ * @property {string} secret - Base32 shared secret
+ * @property {number} [confirmedAt] - Epoch milliseconds when enrollment was confirmed (absent while pending)
+ * @property {number} [lastUsedStep] - Time step of the last accepted code (replay protection)
+ * @property {string[]} recoveryCodeHashes - Hashes of the unused recovery codes
+ */
+export interface TotpSettings {
+    secret: string;
+    confirmedAt?: number;
+    lastUsedStep?: number;
+    recoveryCodeHashes: string[];
+}
+
+/**
+ * A second-factor code being marked as used (UserRepository.consumeMfaCode)
+ *
+ * - step: the time step of an accepted TOTP code; it and older steps are
+ *   rejected afterwards
+ * - recoveryCodeHash: the hash of an accepted recovery code, which is removed
+ *
+ * @typedef {object} MfaCodeUse
+ */
+export type MfaCodeUse = { step: number } | { recoveryCodeHash: string };
+
+/**
+ * Outstanding Password Reset
+ *
+ * Only one reset token exists per user: requesting a new one replaces it,
+ * and using it (or changing the password) removes it.
+ *
+ * Security Notes:
+ * - The token itself is only ever in the email; a SHA-256 hash is stored
+ *   (it is random, so a fast hash is enough), so a leaked users file
+ *   can't be used to reset passwords
+ *
+ * @interface PasswordResetToken
+ * @property {string} tokenHash - Hex SHA-256 of the emailed token
+ * @property {number} requestedAt - Epoch milliseconds when the token was issued
+ * @property {number} expiresAt - Epoch milliseconds after which the token is rejected
+ */
+export interface PasswordResetToken {
+    tokenHash: string;
+    requestedAt: number;
+    expiresAt: number;
+}
+
+/**
+ * Fields that may be changed on an existing user
+ *
+ * The username is the identity key and cannot be changed through update().
+ *
+ * @typedef {object} UserUpdate
+ */
+export type UserUpdate = Partial<Omit<UserRecord, 'username' | 'createdAt'>>
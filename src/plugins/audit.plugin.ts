@@ -0,0 +1,51 @@
+/**
+ * Audit Plugin
+ *
+ * Plugin Layer - Security Audit Log
+ *
+ * Creates (or accepts) the audit log and exposes it as a decorator,
+ * once app.config is available:
+ * - app.auditLog: security audit events (AUDIT_SINKS, AUDIT_BUFFER_SIZE)
+ *
+ * Ownership:
+ * - An audit log created here is owned by the app and closed with it
+ *   (flushes pending file writes)
+ * - An audit log passed in via plugin options belongs to the caller
+ *   (e.g. a test inspecting recorded events)
+ *
+ * Must be registered after @fastify/env and before jwt.plugin
+ * (app.authenticate records rejected access tokens).
+ *
+ * @module audit.plugin
+ * @see {@link ../modules/audit/audit-log.ts}
+ */
+
+import fp from 'fastify-plugin'
+import { FastifyInstance, FastifyPluginOptions } from 'fastify'
+import { AuditLog } from '../modules/audit/audit-log'
+import { createAuditLog } from '../modules/audit/audit-log.factory'
+
+declare module 'fastify' {
+    interface FastifyInstance {
+        /** Security audit events */
+        auditLog: AuditLog
+    }
+}
+
+/**
+ * Options accepted by the audit plugin
+ *
+ * @interface AuditPluginOptions
+ * @property {AuditLog} [auditLog] - Use this audit log instead of creating one
+ */
+export interface AuditPluginOptions extends FastifyPluginOptions {
+    auditLog?: AuditLog
+}
+
+export default fp(async function auditPlugin(app: FastifyInstance, options: AuditPluginOptions) {
+    const auditLog = options.auditLog ?? createAuditLog(app.config, app.log)
+    if (!options.auditLog) {
+        app.addHook('onClose', async () => auditLog.close())
+    }
+    app.decorate('auditLog', auditLog)
+})
@@ -0,0 +1,117 @@
+/**
+ * Global Authentication Guard Plugin
+ *
+ * Plugin Layer - Opt-out Authentication
+ *
+ * Every route requires a valid access token UNLESS it is public.
+ * Routes no longer need to remember preHandler: [app.authenticate];
+ * forgetting to mark a route public fails closed (401), not open.
+ *
+ * A route is public when either:
+ * 1. Its definition says so: config: { public: true }
+ * 2. Its path matches PUBLIC_ROUTES (see config/public-routes.ts),
+ *    with the API_PREFIX stripped before matching
+ *
+ * Not Authenticated:
+ * - Public routes (above)
+ * - CORS preflight (OPTIONS) requests
+ * - Requests that match no route (left to produce a normal 404)
+ *
+ * Startup Report:
+ * - Once the app is ready, the public routes are logged, so an
+ *   accidentally exposed endpoint is visible in the boot output
+ *
+ * Must be registered AFTER jwtPlugin (uses app.authenticate) and BEFORE
+ * any routes (routes registered earlier are missed by the report).
+ *
+ * @module auth-guard.plugin
+ * @see {@link ../config/public-routes.ts} for the public route list
+ * @see {@link ./jwt.plugin.ts} for app.authenticate
+ */
+
+import fp from 'fastify-plugin'
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify'
+import { isPublicRoute } from '../config/public-routes'
+
+/**
+ * TypeScript Module Declaration
+ *
+ * Adds the public flag to route config:
+ * ```
+ * app.get('/status', { config: { public: true } }, handler)
+ * ```
+ */
+declare module 'fastify' {
+    interface FastifyContextConfig {
+        /** Skip the global authentication hook for this route */
+        public?: boolean
+    }
+}
+
+/**
+ * Decide whether a route is public
+ *
+ * Matches the registered route pattern (e.g. "/api/v1/auth/login"),
+ * not the raw request URL, so encoded or oddly-formed URLs cannot
+ * make a protected route look public.
+ *
+ * Also used by openapi.plugin.ts to decide which routes the OpenAPI
+ * document marks as requiring a bearer token.
+ *
+ * @param {string} url - Registered route path
+ * @param {object} [config] - Route config
+ * @returns {boolean}
+ */
+export function isPublic(url: string, config?: { public?: boolean }): boolean {
+    return config?.public === true || isPublicRoute(url)
+}
+
+/**
+ * Auth Guard Plugin Implementation
+ *
+ * @async
+ * @param {FastifyInstance} app - Fastify application instance
+ * @returns {Promise<void>}
+ */
+export default fp(async function authGuardPlugin(app: FastifyInstance) {
+    /**
+     * Collect Public Routes for the Startup Report
+     *
+     * onRoute sees every route registered after this plugin,
+     * with its full (prefixed) path and config.
+     */
+    const publicRoutes: string[] = []
+
+    app.addHook('onRoute', (routeOptions) => {
+        const methods = Array.isArray(routeOptions.method) ? routeOptions.method : [routeOptions.method]
+        if (methods.every(method => method === 'OPTIONS')) {
+            return
+        }
+        if (isPublic(routeOptions.url, routeOptions.config)) {
+            publicRoutes.push(`${methods.join(',')} ${routeOptions.url}`)
+        }
+    })
+
+    app.addHook('onReady', async () => {
+        app.log.info({ publicRoutes }, `${publicRoutes.length} public route(s) - all other routes require authentication`)
+    })
+
+    /**
+     * Authenticate Every Non-public Request
+     *
+     * Runs on onRequest (before body parsing), so unauthenticated
+     * requests are rejected without reading their payload.
+     */
+    app.addHook('onRequest', async (request: FastifyRequest, reply: FastifyReply) => {
+        const url = request.routeOptions.url
+
+        if (request.method === 'OPTIONS' || url === undefined) {
+            return
+        }
+        if (isPublic(url, request.routeOptions.config)) {
+            return
+        }
+
+        await app.authenticate(request, reply)
+    })
+})
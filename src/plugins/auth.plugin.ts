@@ -0,0 +1,117 @@
+/**
+ * Auth Services Plugin
+ *
+ * Plugin Layer - Shared Authentication Services
+ *
+ * Builds the user repository and the AuthService once and exposes them as
+ * decorators, so every route module (auth, admin, ...) works on the same
+ * accounts and sessions:
+ * - app.userRepository: user accounts (USERS_FILE)
+ * - app.authService: registration, login, tokens, sessions, password reset
+ *
+ * Dependency Injection Flow:
+ * 1. Take the stores decorated by stores.plugin and the mailer from mailer.plugin
+ * 2. Create UserRepository (data layer), PasswordHasher and PasswordPolicy
+ * 3. Create AuthService (business layer) - inject Fastify, stores, users & hasher
+ * 4. Route modules create their controllers from app.authService
+ *
+ * Must be registered after jwt.plugin, stores.plugin and mailer.plugin,
+ * before any route plugin.
+ *
+ * @module auth.plugin
+ * @see {@link ../modules/auth/auth.service.ts}
+ * @see {@link ../modules/users/user.repository.ts}
+ */
+
+import fp from 'fastify-plugin'
+import { FastifyInstance } from 'fastify'
+import { AuthService } from '../modules/auth/auth.service'
+import { LoginThrottle } from '../modules/auth/login-throttle'
+import { Totp } from '../modules/auth/totp'
+import { FileUserRepository, InMemoryUserRepository, UserRepository } from '../modules/users/user.repository'
+import { PasswordHasher } from '../modules/users/password.hasher'
+import { PasswordPolicy } from '../modules/users/password.policy'
+
+/**
+ * Demo account seeded into the in-memory user repository outside production
+ * Keeps the documented admin / Admin@123 login working for local development
+ */
+const DEMO_USER = { username: 'admin', password: 'Admin@123' }
+
+declare module 'fastify' {
+    interface FastifyInstance {
+        /** User accounts */
+        userRepository: UserRepository
+        /** Authentication business logic shared by all route modules */
+        authService: AuthService
+    }
+}
+
+export default fp(async function authPlugin(app: FastifyInstance) {
+    /**
+     * Create UserRepository, PasswordHasher and PasswordPolicy instances
+     *
+     * UserRepository holds user accounts with scrypt password hashes
+     * - USERS_FILE set: JSON file on disk (survives restarts)
+     * - Otherwise: in memory, seeded with the demo admin outside production
+     *
+     * PasswordHasher uses the default scrypt cost parameters
+     * Raising them later upgrades stored hashes on each user's next login
+     *
+     * PasswordPolicy applies to new passwords (registration, password reset)
+     * Pass options to tighten or relax rules, e.g. new PasswordPolicy({ requireSymbol: true })
+     */
+    const passwordHasher = new PasswordHasher()
+    const passwordPolicy = new PasswordPolicy()
+    const { USERS_FILE, NODE_ENV } = app.config
+    const userRepository: UserRepository = USERS_FILE
+        ? new FileUserRepository(USERS_FILE)
+        : new InMemoryUserRepository()
+
+    if (!USERS_FILE && NODE_ENV !== 'production') {
+        const now = Date.now()
+        await userRepository.create({
+            username: DEMO_USER.username,
+            passwordHash: await passwordHasher.hash(DEMO_USER.password),
+            roles: ['admin'],
+            permissions: [],
+            createdAt: now,
+            updatedAt: now
+        })
+    }
+
+    /**
+     * Create AuthService instance
+     *
+     * Depends on:
+     * - app: for JWT signing/verifying
+     * - app.tokenStore: for token storage/revocation (decorated by stores.plugin)
+     * - userRepository: for user lookup
+     * - passwordHasher: for password verification
+     * - passwordPolicy: for validating new passwords
+     * - app.revokedTokens: access token denylist (decorated by jwt.plugin)
+     * - loginThrottle: brute-force protection for login (default limits)
+     * - Totp: authenticator app codes (6 digits, 30 seconds, ±1 step drift)
+     * - app.mailer: password reset emails (decorated by mailer.plugin)
+     * - app.auditLog: security audit events (decorated by audit.plugin)
+     *
+     * This is manual dependency injection
+     * Service receives its dependencies in constructor
+     */
+    const loginThrottle = new LoginThrottle(app.loginAttemptStore, app.log)
+    const authService = new AuthService(
+        app,
+        app.tokenStore,
+        userRepository,
+        passwordHasher,
+        passwordPolicy,
+        app.revokedTokens,
+        loginThrottle,
+        new Totp(),
+        app.mailer,
+        app.auditLog
+    )
+
+    app.decorate('userRepository', userRepository)
+    app.decorate('authService', authService)
+})
@@ -0,0 +1,168 @@
+/**
+ * Error Handler Plugin
+ *
+ * Plugin Layer - RFC 7807 Problem Details
+ *
+ * Every error response of the API is an application/problem+json body
+ * with a stable machine-readable code (see modules/errors/problem.ts):
+ *
+ *   401 application/problem+json
+ *   { "type": "about:blank", "title": "Unauthorized", "status": 401,
+ *     "detail": "Access token has expired", "instance": "/api/v1/auth/me",
+ *     "code": "token_expired" }
+ *
+ * What is rendered:
+ * - AppError (thrown by services, controllers and the JWT plugin): its
+ *   status, code, message as detail, extensions (e.g. violations) and
+ *   headers (e.g. Retry-After)
+ * - Schema validation failures (route schemas, e.g. auth.schemas.ts):
+ *   400 validation_failed with one violation per failed rule
+ * - A body that is not valid JSON (or an empty body sent as JSON):
+ *   400 validation_failed with rule "json"
+ * - Other Fastify 4xx errors (e.g. 413, 415): their status, with the
+ *   status phrase as code ("payload_too_large", "unsupported_media_type")
+ * - Unknown routes: 404 not_found
+ * - Anything else is a bug or an outage: 500 internal_error with a generic
+ *   detail; the error itself is only logged
+ *
+ * Must be registered before the routes: route plugins inherit the error
+ * handler that is set when they are registered.
+ *
+ * @module error-handler.plugin
+ * @see https://www.rfc-editor.org/rfc/rfc7807
+ * @see {@link ../modules/errors/app-error.ts} for the error codes
+ */
+
+import { STATUS_CODES } from 'node:http'
+import fp from 'fastify-plugin'
+import { FastifyError, FastifyInstance, FastifyReply, FastifyRequest, FastifySchemaValidationError } from 'fastify'
+import { AppError, ValidationError, Violation } from '../modules/errors/app-error'
+import { PROBLEM_CONTENT_TYPE, ProblemDetails } from '../modules/errors/problem'
+
+/**
+ * Ajv keywords renamed to the rule identifiers used elsewhere in the API
+ * (PasswordPolicy, registration); other keywords are reported as-is
+ */
+const RULE_NAMES: Record<string, string> = {
+    minLength: 'min_length',
+    maxLength: 'max_length',
+    pattern: 'format',
+    const: 'enum'
+}
+
+/**
+ * Convert Ajv errors into violations
+ *
+ * - field: dotted path inside the validated part ("password", "user.roles.0"),
+ *   or the part itself ("body") when the whole value is wrong
+ * - rule: "required", "type", "min_length", ...
+ * - message: the field followed by the Ajv message
+ *
+ * @param {FastifySchemaValidationError[]} errors - error.validation
+ * @param {string} [context] - error.validationContext ("body", "headers", "querystring", "params")
+ * @returns {Violation[]}
+ *
+ * @example
+ * toViolations([{ keyword: 'required', instancePath: '', params: { missingProperty: 'password' }, ... }], 'body');
+ * // [{ field: 'password', rule: 'required', message: 'password is required' }]
+ */
+export function toViolations(errors: FastifySchemaValidationError[], context = 'body'): Violation[] {
+    return errors.map((error) => {
+        const path = error.instancePath.split('/').filter(Boolean)
+        if (error.keyword === 'required' && typeof error.params.missingProperty === 'string') {
+            path.push(error.params.missingProperty)
+        }
+        const field = path.length > 0 ? path.join('.') : context
+
+        return {
+            field,
+            rule: RULE_NAMES[error.keyword] ?? error.keyword,
+            message: error.keyword === 'required' ? `${field} is required` : `${field} ${error.message ?? 'is invalid'}`
+        }
+    })
+}
+
+/**
+ * Translate any thrown value into an AppError
+ *
+ * @param {FastifyError} err - Error thrown by a hook, handler or Fastify itself
+ * @returns {AppError | null} null for unexpected errors (500)
+ */
+function toAppError(err: FastifyError): AppError | null {
+    if (err instanceof AppError) {
+        return err
+    }
+    if (err.validation) {
+        return new ValidationError(toViolations(err.validation, err.validationContext))
+    }
+
+    // Rejected by the JSON body parser (FST_ERR_CTP_INVALID_JSON_BODY, FST_ERR_CTP_EMPTY_JSON_BODY)
+    if (err.statusCode === 400 && err.code?.startsWith('FST_ERR_CTP_')) {
+        const message = `${err.message.charAt(0).toLowerCase()}${err.message.slice(1)}`
+        return new ValidationError([{ field: 'body', rule: 'json', message }])
+    }
+
+    return null
+}
+
+/**
+ * Stable code for a status without a dedicated ErrorCode
+ *
+ * @param {number} status - HTTP status code
+ * @returns {string} e.g. 413 → "payload_too_large"
+ */
+function statusPhraseCode(status: number): string {
+    return (STATUS_CODES[status] ?? 'error').toLowerCase().replace(/[^a-z0-9]+/g, '_')
+}
+
+/**
+ * Send a problem details body
+ *
+ * @param {FastifyRequest} request - Failed request (for instance)
+ * @param {FastifyReply} reply - Reply to send on
+ * @param {number} status - HTTP status code
+ * @param {string} code - Stable error code
+ * @param {string} detail - Human-readable explanation
+ * @param {Record<string, unknown>} [extensions] - Extra problem members
+ */
+function sendProblem(
+    request: FastifyRequest,
+    reply: FastifyReply,
+    status: number,
+    code: string,
+    detail: string,
+    extensions: Record<string, unknown> = {}
+) {
+    const body: ProblemDetails = {
+        type: 'about:blank',
+        title: STATUS_CODES[status] ?? 'Error',
+        status,
+        detail,
+        instance: request.url.split('?')[0],
+        code,
+        ...extensions
+    }
+    return reply.code(status).type(PROBLEM_CONTENT_TYPE).send(body)
+}
+
+export default fp(async function errorHandlerPlugin(app: FastifyInstance) {
+    app.setErrorHandler((err: FastifyError, request: FastifyRequest, reply: FastifyReply) => {
+        const error = toAppError(err)
+        if (error) {
+            reply.headers(error.headers)
+            return sendProblem(request, reply, error.statusCode, error.code, error.message, error.extensions)
+        }
+
+        // Other client errors raised by Fastify (payload too large, unsupported media type, ...)
+        if (err.statusCode && err.statusCode >= 400 && err.statusCode < 500) {
+            return sendProblem(request, reply, err.statusCode, statusPhraseCode(err.statusCode), err.message)
+        }
+
+        request.log.error({ err }, 'unhandled error')
+        return sendProblem(request, reply, 500, 'internal_error', 'An unexpected error occurred')
+    })
+
+    app.setNotFoundHandler((request: FastifyRequest, reply: FastifyReply) => {
+        return sendProblem(request, reply, 404, 'not_found', `Route ${request.method} ${request.url.split('?')[0]} not found`)
+    })
+})
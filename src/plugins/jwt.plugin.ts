@@ -15,12 +15,23 @@
  * 1. app.jwt - JWT signing and verification methods
  * 2. app.authenticate - Middleware for protecting routes
  * 3. request.user - Decoded JWT payload on protected routes
+ * 4. app.revokedTokens - Access token denylist checked by app.authenticate
+ * 5. app.authorize / app.requirePermission - Role and permission checks (403)
+ * 6. config.roles / config.permissions / config.userOnly / config.accountManagement -
+ *    Declarative route protection
+ * 7. app.jwtKeys - Signing/verification keys and the public JWK Set
+ * 8. access_token.rejected audit events for every token app.authenticate refuses
+ * 9. Typed tokens: app.jwt.sign() takes a TokenPayload and request.user is
+ *    AccessTokenClaims; only token_use "access" passes app.authenticate
  *
  * How It Works:
  * 1. Registers @fastify/jwt with app.register()
- * 2. Configures JWT_SECRET for signing/verifying tokens
- * 3. Adds custom authenticate decorator
- * 4. Used by routes via preHandler: [app.authenticate]
+ * 2. Configures signing/verification keys (from app.config) - HS256 secret
+ *    or an asymmetric key pair with rotation
+ * 3. Adds custom authenticate, authorize and requirePermission decorators
+ * 4. app.authenticate runs for every non-public route via the global hook
+ *    in auth-guard.plugin.ts; roles via preHandler: [app.authorize('admin')]
+ *    or config: { roles: ['admin'] }
  *
  * Comparison with Other Frameworks:
  * - Express: middleware, use in app.use(authenticateMiddleware)
@@ -33,9 +44,26 @@
  * @see auth.routes.ts for usage examples
  */
 
-import fp from "fastify-plugin";
-import jwt from '@fastify/jwt';
-import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import fp from 'fastify-plugin'
+import jwt, { TokenOrHeader } from '@fastify/jwt'
+import { FastifyInstance, FastifyPluginOptions, FastifyRequest, FastifyReply, preHandlerAsyncHookHandler } from 'fastify'
+import { IRevokedTokenStore } from '../modules/auth/revoked-token.store'
+import { createRevokedTokenStore } from '../modules/auth/revoked-token-store.factory'
+import { AccessTokenClaims, TokenPayload } from '../modules/auth/auth.types'
+import { JwtKeyRing, loadJwtKeyRing } from '../modules/auth/jwt-keys'
+import { CLIENT_SUBJECT_PREFIX } from '../modules/oauth/oauth.service'
+import {
+    AuthenticationRequiredError,
+    InsufficientPermissionsError,
+    InvalidTokenError,
+    TokenExpiredError,
+    TokenRevokedError
+} from '../modules/auth/auth.errors'
+
+/**
+ * How often expired denylist entries are evicted (1 minute)
+ */
+const REVOKED_TOKEN_CLEANUP_INTERVAL_MS = 60 * 1000
 
 /**
  * TypeScript Module Declaration
@@ -70,10 +98,119 @@ declare module 'fastify' {
          * @param {FastifyRequest} request - Fastify request object
          * @param {FastifyReply} reply - Fastify reply object
          * @returns {Promise<void>}
-         * @throws {Error} If token missing or invalid
+         * @throws {AuthenticationRequiredError} If no token was sent
+         * @throws {TokenExpiredError} If the token has expired
+         * @throws {TokenRevokedError} If the token was revoked
+         * @throws {InvalidTokenError} If the token is malformed, forged or not an access token
          */
         authenticate: (request: FastifyRequest, reply: FastifyReply) => Promise<void>
+
+        /**
+         * Access token denylist
+         * Revoked jti values and per-user cutoffs, checked on every authenticate call
+         *
+         * @see {@link ../modules/auth/revoked-token.store.ts}
+         */
+        revokedTokens: IRevokedTokenStore
+
+        /**
+         * JWT keys: the signing key and every key accepted for verification
+         * Sign/verify option helpers and the public JWK Set
+         *
+         * @see {@link ../modules/auth/jwt-keys.ts}
+         */
+        jwtKeys: JwtKeyRing
+
+        /**
+         * Build a preHandler that requires ANY of the given roles
+         * Must run after app.authenticate (request.user populated)
+         *
+         * ```
+         * app.get('/admin', { preHandler: [app.authorize('admin')] }, handler)
+         * ```
+         *
+         * @param {...string} roles - Accepted roles
+         * @returns {preHandlerAsyncHookHandler} Replies 403 if the user has none of them
+         */
+        authorize: (...roles: string[]) => preHandlerAsyncHookHandler
+
+        /**
+         * Build a preHandler that requires ALL of the given permissions
+         * Must run after app.authenticate (request.user populated)
+         *
+         * ```
+         * app.post('/users', { preHandler: [app.requirePermission('users:write')] }, handler)
+         * ```
+         *
+         * @param {...string} permissions - Required permissions
+         * @returns {preHandlerAsyncHookHandler} Replies 403 if any is missing
+         */
+        requirePermission: (...permissions: string[]) => preHandlerAsyncHookHandler
     }
+
+    /**
+     * Route-level protection, readable from the route definition
+     *
+     * ```
+     * app.get('/stats', { config: { roles: ['admin'] } }, handler)
+     * ```
+     *
+     * Routes declaring either field get the matching authorize/requirePermission
+     * preHandlers added automatically (after global authentication).
+     *
+     * Routes acting on the caller's own user account declare userOnly:
+     * ```
+     * app.get('/me', { config: { userOnly: true } }, handler)
+     * ```
+     *
+     * Routes managing the account (sessions, password, second factor)
+     * declare accountManagement instead:
+     * ```
+     * app.get('/sessions', { config: { accountManagement: true } }, handler)
+     * ```
+     */
+    interface FastifyContextConfig {
+        /** Any of these roles is accepted */
+        roles?: string[]
+        /** All of these permissions are required */
+        permissions?: string[]
+        /** Only user tokens: OAuth client_credentials tokens (sub "client:<clientId>") get 403 */
+        userOnly?: boolean
+        /**
+         * Only the user's own tokens (/auth/login): tokens issued to an OAuth
+         * client (client_id claim, delegated or client_credentials) get 403
+         */
+        accountManagement?: boolean
+    }
+}
+
+/**
+ * @fastify/jwt Type Augmentation
+ *
+ * - payload: what app.jwt.sign() accepts - the claims of an access
+ *   or MFA challenge token (see TokenPayload)
+ * - user: what request.jwtVerify() puts on request.user. On every route
+ *   behind the auth guard it is an access token: authenticate refuses
+ *   every other token_use before a handler runs.
+ *
+ * @see {@link ../modules/auth/auth.types.ts} for the claim shapes
+ */
+declare module '@fastify/jwt' {
+    interface FastifyJWT {
+        payload: TokenPayload
+        user: AccessTokenClaims
+    }
+}
+
+/**
+ * Options accepted by the JWT plugin
+ *
+ * @interface JwtPluginOptions
+ * @property {IRevokedTokenStore} [revokedTokenStore] - Use this denylist instead
+ *   of creating one (it then belongs to the caller and is not closed with the app)
+ */
+export interface JwtPluginOptions extends FastifyPluginOptions {
+    revokedTokenStore?: IRevokedTokenStore
 }
 
 /**
@@ -94,9 +231,10 @@ declare module 'fastify' {
  *
  * @async
  * @param {FastifyInstance} app - Fastify application instance
+ * @param {JwtPluginOptions} options - Optional injected denylist
  * @returns {Promise<void>}
  */
-export default fp(async function jwtPlugin(app: FastifyInstance) {
+export default fp(async function jwtPlugin(app: FastifyInstance, options: JwtPluginOptions) {
     /**
      * Register JWT Plugin with @fastify/jwt
      *
@@ -106,33 +244,85 @@ export default fp(async function jwtPlugin(app: FastifyInstance) {
      * - request.jwtVerify() - Verify token in request
      * - request.user - Decoded payload after verification
      *
-     * Configuration:
-     * - secret: Used to sign and verify tokens cryptographically
-     * - MUST be kept secret (don't commit to version control)
-     * - Uses HMAC-SHA256 (HS256) signing algorithm by default
+     * Keys (app.jwtKeys, built from app.config by loadJwtKeyRing):
+     * - HS256 (default): JWT_SECRET signs and verifies (symmetric)
+     * - RS256 / ES256 / EdDSA: JWT_PRIVATE_KEY_FILE signs; its public key
+     *   and any JWT_PUBLIC_KEY_FILES verify (asymmetric)
+     *
+     * Why Asymmetric Keys?
+     * - HS256 is simple and fast, but every verifier holds the signing secret
+     * - With a key pair only this server can sign; other services verify
+     *   with the public keys from GET /.well-known/jwks.json
+     * - Several verification keys can be active at once, so keys rotate
+     *   without invalidating tokens already issued
+     *
+     * Key Selection:
+     * - New tokens carry a kid (key id) header naming the signing key
+     * - Verification looks the key up by kid (decode: complete gives the
+     *   secret callback the header); unknown kids are rejected
+     * - Only algorithms of configured keys are accepted, so a token can
+     *   never choose a weaker algorithm (e.g. HS256 with a public key)
      *
-     * Why HMAC-SHA256?
-     * - Simple symmetric encryption (same secret for sign/verify)
-     * - Fast (good for high-traffic APIs)
-     * - Suitable for single-server scenarios
-     * - For distributed systems, consider RS256 with public/private keys
+     * Claims:
+     * - Every token is signed with iss = JWT_ISSUER and aud = JWT_AUDIENCE
+     * - Verification requires both values, plus exp and token_use: a token
+     *   minted for another audience with a shared key is refused
      *
      * Security:
      * - Token is NOT encrypted, only signed
-     * - Can be decoded with jwt.io (but can't be forged without secret)
+     * - Can be decoded with jwt.io (but can't be forged without the signing key)
      * - Never put sensitive data in JWT (passwords, credit cards, etc.)
-     * - Keep JWT_SECRET secure and rotate periodically
-     *
-     * TODO: Move secret to environment variable
-     * Current: Falls back to 'dev-secret-change-me' if not set
-     * Better: Throw error if JWT_SECRET not set in production
+     * - In production with HS256, startup fails if JWT_SECRET is missing,
+     *   the development default, or shorter than 32 characters
      *
+     * @see {@link ../modules/auth/jwt-keys.ts}
      * @see https://github.com/fastify/fastify-jwt
      */
+    const jwtKeys = loadJwtKeyRing(app.config)
+    app.decorate('jwtKeys', jwtKeys)
+
     app.register(jwt, {
-        secret: process.env.JWT_SECRET || 'dev-secret-change-me'
+        secret: {
+            private: jwtKeys.signingKey,
+            public: async (_request: FastifyRequest, tokenOrHeader: TokenOrHeader) => {
+                const header = 'header' in tokenOrHeader ? tokenOrHeader.header : tokenOrHeader
+                return jwtKeys.find(header.kid).key
+            }
+        },
+        decode: { complete: true },
+        sign: jwtKeys.signOptions,
+        verify: jwtKeys.verifyDefaults
     })
 
+    /**
+     * Access Token Denylist
+     *
+     * Makes logout and "revoke all sessions" take effect immediately
+     * instead of waiting for the access token's natural expiration.
+     *
+     * - Backend selected by REVOKED_TOKEN_STORE: "redis" shares the
+     *   denylist between instances, "memory" is per process
+     * - AuthService adds entries (logout, revoke all sessions)
+     * - authenticate rejects any token found here
+     * - A timer evicts entries whose tokens have expired anyway (a no-op
+     *   for Redis, which expires them natively; unref'd so it never keeps
+     *   the process alive, cleared on close)
+     *
+     * @see {@link ../modules/auth/revoked-token.store.ts}
+     * @see {@link ../modules/auth/revoked-token-store.factory.ts}
+     */
+    const revokedTokens = options.revokedTokenStore ?? createRevokedTokenStore(app.config)
+    if (!options.revokedTokenStore) {
+        app.addHook('onClose', async () => revokedTokens.close())
+    }
+    app.decorate('revokedTokens', revokedTokens)
+
+    const cleanupTimer = setInterval(() => {
+        revokedTokens.cleanupExpired().catch((err) => app.log.error(err))
+    }, REVOKED_TOKEN_CLEANUP_INTERVAL_MS)
+    cleanupTimer.unref()
+    app.addHook('onClose', async () => clearInterval(cleanupTimer))
+
     /**
      * Add Custom Authenticate Decorator
      *
@@ -141,12 +331,15 @@ export default fp(async function jwtPlugin(app: FastifyInstance) {
      * What it does:
      * 1. Calls request.jwtVerify() to validate token
      * 2. Decodes token and populates request.user
-     * 3. Passes to next handler if valid
-     * 4. Returns 401 error if invalid
+     * 3. Rejects tokens on the denylist (logged out / sessions revoked)
+     * 4. Rejects every token that is not an access token (token_use)
+     * 5. Passes to next handler if valid
+     * 6. Throws a typed 401 error if not, rendered as problem+json by the
+     *    global error handler (plugins/error-handler.plugin.ts)
      *
      * Why Custom Decorator?
      * - @fastify/jwt provides request.jwtVerify() but needs error handling
-     * - Custom decorator adds standard error response format
+     * - Custom decorator tells clients WHY a token was refused (error code)
      * - Can be extended with additional logic (logging, metrics, etc.)
      * - Makes routes cleaner: { preHandler: [app.authenticate] }
      *
@@ -160,7 +353,7 @@ export default fp(async function jwtPlugin(app: FastifyInstance) {
      * @function authenticate
      * @param {FastifyRequest} request - Request object from client
      * @param {FastifyReply} reply - Reply object for sending response
-     * @returns {Promise<void>} Resolves if token valid, throws/replies if invalid
+     * @returns {Promise<void>} Resolves if token valid, throws if not
      *
      * Flow:
      * - Valid token:
@@ -170,11 +363,11 @@ export default fp(async function jwtPlugin(app: FastifyInstance) {
      *   4. Route handler executes
      *
      * - Invalid/Missing token:
-     *   1. request.jwtVerify() throws error
-     *   2. Catch block executes
-     *   3. reply.code(401) sets HTTP status
-     *   4. reply.send() sends error message
-     *   5. Route handler never executes
+     *   1. request.jwtVerify() (or a denylist/type check) throws
+     *   2. Catch block audits the rejection and throws the matching error:
+     *      authentication_required, token_expired, token_revoked or token_invalid
+     *   3. The error handler sends 401 application/problem+json
+     *   4. Route handler never executes
      *
      * @example
      * // Usage in route
@@ -194,9 +387,12 @@ export default fp(async function jwtPlugin(app: FastifyInstance) {
      *
      * @example
      * // Client request without token
-     * fetch('http://localhost:3000/protected'); // Returns 401 Unauthorized
+     * fetch('http://localhost:3000/protected'); // 401, code "authentication_required"
      */
-    app.decorate('authenticate', async (request: FastifyRequest, reply: FastifyReply) => {
+    app.decorate('authenticate', async (request: FastifyRequest) => {
+        // Audit reason for tokens that verify but are refused below
+        let reason = 'invalid_token'
+
         try {
             /**
              * Verify JWT Token
@@ -204,8 +400,8 @@ export default fp(async function jwtPlugin(app: FastifyInstance) {
              * How it works:
              * 1. Extracts token from Authorization header (Bearer scheme)
              * 2. Checks if token format is correct
-             * 3. Verifies signature using JWT_SECRET
-             * 4. Checks expiration (exp claim)
+             * 3. Verifies signature with the key named by its kid header
+             * 4. Checks expiration (exp claim), issuer (iss) and audience (aud)
              * 5. Decodes and returns payload
              *
              * Token Location (Bearer scheme):
@@ -218,51 +414,258 @@ export default fp(async function jwtPlugin(app: FastifyInstance) {
              * - Sets request.user to decoded payload
              *
              * Possible Errors (caught by try-catch):
-             * - MissingCredentials: No Authorization header
-             * - MissingBearerToken: Header doesn't contain "Bearer"
-             * - InvalidToken: Token signature invalid
-             * - TokenExpiredError: Token exp claim in past
+             * - FST_JWT_NO_AUTHORIZATION_IN_HEADER: No Authorization header
+             * - FST_JWT_BAD_REQUEST: Header doesn't contain "Bearer <token>"
+             * - FST_JWT_AUTHORIZATION_TOKEN_INVALID: Token signature invalid
+             * - FST_JWT_AUTHORIZATION_TOKEN_EXPIRED: Token exp claim in past
              *
-             * All errors result in 401 response below
+             * All errors result in a 401 below
              */
             await request.jwtVerify()
 
             /**
              * After verification succeeds:
              * - request.user contains decoded JWT payload
-             * - Example: { sub: "admin", iat: 1705334400, exp: 1705338000 }
+             * - Example: { sub: "admin", jti: "...", token_use: "access", iss: "secure-auth-api", ... }
              * - Route handler receives this and can access request.user
              */
+
+            /**
+             * Check the denylist
+             *
+             * A valid signature is not enough: the token may belong to a
+             * session that was logged out or revoked before it expired.
+             * Thrown error lands in the catch block below (audited, then rethrown).
+             */
+            if (await revokedTokens.isRevoked(request.user)) {
+                reason = 'token_revoked'
+                throw new TokenRevokedError()
+            }
+
+            /**
+             * Accept access tokens only
+             *
+             * The mfa_pending challenge returned by login for TOTP users
+             * is signed with the same key, but it proves only the
+             * password. The type is read from token_use, never guessed
+             * from the other claims. (Refresh tokens are opaque and never
+             * verify as a JWT.)
+             */
+            const tokenUse: unknown = request.user.token_use
+            if (tokenUse !== 'access') {
+                reason = 'wrong_token_type'
+                throw new InvalidTokenError(`Expected an access token, got token_use "${tokenUse}"`)
+            }
         } catch (err) {
+            const error = toAuthenticationError(err)
+
+            /**
+             * Audit the Rejection
+             *
+             * Every presented token that is refused (bad signature, expired,
+             * revoked, wrong token type) becomes an access_token.rejected
+             * audit event. Requests carrying no token at all are routine
+             * (anonymous callers hitting protected routes) and stay in the
+             * request log only.
+             */
+            if (!(error instanceof AuthenticationRequiredError)) {
+                app.auditLog.record({
+                    type: 'access_token.rejected',
+                    outcome: 'failure',
+                    subject: (request.user as AccessTokenClaims | undefined)?.sub,
+                    client: { ip: request.ip, userAgent: request.headers['user-agent'], requestId: request.id },
+                    reason: error instanceof TokenExpiredError ? 'token_expired' : reason
+                })
+            }
+
             /**
              * Handle Token Verification Errors
              *
-             * Return 401 Unauthorized with user-friendly message
+             * Throw 401 Unauthorized with a stable code, so clients know
+             * what to do next:
+             * - authentication_required: send a token
+             * - token_expired: refresh the token and retry
+             * - token_revoked: the session ended, log in again
+             * - token_invalid: malformed, forged, unknown key, wrong issuer or
+             *   audience, or not an access token
              *
              * Why 401?
              * - 401: Authentication required/failed (wrong credentials)
              * - 403: Authentication success but authorization failed (insufficient permissions)
-             * - Current endpoint has no authorization checks, only authentication
+             * - This decorator only authenticates; app.authorize and
+             *   app.requirePermission below produce the 403s
              *
              * Error Details NOT Included:
-             * - Don't reveal if token is missing vs invalid vs expired
-             * - Generic message prevents token guessing attacks
-             * - Log detailed error server-side for debugging
-             *
-             * Improvement Idea:
-             * - Could log error for monitoring/alerting
-             * - Could track failed attempts for rate limiting
-             * - Could add error codes for client to handle differently
+             * - Signature and claim errors are all token_invalid: the code
+             *   says what to do, not how the check failed
+             * - The audit event above keeps the detail server-side
              *
              * @example
-             * // Response body
+             * // Response body (application/problem+json)
              * {
-             *   "message": "Unauthorized - Invalid or missing JWT token"
+             *   "type": "about:blank", "title": "Unauthorized", "status": 401,
+             *   "detail": "Access token has expired", "instance": "/api/v1/auth/me",
+             *   "code": "token_expired"
              * }
              */
-            reply.code(401).send({
-                message: 'Unauthorized - Invalid or missing JWT token'
-            })
+            throw error
         }
     })
+
+    /**
+     * Add Role Authorization Decorator
+     *
+     * Returns a preHandler accepting callers that hold ANY of the given roles.
+     * Roles are read from the access token's roles claim (set at login/refresh),
+     * so no user lookup happens per request.
+     *
+     * Errors:
+     * - 401 authentication_required: No authenticated user (app.authenticate did not run or failed)
+     * - 403 insufficient_permissions: Authenticated, but none of the roles match
+     *
+     * @function authorize
+     * @param {...string} roles - Accepted roles
+     * @returns {preHandlerAsyncHookHandler}
+     *
+     * @example
+     * app.delete('/users/:id', {
+     *   preHandler: [app.authorize('admin', 'support')]
+     * }, handler)
+     */
+    app.decorate('authorize', (...roles: string[]): preHandlerAsyncHookHandler => {
+        return async (request: FastifyRequest) => {
+            const user = request.user as Partial<AccessTokenClaims> | undefined
+            if (!user) {
+                throw new AuthenticationRequiredError()
+            }
+
+            const granted = user.roles ?? []
+            if (!roles.some(role => granted.includes(role))) {
+                throw new InsufficientPermissionsError()
+            }
+        }
+    })
+
+    /**
+     * Add Permission Authorization Decorator
+     *
+     * Returns a preHandler accepting callers that hold ALL of the given permissions.
+     * Permissions come from the access token's permissions claim, which already
+     * includes everything granted by the user's roles.
+     *
+     * @function requirePermission
+     * @param {...string} permissions - Required permissions
+     * @returns {preHandlerAsyncHookHandler}
+     *
+     * @example
+     * app.post('/users', {
+     *   preHandler: [app.requirePermission('users:write')]
+     * }, handler)
+     */
+    app.decorate('requirePermission', (...permissions: string[]): preHandlerAsyncHookHandler => {
+        return async (request: FastifyRequest) => {
+            const user = request.user as Partial<AccessTokenClaims> | undefined
+            if (!user) {
+                throw new AuthenticationRequiredError()
+            }
+
+            const granted = user.permissions ?? []
+            if (!permissions.every(permission => granted.includes(permission))) {
+                throw new InsufficientPermissionsError()
+            }
+        }
+    })
+
+    /**
+     * Refuse Tokens of OAuth Clients Acting for Themselves
+     *
+     * client_credentials tokens have sub "client:<clientId>" and no user
+     * behind them: on a route that acts on "my" account (profile,
+     * sessions, password, second factor) there is no account to act on,
+     * and a revocation would hit the client's own subject.
+     */
+    const requireUser: preHandlerAsyncHookHandler = async (request: FastifyRequest) => {
+        const user = request.user as Partial<AccessTokenClaims> | undefined
+        if (!user?.sub) {
+            throw new AuthenticationRequiredError()
+        }
+        if (user.sub.startsWith(CLIENT_SUBJECT_PREFIX)) {
+            throw new InsufficientPermissionsError('Forbidden - This endpoint requires a user access token')
+        }
+    }
+
+    /**
+     * Refuse Tokens Issued to OAuth Clients
+     *
+     * A token the user delegated to an OAuth client carries its client_id
+     * and is limited to the scopes granted, but scopes only narrow
+     * permissions: the account routes check none. Managing the account
+     * (listing and revoking sessions, the second factor, the password)
+     * stays with tokens the user got from /auth/login, so an app signed
+     * in with a users:read scope can't take the account over.
+     */
+    const requireOwnToken: preHandlerAsyncHookHandler = async (request: FastifyRequest) => {
+        const user = request.user as Partial<AccessTokenClaims> | undefined
+        if (user?.client_id) {
+            throw new InsufficientPermissionsError('Forbidden - This endpoint does not accept tokens issued to an OAuth client')
+        }
+    }
+
+    /**
+     * Apply Route Config Protection
+     *
+     * For every route declaring config.roles, config.permissions,
+     * config.userOnly or config.accountManagement (which implies userOnly),
+     * append the matching preHandlers.
+     * Authentication itself already happened in the global onRequest hook
+     * (auth-guard.plugin.ts), so request.user is populated by then.
+     *
+     * Only routes registered after this plugin are affected, which is every
+     * route in app.ts.
+     */
+    app.addHook('onRoute', (routeOptions) => {
+        const { roles, permissions, userOnly, accountManagement } = routeOptions.config ?? {}
+        if (!roles?.length && !permissions?.length && !userOnly && !accountManagement) {
+            return
+        }
+
+        const existing = routeOptions.preHandler
+        const preHandlers = existing ? (Array.isArray(existing) ? [...existing] : [existing]) : []
+
+        if (userOnly || accountManagement) {
+            preHandlers.push(requireUser)
+        }
+        if (accountManagement) {
+            preHandlers.push(requireOwnToken)
+        }
+
+        if (roles?.length) {
+            preHandlers.push(app.authorize(...roles))
+        }
+        if (permissions?.length) {
+            preHandlers.push(app.requirePermission(...permissions))
+        }
+
+        routeOptions.preHandler = preHandlers
+    })
 })
+
+/**
+ * Translate whatever authenticate caught into the error sent to the client
+ *
+ * @param {unknown} err - Error from request.jwtVerify() or the checks after it
+ * @returns {AuthenticationRequiredError | TokenExpiredError | TokenRevokedError | InvalidTokenError}
+ */
+function toAuthenticationError(err: unknown): AuthenticationRequiredError | TokenExpiredError | TokenRevokedError | InvalidTokenError {
+    if (err instanceof TokenRevokedError || err instanceof InvalidTokenError) {
+        return err
+    }
+    switch ((err as { code?: string }).code) {
+        case 'FST_JWT_NO_AUTHORIZATION_IN_HEADER':
+            return new AuthenticationRequiredError()
+        case 'FST_JWT_AUTHORIZATION_TOKEN_EXPIRED':
+            return new TokenExpiredError()
+        default:
+            return new InvalidTokenError()
+    }
+}
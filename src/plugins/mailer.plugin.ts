@@ -0,0 +1,50 @@
+/**
+ * Mailer Plugin
+ *
+ * Plugin Layer - Outgoing Mail
+ *
+ * Creates (or accepts) the mail transport and exposes it as a decorator,
+ * once app.config is available:
+ * - app.mailer: password reset emails (MAIL_TRANSPORT)
+ *
+ * Ownership:
+ * - A mailer created here is owned by the app and closed with it
+ *   (flushes pending writes)
+ * - A mailer passed in via plugin options belongs to the caller
+ *   (e.g. a test collecting sent messages in memory)
+ *
+ * Must be registered after @fastify/env and before auth.plugin.
+ *
+ * @module mailer.plugin
+ * @see {@link ../modules/mail/mailer.factory.ts}
+ */
+
+import fp from 'fastify-plugin'
+import { FastifyInstance, FastifyPluginOptions } from 'fastify'
+import { Mailer } from '../modules/mail/mailer'
+import { createMailer } from '../modules/mail/mailer.factory'
+
+declare module 'fastify' {
+    interface FastifyInstance {
+        /** Outgoing mail transport */
+        mailer: Mailer
+    }
+}
+
+/**
+ * Options accepted by the mailer plugin
+ *
+ * @interface MailerPluginOptions
+ * @property {Mailer} [mailer] - Use this mailer instead of creating one
+ */
+export interface MailerPluginOptions extends FastifyPluginOptions {
+    mailer?: Mailer
+}
+
+export default fp(async function mailerPlugin(app: FastifyInstance, options: MailerPluginOptions) {
+    const mailer = options.mailer ?? createMailer(app.config, app.log)
+    if (!options.mailer) {
+        app.addHook('onClose', async () => mailer.close())
+    }
+    app.decorate('mailer', mailer)
+})
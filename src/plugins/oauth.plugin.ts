@@ -0,0 +1,96 @@
+/**
+ * OAuth Clients Plugin
+ *
+ * Plugin Layer - Registered OAuth Clients and Authorization Codes
+ *
+ * Builds the repository of clients allowed to use the OAuth endpoints and
+ * the store of authorization codes, and exposes them as decorators:
+ * - app.oauthClients: registered clients (OAUTH_CLIENTS_FILE)
+ * - app.oauthCodes: codes issued by /oauth/authorize (OAUTH_CODE_TTL_SECONDS),
+ *   shared between instances when TOKEN_STORE is "redis"
+ *
+ * Clients are registered by an operator with `npm run client:create`,
+ * which prints the client secret once. Outside production, without
+ * OAUTH_CLIENTS_FILE, a demo client is seeded so the documented examples
+ * work out of the box.
+ *
+ * Must be registered before the OAuth route plugin.
+ *
+ * @module oauth.plugin
+ * @see {@link ../modules/oauth/oauth-client.repository.ts}
+ * @see {@link ../modules/oauth/oauth.service.ts}
+ */
+
+import fp from 'fastify-plugin'
+import { FastifyInstance } from 'fastify'
+import {
+    FileOAuthClientRepository,
+    InMemoryOAuthClientRepository,
+    OAuthClientRepository
+} from '../modules/oauth/oauth-client.repository'
+import { IAuthorizationCodeStore } from '../modules/oauth/authorization-code.store'
+import { createAuthorizationCodeStore } from '../modules/oauth/authorization-code-store.factory'
+import { GRANT_TYPES } from '../modules/oauth/oauth.types'
+import { PasswordHasher } from '../modules/users/password.hasher'
+
+/**
+ * Demo client seeded into the in-memory client repository outside production
+ * Keeps the documented demo-client / Demo-Secret@123 examples working for local development
+ * (a third-party client: /oauth/authorize shows the consent page)
+ */
+const DEMO_CLIENT = {
+    clientId: 'demo-client',
+    secret: 'Demo-Secret@123',
+    scopes: ['users:read'],
+    redirectUris: ['http://localhost:3001/callback']
+}
+
+declare module 'fastify' {
+    interface FastifyInstance {
+        /** Clients registered for the OAuth endpoints */
+        oauthClients: OAuthClientRepository
+        /** Authorization codes issued by /oauth/authorize */
+        oauthCodes: IAuthorizationCodeStore
+    }
+}
+
+export default fp(async function oauthPlugin(app: FastifyInstance) {
+    /**
+     * Create the OAuthClientRepository
+     *
+     * - OAUTH_CLIENTS_FILE set: JSON file on disk (shared with the
+     *   client:create CLI)
+     * - Otherwise: in memory, seeded with the demo client outside production
+     */
+    const { OAUTH_CLIENTS_FILE, NODE_ENV } = app.config
+    const oauthClients: OAuthClientRepository = OAUTH_CLIENTS_FILE
+        ? new FileOAuthClientRepository(OAUTH_CLIENTS_FILE)
+        : new InMemoryOAuthClientRepository()
+
+    if (!OAUTH_CLIENTS_FILE && NODE_ENV !== 'production') {
+        await oauthClients.create({
+            clientId: DEMO_CLIENT.clientId,
+            name: 'Demo client',
+            secretHash: await new PasswordHasher().hash(DEMO_CLIENT.secret),
+            grantTypes: [...GRANT_TYPES],
+            scopes: DEMO_CLIENT.scopes,
+            redirectUris: DEMO_CLIENT.redirectUris,
+            createdAt: Date.now()
+        })
+    }
+
+    app.decorate('oauthClients', oauthClients)
+
+    /**
+     * Create the authorization code store
+     *
+     * Follows TOKEN_STORE: "redis" shares codes between instances, so the
+     * code exchange may reach another instance than the authorization
+     * request; otherwise in memory.
+     *
+     * @see {@link ../modules/oauth/authorization-code-store.factory.ts}
+     */
+    const oauthCodes = createAuthorizationCodeStore(app.config)
+    app.addHook('onClose', async () => oauthCodes.close())
+    app.decorate('oauthCodes', oauthCodes)
+})
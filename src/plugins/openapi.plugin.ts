@@ -0,0 +1,126 @@
+/**
+ * OpenAPI Plugin
+ *
+ * Plugin Layer - API Description and Interactive Docs
+ *
+ * Builds an OpenAPI 3.1 document from the routes registered after this
+ * plugin - their paths, methods and JSON schemas (body, headers,
+ * querystring, params, response) plus the tags and summary in schema -
+ * and serves it for client teams to generate SDKs from:
+ * - GET /api/v1/openapi.json - The OpenAPI document
+ * - GET /api/v1/docs - Swagger UI (assets served locally, no CDN)
+ *
+ * Security Requirements:
+ * - Derived from the same rule the global auth guard applies
+ *   (isPublic in auth-guard.plugin.ts): every route that is not public
+ *   requires the "bearerAuth" scheme (Authorization: Bearer <access token>)
+ * - Public routes are documented with security: [], so the spec can't
+ *   disagree with what the server actually enforces
+ * - A route may declare its own schema.security instead: the OAuth token
+ *   endpoint requires client authentication ("oauthClient", HTTP Basic)
+ * - Role and permission requirements (config.roles / config.permissions)
+ *   are not expressible in OpenAPI; they are listed in the description
+ *
+ * Routes with schema: { hide: true } (the docs routes themselves) are
+ * left out of the document.
+ *
+ * Configuration:
+ * - API_DOCS_ENABLED=false skips the plugin: no document, no UI
+ *
+ * Must be registered after the auth guard (the docs routes are public via
+ * PUBLIC_ROUTES) and before any documented route: routes registered
+ * earlier are missing from the document.
+ *
+ * @module openapi.plugin
+ * @see https://github.com/fastify/fastify-swagger
+ * @see https://spec.openapis.org/oas/v3.1.0
+ */
+
+import fp from 'fastify-plugin'
+import { FastifyInstance, FastifySchema } from 'fastify'
+import swagger from '@fastify/swagger'
+import swaggerUi from '@fastify/swagger-ui'
+import { API_PREFIX } from '../config/api.constants'
+import { isPublic } from './auth-guard.plugin'
+
+/**
+ * Name of the access token security scheme in components.securitySchemes
+ */
+const BEARER_AUTH = 'bearerAuth'
+
+/**
+ * Name of the OAuth client credentials security scheme (HTTP Basic),
+ * referenced by the token endpoint's own schema.security
+ */
+const OAUTH_CLIENT_AUTH = 'oauthClient'
+
+/**
+ * Describe a route's role, permission and token requirements
+ *
+ * @param {object} [config] - Route config
+ * @returns {string | undefined} e.g. "Requires role admin and permission audit:read."
+ */
+function accessDescription(
+    config?: { roles?: string[], permissions?: string[], userOnly?: boolean, accountManagement?: boolean }
+): string | undefined {
+    const parts: string[] = []
+    if (config?.accountManagement) {
+        parts.push('an access token from /auth/login (not one issued to an OAuth client)')
+    } else if (config?.userOnly) {
+        parts.push('a user access token (not client_credentials)')
+    }
+    if (config?.roles?.length) {
+        parts.push(`role ${config.roles.join(' or ')}`)
+    }
+    if (config?.permissions?.length) {
+        parts.push(`permission ${config.permissions.join(' and ')}`)
+    }
+    return parts.length > 0 ? `Requires ${parts.join(' and ')}.` : undefined
+}
+
+export default fp(async function openapiPlugin(app: FastifyInstance) {
+    if (!app.config.API_DOCS_ENABLED) {
+        return
+    }
+
+    await app.register(swagger, {
+        openapi: {
+            openapi: '3.1.0',
+            info: {
+                title: 'Secure Auth API',
+                description: 'JWT authentication with refresh token rotation, TOTP two-factor login, password reset and admin session management.',
+                version: '1.0.0'
+            },
+            components: {
+                securitySchemes: {
+                    [BEARER_AUTH]: {
+                        type: 'http',
+                        scheme: 'bearer',
+                        bearerFormat: 'JWT',
+                        description: 'Access token from POST /auth/login or /auth/refresh'
+                    },
+                    [OAUTH_CLIENT_AUTH]: {
+                        type: 'http',
+                        scheme: 'basic',
+                        description: 'OAuth client_id and client_secret (POST /oauth/token)'
+                    }
+                }
+            }
+        },
+        transform: ({ schema, url, route }) => {
+            const access = accessDescription(route.config)
+            const documented: FastifySchema = {
+                ...schema,
+                security: schema?.security ?? (isPublic(url, route.config) ? [] : [{ [BEARER_AUTH]: [] }])
+            }
+            if (access) {
+                documented.description = schema?.description ? `${schema.description}\n\n${access}` : access
+            }
+            return { schema: documented, url }
+        }
+    })
+
+    app.get(`${API_PREFIX}/openapi.json`, { schema: { hide: true } }, async () => app.swagger())
+
+    await app.register(swaggerUi, { routePrefix: `${API_PREFIX}/docs` })
+})
@@ -0,0 +1,77 @@
+/**
+ * Stores Plugin
+ *
+ * Plugin Layer - Storage Backends
+ *
+ * Creates (or accepts) the shared storage backends and exposes them as
+ * decorators, once app.config is available:
+ * - app.tokenStore: refresh tokens (TOKEN_STORE)
+ * - app.loginAttemptStore: failed-login counters (LOGIN_ATTEMPT_STORE)
+ *
+ * Ownership:
+ * - A store created here is owned by the app and closed with it
+ *   (flushes pending writes, closes Redis connections)
+ * - A store passed in via plugin options belongs to the caller
+ *   (e.g. a test sharing one store between two app instances)
+ *
+ * Must be registered after @fastify/env and before any route plugin.
+ *
+ * @module stores.plugin
+ * @see {@link ../modules/auth/token-store.factory.ts}
+ * @see {@link ../modules/auth/login-attempt-store.factory.ts}
+ */
+
+import fp from 'fastify-plugin'
+import { FastifyInstance, FastifyPluginOptions } from 'fastify'
+import { ITokenStore } from '../modules/auth/token.store'
+import { createTokenStore } from '../modules/auth/token-store.factory'
+import { ILoginAttemptStore } from '../modules/auth/login-attempt.store'
+import { createLoginAttemptStore } from '../modules/auth/login-attempt-store.factory'
+
+/**
+ * How often expired failed-login counters are evicted (1 minute)
+ */
+const LOGIN_ATTEMPT_CLEANUP_INTERVAL_MS = 60 * 1000
+
+declare module 'fastify' {
+    interface FastifyInstance {
+        /** Refresh token backend */
+        tokenStore: ITokenStore
+        /** Failed-login counters for brute-force protection */
+        loginAttemptStore: ILoginAttemptStore
+    }
+}
+
+/**
+ * Options accepted by the stores plugin
+ *
+ * @interface StoresPluginOptions
+ * @property {ITokenStore} [tokenStore] - Use this store instead of creating one
+ * @property {ILoginAttemptStore} [loginAttemptStore] - Use this store instead of creating one
+ */
+export interface StoresPluginOptions extends FastifyPluginOptions {
+    tokenStore?: ITokenStore
+    loginAttemptStore?: ILoginAttemptStore
+}
+
+export default fp(async function storesPlugin(app: FastifyInstance, options: StoresPluginOptions) {
+    const tokenStore = options.tokenStore ?? createTokenStore(app.config)
+    if (!options.tokenStore) {
+        app.addHook('onClose', async () => tokenStore.close())
+    }
+    app.decorate('tokenStore', tokenStore)
+
+    const loginAttemptStore = options.loginAttemptStore ?? createLoginAttemptStore(app.config)
+    if (!options.loginAttemptStore) {
+        app.addHook('onClose', async () => loginAttemptStore.close())
+    }
+    app.decorate('loginAttemptStore', loginAttemptStore)
+
+    // Evict expired counters (a no-op for Redis, which expires them natively)
+    // The timer never keeps the process alive and stops when the app closes
+    const cleanupTimer = setInterval(() => {
+        loginAttemptStore.cleanupExpired().catch((err) => app.log.error(err))
+    }, LOGIN_ATTEMPT_CLEANUP_INTERVAL_MS)
+    cleanupTimer.unref()
+    app.addHook('onClose', async () => clearInterval(cleanupTimer))
+})
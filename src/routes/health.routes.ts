@@ -106,7 +106,9 @@ export async function healthRoutes(app: FastifyInstance) {
    *   console.log(`Service is ${health.status}`);
    * }
    */
-  app.get("/health", async () => {
+  app.get("/health", {
+    schema: { tags: ["health"], operationId: "getHealth", summary: "Service health check" },
+  }, async () => {
     return {
       status: "UP",
       service: "node-fastify-secure-auth-api",
@@ -0,0 +1,81 @@
+/**
+ * JWKS Routes Module
+ *
+ * This module publishes the public keys used to verify access tokens
+ * as a JSON Web Key Set (RFC 7517).
+ *
+ * Who Uses It?
+ * - Resource servers (other APIs) verifying this server's access tokens
+ *   without sharing a secret
+ * - API gateways and JWT libraries with "JWKS URI" support
+ *
+ * How Clients Use It:
+ * 1. Read the kid header of an incoming token
+ * 2. Find the key with the same kid in the cached key set
+ * 3. Unknown kid? Re-fetch the key set (keys were rotated), then retry
+ *
+ * Why Not Authenticated?
+ * - Public keys are public by design: they can only verify, never sign
+ * - Verifiers need them before they can check any token
+ *
+ * Why at the Root?
+ * - /.well-known/ is the standard location (RFC 8615), independent of
+ *   API versioning, so it is registered without API_PREFIX
+ *
+ * With JWT_ALGORITHM=HS256 the key set is empty: a shared secret is
+ * never published.
+ *
+ * @module jwks.routes
+ * @see {@link ../modules/auth/jwt-keys.ts}
+ */
+
+import { FastifyInstance } from "fastify";
+
+/**
+ * How long clients may cache the key set (5 minutes)
+ * Short enough that a newly added key is picked up well before it signs
+ */
+const JWKS_CACHE_MAX_AGE_SECONDS = 5 * 60;
+
+/**
+ * Register the JWKS route
+ *
+ * Endpoint: GET /.well-known/jwks.json
+ *
+ * Requires app.jwtKeys (decorated by jwt.plugin).
+ *
+ * @async
+ * @param {FastifyInstance} app - Fastify application instance
+ * @returns {Promise<void>}
+ *
+ * @example
+ * // Usage (no prefix)
+ * app.register(jwksRoutes);
+ *
+ * // Results in:
+ * // GET http://localhost:3000/.well-known/jwks.json
+ */
+export async function jwksRoutes(app: FastifyInstance) {
+  /**
+   * GET /.well-known/jwks.json endpoint
+   *
+   * Response (200 OK):
+   * ```json
+   * {
+   *   "keys": [
+   *     { "kty": "EC", "crv": "P-256", "x": "...", "y": "...", "kid": "Nq3...", "alg": "ES256", "use": "sig" }
+   *   ]
+   * }
+   * ```
+   *
+   * The first key signs new tokens; the others are still accepted
+   * (rotation overlap).
+   */
+  app.get("/.well-known/jwks.json", {
+    config: { public: true },
+    schema: { tags: ["keys"], operationId: "getJwks", summary: "Public keys for verifying access tokens (JWKS)" },
+  }, async (_request, reply) => {
+    reply.header("Cache-Control", `public, max-age=${JWKS_CACHE_MAX_AGE_SECONDS}`);
+    return app.jwtKeys.jwks();
+  });
+}
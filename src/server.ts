@@ -5,7 +5,7 @@
  *
  * Responsibilities:
  * - Builds the application instance using the factory pattern
- * - Starts the HTTP server on the configured port
+ * - Starts the HTTP server on the configured host and port (app.config)
  * - Handles startup errors and graceful shutdown
  * - Provides console feedback for developers
  *
@@ -27,18 +27,18 @@ const app = buildApp();
  * Async function to start the server
  *
  * Process:
- * 1. Attempt to bind to port 3000 on all network interfaces (0.0.0.0)
- * 2. Wait for the server to be ready
+ * 1. Wait for all plugins to load (configuration is validated here)
+ * 2. Bind to HOST:PORT from app.config
  * 3. Log success message
  * 4. Catch and handle any startup errors
  *
  * Network Configuration:
- * - Host: 0.0.0.0 means listen on all available network interfaces
+ * - HOST (default 0.0.0.0) means listen on all available network interfaces
  *   Allows connections from localhost, local network, and external requests
- * - Port: 3000 (can be overridden with PORT environment variable)
+ * - PORT (default 3000)
  *
  * Error Handling:
- * - Catches any errors during startup (port already in use, permission denied, etc.)
+ * - Catches any errors during startup (invalid configuration, port already in use, permission denied, etc.)
  * - Logs errors to Fastify logger
  * - Exits process with code 1 to signal failure to orchestration tools
  *
@@ -47,17 +47,23 @@ const app = buildApp();
  */
 const start = async () => {
   try {
-    // Start listening on port 3000
+    // Load plugins first: app.config only exists once ready() resolves
+    // Invalid or unsafe configuration rejects here
+    await app.ready();
+
+    // Start listening on the configured interface and port
     // This is a blocking call that keeps the server running
-    await app.listen({ port: 3000, host: "0.0.0.0" });
+    const { HOST, PORT } = app.config;
+    await app.listen({ port: PORT, host: HOST });
 
     // Server started successfully
     // This message is visible when running `npm run dev` or `npm start`
-    console.log("🚀 Server running on http://localhost:3000");
+    console.log(`🚀 Server running on http://localhost:${PORT}`);
   } catch (err) {
     // Handle startup errors
     // Common errors:
-    // - EADDRINUSE: Port 3000 is already in use by another process
+    // - Invalid configuration (e.g. weak JWT_SECRET in production)
+    // - EADDRINUSE: The port is already in use by another process
     // - EACCES: Permission denied (usually requires sudo on Linux/Mac)
     // - ECONNREFUSED: Network interface not available
 
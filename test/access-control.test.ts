@@ -0,0 +1,88 @@
+/**
+ * Access control: the global authentication guard (public routes and
+ * PUBLIC_ROUTES) and the roles and permissions declared in route config
+ */
+
+import { FastifyInstance } from 'fastify'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { isPublicRoute } from '../src/config/public-routes'
+import { ADMIN, bearer, body, createTestApp, loginTokens, registerUser } from './app.helper'
+
+let app: FastifyInstance
+
+beforeEach(async () => {
+    ({ app } = await createTestApp())
+})
+
+afterEach(async () => {
+    await app.close()
+})
+
+describe('authentication guard', () => {
+    it('serves public routes without a token', async () => {
+        const response = await app.inject({ method: 'GET', url: '/api/v1/health' })
+
+        expect(response.statusCode).toBe(200)
+    })
+
+    it('asks for a token on every other route', async () => {
+        const response = await app.inject({ method: 'GET', url: '/api/v1/auth/me' })
+
+        expect(response.statusCode).toBe(401)
+        expect(body(response).code).toBe('authentication_required')
+    })
+
+    it('rejects a malformed token', async () => {
+        const response = await app.inject({ method: 'GET', url: '/api/v1/auth/me', headers: bearer('not.a.jwt') })
+
+        expect(response.statusCode).toBe(401)
+        expect(body(response).code).toBe('token_invalid')
+    })
+
+    it('leaves unknown routes to a plain 404', async () => {
+        const response = await app.inject({ method: 'GET', url: '/api/v1/nothing-here' })
+
+        expect(response.statusCode).toBe(404)
+    })
+
+    it('matches PUBLIC_ROUTES by whole path segments', () => {
+        expect(isPublicRoute('/api/v1/auth/login/mfa')).toBe(true)
+        expect(isPublicRoute('/api/v1/auth/loginbar')).toBe(false)
+        expect(isPublicRoute('/api/v10/health')).toBe(false)
+    })
+})
+
+describe('roles and permissions', () => {
+    it.each([
+        ['GET', '/api/v1/admin/users'],
+        ['GET', '/api/v1/admin/stats'],
+        ['POST', '/api/v1/auth/users/admin/unlock']
+    ] as const)('refuses %s %s to a user without the admin role', async (method, url) => {
+        await registerUser(app, 'alice', 'Correct-Horse-42')
+        const { accessToken } = await loginTokens(app, 'alice', 'Correct-Horse-42')
+
+        const response = await app.inject({ method, url, headers: bearer(accessToken) })
+
+        expect(response.statusCode).toBe(403)
+        expect(body(response).code).toBe('insufficient_permissions')
+    })
+
+    it('lets the admin through', async () => {
+        const { accessToken } = await loginTokens(app, ADMIN.username, ADMIN.password)
+
+        const response = await app.inject({ method: 'GET', url: '/api/v1/admin/users', headers: bearer(accessToken) })
+
+        expect(response.statusCode).toBe(200)
+    })
+
+    it('carries the roles and permissions in the access token', async () => {
+        const { accessToken } = await loginTokens(app, ADMIN.username, ADMIN.password)
+
+        const response = await app.inject({ method: 'GET', url: '/api/v1/auth/me', headers: bearer(accessToken) })
+
+        expect(body<{ user: { roles: string[], permissions: string[] } }>(response).user).toMatchObject({
+            roles: ['admin'],
+            permissions: expect.arrayContaining(['users:read', 'users:write'])
+        })
+    })
+})
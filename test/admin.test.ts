@@ -0,0 +1,112 @@
+/**
+ * Admin API (/admin): listing users, revoking their tokens, disabling
+ * and enabling accounts, and statistics
+ */
+
+import { FastifyInstance, LightMyRequestResponse } from 'fastify'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { ADMIN, bearer, body, createTestApp, login, loginTokens, registerUser } from './app.helper'
+
+const USER = { username: 'alice', password: 'Correct-Horse-42' }
+
+let app: FastifyInstance
+let adminToken: string
+
+beforeEach(async () => {
+    ({ app } = await createTestApp())
+    await registerUser(app, USER.username, USER.password, 'alice@example.com')
+    ;({ accessToken: adminToken } = await loginTokens(app, ADMIN.username, ADMIN.password))
+})
+
+afterEach(async () => {
+    await app.close()
+})
+
+function asAdmin(method: 'GET' | 'POST', url: string): Promise<LightMyRequestResponse> {
+    return app.inject({ method, url: `/api/v1/admin${url}`, headers: bearer(adminToken) })
+}
+
+describe('GET /admin/users', () => {
+    it('pages through the users with their sessions', async () => {
+        await loginTokens(app, USER.username, USER.password)
+
+        const response = await asAdmin('GET', '/users?page=1&pageSize=1')
+
+        expect(response.statusCode).toBe(200)
+        const page = body<{ users: { username: string }[], total: number, totalPages: number }>(response)
+        expect(page).toMatchObject({ total: 2, totalPages: 2 })
+        expect(page.users).toHaveLength(1)
+
+        const second = body<{ users: { username: string, email: string, sessions: unknown[] }[] }>(await asAdmin('GET', '/users?page=2&pageSize=1'))
+        const usernames = [...page.users, ...second.users].map(user => user.username)
+        expect(usernames).toEqual(expect.arrayContaining(['admin', 'alice']))
+        expect(JSON.stringify(second)).not.toContain('passwordHash')
+    })
+
+    it('refuses an invalid page', async () => {
+        const response = await asAdmin('GET', '/users?page=0')
+
+        expect(response.statusCode).toBe(400)
+    })
+})
+
+describe('POST /admin/users/:username/revoke-tokens', () => {
+    it('signs the user out everywhere', async () => {
+        const alice = await loginTokens(app, USER.username, USER.password)
+
+        const response = await asAdmin('POST', '/users/alice/revoke-tokens')
+
+        expect(response.statusCode).toBe(200)
+        expect((await app.inject({ method: 'GET', url: '/api/v1/auth/me', headers: bearer(alice.accessToken) })).statusCode).toBe(401)
+        const refreshed = await app.inject({ method: 'POST', url: '/api/v1/auth/refresh', payload: { refreshToken: alice.refreshToken } })
+        expect(refreshed.statusCode).toBe(401)
+    })
+
+    it('answers 404 for an unknown user', async () => {
+        const response = await asAdmin('POST', '/users/nobody/revoke-tokens')
+
+        expect(response.statusCode).toBe(404)
+        expect(body(response).code).toBe('user_not_found')
+    })
+})
+
+describe('disable and enable', () => {
+    it('keeps a disabled user from signing in until enabled again', async () => {
+        const disabled = await asAdmin('POST', '/users/alice/disable')
+
+        expect(disabled.statusCode).toBe(200)
+        expect(body(disabled)).toMatchObject({ user: { username: 'alice', disabled: true } })
+        const refused = await login(app, USER.username, USER.password)
+        expect(refused.statusCode).toBe(403)
+        expect(body(refused).code).toBe('account_disabled')
+
+        expect((await asAdmin('POST', '/users/alice/enable')).statusCode).toBe(200)
+        expect((await login(app, USER.username, USER.password)).statusCode).toBe(200)
+    })
+
+    it('signs a disabled user out', async () => {
+        const alice = await loginTokens(app, USER.username, USER.password)
+
+        await asAdmin('POST', '/users/alice/disable')
+
+        expect((await app.inject({ method: 'GET', url: '/api/v1/auth/me', headers: bearer(alice.accessToken) })).statusCode).toBe(401)
+    })
+
+    it('doesn\'t let an admin disable their own account', async () => {
+        const response = await asAdmin('POST', '/users/admin/disable')
+
+        expect(response.statusCode).toBe(400)
+    })
+})
+
+describe('GET /admin/stats', () => {
+    it('counts users and sessions', async () => {
+        await loginTokens(app, USER.username, USER.password)
+        await asAdmin('POST', '/users/alice/disable')
+
+        const response = await asAdmin('GET', '/stats')
+
+        expect(response.statusCode).toBe(200)
+        expect(body(response)).toMatchObject({ users: { total: 2, disabled: 1 }, activeSessions: 1 })
+    })
+})
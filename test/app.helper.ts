@@ -0,0 +1,166 @@
+/**
+ * Test Application
+ *
+ * Builds the real application with buildApp() for route tests driven by
+ * app.inject(): in-memory stores, no request log or audit output, and
+ * mail collected in an array instead of sent. Outside production the
+ * demo admin and the demo OAuth client are seeded, as in development.
+ *
+ * Each test file runs in its own worker, so setting process.env here
+ * affects only the file that imports this helper.
+ *
+ * @module app.helper
+ * @see {@link ../src/app.ts} for buildApp
+ */
+
+import { FastifyInstance, InjectOptions, LightMyRequestResponse } from 'fastify'
+import { BuildAppOptions, buildApp } from '../src/app'
+import { Totp } from '../src/modules/auth/totp'
+import { MailMessage } from '../src/modules/mail/mailer'
+
+process.env.NODE_ENV = 'test'
+process.env.LOG_LEVEL = 'silent'
+process.env.AUDIT_SINKS = ''
+
+/**
+ * Demo admin seeded by auth.plugin outside production
+ */
+export const ADMIN = { username: 'admin', password: 'Admin@123' }
+
+/**
+ * Demo OAuth client seeded by oauth.plugin outside production
+ */
+export const DEMO_CLIENT = {
+    clientId: 'demo-client',
+    secret: 'Demo-Secret@123',
+    redirectUri: 'http://localhost:3001/callback'
+}
+
+/**
+ * A built application and the mail it sent
+ */
+export interface TestApp {
+    app: FastifyInstance
+    mail: MailMessage[]
+}
+
+/**
+ * Build and start an application (call app.close() after the test)
+ *
+ * @param options Dependencies to inject instead of the configured ones
+ */
+export async function createTestApp(options: BuildAppOptions = {}): Promise<TestApp> {
+    const mail: MailMessage[] = []
+    const app = buildApp({
+        mailer: { send: async (message) => { mail.push(message) }, close: async () => {} },
+        ...options
+    })
+    await app.ready()
+    return { app, mail }
+}
+
+/**
+ * Authorization header for an access token
+ */
+export function bearer(accessToken: string): Record<string, string> {
+    return { authorization: `Bearer ${accessToken}` }
+}
+
+/**
+ * Parse a JSON response body
+ */
+export function body<T = Record<string, unknown>>(response: LightMyRequestResponse): T {
+    return response.json() as T
+}
+
+/**
+ * POST /api/v1/auth/login
+ *
+ * @param remoteAddress Client IP (keeps the per-IP throttle of one test apart from others)
+ */
+export function login(
+    app: FastifyInstance,
+    username: string,
+    password: string,
+    remoteAddress = '127.0.0.1'
+): Promise<LightMyRequestResponse> {
+    return app.inject({ method: 'POST', url: '/api/v1/auth/login', payload: { username, password }, remoteAddress })
+}
+
+/**
+ * Log in and return the access and refresh tokens (fails the test otherwise)
+ */
+export async function loginTokens(
+    app: FastifyInstance,
+    username: string,
+    password: string
+): Promise<{ accessToken: string, refreshToken: string }> {
+    const response = await login(app, username, password)
+    if (response.statusCode !== 200) {
+        throw new Error(`Login as ${username} failed: ${response.statusCode} ${response.body}`)
+    }
+    return body<{ accessToken: string, refreshToken: string }>(response)
+}
+
+/**
+ * Register a user through POST /api/v1/auth/register
+ */
+export async function registerUser(app: FastifyInstance, username: string, password: string, email?: string): Promise<void> {
+    const response = await app.inject({ method: 'POST', url: '/api/v1/auth/register', payload: { username, password, email } })
+    if (response.statusCode !== 201) {
+        throw new Error(`Registering ${username} failed: ${response.statusCode} ${response.body}`)
+    }
+}
+
+/**
+ * Enable TOTP for the caller (enroll and confirm)
+ *
+ * @returns The secret (to generate codes with Totp) and the recovery codes
+ */
+export async function enableTotp(app: FastifyInstance, accessToken: string): Promise<{ secret: string, recoveryCodes: string[] }> {
+    const enrolled = await app.inject({ method: 'POST', url: '/api/v1/auth/mfa/totp/enroll', headers: bearer(accessToken) })
+    const { secret } = body<{ secret: string }>(enrolled)
+    const confirmed = await app.inject({
+        method: 'POST',
+        url: '/api/v1/auth/mfa/totp/confirm',
+        headers: bearer(accessToken),
+        payload: { code: new Totp().generate(secret) }
+    })
+    if (confirmed.statusCode !== 200) {
+        throw new Error(`Enabling TOTP failed: ${confirmed.statusCode} ${confirmed.body}`)
+    }
+    return { secret, recoveryCodes: body<{ recoveryCodes: string[] }>(confirmed).recoveryCodes }
+}
+
+/**
+ * POST an application/x-www-form-urlencoded body (the OAuth endpoints)
+ */
+export function postForm(
+    app: FastifyInstance,
+    url: string,
+    form: Record<string, string>,
+    options: InjectOptions = {}
+): Promise<LightMyRequestResponse> {
+    return app.inject({
+        ...options,
+        method: 'POST',
+        url,
+        headers: { 'content-type': 'application/x-www-form-urlencoded', ...options.headers },
+        payload: new URLSearchParams(form).toString()
+    })
+}
+
+/**
+ * POST /api/v1/oauth/token as the demo client (HTTP Basic)
+ */
+export function tokenRequest(app: FastifyInstance, form: Record<string, string>): Promise<LightMyRequestResponse> {
+    const basic = Buffer.from(`${DEMO_CLIENT.clientId}:${DEMO_CLIENT.secret}`).toString('base64')
+    return postForm(app, '/api/v1/oauth/token', form, { headers: { authorization: `Basic ${basic}` } })
+}
+
+/**
+ * Decode the payload of a JWT (no verification)
+ */
+export function claimsOf<T = Record<string, unknown>>(jwt: string): T {
+    return JSON.parse(Buffer.from(jwt.split('.')[1], 'base64url').toString()) as T
+}
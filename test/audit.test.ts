@@ -0,0 +1,92 @@
+/**
+ * Security audit log (GET /admin/audit): what authentication events are
+ * recorded, and filtering them
+ */
+
+import { FastifyInstance, LightMyRequestResponse } from 'fastify'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { AuditEvent } from '../src/modules/audit/audit.types'
+import { ADMIN, bearer, body, createTestApp, login, loginTokens, registerUser } from './app.helper'
+
+const USER = { username: 'alice', password: 'Correct-Horse-42' }
+
+let app: FastifyInstance
+let adminToken: string
+
+beforeEach(async () => {
+    ({ app } = await createTestApp())
+    await registerUser(app, USER.username, USER.password)
+    ;({ accessToken: adminToken } = await loginTokens(app, ADMIN.username, ADMIN.password))
+})
+
+afterEach(async () => {
+    await app.close()
+})
+
+function audit(query: Record<string, string>): Promise<LightMyRequestResponse> {
+    return app.inject({ method: 'GET', url: `/api/v1/admin/audit?${new URLSearchParams(query)}`, headers: bearer(adminToken) })
+}
+
+async function eventsOf(query: Record<string, string>): Promise<AuditEvent[]> {
+    const response = await audit(query)
+    expect(response.statusCode).toBe(200)
+    return body<{ events: AuditEvent[] }>(response).events
+}
+
+describe('GET /admin/audit', () => {
+    it('records a failed login with its reason and client', async () => {
+        await app.inject({
+            method: 'POST',
+            url: '/api/v1/auth/login',
+            headers: { 'user-agent': 'TestAgent/1.0' },
+            payload: { username: USER.username, password: 'wrong-password' },
+            remoteAddress: '203.0.113.7'
+        })
+
+        const [event] = await eventsOf({ user: USER.username, type: 'login' })
+
+        expect(event).toMatchObject({
+            type: 'login',
+            outcome: 'failure',
+            subject: USER.username,
+            ip: '203.0.113.7',
+            userAgent: 'TestAgent/1.0',
+            reason: 'invalid_password'
+        })
+    })
+
+    it('records the admin as the actor of an admin action', async () => {
+        await app.inject({ method: 'POST', url: '/api/v1/admin/users/alice/disable', headers: bearer(adminToken) })
+
+        const events = await eventsOf({ user: USER.username })
+
+        expect(events[0]).toMatchObject({ subject: USER.username, actor: ADMIN.username })
+    })
+
+    it('filters by user, type prefix and limit, newest first', async () => {
+        await login(app, USER.username, USER.password)
+        await login(app, USER.username, 'wrong-password')
+
+        const events = await eventsOf({ user: USER.username, type: 'login', limit: '1' })
+
+        expect(events).toHaveLength(1)
+        expect(events[0]).toMatchObject({ subject: USER.username, outcome: 'failure' })
+        expect((await eventsOf({ user: USER.username, type: 'account' })).map(event => event.type)).toEqual(['account.register'])
+    })
+
+    it('leaves out events before since', async () => {
+        await login(app, USER.username, USER.password)
+
+        const events = await eventsOf({ user: USER.username, since: String(Date.now() + 60 * 1000) })
+
+        expect(events).toEqual([])
+    })
+
+    it('refuses an invalid since or limit', async () => {
+        const response = await audit({ since: 'yesterday', limit: '5000' })
+
+        expect(response.statusCode).toBe(400)
+        const fields = body<{ violations: { field: string }[] }>(response).violations.map(violation => violation.field)
+        expect(fields).toEqual(expect.arrayContaining(['since', 'limit']))
+    })
+})
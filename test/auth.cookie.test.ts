@@ -0,0 +1,148 @@
+/**
+ * Cookie transport for the refresh token (X-Token-Transport: cookie):
+ * HttpOnly cookie, double-submit CSRF token, and logout clearing both
+ */
+
+import { FastifyInstance, LightMyRequestResponse } from 'fastify'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { ADMIN, bearer, body, createTestApp } from './app.helper'
+
+const COOKIE_TRANSPORT = { 'x-token-transport': 'cookie' }
+
+interface Cookie {
+    name: string
+    value: string
+    path?: string
+    httpOnly?: boolean
+    secure?: boolean
+    sameSite?: string
+    maxAge?: number
+}
+
+/**
+ * What the browser holds after a cookie-transport login or refresh
+ */
+interface BrowserSession {
+    accessToken: string
+    refreshCookie: string
+    csrfToken: string
+}
+
+let app: FastifyInstance
+
+beforeEach(async () => {
+    ({ app } = await createTestApp())
+})
+
+afterEach(async () => {
+    await app.close()
+})
+
+function cookieNamed(response: LightMyRequestResponse, name: string): Cookie | undefined {
+    return (response.cookies as Cookie[]).find(cookie => cookie.name === name)
+}
+
+function sessionOf(response: LightMyRequestResponse): BrowserSession {
+    expect(response.statusCode).toBe(200)
+    return {
+        accessToken: body<{ accessToken: string }>(response).accessToken,
+        refreshCookie: cookieNamed(response, app.config.REFRESH_COOKIE_NAME)?.value as string,
+        csrfToken: body<{ csrfToken: string }>(response).csrfToken
+    }
+}
+
+function cookieLogin(): Promise<LightMyRequestResponse> {
+    return app.inject({ method: 'POST', url: '/api/v1/auth/login', headers: COOKIE_TRANSPORT, payload: ADMIN })
+}
+
+/**
+ * POST to /auth/refresh or /auth/logout the way a browser page would: the
+ * access token as bearer, both cookies and the X-CSRF-Token header
+ *
+ * @param csrfToken X-CSRF-Token to send (defaults to the session's)
+ */
+function withCookies(path: 'refresh' | 'logout', session: BrowserSession, csrfToken: string | null = session.csrfToken): Promise<LightMyRequestResponse> {
+    return app.inject({
+        method: 'POST',
+        url: `/api/v1/auth/${path}`,
+        headers: { ...bearer(session.accessToken), ...COOKIE_TRANSPORT, ...(csrfToken === null ? {} : { 'x-csrf-token': csrfToken }) },
+        cookies: {
+            [app.config.REFRESH_COOKIE_NAME]: session.refreshCookie,
+            [app.config.CSRF_COOKIE_NAME]: session.csrfToken
+        }
+    })
+}
+
+describe('login with the cookie transport', () => {
+    it('sets the refresh token as an HttpOnly cookie and leaves it out of the body', async () => {
+        const response = await cookieLogin()
+
+        expect(response.statusCode).toBe(200)
+        const tokens = body(response)
+        expect(tokens).not.toHaveProperty('refreshToken')
+        expect(tokens).toMatchObject({ accessToken: expect.any(String), tokenType: 'Bearer', csrfToken: expect.any(String) })
+        expect(cookieNamed(response, app.config.REFRESH_COOKIE_NAME)).toMatchObject({
+            httpOnly: true,
+            secure: true,
+            sameSite: 'Strict',
+            path: '/api/v1/auth',
+            maxAge: app.config.REFRESH_TOKEN_TTL_SECONDS
+        })
+        expect(cookieNamed(response, app.config.CSRF_COOKIE_NAME)).toMatchObject({ value: tokens.csrfToken, path: '/' })
+        expect(cookieNamed(response, app.config.CSRF_COOKIE_NAME)?.httpOnly).toBeFalsy()
+    })
+
+    it('keeps the body transport by default', async () => {
+        const response = await app.inject({ method: 'POST', url: '/api/v1/auth/login', payload: ADMIN })
+
+        expect(body(response).refreshToken).toEqual(expect.any(String))
+        expect(response.headers['set-cookie']).toBeUndefined()
+    })
+})
+
+describe('POST /auth/refresh with the cookie transport', () => {
+    it('rotates the cookie when the CSRF token matches', async () => {
+        const session = sessionOf(await cookieLogin())
+
+        const refreshed = sessionOf(await withCookies('refresh', session))
+
+        expect(refreshed.refreshCookie).toEqual(expect.any(String))
+        expect(refreshed.refreshCookie).not.toBe(session.refreshCookie)
+        expect(refreshed.csrfToken).not.toBe(session.csrfToken)
+        expect((await withCookies('refresh', refreshed)).statusCode).toBe(200)
+    })
+
+    it.each([
+        ['missing', null],
+        ['mismatched', 'forged-csrf-token']
+    ])('refuses a %s X-CSRF-Token', async (_, csrfToken) => {
+        const session = sessionOf(await cookieLogin())
+
+        const response = await withCookies('refresh', session, csrfToken)
+
+        expect(response.statusCode).toBe(403)
+        expect(body(response).code).toBe('csrf_token_invalid')
+        expect((await withCookies('refresh', session)).statusCode).toBe(200)
+    })
+})
+
+describe('POST /auth/logout with the cookie transport', () => {
+    it('revokes the refresh token and clears both cookies', async () => {
+        const session = sessionOf(await cookieLogin())
+
+        const response = await withCookies('logout', session)
+
+        expect(response.statusCode).toBe(200)
+        for (const name of [app.config.REFRESH_COOKIE_NAME, app.config.CSRF_COOKIE_NAME]) {
+            expect(cookieNamed(response, name)?.value).toBe('')
+        }
+        expect((await withCookies('refresh', session)).statusCode).toBe(401)
+    })
+
+    it('refuses a logout without the CSRF token', async () => {
+        const session = sessionOf(await cookieLogin())
+
+        expect((await withCookies('logout', session, null)).statusCode).toBe(403)
+        expect((await withCookies('refresh', session)).statusCode).toBe(200)
+    })
+})
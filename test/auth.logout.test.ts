@@ -0,0 +1,66 @@
+/**
+ * Logout (POST /auth/logout): the access token is rejected at once
+ * (denylist), the refresh token stops working, other sessions stay
+ */
+
+import { FastifyInstance } from 'fastify'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { ADMIN, bearer, body, createTestApp, loginTokens } from './app.helper'
+
+let app: FastifyInstance
+
+beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    ;({ app } = await createTestApp())
+})
+
+afterEach(async () => {
+    await app.close()
+    vi.useRealTimers()
+})
+
+function me(accessToken: string) {
+    return app.inject({ method: 'GET', url: '/api/v1/auth/me', headers: bearer(accessToken) })
+}
+
+describe('POST /auth/logout', () => {
+    it('rejects the access token before it expires', async () => {
+        const { accessToken, refreshToken } = await loginTokens(app, ADMIN.username, ADMIN.password)
+        expect((await me(accessToken)).statusCode).toBe(200)
+
+        const response = await app.inject({ method: 'POST', url: '/api/v1/auth/logout', headers: bearer(accessToken), payload: { refreshToken } })
+
+        expect(response.statusCode).toBe(200)
+        const after = await me(accessToken)
+        expect(after.statusCode).toBe(401)
+        expect(body(after).code).toBe('token_revoked')
+    })
+
+    it('revokes the refresh token of the session', async () => {
+        const { accessToken, refreshToken } = await loginTokens(app, ADMIN.username, ADMIN.password)
+
+        await app.inject({ method: 'POST', url: '/api/v1/auth/logout', headers: bearer(accessToken), payload: { refreshToken } })
+
+        const refreshed = await app.inject({ method: 'POST', url: '/api/v1/auth/refresh', payload: { refreshToken } })
+        expect(refreshed.statusCode).toBe(401)
+    })
+
+    it('keeps the other sessions signed in', async () => {
+        const current = await loginTokens(app, ADMIN.username, ADMIN.password)
+        const other = await loginTokens(app, ADMIN.username, ADMIN.password)
+
+        await app.inject({ method: 'POST', url: '/api/v1/auth/logout', headers: bearer(current.accessToken), payload: { refreshToken: current.refreshToken } })
+
+        expect((await me(other.accessToken)).statusCode).toBe(200)
+    })
+
+    it('rejects an access token past its expiry', async () => {
+        const { accessToken } = await loginTokens(app, ADMIN.username, ADMIN.password)
+
+        vi.setSystemTime(Date.now() + (app.config.ACCESS_TOKEN_TTL_SECONDS + 1) * 1000)
+
+        const response = await me(accessToken)
+        expect(response.statusCode).toBe(401)
+        expect(body(response).code).toBe('token_expired')
+    })
+})
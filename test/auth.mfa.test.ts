@@ -0,0 +1,135 @@
+/**
+ * Two-factor authentication: enrollment (POST /auth/mfa/totp/enroll and
+ * confirm), and login (POST /auth/login, POST /auth/login/mfa) with TOTP
+ * and recovery codes, single use, and throttling of wrong codes
+ */
+
+import { FastifyInstance } from 'fastify'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { Totp } from '../src/modules/auth/totp'
+import { bearer, body, createTestApp, enableTotp, login, loginTokens, registerUser } from './app.helper'
+
+const USER = { username: 'alice', password: 'Correct-Horse-42' }
+
+let app: FastifyInstance
+let accessToken: string
+let secret: string
+let recoveryCodes: string[]
+
+/**
+ * Move past the current TOTP time step (each step is accepted once)
+ */
+function nextStep(): void {
+    vi.setSystemTime(Date.now() + 30 * 1000)
+}
+
+async function challenge(remoteAddress?: string): Promise<string> {
+    const response = await login(app, USER.username, USER.password, remoteAddress)
+    expect(response.statusCode).toBe(200)
+    expect(body(response)).toMatchObject({ mfaRequired: true })
+    return body<{ mfaToken: string }>(response).mfaToken
+}
+
+function completeLogin(mfaToken: string, code: string, remoteAddress = '127.0.0.1') {
+    return app.inject({ method: 'POST', url: '/api/v1/auth/login/mfa', payload: { mfaToken, code }, remoteAddress })
+}
+
+beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    ;({ app } = await createTestApp())
+    await registerUser(app, USER.username, USER.password)
+    ;({ accessToken } = await loginTokens(app, USER.username, USER.password))
+    ;({ secret, recoveryCodes } = await enableTotp(app, accessToken))
+    nextStep()
+})
+
+afterEach(async () => {
+    await app.close()
+    vi.useRealTimers()
+})
+
+describe('TOTP enrollment', () => {
+    async function bobToken(): Promise<string> {
+        await registerUser(app, 'bob', 'Battery-Staple-7')
+        return (await loginTokens(app, 'bob', 'Battery-Staple-7')).accessToken
+    }
+
+    function confirm(token: string, code: string) {
+        return app.inject({ method: 'POST', url: '/api/v1/auth/mfa/totp/confirm', headers: bearer(token), payload: { code } })
+    }
+
+    it('refuses a wrong code and keeps the password login', async () => {
+        const token = await bobToken()
+        await app.inject({ method: 'POST', url: '/api/v1/auth/mfa/totp/enroll', headers: bearer(token) })
+
+        const response = await confirm(token, '000000')
+
+        expect(response.statusCode).toBe(400)
+        expect(body(await login(app, 'bob', 'Battery-Staple-7')).mfaRequired).toBeUndefined()
+    })
+
+    it('needs an enrollment before a confirmation', async () => {
+        const response = await confirm(await bobToken(), '123456')
+
+        expect(response.statusCode).toBe(400)
+        expect(body(response).code).toBe('mfa_enrollment_not_started')
+    })
+
+    it('refuses a second enrollment once enabled', async () => {
+        const response = await app.inject({ method: 'POST', url: '/api/v1/auth/mfa/totp/enroll', headers: bearer(accessToken) })
+
+        expect(response.statusCode).toBe(409)
+        expect(body(response).code).toBe('mfa_already_enabled')
+    })
+})
+
+describe('TOTP login', () => {
+    it('asks for a code after the password and issues tokens for a valid one', async () => {
+        const response = await completeLogin(await challenge(), new Totp().generate(secret))
+
+        expect(response.statusCode).toBe(200)
+        expect(body(response)).toMatchObject({ accessToken: expect.any(String), refreshToken: expect.any(String) })
+    })
+
+    it('accepts a TOTP code only once', async () => {
+        const code = new Totp().generate(secret)
+        expect((await completeLogin(await challenge(), code)).statusCode).toBe(200)
+
+        const reused = await completeLogin(await challenge(), code)
+
+        expect(reused.statusCode).toBe(401)
+        expect(body(reused).code).toBe('mfa_code_invalid')
+    })
+
+    it('accepts each recovery code once', async () => {
+        expect((await completeLogin(await challenge(), recoveryCodes[0])).statusCode).toBe(200)
+
+        expect((await completeLogin(await challenge(), recoveryCodes[0])).statusCode).toBe(401)
+    })
+
+    it('refuses a challenge token presented twice', async () => {
+        const mfaToken = await challenge()
+        expect((await completeLogin(mfaToken, new Totp().generate(secret))).statusCode).toBe(200)
+        nextStep()
+
+        const replayed = await completeLogin(mfaToken, new Totp().generate(secret))
+
+        expect(replayed.statusCode).toBe(401)
+        expect(body(replayed).code).toBe('mfa_token_invalid')
+    })
+
+    it('locks the account when the password is re-entered between wrong codes', async () => {
+        // A fresh IP per round: only the username counter can stop the attacker
+        for (let round = 1; round <= 10; round++) {
+            vi.setSystemTime(Date.now() + 61 * 1000)
+            const mfaToken = await challenge(`203.0.113.${round}`)
+            expect((await completeLogin(mfaToken, 'wrong-code', `203.0.113.${round}`)).statusCode).toBe(401)
+        }
+
+        vi.setSystemTime(Date.now() + 61 * 1000)
+        const locked = await login(app, USER.username, USER.password, '203.0.113.99')
+
+        expect(locked.statusCode).toBe(429)
+        expect(locked.headers['retry-after']).toBeDefined()
+    })
+})
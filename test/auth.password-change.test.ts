@@ -0,0 +1,80 @@
+/**
+ * Change password (POST /auth/password/change): checks the current
+ * password and the policy, keeps this session, signs out the others
+ */
+
+import { FastifyInstance, LightMyRequestResponse } from 'fastify'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { bearer, body, createTestApp, login, loginTokens, registerUser } from './app.helper'
+
+const USER = { username: 'alice', password: 'Correct-Horse-42' }
+const NEW_PASSWORD = 'Battery-Staple-77'
+
+let app: FastifyInstance
+
+beforeEach(async () => {
+    ({ app } = await createTestApp())
+    await registerUser(app, USER.username, USER.password)
+})
+
+afterEach(async () => {
+    await app.close()
+})
+
+function change(accessToken: string, currentPassword: string, newPassword: string): Promise<LightMyRequestResponse> {
+    return app.inject({
+        method: 'POST',
+        url: '/api/v1/auth/password/change',
+        headers: bearer(accessToken),
+        payload: { currentPassword, newPassword }
+    })
+}
+
+function refresh(refreshToken: string): Promise<LightMyRequestResponse> {
+    return app.inject({ method: 'POST', url: '/api/v1/auth/refresh', payload: { refreshToken } })
+}
+
+describe('POST /auth/password/change', () => {
+    it('changes the password and signs out the other sessions only', async () => {
+        const other = await loginTokens(app, USER.username, USER.password)
+        const current = await loginTokens(app, USER.username, USER.password)
+
+        const response = await change(current.accessToken, USER.password, NEW_PASSWORD)
+
+        expect(response.statusCode).toBe(200)
+        expect(body(response).revokedSessions).toBe(1)
+        expect((await login(app, USER.username, NEW_PASSWORD)).statusCode).toBe(200)
+        expect((await refresh(other.refreshToken)).statusCode).toBe(401)
+        expect((await app.inject({ method: 'GET', url: '/api/v1/auth/me', headers: bearer(other.accessToken) })).statusCode).toBe(401)
+        expect((await refresh(current.refreshToken)).statusCode).toBe(200)
+        expect((await app.inject({ method: 'GET', url: '/api/v1/auth/me', headers: bearer(current.accessToken) })).statusCode).toBe(200)
+    })
+
+    it('refuses a wrong current password', async () => {
+        const { accessToken } = await loginTokens(app, USER.username, USER.password)
+
+        const response = await change(accessToken, 'Wrong-Horse-42', NEW_PASSWORD)
+
+        expect(response.statusCode).toBe(403)
+        expect(body(response).code).toBe('incorrect_password')
+        expect((await login(app, USER.username, USER.password)).statusCode).toBe(200)
+    })
+
+    it('applies the password policy', async () => {
+        const { accessToken } = await loginTokens(app, USER.username, USER.password)
+
+        const response = await change(accessToken, USER.password, 'short')
+
+        expect(response.statusCode).toBe(400)
+        expect(body(response).code).toBe('weak_password')
+    })
+
+    it('refuses the current password as the new one', async () => {
+        const { accessToken } = await loginTokens(app, USER.username, USER.password)
+
+        const response = await change(accessToken, USER.password, USER.password)
+
+        expect(response.statusCode).toBe(400)
+        expect(body<{ violations: { rule: string }[] }>(response).violations.map(violation => violation.rule)).toContain('unchanged')
+    })
+})
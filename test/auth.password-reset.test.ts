@@ -0,0 +1,99 @@
+/**
+ * Password reset (POST /auth/password/forgot, POST /auth/password/reset):
+ * the emailed token, single use, expiry and signing out every session
+ */
+
+import { FastifyInstance, LightMyRequestResponse } from 'fastify'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { MailMessage } from '../src/modules/mail/mailer'
+import { body, createTestApp, login, loginTokens, registerUser } from './app.helper'
+
+const USER = { username: 'alice', password: 'Correct-Horse-42', email: 'alice@example.com' }
+const NEW_PASSWORD = 'Battery-Staple-77'
+
+let app: FastifyInstance
+let mail: MailMessage[]
+
+beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    ;({ app, mail } = await createTestApp())
+    await registerUser(app, USER.username, USER.password, USER.email)
+})
+
+afterEach(async () => {
+    await app.close()
+    vi.useRealTimers()
+})
+
+function forgot(email: string): Promise<LightMyRequestResponse> {
+    return app.inject({ method: 'POST', url: '/api/v1/auth/password/forgot', payload: { email } })
+}
+
+function reset(token: string, password = NEW_PASSWORD): Promise<LightMyRequestResponse> {
+    return app.inject({ method: 'POST', url: '/api/v1/auth/password/reset', payload: { token, password } })
+}
+
+/**
+ * Ask for a reset and return the token from the email (sent in the background)
+ */
+async function requestToken(): Promise<string> {
+    expect((await forgot(USER.email)).statusCode).toBe(202)
+    await vi.waitFor(() => expect(mail).toHaveLength(1))
+
+    expect(mail[0]).toMatchObject({ to: USER.email, subject: 'Reset your password' })
+    const token = mail[0].text.match(/^[A-Za-z0-9_-]{43}$/m)?.[0]
+    expect(token).toBeDefined()
+    return token as string
+}
+
+describe('password reset', () => {
+    it('sets the new password with the emailed token and signs out every session', async () => {
+        const session = await loginTokens(app, USER.username, USER.password)
+        const token = await requestToken()
+
+        const response = await reset(token)
+
+        expect(response.statusCode).toBe(200)
+        expect((await login(app, USER.username, USER.password)).statusCode).toBe(401)
+        expect((await login(app, USER.username, NEW_PASSWORD)).statusCode).toBe(200)
+        const refreshed = await app.inject({ method: 'POST', url: '/api/v1/auth/refresh', payload: { refreshToken: session.refreshToken } })
+        expect(refreshed.statusCode).toBe(401)
+    })
+
+    it('answers the same for an unknown address and sends nothing', async () => {
+        const unknown = await forgot('nobody@example.com')
+        await requestToken()
+
+        expect(unknown.statusCode).toBe(202)
+        expect(mail.map(message => message.to)).toEqual([USER.email])
+    })
+
+    it('accepts a token once', async () => {
+        const token = await requestToken()
+        await reset(token)
+
+        const second = await reset(token, 'Another-Staple-88')
+
+        expect(second.statusCode).toBe(400)
+        expect(body(second).code).toBe('reset_token_invalid')
+    })
+
+    it('refuses an expired token', async () => {
+        const token = await requestToken()
+
+        vi.setSystemTime(Date.now() + (app.config.PASSWORD_RESET_TTL_SECONDS + 1) * 1000)
+
+        expect(body(await reset(token)).code).toBe('reset_token_invalid')
+        expect((await login(app, USER.username, USER.password)).statusCode).toBe(200)
+    })
+
+    it('applies the password policy to the new password', async () => {
+        const token = await requestToken()
+
+        const response = await reset(token, 'short')
+
+        expect(response.statusCode).toBe(400)
+        expect(body(response).code).toBe('weak_password')
+        expect((await reset(token)).statusCode).toBe(200)
+    })
+})
@@ -0,0 +1,97 @@
+/**
+ * Refresh token rotation (POST /auth/refresh): single use, reuse
+ * detection and expiry, and opaque tokens stored as hashes
+ */
+
+import { FastifyInstance, LightMyRequestResponse } from 'fastify'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { hashToken } from '../src/modules/auth/token.store'
+import { ADMIN, body, createTestApp, loginTokens } from './app.helper'
+
+let app: FastifyInstance
+
+beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    ;({ app } = await createTestApp())
+})
+
+afterEach(async () => {
+    await app.close()
+    vi.useRealTimers()
+})
+
+function refresh(refreshToken: string): Promise<LightMyRequestResponse> {
+    return app.inject({ method: 'POST', url: '/api/v1/auth/refresh', payload: { refreshToken } })
+}
+
+describe('POST /auth/refresh', () => {
+    it('rotates the refresh token', async () => {
+        const { refreshToken } = await loginTokens(app, ADMIN.username, ADMIN.password)
+
+        const response = await refresh(refreshToken)
+
+        expect(response.statusCode).toBe(200)
+        const rotated = body<{ accessToken: string, refreshToken: string }>(response)
+        expect(rotated.accessToken).toEqual(expect.any(String))
+        expect(rotated.refreshToken).not.toBe(refreshToken)
+        expect((await refresh(rotated.refreshToken)).statusCode).toBe(200)
+    })
+
+    it('revokes the whole session when a rotated token is used again', async () => {
+        const { refreshToken } = await loginTokens(app, ADMIN.username, ADMIN.password)
+        const rotated = body<{ refreshToken: string }>(await refresh(refreshToken))
+
+        const reused = await refresh(refreshToken)
+
+        expect(reused.statusCode).toBe(401)
+        expect(body(reused).code).toBe('refresh_token_invalid')
+        expect((await refresh(rotated.refreshToken)).statusCode).toBe(401)
+    })
+
+    it('leaves the other sessions of the user alone on reuse', async () => {
+        const stolen = await loginTokens(app, ADMIN.username, ADMIN.password)
+        const other = await loginTokens(app, ADMIN.username, ADMIN.password)
+        await refresh(stolen.refreshToken)
+
+        await refresh(stolen.refreshToken)
+
+        expect((await refresh(other.refreshToken)).statusCode).toBe(200)
+    })
+
+    it('refuses an expired refresh token', async () => {
+        const { refreshToken } = await loginTokens(app, ADMIN.username, ADMIN.password)
+
+        vi.setSystemTime(Date.now() + (app.config.REFRESH_TOKEN_TTL_SECONDS + 1) * 1000)
+
+        expect((await refresh(refreshToken)).statusCode).toBe(401)
+    })
+
+    it('refuses an unknown refresh token', async () => {
+        const response = await refresh('not-a-refresh-token')
+
+        expect(response.statusCode).toBe(401)
+        expect(body(response).code).toBe('refresh_token_invalid')
+    })
+})
+
+describe('opaque refresh tokens', () => {
+    it('issues a random string, not a JWT', async () => {
+        const { refreshToken } = await loginTokens(app, ADMIN.username, ADMIN.password)
+
+        expect(refreshToken).toMatch(/^[A-Za-z0-9_-]{43}$/)
+    })
+
+    it('keeps only the hash of the token in the store', async () => {
+        const { refreshToken } = await loginTokens(app, ADMIN.username, ADMIN.password)
+
+        expect(await app.tokenStore.getToken(refreshToken)).toBeNull()
+        expect(await app.tokenStore.getToken(hashToken(refreshToken))).toMatchObject({ username: ADMIN.username })
+    })
+
+    it('doesn\'t accept the stored hash as a refresh token', async () => {
+        const { refreshToken } = await loginTokens(app, ADMIN.username, ADMIN.password)
+
+        expect((await refresh(hashToken(refreshToken))).statusCode).toBe(401)
+        expect((await refresh(refreshToken)).statusCode).toBe(200)
+    })
+})
@@ -0,0 +1,73 @@
+/**
+ * Self-registration (POST /auth/register): password policy, unique
+ * usernames and emails, and signing in with the new account
+ */
+
+import { FastifyInstance, LightMyRequestResponse } from 'fastify'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { body, createTestApp, login, registerUser } from './app.helper'
+
+let app: FastifyInstance
+
+beforeEach(async () => {
+    ({ app } = await createTestApp())
+})
+
+afterEach(async () => {
+    await app.close()
+})
+
+function register(payload: Record<string, unknown>): Promise<LightMyRequestResponse> {
+    return app.inject({ method: 'POST', url: '/api/v1/auth/register', payload })
+}
+
+describe('POST /auth/register', () => {
+    it('creates an account that can sign in', async () => {
+        const response = await register({ username: 'alice', password: 'Correct-Horse-42', email: 'alice@example.com' })
+
+        expect(response.statusCode).toBe(201)
+        expect(body(response)).toMatchObject({ username: 'alice', createdAt: expect.any(String) })
+        expect(body(response).passwordHash).toBeUndefined()
+        expect((await login(app, 'alice', 'Correct-Horse-42')).statusCode).toBe(200)
+    })
+
+    it('reports every password policy violation at once', async () => {
+        const response = await register({ username: 'alice', password: 'alice' })
+
+        expect(response.statusCode).toBe(400)
+        expect(response.headers['content-type']).toContain('application/problem+json')
+        const rules = body<{ violations: { field: string, rule: string }[] }>(response).violations
+            .filter(violation => violation.field === 'password')
+            .map(violation => violation.rule)
+        expect(rules).toEqual(expect.arrayContaining(['min_length', 'contains_username']))
+        expect((await login(app, 'alice', 'alice')).statusCode).toBe(401)
+    })
+
+    it('reports missing fields instead of failing', async () => {
+        const response = await register({})
+
+        expect(response.statusCode).toBe(400)
+        const fields = body<{ violations: { field: string, rule: string }[] }>(response).violations
+            .filter(violation => violation.rule === 'required')
+            .map(violation => violation.field)
+        expect(fields).toEqual(expect.arrayContaining(['username', 'password']))
+    })
+
+    it('refuses a username that is taken', async () => {
+        await registerUser(app, 'alice', 'Correct-Horse-42')
+
+        const response = await register({ username: 'alice', password: 'Another-Horse-43' })
+
+        expect(response.statusCode).toBe(409)
+        expect(body(response).code).toBe('username_taken')
+    })
+
+    it('refuses an email that is registered', async () => {
+        await registerUser(app, 'alice', 'Correct-Horse-42', 'alice@example.com')
+
+        const response = await register({ username: 'bob', password: 'Another-Horse-43', email: 'alice@example.com' })
+
+        expect(response.statusCode).toBe(409)
+        expect(body(response).code).toBe('email_taken')
+    })
+})
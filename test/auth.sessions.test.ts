@@ -0,0 +1,111 @@
+/**
+ * Session management (GET /auth/sessions, DELETE /auth/sessions/:id,
+ * POST /auth/logout-all): listing and signing out devices
+ */
+
+import { FastifyInstance, LightMyRequestResponse } from 'fastify'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { ADMIN, bearer, body, claimsOf, createTestApp, loginTokens, registerUser } from './app.helper'
+
+interface Session {
+    id: string
+    deviceName: string | null
+    userAgent: string | null
+    current: boolean
+}
+
+let app: FastifyInstance
+
+beforeEach(async () => {
+    ({ app } = await createTestApp())
+})
+
+afterEach(async () => {
+    await app.close()
+})
+
+async function signIn(deviceName: string): Promise<{ accessToken: string, refreshToken: string, sessionId: string }> {
+    const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/auth/login',
+        headers: { 'user-agent': 'TestAgent/1.0' },
+        payload: { ...ADMIN, deviceName }
+    })
+    const tokens = body<{ accessToken: string, refreshToken: string }>(response)
+    return { ...tokens, sessionId: claimsOf<{ sid: string }>(tokens.accessToken).sid }
+}
+
+async function sessionsOf(accessToken: string): Promise<Session[]> {
+    const response = await app.inject({ method: 'GET', url: '/api/v1/auth/sessions', headers: bearer(accessToken) })
+    expect(response.statusCode).toBe(200)
+    return body<{ sessions: Session[] }>(response).sessions
+}
+
+function refresh(refreshToken: string): Promise<LightMyRequestResponse> {
+    return app.inject({ method: 'POST', url: '/api/v1/auth/refresh', payload: { refreshToken } })
+}
+
+function me(accessToken: string): Promise<LightMyRequestResponse> {
+    return app.inject({ method: 'GET', url: '/api/v1/auth/me', headers: bearer(accessToken) })
+}
+
+describe('GET /auth/sessions', () => {
+    it('lists one session per login and flags the current one', async () => {
+        const laptop = await signIn('Laptop')
+        const phone = await signIn('Phone')
+
+        const sessions = await sessionsOf(phone.accessToken)
+
+        expect(sessions).toHaveLength(2)
+        expect(sessions).toContainEqual(expect.objectContaining({ id: phone.sessionId, deviceName: 'Phone', userAgent: 'TestAgent/1.0', current: true }))
+        expect(sessions).toContainEqual(expect.objectContaining({ id: laptop.sessionId, deviceName: 'Laptop', current: false }))
+    })
+
+    it('keeps one entry per session across refreshes', async () => {
+        const phone = await signIn('Phone')
+        await refresh(phone.refreshToken)
+
+        expect(await sessionsOf(phone.accessToken)).toHaveLength(1)
+    })
+})
+
+describe('DELETE /auth/sessions/:id', () => {
+    it('signs the device out at once', async () => {
+        const laptop = await signIn('Laptop')
+        const phone = await signIn('Phone')
+
+        const response = await app.inject({ method: 'DELETE', url: `/api/v1/auth/sessions/${laptop.sessionId}`, headers: bearer(phone.accessToken) })
+
+        expect(response.statusCode).toBe(200)
+        expect((await refresh(laptop.refreshToken)).statusCode).toBe(401)
+        expect((await me(laptop.accessToken)).statusCode).toBe(401)
+        expect((await me(phone.accessToken)).statusCode).toBe(200)
+    })
+
+    it('does not reveal or revoke sessions of other users', async () => {
+        const admin = await signIn('Laptop')
+        await registerUser(app, 'alice', 'Correct-Horse-42')
+        const alice = await loginTokens(app, 'alice', 'Correct-Horse-42')
+
+        const response = await app.inject({ method: 'DELETE', url: `/api/v1/auth/sessions/${admin.sessionId}`, headers: bearer(alice.accessToken) })
+
+        expect(response.statusCode).toBe(404)
+        expect(body(response).code).toBe('session_not_found')
+        expect((await refresh(admin.refreshToken)).statusCode).toBe(200)
+    })
+})
+
+describe('POST /auth/logout-all', () => {
+    it('signs out every session, the current one included', async () => {
+        const laptop = await signIn('Laptop')
+        const phone = await signIn('Phone')
+
+        const response = await app.inject({ method: 'POST', url: '/api/v1/auth/logout-all', headers: bearer(phone.accessToken) })
+
+        expect(response.statusCode).toBe(200)
+        for (const session of [laptop, phone]) {
+            expect((await refresh(session.refreshToken)).statusCode).toBe(401)
+            expect((await me(session.accessToken)).statusCode).toBe(401)
+        }
+    })
+})
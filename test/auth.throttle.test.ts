@@ -0,0 +1,104 @@
+/**
+ * Brute-force protection on POST /auth/login: backoff and lockout per
+ * username and per IP, unknown usernames, and unlocking by an admin
+ */
+
+import { FastifyInstance, LightMyRequestResponse } from 'fastify'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { DEFAULT_LOGIN_THROTTLE } from '../src/modules/auth/login-throttle'
+import { ADMIN, bearer, body, createTestApp, login, loginTokens, registerUser } from './app.helper'
+
+const USER = { username: 'alice', password: 'Correct-Horse-42' }
+
+let app: FastifyInstance
+
+beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    ;({ app } = await createTestApp())
+    await registerUser(app, USER.username, USER.password)
+})
+
+afterEach(async () => {
+    await app.close()
+    vi.useRealTimers()
+})
+
+function advance(seconds: number): void {
+    vi.setSystemTime(Date.now() + seconds * 1000)
+}
+
+/**
+ * Fail a login for the username until it is locked out, waiting out the
+ * backoff in between; a fresh IP each time keeps the IP counter out of it
+ */
+async function lockOut(username: string): Promise<LightMyRequestResponse> {
+    for (let attempt = 1; attempt <= DEFAULT_LOGIN_THROTTLE.maxUsernameFailures; attempt++) {
+        advance(DEFAULT_LOGIN_THROTTLE.maxBackoffSeconds + 1)
+        expect((await login(app, username, 'wrong-password', `198.51.100.${attempt}`)).statusCode).toBe(401)
+    }
+    advance(DEFAULT_LOGIN_THROTTLE.maxBackoffSeconds + 1)
+    return login(app, username, USER.password, '198.51.100.99')
+}
+
+describe('per username', () => {
+    it('lets the first failures through, then asks the client to wait', async () => {
+        for (let attempt = 1; attempt <= DEFAULT_LOGIN_THROTTLE.freeAttempts + 1; attempt++) {
+            expect((await login(app, USER.username, 'wrong-password', `198.51.100.${attempt}`)).statusCode).toBe(401)
+        }
+
+        // Checked before the password: the right one waits too
+        const throttled = await login(app, USER.username, USER.password, '198.51.100.50')
+
+        expect(throttled.statusCode).toBe(429)
+        expect(body(throttled).code).toBe('account_locked')
+        expect(Number(throttled.headers['retry-after'])).toBeGreaterThan(0)
+    })
+
+    it('accepts the password after the wait and starts counting again', async () => {
+        for (let attempt = 1; attempt <= DEFAULT_LOGIN_THROTTLE.freeAttempts + 1; attempt++) {
+            await login(app, USER.username, 'wrong-password', `198.51.100.${attempt}`)
+        }
+        advance(DEFAULT_LOGIN_THROTTLE.maxBackoffSeconds)
+
+        expect((await login(app, USER.username, USER.password)).statusCode).toBe(200)
+        expect((await login(app, USER.username, 'wrong-password')).statusCode).toBe(401)
+    })
+
+    it('locks the account out after too many failures', async () => {
+        const locked = await lockOut(USER.username)
+
+        expect(locked.statusCode).toBe(429)
+        expect(Number(locked.headers['retry-after'])).toBeGreaterThan(DEFAULT_LOGIN_THROTTLE.maxBackoffSeconds)
+
+        advance(DEFAULT_LOGIN_THROTTLE.lockoutSeconds)
+        expect((await login(app, USER.username, USER.password)).statusCode).toBe(200)
+    })
+
+    it('locks unknown usernames the same way', async () => {
+        const locked = await lockOut('nobody')
+
+        expect(locked.statusCode).toBe(429)
+        expect(body(locked).code).toBe('account_locked')
+    })
+
+    it('can be unlocked by an admin', async () => {
+        await lockOut(USER.username)
+        const { accessToken } = await loginTokens(app, ADMIN.username, ADMIN.password)
+
+        const unlocked = await app.inject({ method: 'POST', url: `/api/v1/auth/users/${USER.username}/unlock`, headers: bearer(accessToken) })
+
+        expect(unlocked.statusCode).toBe(200)
+        expect((await login(app, USER.username, USER.password, '198.51.100.99')).statusCode).toBe(200)
+    })
+})
+
+describe('per IP', () => {
+    it('slows down one client guessing many accounts', async () => {
+        for (let attempt = 1; attempt <= DEFAULT_LOGIN_THROTTLE.freeIpAttempts + 1; attempt++) {
+            expect((await login(app, `user${attempt}`, 'wrong-password', '203.0.113.7')).statusCode).toBe(401)
+        }
+
+        expect((await login(app, USER.username, USER.password, '203.0.113.7')).statusCode).toBe(429)
+        expect((await login(app, USER.username, USER.password, '203.0.113.8')).statusCode).toBe(200)
+    })
+})
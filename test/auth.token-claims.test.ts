@@ -0,0 +1,90 @@
+/**
+ * Typed tokens: only an access token with our issuer and audience passes
+ * app.authenticate, and only a refresh token is accepted by /auth/refresh
+ */
+
+import { FastifyInstance } from 'fastify'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { AccessTokenClaims } from '../src/modules/auth/auth.types'
+import { ADMIN, bearer, body, claimsOf, createTestApp, enableTotp, login, loginTokens } from './app.helper'
+
+let app: FastifyInstance
+
+beforeEach(async () => {
+    ({ app } = await createTestApp())
+})
+
+afterEach(async () => {
+    await app.close()
+})
+
+function me(accessToken: string) {
+    return app.inject({ method: 'GET', url: '/api/v1/auth/me', headers: bearer(accessToken) })
+}
+
+/**
+ * Sign a copy of an access token with different iss/aud (same key)
+ */
+function resign(accessToken: string, options: { iss?: string, aud?: string }): string {
+    const { iss, aud, iat, exp, ...payload } = claimsOf<AccessTokenClaims>(accessToken)
+    return app.jwt.sign(payload, { ...app.jwtKeys.signOptions, iss, aud, ...options, expiresIn: exp - iat })
+}
+
+describe('access token claims', () => {
+    it('carries token_use, issuer and audience', async () => {
+        const { accessToken } = await loginTokens(app, ADMIN.username, ADMIN.password)
+
+        expect(claimsOf(accessToken)).toMatchObject({
+            sub: ADMIN.username,
+            token_use: 'access',
+            iss: app.config.JWT_ISSUER,
+            aud: app.config.JWT_AUDIENCE
+        })
+        expect((await me(accessToken)).statusCode).toBe(200)
+        expect((await me(resign(accessToken, {}))).statusCode).toBe(200)
+    })
+
+    it.each([
+        ['issuer', { iss: 'another-service' }],
+        ['audience', { aud: 'another-api' }]
+    ])('refuses a token with another %s', async (_, options) => {
+        const { accessToken } = await loginTokens(app, ADMIN.username, ADMIN.password)
+
+        const response = await me(resign(accessToken, options))
+
+        expect(response.statusCode).toBe(401)
+        expect(body(response).code).toBe('token_invalid')
+    })
+})
+
+describe('token types', () => {
+    it('refuses the MFA challenge token as a bearer token', async () => {
+        const { accessToken } = await loginTokens(app, ADMIN.username, ADMIN.password)
+        await enableTotp(app, accessToken)
+        const { mfaToken } = body<{ mfaToken: string }>(await login(app, ADMIN.username, ADMIN.password))
+        expect(claimsOf(mfaToken).token_use).toBe('mfa_pending')
+
+        const response = await me(mfaToken)
+
+        expect(response.statusCode).toBe(401)
+        expect(body(response).code).toBe('token_invalid')
+    })
+
+    it('refuses the refresh token as a bearer token', async () => {
+        const { refreshToken } = await loginTokens(app, ADMIN.username, ADMIN.password)
+
+        const response = await me(refreshToken)
+
+        expect(response.statusCode).toBe(401)
+        expect(body(response).code).toBe('token_invalid')
+    })
+
+    it('refuses an access token at /auth/refresh', async () => {
+        const { accessToken } = await loginTokens(app, ADMIN.username, ADMIN.password)
+
+        const response = await app.inject({ method: 'POST', url: '/api/v1/auth/refresh', payload: { refreshToken: accessToken } })
+
+        expect(response.statusCode).toBe(401)
+        expect(body(response).code).toBe('refresh_token_invalid')
+    })
+})
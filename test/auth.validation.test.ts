@@ -0,0 +1,90 @@
+/**
+ * Route schemas of the token endpoints: malformed input is a 400
+ * validation_failed, and responses carry only the declared fields
+ */
+
+import { FastifyInstance } from 'fastify'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { AccessTokenClaimsSchema, TokenResponse } from '../src/modules/auth/auth.types'
+import { ADMIN, bearer, body, createTestApp, loginTokens } from './app.helper'
+
+interface Violation {
+    field: string
+    rule: string
+    message: string
+}
+
+let app: FastifyInstance
+
+beforeEach(async () => {
+    ({ app } = await createTestApp())
+})
+
+afterEach(async () => {
+    await app.close()
+})
+
+describe('request validation', () => {
+    it('answers 400 for a login without a body', async () => {
+        const response = await app.inject({ method: 'POST', url: '/api/v1/auth/login' })
+
+        expect(response.statusCode).toBe(400)
+        expect(body(response).code).toBe('validation_failed')
+    })
+
+    it('names each missing or mistyped field', async () => {
+        const response = await app.inject({ method: 'POST', url: '/api/v1/auth/login', payload: { username: 42 } })
+
+        expect(response.statusCode).toBe(400)
+        expect(body<{ violations: Violation[] }>(response).violations).toContainEqual(
+            { field: 'password', rule: 'required', message: 'password is required' }
+        )
+    })
+
+    it('refuses a body that is not JSON', async () => {
+        const response = await app.inject({
+            method: 'POST',
+            url: '/api/v1/auth/refresh',
+            headers: { 'content-type': 'application/json' },
+            payload: '{"refreshToken":'
+        })
+
+        expect(response.statusCode).toBe(400)
+        expect(body<{ violations: Violation[] }>(response).violations).toEqual([expect.objectContaining({ field: 'body', rule: 'json' })])
+    })
+
+    it('refuses an empty refresh token', async () => {
+        const response = await app.inject({ method: 'POST', url: '/api/v1/auth/refresh', payload: { refreshToken: '' } })
+
+        expect(response.statusCode).toBe(400)
+        expect(body<{ violations: Violation[] }>(response).violations).toContainEqual(
+            expect.objectContaining({ field: 'refreshToken', rule: 'min_length' })
+        )
+    })
+})
+
+describe('response serialization', () => {
+    it('returns only the claims of the access token from /auth/me', async () => {
+        const { accessToken } = await loginTokens(app, ADMIN.username, ADMIN.password)
+
+        const response = await app.inject({ method: 'GET', url: '/api/v1/auth/me', headers: bearer(accessToken) })
+
+        expect(response.statusCode).toBe(200)
+        const declared = Object.keys(AccessTokenClaimsSchema.properties)
+        expect(Object.keys(body<{ user: object }>(response).user).every(key => declared.includes(key))).toBe(true)
+    })
+
+    it('drops fields a handler returns beyond the schema', async () => {
+        const { refreshToken } = await loginTokens(app, ADMIN.username, ADMIN.password)
+        const refresh = app.authService.refresh.bind(app.authService)
+        vi.spyOn(app.authService, 'refresh').mockImplementation(async (...args) => ({
+            ...await refresh(...args),
+            passwordHash: '$argon2id$leaked'
+        } as TokenResponse))
+
+        const response = await app.inject({ method: 'POST', url: '/api/v1/auth/refresh', payload: { refreshToken } })
+
+        expect(response.statusCode).toBe(200)
+        expect(Object.keys(body(response)).sort()).toEqual(['accessToken', 'refreshToken', 'tokenType'])
+    })
+})
@@ -0,0 +1,105 @@
+/**
+ * Authorization code stores: binding, single use under concurrency and
+ * expiry, for the in-memory and the Redis backend
+ *
+ * RedisAuthorizationCodeStore runs against ioredis-mock, an in-process
+ * fake that also executes the store's Lua scripts.
+ */
+
+import RedisMock from 'ioredis-mock'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+    AuthorizationGrant,
+    IAuthorizationCodeStore,
+    InMemoryAuthorizationCodeStore
+} from '../src/modules/oauth/authorization-code.store'
+import { RedisAuthorizationCodeStore } from '../src/modules/oauth/redis-authorization-code.store'
+
+const TTL_SECONDS = 60
+
+const grant: AuthorizationGrant = {
+    clientId: 'demo-client',
+    redirectUri: 'http://localhost:3001/callback',
+    codeChallenge: 'E9Melhoa2OwvFrEMTJguCHaoeK1t8URWbuGJSstw-cM',
+    username: 'alice',
+    scopes: ['users:read']
+}
+
+const backends: [string, () => Promise<IAuthorizationCodeStore>][] = [
+    ['InMemoryAuthorizationCodeStore', async () => new InMemoryAuthorizationCodeStore(TTL_SECONDS)],
+    ['RedisAuthorizationCodeStore', async () => {
+        // ioredis-mock instances share one dataset; start each test empty
+        const client = new RedisMock()
+        await client.flushall()
+        return new RedisAuthorizationCodeStore(client, TTL_SECONDS)
+    }]
+]
+
+describe.each(backends)('%s', (_name, createStore) => {
+    let codes: IAuthorizationCodeStore
+
+    beforeEach(async () => {
+        vi.useFakeTimers({ toFake: ['Date'] })
+        codes = await createStore()
+    })
+
+    afterEach(async () => {
+        await codes.close()
+        vi.useRealTimers()
+    })
+
+    it('returns the grant of a code on its first use', async () => {
+        const code = await codes.issue(grant)
+
+        const consumed = await codes.consume(code)
+
+        expect(consumed?.reused).toBe(false)
+        expect(consumed?.code).toMatchObject(grant)
+        expect(consumed?.code.expiresAt).toBe(Date.now() + TTL_SECONDS * 1000)
+    })
+
+    it('keeps an empty scope list', async () => {
+        const code = await codes.issue({ ...grant, scopes: [] })
+
+        expect((await codes.consume(code))?.code.scopes).toEqual([])
+    })
+
+    it('lets only one of several concurrent exchanges use a code', async () => {
+        const code = await codes.issue(grant)
+
+        const results = await Promise.all([1, 2, 3].map(() => codes.consume(code)))
+
+        expect(results.filter(result => result?.reused === false)).toHaveLength(1)
+        expect(results.filter(result => result?.reused === true)).toHaveLength(2)
+    })
+
+    it('reports reuse with the session the first exchange started', async () => {
+        const code = await codes.issue(grant)
+        await codes.consume(code)
+        expect(await codes.recordSession(code, 'session-1')).toBe(false)
+
+        const second = await codes.consume(code)
+
+        expect(second?.reused).toBe(true)
+        expect(second?.code.sessionId).toBe('session-1')
+    })
+
+    it('reports a reuse that came before the session was recorded', async () => {
+        const code = await codes.issue(grant)
+        await codes.consume(code)
+
+        const second = await codes.consume(code)
+
+        expect(second?.code.sessionId).toBeUndefined()
+        expect(await codes.recordSession(code, 'session-1')).toBe(true)
+    })
+
+    it('returns null for unknown and expired codes', async () => {
+        const code = await codes.issue(grant)
+
+        vi.setSystemTime(Date.now() + (TTL_SECONDS + 1) * 1000)
+
+        expect(await codes.consume('unknown')).toBeNull()
+        expect(await codes.consume(code)).toBeNull()
+    })
+})
@@ -0,0 +1,64 @@
+/**
+ * Environment configuration (config/env.ts): coercion and defaults, and
+ * refusing to start with invalid or unsafe settings
+ */
+
+import { afterEach, describe, expect, it } from 'vitest'
+import { buildApp } from '../src/app'
+import { DEV_JWT_SECRET, MIN_JWT_SECRET_LENGTH, validateConfig } from '../src/config/env'
+import { createTestApp } from './app.helper'
+
+const saved = { ...process.env }
+
+afterEach(() => {
+    process.env = { ...saved }
+})
+
+/**
+ * Expect the application to fail while loading its configuration
+ */
+async function expectStartupFailure(message: RegExp): Promise<void> {
+    const app = buildApp()
+    try {
+        await expect(app.ready()).rejects.toThrow(message)
+    } finally {
+        await app.close().catch(() => {})
+    }
+}
+
+describe('app.config', () => {
+    it('coerces values and applies defaults', async () => {
+        process.env.PORT = '4000'
+        const { app } = await createTestApp()
+
+        expect(app.config.PORT).toBe(4000)
+        expect(app.config.ACCESS_TOKEN_TTL_SECONDS).toBe(15 * 60)
+        expect(app.config.JWT_ALGORITHM).toBe('HS256')
+        await app.close()
+    })
+
+    it('refuses to start with a value of the wrong type', async () => {
+        process.env.ACCESS_TOKEN_TTL_SECONDS = 'soon'
+
+        await expectStartupFailure(/ACCESS_TOKEN_TTL_SECONDS/)
+    })
+
+    it('refuses to start with settings that don\'t fit together', async () => {
+        process.env.REFRESH_COOKIE_SAME_SITE = 'none'
+        process.env.REFRESH_COOKIE_SECURE = 'false'
+
+        await expectStartupFailure(/REFRESH_COOKIE_SAME_SITE=none requires REFRESH_COOKIE_SECURE=true/)
+    })
+})
+
+describe('validateConfig', () => {
+    it('refuses the development JWT secret and short secrets in production', async () => {
+        const { app } = await createTestApp()
+        const production = { ...app.config, NODE_ENV: 'production' }
+        await app.close()
+
+        expect(validateConfig({ ...production, JWT_SECRET: DEV_JWT_SECRET })).toContainEqual(expect.stringMatching(/^JWT_SECRET must be set/))
+        expect(validateConfig({ ...production, JWT_SECRET: 'short' })).toContainEqual(expect.stringMatching(/at least 32 characters/))
+        expect(validateConfig({ ...production, JWT_SECRET: 'x'.repeat(MIN_JWT_SECRET_LENGTH) })).toEqual([])
+    })
+})
@@ -0,0 +1,73 @@
+/**
+ * Error responses (RFC 7807): every failure is an application/problem+json
+ * body with a stable code, unexpected errors included
+ */
+
+import { FastifyInstance } from 'fastify'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { body, createTestApp, login } from './app.helper'
+
+let app: FastifyInstance
+
+beforeEach(async () => {
+    ({ app } = await createTestApp())
+})
+
+afterEach(async () => {
+    await app.close()
+})
+
+describe('problem details', () => {
+    it('renders a domain error with its status and code', async () => {
+        const response = await login(app, 'nobody', 'Wrong-Horse-42')
+
+        expect(response.statusCode).toBe(401)
+        expect(response.headers['content-type']).toContain('application/problem+json')
+        expect(body(response)).toEqual({
+            type: 'about:blank',
+            title: 'Unauthorized',
+            status: 401,
+            detail: expect.any(String),
+            instance: '/api/v1/auth/login',
+            code: 'invalid_credentials'
+        })
+    })
+
+    it('tells a missing token apart from an invalid one', async () => {
+        const missing = await app.inject({ method: 'GET', url: '/api/v1/auth/me' })
+        const invalid = await app.inject({ method: 'GET', url: '/api/v1/auth/me', headers: { authorization: 'Bearer not-a-jwt' } })
+
+        expect(body(missing)).toMatchObject({ status: 401, code: 'authentication_required' })
+        expect(body(invalid)).toMatchObject({ status: 401, code: 'token_invalid' })
+    })
+
+    it('answers 404 not_found for an unknown route, without the query string', async () => {
+        const response = await app.inject({ method: 'GET', url: '/api/v1/nowhere?secret=1' })
+
+        expect(response.statusCode).toBe(404)
+        expect(response.headers['content-type']).toContain('application/problem+json')
+        expect(body(response)).toMatchObject({ code: 'not_found', instance: '/api/v1/nowhere' })
+    })
+
+    it('names other client errors after their status', async () => {
+        const response = await app.inject({
+            method: 'POST',
+            url: '/api/v1/auth/login',
+            headers: { 'content-type': 'application/xml' },
+            payload: '<login><username>admin</username></login>'
+        })
+
+        expect(response.statusCode).toBe(415)
+        expect(body(response).code).toBe('unsupported_media_type')
+    })
+
+    it('hides the cause of an unexpected error', async () => {
+        vi.spyOn(app.authService, 'login').mockRejectedValue(new Error('connection to db-internal:5432 refused'))
+
+        const response = await login(app, 'admin', 'Admin@123')
+
+        expect(response.statusCode).toBe(500)
+        expect(body(response)).toMatchObject({ code: 'internal_error', detail: 'An unexpected error occurred' })
+        expect(response.body).not.toContain('db-internal')
+    })
+})
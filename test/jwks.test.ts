@@ -0,0 +1,121 @@
+/**
+ * Asymmetric JWT signing and the JWK Set (GET /.well-known/jwks.json):
+ * published keys, verification by a third party, and key rotation
+ */
+
+import { createPublicKey, generateKeyPairSync, KeyObject, verify } from 'crypto'
+import { mkdtemp, rm, writeFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import path from 'path'
+import { afterAll, afterEach, beforeAll, describe, expect, it } from 'vitest'
+import { JsonWebKey } from '../src/modules/auth/jwt-keys'
+import { ADMIN, bearer, body, createTestApp, loginTokens } from './app.helper'
+
+const saved = { ...process.env }
+
+let dir: string
+let oldKey: { privateKey: string, publicKey: string }
+let newKey: { privateKey: string, publicKey: string }
+
+/**
+ * Write a new P-256 key pair (PEM) to the temporary directory
+ */
+async function writeKeyPair(name: string): Promise<{ privateKey: string, publicKey: string }> {
+    const { privateKey, publicKey } = generateKeyPairSync('ec', { namedCurve: 'P-256' })
+    const files = { privateKey: path.join(dir, `${name}.key`), publicKey: path.join(dir, `${name}.pub`) }
+    await writeFile(files.privateKey, (privateKey as KeyObject).export({ type: 'pkcs8', format: 'pem' }))
+    await writeFile(files.publicKey, (publicKey as KeyObject).export({ type: 'spki', format: 'pem' }))
+    return files
+}
+
+function headerOf(jwt: string): { alg: string, kid?: string } {
+    return JSON.parse(Buffer.from(jwt.split('.')[0], 'base64url').toString())
+}
+
+beforeAll(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'jwks-'))
+    oldKey = await writeKeyPair('old')
+    newKey = await writeKeyPair('new')
+})
+
+afterAll(async () => {
+    await rm(dir, { recursive: true, force: true })
+})
+
+afterEach(() => {
+    process.env = { ...saved }
+})
+
+describe('GET /.well-known/jwks.json', () => {
+    it('publishes nothing for an HS256 secret', async () => {
+        const { app } = await createTestApp()
+
+        const response = await app.inject({ method: 'GET', url: '/.well-known/jwks.json' })
+
+        expect(response.statusCode).toBe(200)
+        expect(body(response)).toEqual({ keys: [] })
+        await app.close()
+    })
+
+    it('publishes the public key that verifies ES256 access tokens', async () => {
+        process.env.JWT_ALGORITHM = 'ES256'
+        process.env.JWT_PRIVATE_KEY_FILE = newKey.privateKey
+        const { app } = await createTestApp()
+        const { accessToken } = await loginTokens(app, ADMIN.username, ADMIN.password)
+
+        const { keys } = body<{ keys: JsonWebKey[] }>(await app.inject({ method: 'GET', url: '/.well-known/jwks.json' }))
+
+        const header = headerOf(accessToken)
+        expect(header.alg).toBe('ES256')
+        const jwk = keys.find(key => (key as { kid?: string }).kid === header.kid)
+        expect(jwk).toBeDefined()
+        expect(jwk).not.toHaveProperty('d')
+        const [encodedHeader, payload, signature] = accessToken.split('.')
+        const valid = verify(
+            'sha256',
+            Buffer.from(`${encodedHeader}.${payload}`),
+            { key: createPublicKey({ key: jwk as JsonWebKey, format: 'jwk' }), dsaEncoding: 'ieee-p1363' },
+            Buffer.from(signature, 'base64url')
+        )
+        expect(valid).toBe(true)
+        await app.close()
+    })
+})
+
+describe('key rotation', () => {
+    it('keeps accepting tokens signed with a key moved to JWT_PUBLIC_KEY_FILES', async () => {
+        process.env.JWT_ALGORITHM = 'ES256'
+        process.env.JWT_PRIVATE_KEY_FILE = oldKey.privateKey
+        const before = await createTestApp()
+        const { accessToken } = await loginTokens(before.app, ADMIN.username, ADMIN.password)
+        await before.app.close()
+
+        process.env.JWT_PRIVATE_KEY_FILE = newKey.privateKey
+        process.env.JWT_PUBLIC_KEY_FILES = oldKey.publicKey
+        const { app } = await createTestApp()
+
+        const me = await app.inject({ method: 'GET', url: '/api/v1/auth/me', headers: bearer(accessToken) })
+        const { keys } = body<{ keys: JsonWebKey[] }>(await app.inject({ method: 'GET', url: '/.well-known/jwks.json' }))
+
+        expect(me.statusCode).toBe(200)
+        expect(keys).toHaveLength(2)
+        await app.close()
+    })
+
+    it('refuses tokens once the old key is removed', async () => {
+        process.env.JWT_ALGORITHM = 'ES256'
+        process.env.JWT_PRIVATE_KEY_FILE = oldKey.privateKey
+        const before = await createTestApp()
+        const { accessToken } = await loginTokens(before.app, ADMIN.username, ADMIN.password)
+        await before.app.close()
+
+        process.env.JWT_PRIVATE_KEY_FILE = newKey.privateKey
+        const { app } = await createTestApp()
+
+        const me = await app.inject({ method: 'GET', url: '/api/v1/auth/me', headers: bearer(accessToken) })
+
+        expect(me.statusCode).toBe(401)
+        expect(body(me).code).toBe('token_invalid')
+        await app.close()
+    })
+})
@@ -0,0 +1,123 @@
+/**
+ * OAuth authorization code flow (GET/POST /oauth/authorize, then the
+ * authorization_code grant at POST /oauth/token): the consent page, PKCE
+ * and single use of codes
+ */
+
+import { FastifyInstance } from 'fastify'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { ADMIN, bearer, body, createTestApp, DEMO_CLIENT, loginTokens, postForm, tokenRequest } from './app.helper'
+
+// RFC 7636 appendix B
+const CODE_VERIFIER = 'dBjftJeZ4CVP-mB92K27uhbUJU1p1r_wW1gFWFOEjXk'
+const CODE_CHALLENGE = 'E9Melhoa2OwvFrEMTJguCHaoeK1t8URWbuGJSstw-cM'
+
+const AUTHORIZE_REQUEST = {
+    response_type: 'code',
+    client_id: DEMO_CLIENT.clientId,
+    redirect_uri: DEMO_CLIENT.redirectUri,
+    state: 'xyz',
+    scope: 'users:read',
+    code_challenge: CODE_CHALLENGE,
+    code_challenge_method: 'S256'
+}
+
+let app: FastifyInstance
+
+beforeEach(async () => {
+    ({ app } = await createTestApp())
+})
+
+afterEach(async () => {
+    await app.close()
+    vi.restoreAllMocks()
+})
+
+/**
+ * Sign in as the admin on the consent page, allow, and return the code
+ */
+async function authorize(): Promise<string> {
+    const response = await postForm(app, '/api/v1/oauth/authorize', {
+        ...AUTHORIZE_REQUEST,
+        username: ADMIN.username,
+        password: ADMIN.password,
+        decision: 'allow'
+    })
+    expect(response.statusCode).toBe(302)
+
+    const location = new URL(response.headers.location as string)
+    expect(location.searchParams.get('state')).toBe('xyz')
+    return location.searchParams.get('code') as string
+}
+
+function exchange(code: string, codeVerifier = CODE_VERIFIER): ReturnType<typeof tokenRequest> {
+    return tokenRequest(app, {
+        grant_type: 'authorization_code',
+        code,
+        redirect_uri: DEMO_CLIENT.redirectUri,
+        code_verifier: codeVerifier
+    })
+}
+
+describe('consent page', () => {
+    it('states what the client gets and what it doesn\'t', async () => {
+        const query = new URLSearchParams(AUTHORIZE_REQUEST)
+
+        const response = await app.inject({ method: 'GET', url: `/api/v1/oauth/authorize?${query}` })
+
+        expect(response.statusCode).toBe(200)
+        expect(response.body).toContain('<code>users:read</code>')
+        expect(response.body).toContain('sign itself out')
+        expect(response.body).toContain('It can\'t see or change your sessions, your password or your two-factor')
+    })
+})
+
+describe('authorization_code grant', () => {
+    it('exchanges a code for tokens limited to the approved scopes', async () => {
+        const response = await exchange(await authorize())
+
+        expect(response.statusCode).toBe(200)
+        expect(body(response)).toMatchObject({ token_type: 'Bearer', scope: 'users:read', refresh_token: expect.any(String) })
+    })
+
+    it('refuses a code_verifier that doesn\'t match the code_challenge', async () => {
+        const response = await exchange(await authorize(), 'x'.repeat(43))
+
+        expect(response.statusCode).toBe(400)
+        expect(body(response).error).toBe('invalid_grant')
+    })
+
+    it('revokes the session of the first exchange when a code is replayed', async () => {
+        const code = await authorize()
+        const first = body<{ refresh_token: string }>(await exchange(code))
+
+        const replayed = await exchange(code)
+
+        expect(replayed.statusCode).toBe(400)
+        expect(body(replayed).error).toBe('invalid_grant')
+        const refreshed = await tokenRequest(app, { grant_type: 'refresh_token', refresh_token: first.refresh_token })
+        expect(refreshed.statusCode).toBe(400)
+    })
+
+    it('fails both exchanges when a code is replayed while the first one starts its session', async () => {
+        const code = await authorize()
+        const recordSession = app.oauthCodes.recordSession.bind(app.oauthCodes)
+        let replayed: Awaited<ReturnType<typeof exchange>> | undefined
+        let started: string | undefined
+        vi.spyOn(app.oauthCodes, 'recordSession').mockImplementationOnce(async (raw, sessionId) => {
+            // The replay arrives before the first exchange records its session
+            replayed = await exchange(code)
+            started = sessionId
+            return recordSession(raw, sessionId)
+        })
+
+        const first = await exchange(code)
+
+        expect(replayed?.statusCode).toBe(400)
+        expect(first.statusCode).toBe(400)
+        expect(body(first).error).toBe('invalid_grant')
+        const { accessToken } = await loginTokens(app, ADMIN.username, ADMIN.password)
+        const sessions = await app.inject({ method: 'GET', url: '/api/v1/auth/sessions', headers: bearer(accessToken) })
+        expect(body<{ sessions: { id: string }[] }>(sessions).sessions.map(session => session.id)).not.toContain(started)
+    })
+})
@@ -0,0 +1,140 @@
+/**
+ * OAuth token endpoint (POST /oauth/token): client authentication and
+ * what the tokens of each grant may reach
+ */
+
+import { FastifyInstance } from 'fastify'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { ADMIN, bearer, body, claimsOf, createTestApp, registerUser, tokenRequest } from './app.helper'
+
+let app: FastifyInstance
+
+beforeEach(async () => {
+    ({ app } = await createTestApp())
+})
+
+afterEach(async () => {
+    await app.close()
+})
+
+describe('password and refresh_token grants', () => {
+    function passwordGrant(username: string, password: string): ReturnType<typeof tokenRequest> {
+        return tokenRequest(app, { grant_type: 'password', username, password, scope: 'users:read' })
+    }
+
+    it('reports the granted scopes and narrows the token to them', async () => {
+        const response = await passwordGrant(ADMIN.username, ADMIN.password)
+
+        expect(response.statusCode).toBe(200)
+        expect(body(response).scope).toBe('users:read')
+        expect(claimsOf(body<{ access_token: string }>(response).access_token)).toMatchObject({
+            roles: [],
+            permissions: ['users:read'],
+            client_id: 'demo-client',
+            scope: 'users:read'
+        })
+    })
+
+    it('reports the granted scopes when the user has none of their permissions', async () => {
+        await registerUser(app, 'alice', 'Correct-Horse-42')
+
+        const response = await passwordGrant('alice', 'Correct-Horse-42')
+
+        expect(response.statusCode).toBe(200)
+        expect(body(response).scope).toBe('users:read')
+        expect(claimsOf(body<{ access_token: string }>(response).access_token)).toMatchObject({ permissions: [] })
+    })
+
+    it('keeps the scopes of the session on refresh', async () => {
+        const issued = body<{ refresh_token: string }>(await passwordGrant(ADMIN.username, ADMIN.password))
+
+        const response = await tokenRequest(app, { grant_type: 'refresh_token', refresh_token: issued.refresh_token })
+
+        expect(response.statusCode).toBe(200)
+        expect(body(response).scope).toBe('users:read')
+        expect(body(response).refresh_token).not.toBe(issued.refresh_token)
+    })
+
+    it.each([
+        ['GET', '/api/v1/auth/sessions'],
+        ['DELETE', '/api/v1/auth/sessions/any'],
+        ['POST', '/api/v1/auth/logout-all'],
+        ['POST', '/api/v1/auth/mfa/totp/enroll'],
+        ['POST', '/api/v1/auth/mfa/totp/confirm'],
+        ['POST', '/api/v1/auth/password/change']
+    ] as const)('gets 403 with a scoped token on the account route %s %s', async (method, url) => {
+        const issued = body<{ access_token: string }>(await passwordGrant(ADMIN.username, ADMIN.password))
+
+        const response = await app.inject({ method, url, headers: bearer(issued.access_token), payload: {} })
+
+        expect(response.statusCode).toBe(403)
+        expect(body(response).code).toBe('insufficient_permissions')
+    })
+
+    it('reaches the profile with a scoped token', async () => {
+        const issued = body<{ access_token: string }>(await passwordGrant(ADMIN.username, ADMIN.password))
+
+        const response = await app.inject({ method: 'GET', url: '/api/v1/auth/me', headers: bearer(issued.access_token) })
+
+        expect(response.statusCode).toBe(200)
+        expect(body<{ user: { client_id: string } }>(response).user.client_id).toBe('demo-client')
+    })
+})
+
+describe('client_credentials grant', () => {
+    async function clientToken(): Promise<string> {
+        const response = await tokenRequest(app, { grant_type: 'client_credentials' })
+        expect(response.statusCode).toBe(200)
+        return body<{ access_token: string }>(response).access_token
+    }
+
+    it('issues a token with the client\'s scopes', async () => {
+        const response = await tokenRequest(app, { grant_type: 'client_credentials', scope: 'users:read' })
+
+        expect(response.statusCode).toBe(200)
+        expect(body(response)).toMatchObject({ token_type: 'Bearer', scope: 'users:read' })
+        expect(body(response).refresh_token).toBeUndefined()
+    })
+
+    it('refuses scopes the client isn\'t registered for', async () => {
+        const response = await tokenRequest(app, { grant_type: 'client_credentials', scope: 'users:write' })
+
+        expect(response.statusCode).toBe(400)
+        expect(body(response).error).toBe('invalid_scope')
+    })
+
+    it('refuses a wrong client secret', async () => {
+        const basic = Buffer.from('demo-client:wrong').toString('base64')
+        const response = await app.inject({
+            method: 'POST',
+            url: '/api/v1/oauth/token',
+            headers: { authorization: `Basic ${basic}`, 'content-type': 'application/x-www-form-urlencoded' },
+            payload: 'grant_type=client_credentials'
+        })
+
+        expect(response.statusCode).toBe(401)
+        expect(body(response).error).toBe('invalid_client')
+    })
+
+    it.each([
+        ['GET', '/api/v1/auth/me'],
+        ['GET', '/api/v1/auth/sessions'],
+        ['POST', '/api/v1/auth/logout-all'],
+        ['POST', '/api/v1/auth/mfa/totp/enroll'],
+        ['POST', '/api/v1/auth/password/change']
+    ] as const)('gets 403 on the user route %s %s', async (method, url) => {
+        const response = await app.inject({ method, url, headers: bearer(await clientToken()), payload: {} })
+
+        expect(response.statusCode).toBe(403)
+        expect(body(response).code).toBe('insufficient_permissions')
+    })
+
+    it('can\'t revoke its own subject through logout-all', async () => {
+        const accessToken = await clientToken()
+        await app.inject({ method: 'POST', url: '/api/v1/auth/logout-all', headers: bearer(accessToken) })
+
+        const next = await app.inject({ method: 'GET', url: '/api/v1/auth/me', headers: bearer(accessToken) })
+
+        expect(body(next).code).not.toBe('token_revoked')
+    })
+})
@@ -0,0 +1,86 @@
+/**
+ * OpenAPI document (GET /openapi.json) and Swagger UI (GET /docs):
+ * served without a token, with security derived from the auth guard
+ */
+
+import { FastifyInstance } from 'fastify'
+import { afterEach, describe, expect, it } from 'vitest'
+import { createTestApp } from './app.helper'
+
+interface Operation {
+    security?: Record<string, string[]>[]
+    description?: string
+}
+
+interface OpenApiDocument {
+    openapi: string
+    paths: Record<string, Record<string, Operation>>
+    components: { securitySchemes: Record<string, unknown> }
+}
+
+const saved = { ...process.env }
+
+let app: FastifyInstance
+
+afterEach(async () => {
+    await app.close()
+    process.env = { ...saved }
+})
+
+async function openapiDocument(): Promise<OpenApiDocument> {
+    const response = await app.inject({ method: 'GET', url: '/api/v1/openapi.json' })
+    expect(response.statusCode).toBe(200)
+    return response.json() as OpenApiDocument
+}
+
+describe('GET /openapi.json', () => {
+    it('serves an OpenAPI 3.1 document of the routes without a token', async () => {
+        ({ app } = await createTestApp())
+
+        const document = await openapiDocument()
+
+        expect(document.openapi).toBe('3.1.0')
+        expect(Object.keys(document.components.securitySchemes)).toEqual(expect.arrayContaining(['bearerAuth', 'oauthClient']))
+        expect(document.paths['/api/v1/auth/login'].post).toBeDefined()
+        expect(document.paths['/api/v1/health'].get).toBeDefined()
+        expect(document.paths['/api/v1/openapi.json']).toBeUndefined()
+    })
+
+    it('requires the bearer scheme exactly where the auth guard does', async () => {
+        ({ app } = await createTestApp())
+
+        const { paths } = await openapiDocument()
+
+        expect(paths['/api/v1/auth/login'].post.security).toEqual([])
+        expect(paths['/api/v1/health'].get.security).toEqual([])
+        expect(paths['/api/v1/auth/me'].get.security).toEqual([{ bearerAuth: [] }])
+        expect(paths['/api/v1/oauth/token'].post.security).toEqual([{ oauthClient: [] }])
+    })
+
+    it('lists role and token requirements in the description', async () => {
+        ({ app } = await createTestApp())
+
+        const { paths } = await openapiDocument()
+
+        expect(paths['/api/v1/admin/users'].get.description).toContain('role admin')
+        expect(paths['/api/v1/auth/sessions'].get.description).toContain('not one issued to an OAuth client')
+    })
+
+    it('is not served when API_DOCS_ENABLED=false', async () => {
+        process.env.API_DOCS_ENABLED = 'false'
+        ;({ app } = await createTestApp())
+
+        expect((await app.inject({ method: 'GET', url: '/api/v1/openapi.json' })).statusCode).toBe(404)
+    })
+})
+
+describe('GET /docs', () => {
+    it('serves the Swagger UI without a token', async () => {
+        ({ app } = await createTestApp())
+
+        const response = await app.inject({ method: 'GET', url: '/api/v1/docs/' })
+
+        expect(response.statusCode).toBe(200)
+        expect(response.headers['content-type']).toContain('text/html')
+    })
+})
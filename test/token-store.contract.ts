@@ -0,0 +1,191 @@
+/**
+ * ITokenStore Contract
+ *
+ * Behaviour every refresh token backend must share, so AuthService works
+ * the same on any of them. Each backend's test file calls
+ * describeTokenStoreContract() with a factory for a fresh, empty store.
+ *
+ * Expiry is tested by moving the clock (fake Date) instead of waiting.
+ *
+ * @module token-store.contract
+ * @see {@link ../src/modules/auth/token.store.ts} for the ITokenStore contract
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { ITokenStore, hashToken } from '../src/modules/auth/token.store'
+
+/**
+ * Create a fresh, empty store for one test
+ */
+export type TokenStoreFactory = () => Promise<ITokenStore>
+
+/**
+ * Register the contract tests for one backend
+ *
+ * @param name Backend name shown in the test report
+ * @param createStore Factory for a fresh, empty store
+ */
+export function describeTokenStoreContract(name: string, createStore: TokenStoreFactory): void {
+    describe(`${name} (ITokenStore contract)`, () => {
+        let store: ITokenStore
+
+        beforeEach(async () => {
+            vi.useFakeTimers({ toFake: ['Date'] })
+            store = await createStore()
+        })
+
+        afterEach(async () => {
+            await store.close()
+            vi.useRealTimers()
+        })
+
+        it('saves a token and looks it up with its session metadata', async () => {
+            const tokenHash = hashToken('token-1')
+            const familyId = await store.saveToken(tokenHash, 'alice', 60, undefined, {
+                deviceName: 'Laptop',
+                userAgent: 'test-agent',
+                ip: '203.0.113.7',
+                sessionStartedAt: 1000,
+                clientId: 'demo-client',
+                scopes: ['users:read', 'sessions:read']
+            })
+
+            expect(familyId).toEqual(expect.any(String))
+            expect(await store.getToken(tokenHash)).toMatchObject({
+                username: 'alice',
+                familyId,
+                deviceName: 'Laptop',
+                userAgent: 'test-agent',
+                ip: '203.0.113.7',
+                sessionStartedAt: 1000,
+                clientId: 'demo-client',
+                scopes: ['users:read', 'sessions:read']
+            })
+            expect(await store.verifyToken(tokenHash)).toBe('alice')
+        })
+
+        it('tells an empty scope list apart from no scopes', async () => {
+            await store.saveToken(hashToken('no-scopes'), 'alice', 60, undefined, { clientId: 'demo-client', scopes: [] })
+            await store.saveToken(hashToken('unscoped'), 'alice', 60)
+
+            expect((await store.getToken(hashToken('no-scopes')))?.scopes).toEqual([])
+            expect((await store.getToken(hashToken('unscoped')))?.scopes).toBeUndefined()
+        })
+
+        it('returns null for unknown tokens', async () => {
+            expect(await store.getToken(hashToken('unknown'))).toBeNull()
+            expect(await store.verifyToken(hashToken('unknown'))).toBeNull()
+            expect(await store.markRotated(hashToken('unknown'))).toBe(false)
+        })
+
+        it('joins an existing family when given its id', async () => {
+            const familyId = await store.saveToken(hashToken('token-1'), 'alice', 60)
+            const joined = await store.saveToken(hashToken('token-2'), 'alice', 60, familyId)
+
+            expect(joined).toBe(familyId)
+            expect((await store.getToken(hashToken('token-2')))?.familyId).toBe(familyId)
+        })
+
+        it('rotates a token exactly once and keeps it for reuse detection', async () => {
+            const tokenHash = hashToken('token-1')
+            await store.saveToken(tokenHash, 'alice', 60)
+
+            expect(await store.markRotated(tokenHash)).toBe(true)
+            expect(await store.markRotated(tokenHash)).toBe(false)
+
+            expect(await store.verifyToken(tokenHash)).toBeNull()
+            expect((await store.getToken(tokenHash))?.rotatedAt).toEqual(expect.any(Number))
+        })
+
+        it('lets only one of several concurrent rotations win', async () => {
+            const tokenHash = hashToken('token-1')
+            await store.saveToken(tokenHash, 'alice', 60)
+
+            const results = await Promise.all([1, 2, 3].map(() => store.markRotated(tokenHash)))
+
+            expect(results.filter(Boolean)).toHaveLength(1)
+        })
+
+        it('revokes a single token', async () => {
+            await store.saveToken(hashToken('token-1'), 'alice', 60)
+            await store.saveToken(hashToken('token-2'), 'alice', 60)
+
+            await store.revokeToken(hashToken('token-1'))
+
+            expect(await store.getToken(hashToken('token-1'))).toBeNull()
+            expect(await store.verifyToken(hashToken('token-2'))).toBe('alice')
+        })
+
+        it('revokes a whole family, rotated tokens included', async () => {
+            const familyId = await store.saveToken(hashToken('token-1'), 'alice', 60)
+            await store.markRotated(hashToken('token-1'))
+            await store.saveToken(hashToken('token-2'), 'alice', 60, familyId)
+            await store.saveToken(hashToken('other-session'), 'alice', 60)
+
+            expect(await store.revokeFamily(familyId)).toBe(2)
+
+            expect(await store.getToken(hashToken('token-1'))).toBeNull()
+            expect(await store.getToken(hashToken('token-2'))).toBeNull()
+            expect(await store.verifyToken(hashToken('other-session'))).toBe('alice')
+            expect(await store.revokeFamily(familyId)).toBe(0)
+        })
+
+        it('revokes every token of one user only', async () => {
+            await store.saveToken(hashToken('alice-1'), 'alice', 60)
+            await store.saveToken(hashToken('alice-2'), 'alice', 60)
+            await store.saveToken(hashToken('bob-1'), 'bob', 60)
+
+            expect(await store.revokeAllUserTokens('alice')).toBe(2)
+
+            expect(await store.getUserTokens('alice')).toEqual([])
+            expect(await store.verifyToken(hashToken('bob-1'))).toBe('bob')
+        })
+
+        it('lists a user\'s tokens, rotated ones included', async () => {
+            const familyId = await store.saveToken(hashToken('token-1'), 'alice', 60)
+            await store.markRotated(hashToken('token-1'))
+            await store.saveToken(hashToken('token-2'), 'alice', 60, familyId)
+            await store.saveToken(hashToken('bob-1'), 'bob', 60)
+
+            const tokens = await store.getUserTokens('alice')
+
+            expect(tokens).toHaveLength(2)
+            expect(tokens.every(token => token.username === 'alice' && token.familyId === familyId)).toBe(true)
+            expect(tokens.filter(token => token.rotatedAt !== undefined)).toHaveLength(1)
+        })
+
+        it('stops accepting a token once it has expired', async () => {
+            const tokenHash = hashToken('token-1')
+            await store.saveToken(tokenHash, 'alice', 60)
+
+            vi.setSystemTime(Date.now() + 61 * 1000)
+
+            expect(await store.getToken(tokenHash)).toBeNull()
+            expect(await store.verifyToken(tokenHash)).toBeNull()
+            expect(await store.getUserTokens('alice')).toEqual([])
+        })
+
+        it('keeps unexpired tokens through cleanupExpired', async () => {
+            await store.saveToken(hashToken('short'), 'alice', 60)
+            await store.saveToken(hashToken('long'), 'alice', 600)
+
+            vi.setSystemTime(Date.now() + 61 * 1000)
+            await store.cleanupExpired()
+
+            expect(await store.getToken(hashToken('short'))).toBeNull()
+            expect(await store.verifyToken(hashToken('long'))).toBe('alice')
+        })
+
+        it('reports stats without tokens or hashes', async () => {
+            const tokenHash = hashToken('token-1')
+            await store.saveToken(tokenHash, 'alice', 60)
+            await store.markRotated(tokenHash)
+
+            const stats = await store.getStats()
+
+            expect(stats.totalTokens).toBe(1)
+            expect(stats.tokens[0]).toMatchObject({ username: 'alice', isExpired: false, isRotated: true })
+            expect(JSON.stringify(stats)).not.toContain(tokenHash)
+        })
+    })
+}
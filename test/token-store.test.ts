@@ -0,0 +1,87 @@
+/**
+ * Token store backends against the shared ITokenStore contract, plus
+ * what is specific to each backend (persistence of the file log)
+ *
+ * RedisTokenStore runs against ioredis-mock, an in-process fake that
+ * also executes the store's Lua scripts; no redis-server is needed.
+ */
+
+import { mkdtemp, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import path from 'path'
+import RedisMock from 'ioredis-mock'
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import { FileTokenStore } from '../src/modules/auth/file-token.store'
+import { RedisTokenStore } from '../src/modules/auth/redis-token.store'
+import { InMemoryTokenStore, hashToken } from '../src/modules/auth/token.store'
+import { ADMIN, createTestApp, loginTokens } from './app.helper'
+import { describeTokenStoreContract } from './token-store.contract'
+
+let dir: string
+let files = 0
+
+beforeAll(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'token-store-'))
+})
+
+afterAll(async () => {
+    await rm(dir, { recursive: true, force: true })
+})
+
+/**
+ * A path for a new, not yet existing log file
+ */
+function newLogFile(): string {
+    return path.join(dir, `tokens-${++files}.jsonl`)
+}
+
+describeTokenStoreContract('InMemoryTokenStore', async () => new InMemoryTokenStore())
+
+describeTokenStoreContract('FileTokenStore', async () => new FileTokenStore(newLogFile()))
+
+describeTokenStoreContract('RedisTokenStore', async () => {
+    // ioredis-mock instances share one dataset; start each test empty
+    const client = new RedisMock()
+    await client.flushall()
+    return new RedisTokenStore(client)
+})
+
+describe('FileTokenStore persistence', () => {
+    it('restores tokens, rotations and revocations from the log', async () => {
+        const file = newLogFile()
+        const first = new FileTokenStore(file)
+        const familyId = await first.saveToken(hashToken('rotated'), 'alice', 60, undefined, { deviceName: 'Laptop' })
+        await first.markRotated(hashToken('rotated'))
+        await first.saveToken(hashToken('current'), 'alice', 60, familyId)
+        await first.saveToken(hashToken('revoked'), 'bob', 60)
+        await first.revokeAllUserTokens('bob')
+        await first.close()
+
+        const second = new FileTokenStore(file)
+
+        expect(await second.verifyToken(hashToken('current'))).toBe('alice')
+        expect(await second.getToken(hashToken('rotated'))).toMatchObject({ familyId, deviceName: 'Laptop' })
+        expect(await second.verifyToken(hashToken('rotated'))).toBeNull()
+        expect(await second.getToken(hashToken('revoked'))).toBeNull()
+        await second.close()
+    })
+
+    it('keeps sessions signed in across a restart with TOKEN_STORE=file', async () => {
+        const saved = { ...process.env }
+        process.env.TOKEN_STORE = 'file'
+        process.env.TOKEN_STORE_FILE = newLogFile()
+        try {
+            const { app: before } = await createTestApp()
+            const { refreshToken } = await loginTokens(before, ADMIN.username, ADMIN.password)
+            await before.close()
+
+            const { app: after } = await createTestApp()
+            const response = await after.inject({ method: 'POST', url: '/api/v1/auth/refresh', payload: { refreshToken } })
+            await after.close()
+
+            expect(response.statusCode).toBe(200)
+        } finally {
+            process.env = saved
+        }
+    })
+})
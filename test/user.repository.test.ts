@@ -0,0 +1,118 @@
+/**
+ * User repositories: the password reset token index, and single use of
+ * second-factor codes under concurrency
+ */
+
+import { mkdtemp, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import path from 'path'
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest'
+import { FileUserRepository, InMemoryUserRepository, UserRepository } from '../src/modules/users/user.repository'
+
+let dir: string
+let files = 0
+
+beforeAll(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'user-repository-'))
+})
+
+afterAll(async () => {
+    await rm(dir, { recursive: true, force: true })
+})
+
+const backends: [string, () => UserRepository][] = [
+    ['InMemoryUserRepository', () => new InMemoryUserRepository()],
+    ['FileUserRepository', () => new FileUserRepository(path.join(dir, `users-${++files}.json`))]
+]
+
+describe.each(backends)('%s consumeMfaCode', (_name, createRepository) => {
+    let users: UserRepository
+
+    beforeEach(async () => {
+        users = createRepository()
+        await users.create({
+            username: 'alice',
+            passwordHash: 'hash',
+            roles: ['user'],
+            permissions: [],
+            createdAt: 0,
+            updatedAt: 0,
+            totp: { secret: 'SECRET', confirmedAt: 0, lastUsedStep: 10, recoveryCodeHashes: ['r1', 'r2'] }
+        })
+    })
+
+    it('accepts a TOTP step only once, even when used concurrently', async () => {
+        const results = await Promise.all([1, 2, 3].map(() => users.consumeMfaCode('alice', { step: 11 })))
+
+        expect(results.filter(Boolean)).toHaveLength(1)
+        expect((await users.findByUsername('alice'))?.totp?.lastUsedStep).toBe(11)
+    })
+
+    it('rejects the last used step and older ones', async () => {
+        expect(await users.consumeMfaCode('alice', { step: 10 })).toBeNull()
+        expect(await users.consumeMfaCode('alice', { step: 9 })).toBeNull()
+    })
+
+    it('removes a recovery code on its only successful use', async () => {
+        const results = await Promise.all([1, 2].map(() => users.consumeMfaCode('alice', { recoveryCodeHash: 'r1' })))
+
+        expect(results.filter(Boolean)).toHaveLength(1)
+        expect((await users.findByUsername('alice'))?.totp?.recoveryCodeHashes).toEqual(['r2'])
+    })
+
+    it('returns null for users without two-factor settings', async () => {
+        expect(await users.consumeMfaCode('bob', { step: 11 })).toBeNull()
+    })
+})
+
+describe.each(backends)('%s findByPasswordResetToken', (_name, createRepository) => {
+    let users: UserRepository
+
+    beforeEach(async () => {
+        users = createRepository()
+        await users.create({
+            username: 'alice',
+            passwordHash: 'hash',
+            roles: ['user'],
+            permissions: [],
+            createdAt: 0,
+            updatedAt: 0,
+            passwordReset: { tokenHash: 'first', requestedAt: 0, expiresAt: 1 }
+        })
+    })
+
+    it('finds the user by the hash of their outstanding token', async () => {
+        expect((await users.findByPasswordResetToken('first'))?.username).toBe('alice')
+        expect(await users.findByPasswordResetToken('unknown')).toBeNull()
+    })
+
+    it('forgets a token once it is replaced or removed', async () => {
+        await users.update('alice', { passwordReset: { tokenHash: 'second', requestedAt: 0, expiresAt: 1 } })
+
+        expect(await users.findByPasswordResetToken('first')).toBeNull()
+        expect((await users.findByPasswordResetToken('second'))?.username).toBe('alice')
+
+        await users.update('alice', { passwordReset: undefined })
+
+        expect(await users.findByPasswordResetToken('second')).toBeNull()
+    })
+})
+
+describe('FileUserRepository reset token index', () => {
+    it('is rebuilt when the file is loaded', async () => {
+        const file = path.join(dir, `users-${++files}.json`)
+        await new FileUserRepository(file).create({
+            username: 'alice',
+            passwordHash: 'hash',
+            roles: ['user'],
+            permissions: [],
+            createdAt: 0,
+            updatedAt: 0,
+            passwordReset: { tokenHash: 'persisted', requestedAt: 0, expiresAt: 1 }
+        })
+
+        const reloaded = new FileUserRepository(file)
+
+        expect((await reloaded.findByPasswordResetToken('persisted'))?.username).toBe('alice')
+    })
+})